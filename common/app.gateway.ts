@@ -71,6 +71,8 @@ export class AppGateway implements OnGatewayConnection, OnGatewayDisconnect {
 
             // Join personal room for direct 1-on-1 emits across cluster
             await socket.join(`user_${userId}`);
+            // and the tenant room, for what the whole team sees (e.g. who is editing an order)
+            await socket.join(`tenant_${user.adminId || userId}`);
 
             // FIX 1: Track connection count across ALL PM2 workers
             const activeConnections = await this.redisClient.incr(`user_sockets:${userId}`);
@@ -161,6 +163,38 @@ export class AppGateway implements OnGatewayConnection, OnGatewayDisconnect {
         });
     }
 
+    emitProductImportProgress(userId: string, payload: {
+        importId: string;
+        status: string;
+        totalRows: number;
+        processedRows: number;
+        createdCount: number;
+        updatedCount: number;
+        failedCount: number;
+        message?: string;
+    }) {
+        this.server.to(`user_${userId}`).emit("product:import-progress", {
+            ...payload,
+            timestamp: new Date(),
+        });
+    }
+
+    emitOrderBulkJobProgress(userId: string, payload: {
+        jobId: string;
+        action: string;
+        status: string;
+        totalCount: number;
+        processedCount: number;
+        succeededCount: number;
+        failedCount: number;
+        items?: { orderId: string; orderNumber?: string; success: boolean; message?: string }[];
+    }) {
+        this.server.to(`user_${userId}`).emit("order:bulk-job-progress", {
+            ...payload,
+            timestamp: new Date(),
+        });
+    }
+
     emitAutomationRunStatus(userId: string, payload: {
         runId: string;
         automationFlowId: string;
@@ -189,6 +223,18 @@ export class AppGateway implements OnGatewayConnection, OnGatewayDisconnect {
         });
     }
 
+    emitOrderEditLock(adminId: string, payload: {
+        orderId: string;
+        status: 'locked' | 'released';
+        lock: { userId: string; userName: string; acquiredAt: string };
+        releasedBy?: string;
+    }) {
+        this.server.to(`tenant_${adminId}`).emit("order:edit-lock", {
+            ...payload,
+            timestamp: new Date(),
+        });
+    }
+
     // --- WhatsApp & Conversation Notifications ---
 
     emitNewMessage(userId: string, message: WhatsappMessageEntity) {
@@ -0,0 +1,72 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
+import { NotificationService } from 'src/notifications/notification.service';
+import { NotificationType } from 'entities/notifications.entity';
+import { RequestTranslationService } from 'common/translation.service';
+import { ExpiringLot, LotsService } from 'src/lots/lots.service';
+
+@Injectable()
+export class LotExpiryService {
+  private readonly logger = new Logger(LotExpiryService.name);
+
+  // Lots expiring within this many days are reported (each lot once).
+  private readonly EXPIRY_WARNING_DAYS = 30;
+
+  constructor(
+    private readonly lotsService: LotsService,
+    private readonly notificationService: NotificationService,
+    private requestTranslations: RequestTranslationService,
+  ) { }
+
+  // Runs every day at 2:30 AM (between the low stock check and the ledger reconciliation)
+  @Cron('0 30 2 * * *')
+  async handleLotExpiry() {
+    this.logger.log('Checking for lots nearing expiry...');
+
+    try {
+      const lots = await this.lotsService.findExpiringForAlert(this.EXPIRY_WARNING_DAYS);
+
+      if (lots.length === 0) {
+        this.logger.log('No lots nearing expiry.');
+        return;
+      }
+
+      // Group by admin so each tenant gets a single notification
+      const groupedByAdmin = lots.reduce((acc, lot) => {
+        if (!acc[lot.adminId]) acc[lot.adminId] = [];
+        acc[lot.adminId].push(lot);
+        return acc;
+      }, {} as Record<string, ExpiringLot[]>);
+
+      const today = new Date().toISOString().slice(0, 10);
+
+      for (const [adminId, adminLots] of Object.entries(groupedByAdmin)) {
+        if (!adminId || adminId === 'null') continue;
+
+        const expired = adminLots.filter((l) => String(l.expiryDate) < today).length;
+        const first = adminLots[0];
+
+        await this.notificationService.create({
+          userId: adminId,
+          type: NotificationType.LOT_EXPIRY_ALERT,
+          title: await this.requestTranslations.tAsync('domains.products.lots.expiry_alert_title', adminId),
+          message: adminLots.length === 1
+            ? await this.requestTranslations.tAsync('domains.products.lots.expiry_alert_single', adminId, {
+              args: { sku: first.sku, lotNumber: first.lotNumber, expiryDate: first.expiryDate, quantity: first.quantity }
+            })
+            : await this.requestTranslations.tAsync('domains.products.lots.expiry_alert_multiple', adminId, {
+              args: { count: adminLots.length, expired, days: this.EXPIRY_WARNING_DAYS }
+            }),
+          relatedEntityType: 'product_variant',
+          relatedEntityId: adminLots.length === 1 ? first.variantId : undefined,
+        });
+
+        await this.lotsService.markExpiryNotified(adminLots.map((l) => l.id));
+      }
+
+      this.logger.log(`Lot expiry check completed. ${lots.length} lots reported.`);
+    } catch (error) {
+      this.logger.error('Error checking lot expiry', error);
+    }
+  }
+}
@@ -1,13 +1,14 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { Cron, CronExpression } from '@nestjs/schedule';
 import { InjectRepository } from '@nestjs/typeorm';
-import { ProductVariantEntity } from 'entities/sku.entity';
+import { ProductVariantEntity, VariantWarehouseStockEntity } from 'entities/sku.entity';
 import { User } from 'entities/user.entity';
 import { ClientSettingsEntity } from 'entities/clientSettings.entity';
 import { NotificationService } from 'src/notifications/notification.service';
 import { NotificationType } from 'entities/notifications.entity'; // Adjust import path as needed
 import { Brackets, Repository } from 'typeorm';
 import { RequestTranslationService } from 'common/translation.service';
+import { PurchaseSuggestionsService } from 'src/purchase-suggestions/purchase-suggestions.service';
 
 @Injectable()
 export class LowStockService {
@@ -19,14 +20,30 @@ export class LowStockService {
   constructor(
     @InjectRepository(ProductVariantEntity)
     private readonly productVariantRepo: Repository<ProductVariantEntity>,
+    @InjectRepository(VariantWarehouseStockEntity)
+    private readonly warehouseStockRepo: Repository<VariantWarehouseStockEntity>,
     @InjectRepository(User)
     private readonly userRepo: Repository<User>,
     @InjectRepository(ClientSettingsEntity)
     private readonly settingsRepo: Repository<ClientSettingsEntity>,
     private readonly notificationService: NotificationService,
     private requestTranslations: RequestTranslationService,
+    private readonly purchaseSuggestionsService: PurchaseSuggestionsService,
   ) { }
 
+  // Runs every 24 hours at 2:15 AM, after the low stock alerts
+  @Cron('0 15 2 * * *')
+  async handlePurchaseSuggestions() {
+    this.logger.log('Generating purchase suggestions for variants below their reorder point...');
+
+    try {
+      const { admins, suggestions } = await this.purchaseSuggestionsService.generateForAllAdmins();
+      this.logger.log(`Purchase suggestions generated. Checked ${admins} admins, ${suggestions} suggestions got new lines.`);
+    } catch (error) {
+      this.logger.error('Error generating purchase suggestions', error);
+    }
+  }
+
   // Runs every 24 hours at 2:00 AM
   @Cron('0 0 2 * * *')
   async handleLowStock() {
@@ -68,7 +85,15 @@ export class LowStockService {
 
       const lowStockVariants = await qb.getMany();
 
-      if (lowStockVariants.length === 0) {
+      // Per-warehouse rows running low (the variant total may still be fine)
+      const lowWarehouseRows = await this.warehouseStockRepo
+        .createQueryBuilder('ws')
+        .innerJoinAndSelect('ws.warehouse', 'warehouse')
+        .where('warehouse.isActive = true')
+        .andWhere('ws.stockOnHand <= :threshold', { threshold: this.LOW_STOCK_THRESHOLD })
+        .getMany();
+
+      if (lowStockVariants.length === 0 && lowWarehouseRows.length === 0) {
         this.logger.log('No low stock items found.');
         return;
       }
@@ -80,8 +105,21 @@ export class LowStockService {
         return acc;
       }, {} as Record<string, ProductVariantEntity[]>);
 
+      // adminId -> warehouse name -> number of low SKUs
+      const warehousesByAdmin = lowWarehouseRows.reduce((acc, row) => {
+        if (!acc[row.adminId]) acc[row.adminId] = {};
+        const name = row.warehouse?.name ?? row.warehouseId;
+        acc[row.adminId][name] = (acc[row.adminId][name] ?? 0) + 1;
+        return acc;
+      }, {} as Record<string, Record<string, number>>);
+
+      const adminIds = new Set([...Object.keys(groupedByAdmin), ...Object.keys(warehousesByAdmin)]);
+
       // 3. Process and send notifications
-      for (const [adminId, variants] of Object.entries(groupedByAdmin)) {
+      for (const adminId of adminIds) {
+        const variants = groupedByAdmin[adminId] ?? [];
+        const lowWarehouses = warehousesByAdmin[adminId] ?? {};
+
         // Get admin settings
         const settings = await this.settingsRepo.findOne({ where: { adminId } });
 
@@ -92,13 +130,26 @@ export class LowStockService {
 
         // Create a summary message
         const title = await this.requestTranslations.tAsync('domains.products.low_stock_alert_title', adminId);
-        const message = variants.length === 1
-          ? await this.requestTranslations.tAsync('domains.products.low_stock_alert_single', adminId, {
-              args: { productName: variants[0].product?.name || variants[0].sku }
-            })
-          : await this.requestTranslations.tAsync('domains.products.low_stock_alert_multiple', adminId, {
-              args: { count: variants.length }
-            });
+        const parts: string[] = [];
+
+        if (variants.length === 1) {
+          parts.push(await this.requestTranslations.tAsync('domains.products.low_stock_alert_single', adminId, {
+            args: { productName: variants[0].product?.name || variants[0].sku }
+          }));
+        } else if (variants.length > 1) {
+          parts.push(await this.requestTranslations.tAsync('domains.products.low_stock_alert_multiple', adminId, {
+            args: { count: variants.length }
+          }));
+        }
+
+        const warehouseSummary = Object.entries(lowWarehouses).map(([name, count]) => `${name} (${count})`).join(', ');
+        if (warehouseSummary) {
+          parts.push(await this.requestTranslations.tAsync('domains.products.low_stock_alert_warehouses', adminId, {
+            args: { warehouses: warehouseSummary }
+          }));
+        }
+
+        const message = parts.join(' ');
 
         // Send the notification using your standard method
         await this.notificationService.create({
@@ -111,7 +162,7 @@ export class LowStockService {
         });
       }
 
-      this.logger.log(`Low stock check completed. Alerted ${Object.keys(groupedByAdmin).length} admins.`);
+      this.logger.log(`Low stock check completed. Alerted ${adminIds.size} admins.`);
     } catch (error) {
       this.logger.error('Error checking for low stock', error);
     }
@@ -0,0 +1,58 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
+import { NotificationService } from 'src/notifications/notification.service';
+import { NotificationType } from 'entities/notifications.entity';
+import { RequestTranslationService } from 'common/translation.service';
+import { StockLedgerMismatch, StockMovementsService } from 'src/stock-movements/stock-movements.service';
+
+@Injectable()
+export class StockReconciliationService {
+  private readonly logger = new Logger(StockReconciliationService.name);
+
+  constructor(
+    private readonly stockMovementsService: StockMovementsService,
+    private readonly notificationService: NotificationService,
+    private requestTranslations: RequestTranslationService,
+  ) { }
+
+  // Runs every day at 3:00 AM (after the low stock check)
+  @Cron('0 0 3 * * *')
+  async handleReconciliation() {
+    this.logger.log('Reconciling variant stock with the movement ledger...');
+
+    try {
+      const newMismatches = await this.stockMovementsService.reconcile();
+
+      if (newMismatches.length === 0) {
+        this.logger.log('No new stock ledger mismatches found.');
+        return;
+      }
+
+      // Group by admin so each tenant gets a single notification
+      const groupedByAdmin = newMismatches.reduce((acc, m) => {
+        if (!acc[m.adminId]) acc[m.adminId] = [];
+        acc[m.adminId].push(m);
+        return acc;
+      }, {} as Record<string, StockLedgerMismatch[]>);
+
+      for (const [adminId, mismatches] of Object.entries(groupedByAdmin)) {
+        if (!adminId || adminId === 'null') continue;
+
+        await this.notificationService.create({
+          userId: adminId,
+          type: NotificationType.STOCK_LEDGER_MISMATCH,
+          title: await this.requestTranslations.tAsync('domains.products.stock_movements.mismatch_alert_title', adminId),
+          message: await this.requestTranslations.tAsync('domains.products.stock_movements.mismatch_alert_message', adminId, {
+            args: { count: mismatches.length }
+          }),
+          relatedEntityType: 'product_variant',
+          relatedEntityId: mismatches.length === 1 ? mismatches[0].variantId : undefined,
+        });
+      }
+
+      this.logger.warn(`Stock reconciliation flagged ${newMismatches.length} new variants.`);
+    } catch (error) {
+      this.logger.error('Error reconciling stock ledger', error);
+    }
+  }
+}
@@ -0,0 +1,115 @@
+// barcode.helper.ts
+
+import { BarcodeType } from "entities/product-barcode.entity";
+
+// Code 128 symbols as bar/space widths (values 0..106, 106 = stop)
+const CODE128_PATTERNS = [
+  "212222", "222122", "222221", "121223", "121322", "131222", "122213", "122312", "132212", "221213",
+  "221312", "231212", "112232", "122132", "122231", "113222", "123122", "123221", "223211", "221132",
+  "221231", "213212", "223112", "312131", "311222", "321122", "321221", "312212", "322112", "322211",
+  "212123", "212321", "232121", "111323", "131123", "131321", "112313", "132113", "132311", "211313",
+  "231113", "231311", "112133", "112331", "132131", "113123", "113321", "133121", "313121", "211331",
+  "231131", "213113", "213311", "213131", "311123", "311321", "331121", "312113", "312311", "332111",
+  "314111", "221411", "431111", "111224", "111422", "121124", "121421", "141122", "141221", "112214",
+  "112412", "122114", "122411", "142112", "142211", "241211", "221114", "413111", "241112", "134111",
+  "111242", "121142", "121241", "114212", "124112", "124211", "411212", "421112", "421211", "212141",
+  "214121", "412121", "111143", "111341", "131141", "114113", "114311", "411113", "411311", "113141",
+  "114131", "311141", "411131", "211412", "211214", "211232", "2331112",
+];
+const CODE128_START_B = 104;
+const CODE128_START_C = 105;
+const CODE128_STOP = 106;
+
+const EAN_L = ["0001101", "0011001", "0010011", "0111101", "0100011", "0110001", "0101111", "0111011", "0110111", "0001011"];
+const EAN_R = EAN_L.map((p) => p.replace(/./g, (b) => (b === "0" ? "1" : "0")));
+const EAN_G = EAN_R.map((p) => p.split("").reverse().join(""));
+// L/G parity of the left half, selected by the first digit
+const EAN_PARITY = ["LLLLLL", "LLGLGG", "LLGGLG", "LLGGGL", "LGLLGG", "LGGLLG", "LGGGLL", "LGLGLG", "LGLGGL", "LGGLGL"];
+
+export const BARCODE_MAX_LENGTH = 48;
+
+export class BarcodeHelper {
+  /**
+   * Check digit of an EAN-13 from its first 12 digits.
+   */
+  static ean13CheckDigit(first12: string): number {
+    const sum = first12
+      .split("")
+      .reduce((acc, d, i) => acc + Number(d) * (i % 2 === 0 ? 1 : 3), 0);
+    return (10 - (sum % 10)) % 10;
+  }
+
+  static isValidEan13(code: string): boolean {
+    if (!/^\d{13}$/.test(code)) return false;
+    return this.ean13CheckDigit(code.slice(0, 12)) === Number(code[12]);
+  }
+
+  // Code 128 set B covers printable ASCII
+  static isValidCode128(code: string): boolean {
+    return code.length > 0 && code.length <= BARCODE_MAX_LENGTH && /^[\x20-\x7E]+$/.test(code);
+  }
+
+  static isValid(code: string, type: BarcodeType): boolean {
+    return type === BarcodeType.EAN13 ? this.isValidEan13(code) : this.isValidCode128(code);
+  }
+
+  /**
+   * Valid EAN-13 codes are treated as EAN-13, anything else as Code 128.
+   */
+  static detectType(code: string): BarcodeType {
+    return this.isValidEan13(code) ? BarcodeType.EAN13 : BarcodeType.CODE128;
+  }
+
+  /**
+   * Random EAN-13 in the "20" in-store prefix range (never assigned to real GS1 products).
+   */
+  static generateEan13(): string {
+    let body = "20";
+    while (body.length < 12) body += Math.floor(Math.random() * 10);
+    return body + this.ean13CheckDigit(body);
+  }
+
+  /**
+   * Encodes a code as a module string ("1" = bar, "0" = space), without quiet zones.
+   */
+  static encode(code: string, type: BarcodeType): string {
+    return type === BarcodeType.EAN13 ? this.encodeEan13(code) : this.encodeCode128(code);
+  }
+
+  private static encodeEan13(code: string): string {
+    const digits = code.split("").map(Number);
+    const parity = EAN_PARITY[digits[0]];
+
+    let modules = "101";
+    for (let i = 1; i <= 6; i++) {
+      modules += parity[i - 1] === "L" ? EAN_L[digits[i]] : EAN_G[digits[i]];
+    }
+    modules += "01010";
+    for (let i = 7; i <= 12; i++) modules += EAN_R[digits[i]];
+    return modules + "101";
+  }
+
+  private static encodeCode128(code: string): string {
+    // set C packs digit pairs, so all-digit codes of even length get half the width
+    const useSetC = /^\d+$/.test(code) && code.length % 2 === 0;
+
+    const values: number[] = [useSetC ? CODE128_START_C : CODE128_START_B];
+    if (useSetC) {
+      for (let i = 0; i < code.length; i += 2) values.push(Number(code.slice(i, i + 2)));
+    } else {
+      for (const ch of code) values.push(ch.charCodeAt(0) - 32);
+    }
+
+    const checksum = values.reduce((acc, v, i) => acc + v * (i === 0 ? 1 : i), 0) % 103;
+    values.push(checksum, CODE128_STOP);
+
+    return values
+      .map((v) =>
+        CODE128_PATTERNS[v]
+          .split("")
+          .map((w, i) => (i % 2 === 0 ? "1" : "0").repeat(Number(w)))
+          .join(""),
+      )
+      .join("");
+  }
+}
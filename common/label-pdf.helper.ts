@@ -0,0 +1,130 @@
+// label-pdf.helper.ts
+
+import { BarcodeType } from "entities/product-barcode.entity";
+import { BarcodeHelper } from "./barcode.helper";
+
+export type BarcodeLabel = {
+  code: string;
+  type: BarcodeType;
+  title: string;
+  subtitle?: string;
+};
+
+// A4 sheet, 3 x 8 labels (points)
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 20;
+const COLUMNS = 3;
+const ROWS = 8;
+const LABEL_WIDTH = (PAGE_WIDTH - MARGIN * 2) / COLUMNS;
+const LABEL_HEIGHT = (PAGE_HEIGHT - MARGIN * 2) / ROWS;
+const PADDING = 8;
+const BAR_HEIGHT = 44;
+const QUIET_ZONE_MODULES = 10;
+const MAX_MODULE_WIDTH = 1.6;
+
+/**
+ * Builds a printable label sheet as a vector PDF (bars are drawn as rectangles, no images).
+ * Labels use the standard PDF fonts, so characters outside printable ASCII are dropped from text.
+ */
+export class LabelPdfHelper {
+  static build(labels: BarcodeLabel[]): Buffer {
+    const perPage = COLUMNS * ROWS;
+    const streams: string[] = [];
+    for (let i = 0; i < Math.max(labels.length, 1); i += perPage) {
+      streams.push(labels.slice(i, i + perPage).map((label, index) => this.drawLabel(label, index)).join("\n"));
+    }
+
+    // 1 catalog, 2 page tree, 3-5 fonts, then a page + content stream per sheet
+    const pageIds = streams.map((_, i) => 6 + i * 2);
+    const objects: string[] = [
+      "<< /Type /Catalog /Pages 2 0 R >>",
+      `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pageIds.length} >>`,
+      "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+      "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>",
+      "<< /Type /Font /Subtype /Type1 /BaseFont /Courier /Encoding /WinAnsiEncoding >>",
+    ];
+    streams.forEach((stream, i) => {
+      objects.push(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R /F3 5 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`,
+      );
+      objects.push(`<< /Length ${Buffer.byteLength(stream, "latin1")} >>\nstream\n${stream}\nendstream`);
+    });
+
+    let pdf = "%PDF-1.4\n";
+    const offsets: number[] = [];
+    objects.forEach((body, i) => {
+      offsets.push(Buffer.byteLength(pdf, "latin1"));
+      pdf += `${i + 1} 0 obj\n${body}\nendobj\n`;
+    });
+
+    const xrefOffset = Buffer.byteLength(pdf, "latin1");
+    pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    pdf += offsets.map((o) => `${String(o).padStart(10, "0")} 00000 n \n`).join("");
+    pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return Buffer.from(pdf, "latin1");
+  }
+
+  private static drawLabel(label: BarcodeLabel, index: number): string {
+    const col = index % COLUMNS;
+    const row = Math.floor(index / COLUMNS);
+    const left = MARGIN + col * LABEL_WIDTH;
+    const top = PAGE_HEIGHT - MARGIN - row * LABEL_HEIGHT;
+    const innerWidth = LABEL_WIDTH - PADDING * 2;
+
+    const ops: string[] = [];
+
+    const title = this.fit(this.sanitize(label.title), innerWidth, 8, 0.55);
+    ops.push(this.text("F2", 8, left + PADDING, top - PADDING - 8, title));
+
+    const modules = BarcodeHelper.encode(label.code, label.type);
+    const moduleWidth = Math.min(innerWidth / (modules.length + QUIET_ZONE_MODULES * 2), MAX_MODULE_WIDTH);
+    const barsLeft = left + (LABEL_WIDTH - modules.length * moduleWidth) / 2;
+    const barsBottom = top - PADDING - 14 - BAR_HEIGHT;
+
+    let x = 0;
+    while (x < modules.length) {
+      if (modules[x] !== "1") {
+        x++;
+        continue;
+      }
+      let run = 1;
+      while (modules[x + run] === "1") run++;
+      ops.push(`${(barsLeft + x * moduleWidth).toFixed(3)} ${barsBottom.toFixed(3)} ${(run * moduleWidth).toFixed(3)} ${BAR_HEIGHT} re`);
+      x += run;
+    }
+    ops.push("f");
+
+    // Courier glyphs are 0.6em wide, so the code can be centered exactly
+    const codeText = this.fit(label.code, innerWidth, 9, 0.6);
+    const codeWidth = codeText.length * 9 * 0.6;
+    ops.push(this.text("F3", 9, left + (LABEL_WIDTH - codeWidth) / 2, barsBottom - 10, codeText));
+
+    if (label.subtitle) {
+      const subtitle = this.fit(this.sanitize(label.subtitle), innerWidth, 7, 0.55);
+      ops.push(this.text("F1", 7, left + PADDING, barsBottom - 20, subtitle));
+    }
+
+    return ops.join("\n");
+  }
+
+  private static text(font: string, size: number, x: number, y: number, value: string): string {
+    return `BT /${font} ${size} Tf ${x.toFixed(2)} ${y.toFixed(2)} Td (${this.escape(value)}) Tj ET`;
+  }
+
+  private static sanitize(value: string): string {
+    return String(value ?? "").replace(/[^\x20-\x7E]/g, "").replace(/\s+/g, " ").trim();
+  }
+
+  // truncates using an average glyph width, good enough for single-line labels
+  private static fit(value: string, width: number, size: number, glyphWidth: number): string {
+    const max = Math.floor(width / (size * glyphWidth));
+    return value.length > max ? `${value.slice(0, Math.max(max - 3, 0))}...` : value;
+  }
+
+  private static escape(value: string): string {
+    return value.replace(/[\\()]/g, (c) => `\\${c}`);
+  }
+}
@@ -0,0 +1,57 @@
+// dto/barcode.dto.ts
+import { Type } from "class-transformer";
+import { ArrayMaxSize, IsArray, IsBoolean, IsEnum, IsInt, IsOptional, IsString, Max, MaxLength, Min, ValidateNested } from "class-validator";
+import { i18nValidationMessage } from "nestjs-i18n";
+import { BarcodeType } from "entities/product-barcode.entity";
+
+export class AddVariantBarcodeDto {
+  // omit to generate an in-store EAN-13
+  @IsOptional()
+  @IsString({ message: i18nValidationMessage('validation.is_string') })
+  @MaxLength(48, { message: i18nValidationMessage('validation.max_length') })
+  code?: string;
+
+  // detected from the code when omitted
+  @IsOptional()
+  @IsEnum(BarcodeType, { message: (args) => { return i18nValidationMessage('validation.is_enum')({ ...args, constraints: [Object.values(BarcodeType).join(', ')], }); } })
+  type?: BarcodeType;
+
+  @IsOptional()
+  @IsBoolean({ message: i18nValidationMessage('validation.is_boolean') })
+  isPrimary?: boolean;
+}
+
+export class BarcodeLabelItemDto {
+  @IsString({ message: i18nValidationMessage('validation.is_string') })
+  variantId!: string;
+
+  @IsOptional()
+  @IsInt({ message: i18nValidationMessage('validation.is_int') })
+  @Min(1, { message: i18nValidationMessage('validation.min') })
+  @Max(500, { message: i18nValidationMessage('validation.max') })
+  copies?: number;
+}
+
+export class PrintBarcodeLabelsDto {
+  // either explicit variants or a purchase receipt
+  @IsOptional()
+  @IsArray({ message: i18nValidationMessage('validation.is_array') })
+  @ArrayMaxSize(500)
+  @ValidateNested({ each: true })
+  @Type(() => BarcodeLabelItemDto)
+  items?: BarcodeLabelItemDto[];
+
+  @IsOptional()
+  @IsString({ message: i18nValidationMessage('validation.is_string') })
+  purchaseId?: string;
+
+  // for a receipt: one label per received unit (default) or one per line
+  @IsOptional()
+  @IsBoolean({ message: i18nValidationMessage('validation.is_boolean') })
+  perUnit?: boolean;
+
+  // print the price under the barcode
+  @IsOptional()
+  @IsBoolean({ message: i18nValidationMessage('validation.is_boolean') })
+  showPrice?: boolean;
+}
@@ -1,6 +1,6 @@
 import { Type } from "class-transformer";
-import { IsArray, IsBoolean, IsEnum, IsInt, IsNumber, IsObject, IsOptional, IsString, Min, ValidateNested } from "class-validator";
-import { AssignmentMode, AutomationMigrationStrategy, Language, NotificationSettings, OrderFlowPath, StockDeductionStrategy, TimeUnit } from "entities/clientSettings.entity";
+import { IsArray, IsBoolean, IsEnum, IsInt, IsNumber, IsObject, IsOptional, IsString, Max, Min, ValidateNested } from "class-validator";
+import { AssignmentMode, AutomationMigrationStrategy, CostingMethod, FraudRuleSettings, FraudRuleType, Language, NotificationSettings, OrderFlowPath, StockDeductionStrategy, TimeUnit } from "entities/clientSettings.entity";
 import { i18nValidationMessage } from "nestjs-i18n";
 
 export class ShippingSettingsDto {
@@ -38,6 +38,28 @@ export class ShippingSettingsDto {
   warehouseDefaultShippingCompanyId?: string;
 }
 
+export class FraudDetectionSettingsDto {
+  @IsInt({message: i18nValidationMessage('validation.is_int')})
+  @Min(0, {message: i18nValidationMessage('validation.min')})
+  @Max(100, {message: i18nValidationMessage('validation.max')})
+  @IsOptional()
+  mediumRiskThreshold?: number;
+
+  @IsInt({message: i18nValidationMessage('validation.is_int')})
+  @Min(0, {message: i18nValidationMessage('validation.min')})
+  @Max(100, {message: i18nValidationMessage('validation.max')})
+  @IsOptional()
+  highRiskThreshold?: number;
+
+  @IsBoolean({message: i18nValidationMessage('validation.is_boolean')})
+  @IsOptional()
+  autoMoveHighRiskToReview?: boolean;
+
+  @IsObject({message: i18nValidationMessage('validation.is_object')})
+  @IsOptional()
+  rules?: Partial<Record<FraudRuleType, Partial<FraudRuleSettings>>>;
+}
+
 export class UpsertClientSettingsDto {
   @IsEnum(AssignmentMode,{ message: (args) => { return i18nValidationMessage('validation.is_enum')({...args, constraints: [Object.values(AssignmentMode).join(', ')], }); }})
   @IsOptional()
@@ -102,6 +124,10 @@ export class UpsertClientSettingsDto {
   @IsOptional()
   stockDeductionStrategy?: StockDeductionStrategy;
 
+  @IsEnum(CostingMethod,{ message: (args) => { return i18nValidationMessage('validation.is_enum')({...args, constraints: [Object.values(CostingMethod).join(', ')], }); }})
+  @IsOptional()
+  costingMethod?: CostingMethod;
+
   @IsEnum(OrderFlowPath,{ message: (args) => { return i18nValidationMessage('validation.is_enum')({...args, constraints: [Object.values(OrderFlowPath).join(', ')], }); }})
   @IsOptional()
   orderFlowPath?: OrderFlowPath;
@@ -146,4 +172,14 @@ export class UpsertClientSettingsDto {
   @IsBoolean({message: i18nValidationMessage('validation.is_boolean')})
   @IsOptional()
   autoCancelDuplicates?: boolean;
+
+  @IsInt({message: i18nValidationMessage('validation.is_int')})
+  @Min(0, {message: i18nValidationMessage('validation.min')})
+  @IsOptional()
+  expectedDeliveryDays?: number;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => FraudDetectionSettingsDto)
+  fraudDetection?: FraudDetectionSettingsDto;
 }
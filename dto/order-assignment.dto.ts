@@ -125,6 +125,11 @@ export class CreateAutoAssignRuleDto {
   @IsString({ each: true })
   storeIds?: string[];
 
+  @IsOptional()
+  @IsArray({ message: i18nValidationMessage('validation.is_array') })
+  @IsString({ each: true })
+  tagIds?: string[];
+
   @IsOptional()
   @IsNumber({}, { message: i18nValidationMessage('validation.is_number') })
   minAmount?: number;
@@ -17,6 +17,10 @@ export class CreateOrderCollectionDto {
     @IsOptional()
     shippingCompanyId?: string;
 
+    @IsString({message: i18nValidationMessage('validation.is_string')})
+    @IsOptional()
+    shipmentId?: string;
+
     @IsString({message: i18nValidationMessage('validation.is_string')})
     @IsNotEmpty({message: i18nValidationMessage('validation.is_not_empty')})
     safeId: string;
@@ -1,6 +1,7 @@
 // dto/order.dto.ts
 import { plainToInstance, Transform, Type } from "class-transformer";
 import {
+  ArrayMaxSize,
   ArrayMinSize,
   ArrayNotEmpty,
   IsArray,
@@ -9,6 +10,7 @@ import {
   IsEmail,
   IsEnum,
   IsHexColor,
+  IsIn,
   IsInt,
   IsNotEmpty,
   IsNumber,
@@ -16,17 +18,25 @@ import {
   IsOptional,
   IsString,
   Matches,
+  Max,
   MaxLength,
   Min,
   MinLength,
   ValidateNested,
 } from "class-validator";
-import { PartialType } from "@nestjs/mapped-types";
+import { OmitType, PartialType } from "@nestjs/mapped-types";
 import {
   PaymentStatus,
   PaymentMethod,
   DamageResponsibility,
+  ReturnRequestType,
 } from "entities/order.entity";
+import { TransitionRequiredField } from "entities/order-status-transition.entity";
+import { CallAttemptOutcome } from "entities/assignment.entity";
+import { OrderReasonCategory, OrderReasonScope } from "entities/order-reason.entity";
+import { OrderBulkAction } from "entities/order-bulk-job.entity";
+import { OrderFilterGroup } from "src/orders/utils/order-filter";
+import type { ProviderCode } from "src/shipping/providers/shipping-provider.interface";
 import { i18nValidationMessage } from "nestjs-i18n";
 
 
@@ -54,6 +64,219 @@ export class UpdateStatusDto extends PartialType(CreateStatusDto) {
   statusId?: string;
 }
 
+export class OrderStatusTransitionDto {
+  @IsString({ message: i18nValidationMessage('validation.is_string') })
+  fromStatusId: string;
+
+  @IsString({ message: i18nValidationMessage('validation.is_string') })
+  toStatusId: string;
+
+  @IsOptional()
+  @IsArray({ message: i18nValidationMessage('validation.is_array') })
+  @IsEnum(TransitionRequiredField, { each: true, message: (args) => { return i18nValidationMessage('validation.is_enum')({ ...args, constraints: [Object.values(TransitionRequiredField).join(', ')], }); } })
+  requiredFields?: TransitionRequiredField[];
+
+  // empty = every role
+  @IsOptional()
+  @IsArray({ message: i18nValidationMessage('validation.is_array') })
+  @IsString({ each: true, message: i18nValidationMessage('validation.is_string') })
+  allowedRoleIds?: string[];
+}
+
+// Replaces the whole graph; an empty list turns the restriction off
+export class SaveStatusTransitionsDto {
+  @IsArray({ message: i18nValidationMessage('validation.is_array') })
+  @ValidateNested({ each: true })
+  @Type(() => OrderStatusTransitionDto)
+  transitions: OrderStatusTransitionDto[];
+}
+
+export class CreateOrderReasonDto {
+  @IsString({ message: i18nValidationMessage('validation.is_string') })
+  @IsNotEmpty({ message: i18nValidationMessage('validation.is_not_empty') })
+  @MaxLength(60, { message: i18nValidationMessage('validation.max_length') })
+  @Matches(/^[a-z0-9_]+$/, { message: i18nValidationMessage('validation.matches') })
+  code: string;
+
+  @IsString({ message: i18nValidationMessage('validation.is_string') })
+  @IsNotEmpty({ message: i18nValidationMessage('validation.is_not_empty') })
+  @MaxLength(150, { message: i18nValidationMessage('validation.max_length') })
+  labelEn: string;
+
+  @IsString({ message: i18nValidationMessage('validation.is_string') })
+  @IsNotEmpty({ message: i18nValidationMessage('validation.is_not_empty') })
+  @MaxLength(150, { message: i18nValidationMessage('validation.max_length') })
+  labelAr: string;
+
+  @IsEnum(OrderReasonCategory, { message: (args) => { return i18nValidationMessage('validation.is_enum')({ ...args, constraints: [Object.values(OrderReasonCategory).join(', ')], }); } })
+  category: OrderReasonCategory;
+
+  @IsArray({ message: i18nValidationMessage('validation.is_array') })
+  @ArrayMinSize(1, { message: i18nValidationMessage('validation.array_min_size') })
+  @IsEnum(OrderReasonScope, { each: true, message: (args) => { return i18nValidationMessage('validation.is_enum')({ ...args, constraints: [Object.values(OrderReasonScope).join(', ')], }); } })
+  scopes: OrderReasonScope[];
+
+  @IsOptional()
+  @IsBoolean({ message: i18nValidationMessage('validation.is_boolean') })
+  isActive?: boolean;
+
+  @IsOptional()
+  @IsInt({ message: i18nValidationMessage('validation.is_int') })
+  @Min(0, { message: i18nValidationMessage('validation.min') })
+  sortOrder?: number;
+}
+
+export class UpdateOrderReasonDto extends PartialType(CreateOrderReasonDto) { }
+
+export class CreateOrderViewDto {
+  @IsString({ message: i18nValidationMessage('validation.is_string') })
+  @IsNotEmpty({ message: i18nValidationMessage('validation.is_not_empty') })
+  @MaxLength(120, { message: i18nValidationMessage('validation.max_length') })
+  name: string;
+
+  // { logic: "and" | "or", conditions: [{ field, op, value } | nested group] }, checked by the filter compiler
+  @IsObject({ message: i18nValidationMessage('validation.is_object') })
+  filter: OrderFilterGroup;
+
+  @IsOptional()
+  @IsString({ message: i18nValidationMessage('validation.is_string') })
+  @MaxLength(50, { message: i18nValidationMessage('validation.max_length') })
+  sortBy?: string;
+
+  @IsOptional()
+  @IsIn(["ASC", "DESC"], { message: i18nValidationMessage('validation.is_in') })
+  sortDir?: "ASC" | "DESC";
+
+  @IsOptional()
+  @IsBoolean({ message: i18nValidationMessage('validation.is_boolean') })
+  shared?: boolean;
+}
+
+export class UpdateOrderViewDto extends PartialType(CreateOrderViewDto) { }
+
+export class CreateOrderTagDto {
+  @IsString({ message: i18nValidationMessage('validation.is_string') })
+  @IsNotEmpty({ message: i18nValidationMessage('validation.is_not_empty') })
+  @MaxLength(60, { message: i18nValidationMessage('validation.max_length') })
+  name: string;
+
+  @IsOptional()
+  @IsHexColor({ message: i18nValidationMessage('validation.is_hex_color') })
+  color?: string;
+
+  // store tag names imported as this tag
+  @IsOptional()
+  @IsArray({ message: i18nValidationMessage('validation.is_array') })
+  @ArrayMaxSize(20, { message: i18nValidationMessage('validation.array_max_size') })
+  @IsString({ each: true, message: i18nValidationMessage('validation.is_string') })
+  @MaxLength(60, { each: true, message: i18nValidationMessage('validation.max_length') })
+  aliases?: string[];
+}
+
+export class UpdateOrderTagDto extends PartialType(CreateOrderTagDto) { }
+
+export class SetOrderTagsDto {
+  @IsArray({ message: i18nValidationMessage('validation.is_array') })
+  @IsString({ each: true, message: i18nValidationMessage('validation.is_string') })
+  tagIds: string[];
+}
+
+export class BulkOrderTagsDto {
+  @IsArray({ message: i18nValidationMessage('validation.is_array') })
+  @ArrayMinSize(1, { message: i18nValidationMessage('validation.array_min_size') })
+  @ArrayMaxSize(1000, { message: i18nValidationMessage('validation.array_max_size') })
+  @IsString({ each: true, message: i18nValidationMessage('validation.is_string') })
+  orderIds: string[];
+
+  @IsOptional()
+  @IsArray({ message: i18nValidationMessage('validation.is_array') })
+  @IsString({ each: true, message: i18nValidationMessage('validation.is_string') })
+  addTagIds?: string[];
+
+  @IsOptional()
+  @IsArray({ message: i18nValidationMessage('validation.is_array') })
+  @IsString({ each: true, message: i18nValidationMessage('validation.is_string') })
+  removeTagIds?: string[];
+}
+
+export class CreateOrderSlaRuleDto {
+  @IsString({ message: i18nValidationMessage('validation.is_string') })
+  @IsNotEmpty({ message: i18nValidationMessage('validation.is_not_empty') })
+  statusId: string;
+
+  // up to 30 days
+  @IsInt({ message: i18nValidationMessage('validation.is_int') })
+  @Min(1, { message: i18nValidationMessage('validation.min') })
+  @Max(43200, { message: i18nValidationMessage('validation.max') })
+  maxMinutes: number;
+
+  @IsOptional()
+  @IsInt({ message: i18nValidationMessage('validation.is_int') })
+  @Min(1, { message: i18nValidationMessage('validation.min') })
+  @Max(100, { message: i18nValidationMessage('validation.max') })
+  atRiskPercent?: number;
+
+  @IsOptional()
+  @IsBoolean({ message: i18nValidationMessage('validation.is_boolean') })
+  businessHoursOnly?: boolean;
+
+  @IsOptional()
+  @IsBoolean({ message: i18nValidationMessage('validation.is_boolean') })
+  isActive?: boolean;
+}
+
+export class UpdateOrderSlaRuleDto extends PartialType(OmitType(CreateOrderSlaRuleDto, ["statusId"] as const)) { }
+
+export class CreatePickWaveDto {
+  @IsArray({ message: i18nValidationMessage('validation.is_array') })
+  @ArrayMinSize(1, { message: i18nValidationMessage('validation.array_min_size') })
+  @ArrayMaxSize(200, { message: i18nValidationMessage('validation.array_max_size') })
+  @IsString({ each: true, message: i18nValidationMessage('validation.is_string') })
+  orderIds: string[];
+
+  // defaults to the fulfilment warehouse shared by the orders
+  @IsOptional()
+  @IsString({ message: i18nValidationMessage('validation.is_string') })
+  warehouseId?: string;
+
+  @IsOptional()
+  @IsString({ message: i18nValidationMessage('validation.is_string') })
+  @MaxLength(500, { message: i18nValidationMessage('validation.max_length') })
+  notes?: string;
+}
+
+export class ScanPickWaveDto {
+  @IsOptional()
+  @IsInt({ message: i18nValidationMessage('validation.is_int') })
+  @Min(1, { message: i18nValidationMessage('validation.min') })
+  quantity?: number;
+}
+
+export enum MergeItemsMode {
+  SUM = "sum", // add the quantities of matching lines (separate purchases)
+  MAX = "max", // keep the largest quantity of matching lines (the same order placed twice)
+}
+
+export class MergeOrdersDto {
+  @IsString({ message: i18nValidationMessage('validation.is_string') })
+  survivorId: string;
+
+  @IsArray({ message: i18nValidationMessage('validation.is_array') })
+  @ArrayMinSize(1, { message: i18nValidationMessage('validation.array_min_size') })
+  @ArrayMaxSize(20, { message: i18nValidationMessage('validation.array_max_size') })
+  @IsString({ each: true, message: i18nValidationMessage('validation.is_string') })
+  orderIds: string[];
+
+  // defaults to MAX when every merged order has the survivor's items, SUM otherwise
+  @IsOptional()
+  @IsEnum(MergeItemsMode, { message: (args) => { return i18nValidationMessage('validation.is_enum')({ ...args, constraints: [Object.values(MergeItemsMode).join(', ')], }); } })
+  itemsMode?: MergeItemsMode;
+
+  @IsOptional()
+  @IsString({ message: i18nValidationMessage('validation.is_string') })
+  notes?: string;
+}
+
 export class OrderItemDto {
   @IsString({ message: i18nValidationMessage('validation.is_string') })
   variantId: string;
@@ -194,6 +417,10 @@ export class CreateOrderDto {
   @IsString({ message: i18nValidationMessage('validation.is_string') })
   storeId: string;
 
+  @IsOptional()
+  @IsString({ message: i18nValidationMessage('validation.is_string') })
+  warehouseId?: string;
+
   @IsOptional()
   @IsInt({ message: i18nValidationMessage('validation.is_int') })
   @Min(0, { message: i18nValidationMessage('validation.min') })
@@ -255,6 +482,12 @@ export class UpdateOrderDto extends PartialType(CreateOrderDto) {
   @ValidateNested({ each: true })
   @Type(() => RemovedOrderItemDto)
   removedItems?: RemovedOrderItemDto[]; // Items explicitly removed
+
+  // version of the order the form was loaded from (optimistic concurrency)
+  @IsOptional()
+  @IsInt({ message: i18nValidationMessage('validation.is_int') })
+  @Min(1, { message: i18nValidationMessage('validation.min') })
+  version?: number;
 }
 
 export class BulkUpdateShippingMetadataDto {
@@ -333,6 +566,87 @@ export class ChangeOrderStatusDto {
   @IsOptional()
   @IsInt({ message: i18nValidationMessage('validation.is_int') })
   reminderDaysBefore?: number;
+
+  @IsOptional()
+  @IsString({ message: i18nValidationMessage('validation.is_string') })
+  @MaxLength(500, { message: i18nValidationMessage('validation.max_length') })
+  rejectReason?: string;
+
+  // reason code, required for rejected / cancelled / failed delivery once the tenant has codes for it
+  @IsOptional()
+  @IsString({ message: i18nValidationMessage('validation.is_string') })
+  reasonId?: string;
+}
+
+export class BulkJobShippingDto extends OmitType(BulkUpdateShippingFieldItemDto, ["id"] as const) {
+  @IsOptional()
+  @IsString({ message: i18nValidationMessage('validation.is_string') })
+  code?: string;
+}
+
+// ✅ Background bulk action: the orders are the given ids, or whatever the filter / saved view matches
+export class CreateOrderBulkJobDto {
+  @IsEnum(OrderBulkAction, { message: (args) => { return i18nValidationMessage('validation.is_enum')({ ...args, constraints: [Object.values(OrderBulkAction).join(', ')], }); } })
+  action: OrderBulkAction;
+
+  @IsOptional()
+  @IsArray({ message: i18nValidationMessage('validation.is_array') })
+  @ArrayMaxSize(10000, { message: i18nValidationMessage('validation.array_max_size') })
+  @IsString({ each: true, message: i18nValidationMessage('validation.is_string') })
+  orderIds?: string[];
+
+  @IsOptional()
+  @IsObject({ message: i18nValidationMessage('validation.is_object') })
+  filter?: OrderFilterGroup;
+
+  @IsOptional()
+  @IsString({ message: i18nValidationMessage('validation.is_string') })
+  viewId?: string;
+
+  // change_status
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ChangeOrderStatusDto)
+  status?: ChangeOrderStatusDto;
+
+  // update_shipping_info
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => BulkJobShippingDto)
+  shipping?: BulkJobShippingDto;
+
+  // assign
+  @IsOptional()
+  @IsString({ message: i18nValidationMessage('validation.is_string') })
+  assigneeId?: string;
+}
+
+export class RejectOrderDto {
+  @IsOptional()
+  @IsString({ message: i18nValidationMessage('validation.is_string') })
+  @MaxLength(500, { message: i18nValidationMessage('validation.max_length') })
+  notes?: string;
+
+  @IsOptional()
+  @IsString({ message: i18nValidationMessage('validation.is_string') })
+  reasonId?: string;
+}
+
+// ✅ Log Call Attempt DTO (confirmation screen)
+export class LogCallAttemptDto {
+  @IsEnum(CallAttemptOutcome, { message: (args) => { return i18nValidationMessage('validation.is_enum')({ ...args, constraints: [Object.values(CallAttemptOutcome).join(', ')], }); } })
+  outcome: CallAttemptOutcome;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: i18nValidationMessage('validation.is_int') })
+  @Min(0, { message: i18nValidationMessage('validation.min') })
+  durationSeconds?: number;
+
+  @IsOptional()
+  @IsString({ message: i18nValidationMessage('validation.is_string') })
+  @MaxLength(500, { message: i18nValidationMessage('validation.max_length') })
+  note?: string;
 }
 
 // ✅ Update Payment Status DTO
@@ -461,6 +775,11 @@ export class CreateManifestDto {
   @IsOptional()
   driverName?: string;
 
+  // Return manifests only: warehouse receiving the restocked items
+  @IsString({ message: i18nValidationMessage('validation.is_string') })
+  @IsOptional()
+  warehouseId?: string;
+
   @IsArray({ message: i18nValidationMessage('validation.is_array') })
   orderIds: string[];
 }
@@ -507,6 +826,83 @@ export class CreateReturnDto {
   items: ReturnItemDto[];
 }
 
+export class CustomerReturnItemDto {
+  @IsString({ message: i18nValidationMessage('validation.is_string') })
+  @IsNotEmpty({ message: i18nValidationMessage('validation.is_not_empty') })
+  orderItemId: string;
+
+  @Type(() => Number)
+  @IsInt({ message: i18nValidationMessage('validation.is_int') })
+  @Min(1, { message: i18nValidationMessage('validation.min') })
+  quantity: number;
+
+  @IsOptional()
+  @IsString({ message: i18nValidationMessage('validation.is_string') })
+  exchangeVariantId?: string;
+}
+
+// ✅ Customer portal return / exchange request (multipart: items arrive as a JSON string)
+export class CustomerReturnRequestDto {
+  @IsEnum(ReturnRequestType, { message: (args) => { return i18nValidationMessage('validation.is_enum')({ ...args, constraints: [Object.values(ReturnRequestType).join(', ')], }); } })
+  type: ReturnRequestType;
+
+  @IsString({ message: i18nValidationMessage('validation.is_string') })
+  @IsNotEmpty({ message: i18nValidationMessage('validation.is_not_empty') })
+  @MaxLength(255, { message: i18nValidationMessage('validation.max_length') })
+  @Transform(({ value }) => value?.trim())
+  reason: string;
+
+  @IsOptional()
+  @IsString({ message: i18nValidationMessage('validation.is_string') })
+  @MaxLength(1000, { message: i18nValidationMessage('validation.max_length') })
+  notes?: string;
+
+  @IsArray({ message: i18nValidationMessage('validation.is_array') })
+  @ArrayMinSize(1, { message: i18nValidationMessage('validation.array_min_size') })
+  @ValidateNested({ each: true })
+  @Transform(({ value }) => {
+    if (typeof value === "string") {
+      try {
+        return plainToInstance(CustomerReturnItemDto, JSON.parse(value));
+      } catch {
+        return value;
+      }
+    }
+    return Array.isArray(value)
+      ? plainToInstance(CustomerReturnItemDto, value)
+      : value;
+  })
+  items: CustomerReturnItemDto[];
+}
+
+export class ApproveReturnRequestDto {
+  @IsOptional()
+  @IsString({ message: i18nValidationMessage('validation.is_string') })
+  note?: string;
+
+  // returns only: courier code (or "none" for a manual pickup) collecting the items from the customer.
+  // exchanges need none, the replacement order ships as an exchange parcel
+  @IsOptional()
+  @IsIn(["bosta", "jt", "turbo", "aramex", "dhl", "SMSA", "none"], { message: i18nValidationMessage('validation.is_in') })
+  reverseShipmentProvider?: ProviderCode | "none";
+
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === "true")
+  @IsBoolean({ message: i18nValidationMessage('validation.is_boolean') })
+  notifyCustomer?: boolean;
+}
+
+export class RejectReturnRequestDto {
+  @IsOptional()
+  @IsString({ message: i18nValidationMessage('validation.is_string') })
+  note?: string;
+
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === "true")
+  @IsBoolean({ message: i18nValidationMessage('validation.is_boolean') })
+  notifyCustomer?: boolean;
+}
+
 
 export type CellErrorMap = Map<number, Map<number, string[]>>;
 
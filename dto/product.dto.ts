@@ -270,6 +270,29 @@ export class UpsertProductSkusDto {
 export class AdjustVariantStockDto {
   @IsNumber({}, {message: i18nValidationMessage('validation.is_number')})
   delta!: number;
+
+  // why the stock was adjusted, kept on the stock movement
+  @IsOptional()
+  @IsString({message: i18nValidationMessage('validation.is_string')})
+  @MaxLength(500, { message: i18nValidationMessage('validation.max_length') })
+  notes?: string;
+}
+
+export class UpdateVariantReorderDto {
+  // null clears the reorder point and stops suggestions for the variant
+  @IsOptional()
+  @IsInt({message: i18nValidationMessage('validation.is_int')})
+  @Min(0, {message: i18nValidationMessage('validation.min')})
+  reorderPoint?: number | null;
+
+  @IsOptional()
+  @IsInt({message: i18nValidationMessage('validation.is_int')})
+  @Min(1, {message: i18nValidationMessage('validation.min')})
+  reorderQuantity?: number | null;
+
+  @IsOptional()
+  @IsString({message: i18nValidationMessage('validation.is_string')})
+  preferredSupplierId?: string | null;
 }
 
 export class CheckSkusDto {
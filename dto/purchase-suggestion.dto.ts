@@ -0,0 +1,38 @@
+// dto/purchase-suggestion.dto.ts
+import { Type } from "class-transformer";
+import { IsArray, IsBoolean, IsInt, IsNotEmpty, IsNumber, IsOptional, IsString, Min, ValidateNested } from "class-validator";
+import { i18nValidationMessage } from "nestjs-i18n";
+
+export class PurchaseSuggestionItemQuantityDto {
+	@IsString({message: i18nValidationMessage('validation.is_string')}) itemId: string;
+	// 0 drops the line from the suggestion
+	@IsInt({message: i18nValidationMessage('validation.is_int')}) @Min(0, {message: i18nValidationMessage('validation.min')}) quantity: number;
+	@IsOptional() @Type(() => Number) @IsNumber({ maxDecimalPlaces: 2 }) @Min(0, {message: i18nValidationMessage('validation.min')}) purchaseCost?: number;
+}
+
+export class UpdatePurchaseSuggestionDto {
+	// null moves the suggestion to "no supplier"
+	@IsOptional() @IsString({message: i18nValidationMessage('validation.is_string')}) supplierId?: string | null;
+	@IsOptional() @IsString({message: i18nValidationMessage('validation.is_string')}) notes?: string;
+
+	@IsOptional()
+	@IsArray({message: i18nValidationMessage('validation.is_array')})
+	@ValidateNested({ each: true })
+	@Type(() => PurchaseSuggestionItemQuantityDto)
+	items?: PurchaseSuggestionItemQuantityDto[];
+}
+
+// the purchase invoice fields a suggestion cannot know about
+export class ConvertPurchaseSuggestionDto {
+	@IsString({message: i18nValidationMessage('validation.is_string')}) @IsNotEmpty({message: i18nValidationMessage('validation.is_not_empty')}) receiptNumber: string;
+	@IsString({message: i18nValidationMessage('validation.is_string')}) @IsNotEmpty({message: i18nValidationMessage('validation.is_not_empty')}) safeId: string;
+
+	@IsOptional() @IsString({message: i18nValidationMessage('validation.is_string')}) supplierId?: string;
+	@IsOptional() @IsString({message: i18nValidationMessage('validation.is_string')}) warehouseId?: string;
+	@IsOptional() @Type(() => Number) @IsNumber({ maxDecimalPlaces: 2 }) @Min(0, {message: i18nValidationMessage('validation.min')}) paidAmount?: number;
+	@IsOptional() @IsString({message: i18nValidationMessage('validation.is_string')}) notes?: string;
+
+	@IsOptional()
+	@IsBoolean({message: i18nValidationMessage('validation.is_boolean')})
+	saveAsDraft?: boolean;
+}
@@ -1,6 +1,6 @@
 // dto/purchase.dto.ts
 import { Type } from "class-transformer";
-import { IsArray, IsBoolean, IsEnum, IsInt, IsNotEmpty, IsNumber, IsOptional, IsString, Min, ValidateNested } from "class-validator";
+import { IsArray, IsBoolean, IsDateString, IsEnum, IsInt, IsNotEmpty, IsNumber, IsOptional, IsString, MaxLength, Min, ValidateNested } from "class-validator";
 import { ApprovalStatus } from "common/enums";
 import { i18nValidationMessage } from "nestjs-i18n";
 
@@ -9,6 +9,8 @@ export class PurchaseItemDto {
 	@IsString({message: i18nValidationMessage('validation.is_string')}) variantId: string;
 	@IsInt({message: i18nValidationMessage('validation.is_int')}) @Min(1, {message: i18nValidationMessage('validation.min')}) quantity: number;
 	@Type(() => Number) @IsNumber({ maxDecimalPlaces: 2 }) @Min(0, {message: i18nValidationMessage('validation.min')}) purchaseCost: number;
+	@IsOptional() @IsString({message: i18nValidationMessage('validation.is_string')}) @MaxLength(100, { message: i18nValidationMessage('validation.max_length') }) lotNumber?: string;
+	@IsOptional() @IsDateString({}, {message: i18nValidationMessage('validation.is_date_string')}) expiryDate?: string; // YYYY-MM-DD
 }
 
 export class CreatePurchaseDto {
@@ -17,6 +19,10 @@ export class CreatePurchaseDto {
 	@IsString({message: i18nValidationMessage('validation.is_string')})
 	supplierId?: string;
 
+	@IsOptional()
+	@IsString({message: i18nValidationMessage('validation.is_string')})
+	warehouseId?: string;
+
 	@IsString({message: i18nValidationMessage('validation.is_string')}) @IsNotEmpty({message: i18nValidationMessage('validation.is_not_empty')}) receiptNumber: string;
 	@IsString({message: i18nValidationMessage('validation.is_string')}) @IsNotEmpty({message: i18nValidationMessage('validation.is_not_empty')}) safeId: string;
 
@@ -39,6 +45,8 @@ export class CreatePurchaseDto {
 
 export class UpdatePurchaseDto {
 	@IsOptional() @IsString({message: i18nValidationMessage('validation.is_string')}) supplierId?: string;
+	// null moves the invoice back to each product's default warehouse
+	@IsOptional() @IsString({message: i18nValidationMessage('validation.is_string')}) warehouseId?: string | null;
 	@IsOptional() @IsString({message: i18nValidationMessage('validation.is_string')}) receiptNumber?: string;
 	@IsString({message: i18nValidationMessage('validation.is_string')}) @IsNotEmpty({message: i18nValidationMessage('validation.is_not_empty')}) safeId: string;
 
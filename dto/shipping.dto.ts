@@ -1,7 +1,7 @@
 // shipping-company.dto.ts
 // --- File: backend/src/shipping/shipping.dto.ts ---
 import { Type } from 'class-transformer';
-import { IsArray, IsBoolean, IsEnum, IsNumber, IsObject, IsOptional, IsString, MinLength, ValidateNested } from 'class-validator';
+import { ArrayMinSize, IsArray, IsBoolean, IsEnum, IsInt, IsNumber, IsObject, IsOptional, IsString, Min, MinLength, ValidateNested } from 'class-validator';
 import { UnifiedShippingStatus } from 'entities/shipping.entity';
 import { i18nValidationMessage } from "nestjs-i18n";
 
@@ -37,13 +37,51 @@ export class CreateShipmentDto {
     @IsOptional()
     @IsEnum(['Small', 'Medium', 'Large'],{ message: (args) => { return i18nValidationMessage('validation.is_enum')({...args, constraints: [Object.values(['Small', 'Medium', 'Large']).join(', ')], }); }})
     size?: 'Small' | 'Medium' | 'Large';
+
+    // set server-side for reverse pickups (no validator, so the whitelist rejects it from clients)
+    returnPickup?: boolean;
 }
 
 export class AssignOrderDto extends CreateShipmentDto { }
 
+export class SplitShipmentItemDto {
+    @IsString({message: i18nValidationMessage('validation.is_string')})
+    orderItemId: string;
+
+    @Type(() => Number)
+    @IsInt({message: i18nValidationMessage('validation.is_int')})
+    @Min(1, { message: i18nValidationMessage('validation.min') })
+    quantity: number;
+}
+
+// ships part of an order; the rest stays on the order for a later shipment
+export class SplitShipmentDto extends CreateShipmentDto {
+    @IsArray({message: i18nValidationMessage('validation.is_array')})
+    @ArrayMinSize(1, { message: i18nValidationMessage('validation.array_min_size') })
+    @ValidateNested({ each: true })
+    @Type(() => SplitShipmentItemDto)
+    items: SplitShipmentItemDto[];
+
+    // defaults to the value of the shipped lines (the last shipment collects the remaining balance)
+    @IsOptional()
+    @Type(() => Number)
+    @IsNumber({}, {message: i18nValidationMessage('validation.is_number')})
+    @Min(0, { message: i18nValidationMessage('validation.min') })
+    codAmount?: number;
+
+    @IsOptional()
+    @IsString({message: i18nValidationMessage('validation.is_string')})
+    warehouseId?: string;
+}
+
 export class ManualUpdateShipmentStatusDto {
     @IsEnum(UnifiedShippingStatus,{ message: (args) => { return i18nValidationMessage('validation.is_enum')({...args, constraints: [Object.values(UnifiedShippingStatus).join(', ')], }); }})
     status!: UnifiedShippingStatus;
+
+    // failed delivery reason code (required once the tenant has failed delivery codes)
+    @IsOptional()
+    @IsString({message: i18nValidationMessage('validation.is_string')})
+    reasonId?: string;
 }
 
 export class BulkAssignItemDto extends CreateShipmentDto {
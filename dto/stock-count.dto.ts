@@ -0,0 +1,52 @@
+// dto/stock-count.dto.ts
+import { Type } from "class-transformer";
+import { ArrayMinSize, IsArray, IsBoolean, IsInt, IsNotEmpty, IsOptional, IsString, MaxLength, Min, ValidateNested } from "class-validator";
+import { i18nValidationMessage } from "nestjs-i18n";
+
+export class CreateStockCountDto {
+	@IsString({message: i18nValidationMessage('validation.is_string')})
+	@IsNotEmpty({message: i18nValidationMessage('validation.is_not_empty')})
+	warehouseId: string;
+
+	// count only this location and its children
+	@IsOptional() @IsString({message: i18nValidationMessage('validation.is_string')}) storageLocationId?: string;
+
+	@IsOptional() @IsString({message: i18nValidationMessage('validation.is_string')}) notes?: string;
+}
+
+export class StockCountEntryDto {
+	// either the variant id or its SKU / barcode
+	@IsOptional() @IsString({message: i18nValidationMessage('validation.is_string')}) variantId?: string;
+	@IsOptional() @IsString({message: i18nValidationMessage('validation.is_string')}) sku?: string;
+
+	@IsInt({message: i18nValidationMessage('validation.is_int')}) @Min(0, {message: i18nValidationMessage('validation.min')}) countedQuantity: number;
+
+	@IsOptional()
+	@IsString({message: i18nValidationMessage('validation.is_string')})
+	@MaxLength(500, { message: i18nValidationMessage('validation.max_length') })
+	notes?: string;
+}
+
+export class SubmitStockCountEntriesDto {
+	@IsArray({message: i18nValidationMessage('validation.is_array')})
+	@ArrayMinSize(1)
+	@ValidateNested({ each: true })
+	@Type(() => StockCountEntryDto)
+	items: StockCountEntryDto[];
+}
+
+export class ScanStockCountDto {
+	@IsOptional()
+	@IsInt({message: i18nValidationMessage('validation.is_int')})
+	@Min(1, {message: i18nValidationMessage('validation.min')})
+	quantity?: number;
+}
+
+export class ApproveStockCountDto {
+	// post uncounted lines as counted zero instead of leaving them unchanged
+	@IsOptional()
+	@IsBoolean({message: i18nValidationMessage('validation.is_boolean')})
+	treatUncountedAsZero?: boolean;
+
+	@IsOptional() @IsString({message: i18nValidationMessage('validation.is_string')}) notes?: string;
+}
@@ -0,0 +1,70 @@
+// dto/stock-transfer.dto.ts
+import { Type } from "class-transformer";
+import { ArrayMinSize, IsArray, IsBoolean, IsInt, IsNotEmpty, IsOptional, IsString, MaxLength, Min, ValidateNested } from "class-validator";
+import { i18nValidationMessage } from "nestjs-i18n";
+
+export class StockTransferItemDto {
+	@IsString({message: i18nValidationMessage('validation.is_string')}) variantId: string;
+	@IsInt({message: i18nValidationMessage('validation.is_int')}) @Min(1, {message: i18nValidationMessage('validation.min')}) quantity: number;
+}
+
+export class CreateStockTransferDto {
+	@IsString({message: i18nValidationMessage('validation.is_string')})
+	@IsNotEmpty({message: i18nValidationMessage('validation.is_not_empty')})
+	sourceWarehouseId: string;
+
+	@IsString({message: i18nValidationMessage('validation.is_string')})
+	@IsNotEmpty({message: i18nValidationMessage('validation.is_not_empty')})
+	destinationWarehouseId: string;
+
+	@IsOptional() @IsString({message: i18nValidationMessage('validation.is_string')}) notes?: string;
+
+	@IsArray({message: i18nValidationMessage('validation.is_array')})
+	@ArrayMinSize(1)
+	@ValidateNested({ each: true })
+	@Type(() => StockTransferItemDto)
+	items: StockTransferItemDto[];
+
+	// create and dispatch in one step
+	@IsOptional()
+	@IsBoolean({message: i18nValidationMessage('validation.is_boolean')})
+	dispatch?: boolean;
+}
+
+export class UpdateStockTransferDto {
+	@IsOptional() @IsString({message: i18nValidationMessage('validation.is_string')}) sourceWarehouseId?: string;
+	@IsOptional() @IsString({message: i18nValidationMessage('validation.is_string')}) destinationWarehouseId?: string;
+	@IsOptional() @IsString({message: i18nValidationMessage('validation.is_string')}) notes?: string;
+
+	@IsOptional()
+	@IsArray({message: i18nValidationMessage('validation.is_array')})
+	@ArrayMinSize(1)
+	@ValidateNested({ each: true })
+	@Type(() => StockTransferItemDto)
+	items?: StockTransferItemDto[];
+}
+
+export class ReceiveStockTransferItemDto {
+	@IsString({message: i18nValidationMessage('validation.is_string')}) itemId: string;
+	// quantity received in this delivery (added to what was already received)
+	@IsInt({message: i18nValidationMessage('validation.is_int')}) @Min(0, {message: i18nValidationMessage('validation.min')}) quantity: number;
+
+	@IsOptional()
+	@IsString({message: i18nValidationMessage('validation.is_string')})
+	@MaxLength(500, { message: i18nValidationMessage('validation.max_length') })
+	discrepancyNote?: string;
+}
+
+export class ReceiveStockTransferDto {
+	@IsArray({message: i18nValidationMessage('validation.is_array')})
+	@ValidateNested({ each: true })
+	@Type(() => ReceiveStockTransferItemDto)
+	items: ReceiveStockTransferItemDto[];
+
+	// close the transfer: whatever is still in transit is written off as a shortage
+	@IsOptional()
+	@IsBoolean({message: i18nValidationMessage('validation.is_boolean')})
+	close?: boolean;
+
+	@IsOptional() @IsString({message: i18nValidationMessage('validation.is_string')}) notes?: string;
+}
@@ -1,4 +1,4 @@
-import { IsBoolean, IsNotEmpty, IsOptional, IsString, MaxLength } from "class-validator";
+import { IsBoolean, IsInt, IsNotEmpty, IsOptional, IsString, MaxLength, Min } from "class-validator";
 import { i18nValidationMessage } from "nestjs-i18n";
 
 
@@ -42,3 +42,13 @@ export class UpdateWarehouseDto {
   @IsBoolean({message: i18nValidationMessage('validation.is_boolean')})
   isActive?: boolean;
 }
+
+export class SetWarehouseStockDto {
+  @IsInt({message: i18nValidationMessage('validation.is_int')})
+  @Min(0, {message: i18nValidationMessage('validation.min')})
+  stockOnHand!: number;
+
+  @IsOptional()
+  @IsString({message: i18nValidationMessage('validation.is_string')})
+  storageLocationId?: string | null;
+}
@@ -5,6 +5,7 @@ import { CityEntity } from "./cities.entity";
 import { ShippingCompanyEntity } from "./shipping.entity";
 import { OrderEntity, OrderStatusEntity, PaymentStatus } from "./order.entity";
 import { StoreEntity } from "./stores.entity";
+import { OrderTagEntity } from "./order-tag.entity";
 
 
 export enum AutoAssignRuleType {
@@ -14,6 +15,7 @@ export enum AutoAssignRuleType {
     AMOUNT_RANGE = 'amountRange',
     PAYMENT_STATUS = 'paymentStatus',
     STORE = 'store',
+    TAG = 'tag',
 }
 
 export enum AssignmentStrategy {
@@ -140,6 +142,16 @@ export class AutoAssignRuleEntity {
     })
     stores?: StoreEntity[];
 
+    // ======================
+    // TAG RULE
+    // ======================
+
+    @ManyToMany(() => OrderTagEntity)
+    @JoinTable({
+        name: 'auto_assign_rule_tags',
+    })
+    tags?: OrderTagEntity[];
+
     // ======================
     // AMOUNT RANGE RULE
     // ======================
@@ -240,6 +252,77 @@ export class OrderAssignmentEntity {
     @Column({ type: "timestamptz", nullable: true })
     lockedUntil?: Date | null; // If now < lockedUntil, employee can see it but can't click it
 
+    @Column({ type: "timestamptz", nullable: true })
+    retryDueAt?: Date | null; // Set by the retry scheduler when the lock expires, cleared on the next action
+
     @Column({ type: "timestamptz", nullable: true })
     finishedAt?: Date;
-}
\ No newline at end of file
+}
+
+export enum CallAttemptOutcome {
+    ANSWERED = 'answered',
+    NO_ANSWER = 'no_answer',
+    BUSY = 'busy',
+    WRONG_NUMBER = 'wrong_number',
+    SWITCHED_OFF = 'switched_off',
+    CALLBACK_REQUESTED = 'callback_requested',
+}
+
+// outcomes that use up one of the assignment's retries
+export const FAILED_CALL_OUTCOMES = [
+    CallAttemptOutcome.NO_ANSWER,
+    CallAttemptOutcome.BUSY,
+    CallAttemptOutcome.WRONG_NUMBER,
+    CallAttemptOutcome.SWITCHED_OFF,
+];
+
+// ✅ One call made by a confirmation agent to the customer of an order
+@Entity("order_call_attempts")
+@Index(["adminId", "agentId", "created_at"])
+export class OrderCallAttemptEntity {
+    @PrimaryGeneratedColumn('uuid')
+    id: string;
+
+    @Index()
+    @Column({ type: 'uuid', nullable: true })
+    adminId: string;
+
+    @Index()
+    @Column({ type: 'uuid' })
+    orderId: string;
+
+    @ManyToOne(() => OrderEntity, { onDelete: 'CASCADE' })
+    @JoinColumn({ name: "orderId" })
+    order: OrderEntity;
+
+    @Index()
+    @Column({ type: 'uuid', nullable: true })
+    assignmentId?: string | null;
+
+    @ManyToOne(() => OrderAssignmentEntity, { onDelete: 'SET NULL', nullable: true })
+    @JoinColumn({ name: "assignmentId" })
+    assignment?: OrderAssignmentEntity;
+
+    @Column({ type: 'uuid' })
+    agentId: string;
+
+    @ManyToOne(() => User, { onDelete: 'CASCADE' })
+    @JoinColumn({ name: "agentId" })
+    agent: User;
+
+    @Column({ type: 'enum', enum: CallAttemptOutcome })
+    outcome: CallAttemptOutcome;
+
+    @Column({ type: 'int', default: 0 })
+    durationSeconds: number;
+
+    @Column({ type: 'text', nullable: true })
+    note?: string | null;
+
+    // true when the attempt consumed a retry of the assignment
+    @Column({ type: 'boolean', default: false })
+    countedAsRetry: boolean;
+
+    @CreateDateColumn({ type: "timestamptz" })
+    created_at: Date;
+}
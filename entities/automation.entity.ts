@@ -105,6 +105,7 @@ export class AutomationFlowEntity {
 
 export enum ActionType {
     UPDATE_ORDER_STATUS = 'update_order_status',
+    UPDATE_ORDER_TAGS = 'update_order_tags',
     SEND_WHATSAPP_TEMPLATE = 'send_whatsapp_template',
     SEND_WHATSAPP_MESSAGE = 'send_whatsapp_message',
     SEND_UPSELL = 'send_upsell',
@@ -153,6 +154,7 @@ export type NodeConfig =
     OrderCreatedConfig |
     OrderUpdatedConfig |
     UpdateOrderStatusConfig |
+    UpdateOrderTagsConfig |
     SendWhatsappTemplateConfig |
     SendSmsConfig |
     SendUpsellConfig |
@@ -198,6 +200,11 @@ export interface UpdateOrderStatusConfig {
     newStatusId: string;
 }
 
+export interface UpdateOrderTagsConfig {
+    addTagIds?: string[];
+    removeTagIds?: string[];
+}
+
 export interface SendSmsConfig {
     toNumber?: string;
     message?: string;
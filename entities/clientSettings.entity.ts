@@ -18,6 +18,12 @@ export enum OrderFlowPath {
     ON_CONFIRMATION = "on_confirmation",
     ON_SHIPMENT = "on_shipment",
   }
+
+  // how the cost of stock leaving the inventory is valued
+  export enum CostingMethod {
+    WEIGHTED_AVERAGE = "weighted_average",
+    FIFO = "fifo",
+  }
   
   
   export enum AssignmentMode {
@@ -62,7 +68,46 @@ export enum OrderFlowPath {
     wallet: true,
     other: true,
   };
-  
+
+  export enum FraudRuleType {
+    REJECTED_HISTORY = "rejected_history",
+    RETURNED_HISTORY = "returned_history",
+    WRONG_NUMBER_HISTORY = "wrong_number_history",
+    DUPLICATE_ORDERS = "duplicate_orders",
+    HIGH_COD_AMOUNT = "high_cod_amount",
+    CITY_RETURN_RATE = "city_return_rate",
+  }
+
+  // threshold meaning per rule:
+  // *_HISTORY / DUPLICATE_ORDERS -> minimum count, HIGH_COD_AMOUNT -> multiple of the average COD total,
+  // CITY_RETURN_RATE -> minimum return percent of the city
+  export type FraudRuleSettings = {
+    enabled: boolean;
+    weight: number;
+    threshold: number;
+  };
+
+  export type FraudDetectionSettings = {
+    mediumRiskThreshold: number;
+    highRiskThreshold: number;
+    autoMoveHighRiskToReview: boolean;
+    rules: Record<FraudRuleType, FraudRuleSettings>;
+  };
+
+  export const DEFAULT_FRAUD_DETECTION_SETTINGS: FraudDetectionSettings = {
+    mediumRiskThreshold: 40,
+    highRiskThreshold: 70,
+    autoMoveHighRiskToReview: false,
+    rules: {
+      rejected_history: { enabled: true, weight: 30, threshold: 1 },
+      returned_history: { enabled: true, weight: 25, threshold: 1 },
+      wrong_number_history: { enabled: true, weight: 20, threshold: 1 },
+      duplicate_orders: { enabled: true, weight: 15, threshold: 1 },
+      high_cod_amount: { enabled: true, weight: 15, threshold: 3 },
+      city_return_rate: { enabled: true, weight: 15, threshold: 30 },
+    },
+  };
+
 @Entity({ name: "client_settings" })
 export class ClientSettingsEntity {
   @PrimaryGeneratedColumn('uuid')
@@ -140,6 +185,13 @@ export class ClientSettingsEntity {
   })
   stockDeductionStrategy: StockDeductionStrategy;
 
+  @Column({
+    type: "enum",
+    enum: CostingMethod,
+    default: CostingMethod.WEIGHTED_AVERAGE,
+  })
+  costingMethod: CostingMethod;
+
   @Column({
     type: "jsonb",
     default: { enabled: true, start: "09:00", end: "18:00" },
@@ -180,6 +232,10 @@ export class ClientSettingsEntity {
   @Column({ type: "boolean", default: false })
   autoCancelDuplicates: boolean;
 
+  // days after shipping shown to the customer as the expected delivery date
+  @Column({ type: "int", default: 3 })
+  expectedDeliveryDays: number;
+
   @Column({
     type: "jsonb",
     default: {
@@ -204,6 +260,12 @@ export class ClientSettingsEntity {
     warehouseDefaultShippingCompanyId: string | null;
   };
 
+  @Column({
+    type: "jsonb",
+    default: DEFAULT_FRAUD_DETECTION_SETTINGS,
+  })
+  fraudDetection: FraudDetectionSettings;
+
   @Column({ type: "timestamptz", nullable: true })
   returnNotificationLastSentAt: Date;
 
@@ -0,0 +1,67 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Generated,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+  Relation,
+} from "typeorm";
+import { User } from "./user.entity";
+import { ProductVariantEntity } from "./sku.entity";
+import { StockMovementReason, StockMovementReference } from "./stock-movement.entity";
+
+// ✅ FIFO cost layer: a quantity of a variant that entered the stock at one unit cost.
+// Layers are consumed oldest first; the remaining quantities add up to the variant's stockOnHand.
+// They are kept for every tenant so switching the costing method needs no rebuild.
+@Entity({ name: "inventory_cost_layers" })
+@Index(["adminId", "variantId"])
+@Index(["variantId", "sequence"], { where: `"remainingQuantity" > 0` })
+export class InventoryCostLayerEntity {
+  @PrimaryGeneratedColumn("uuid")
+  id: string;
+
+  @Index()
+  @Column({ type: "uuid", nullable: true })
+  adminId: string;
+
+  @ManyToOne(() => User, { onDelete: "SET NULL" })
+  @JoinColumn({ name: "adminId" })
+  admin: User;
+
+  @Column({ type: "uuid" })
+  variantId!: string;
+
+  @ManyToOne(() => ProductVariantEntity, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "variantId" })
+  variant!: Relation<ProductVariantEntity>;
+
+  @Column({ type: "decimal", precision: 14, scale: 4, default: 0 })
+  unitCost!: number;
+
+  @Column({ type: "int" })
+  quantity!: number;
+
+  @Column({ type: "int" })
+  remainingQuantity!: number;
+
+  // movement that created the layer (null reason = stock that existed before costing started)
+  @Column({ type: "enum", enum: StockMovementReason, nullable: true })
+  reason?: StockMovementReason | null;
+
+  @Column({ type: "varchar", length: 40, nullable: true })
+  referenceType?: StockMovementReference | null;
+
+  @Column({ type: "varchar", length: 64, nullable: true })
+  referenceId?: string | null;
+
+  // consumption order (oldest first)
+  @Column({ type: "bigint" })
+  @Generated("increment")
+  sequence!: string;
+
+  @CreateDateColumn({ type: "timestamptz" })
+  created_at!: Date;
+}
@@ -75,6 +75,9 @@ export enum NotificationType {
   SUPPORT_TICKET_RESOLVED = "support_ticket_resolved",
   SUPPORT_TICKET_CLOSED = "support_ticket_closed",
   SUPPORT_TICKET_CANCELED = "support_ticket_canceled",
+  STOCK_LEDGER_MISMATCH = "stock_ledger_mismatch",
+  LOT_EXPIRY_ALERT = "lot_expiry_alert",
+  ORDER_SLA_BREACHED = "order_sla_breached",
 }
 
 @Entity("notifications")
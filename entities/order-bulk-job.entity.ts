@@ -0,0 +1,101 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from "typeorm";
+import { User } from "./user.entity";
+
+export enum OrderBulkAction {
+  UPDATE_SHIPPING_INFO = "update_shipping_info",
+  PRINT = "print",
+  CHANGE_STATUS = "change_status",
+  ASSIGN = "assign",
+  REVERT = "revert", // undoes the status changes of an earlier job
+}
+
+export enum OrderBulkJobStatus {
+  QUEUED = "queued",
+  PROCESSING = "processing",
+  COMPLETED = "completed",
+  COMPLETED_WITH_ERRORS = "completed_with_errors",
+  CANCELLED = "cancelled",
+  FAILED = "failed", // the job itself could not run
+}
+
+export type OrderBulkJobFailure = {
+  orderId: string;
+  orderNumber?: string | null;
+  message: string;
+};
+
+// ✅ A bulk action over many orders, run order by order in the background by the order-sync queue.
+// The selection (id list or filter) is resolved to ids when the job is submitted.
+@Entity({ name: "order_bulk_jobs" })
+@Index(["adminId", "created_at"])
+export class OrderBulkJobEntity {
+  @PrimaryGeneratedColumn("uuid")
+  id: string;
+
+  @Index()
+  @Column({ type: "uuid", nullable: true })
+  adminId: string;
+
+  @ManyToOne(() => User, { onDelete: "SET NULL" })
+  @JoinColumn({ name: "adminId" })
+  admin: User;
+
+  // the action runs with this user's permissions and is reported to them
+  @Column({ type: "uuid", nullable: true })
+  userId?: string | null;
+
+  @Column({ type: "varchar", length: 40 })
+  action!: OrderBulkAction;
+
+  // action input (target status, shipping fields, assignee...)
+  @Column({ type: "jsonb", default: {} })
+  params!: Record<string, any>;
+
+  @Column({ type: "jsonb", default: [], select: false })
+  orderIds!: string[];
+
+  @Column({ type: "varchar", length: 30, default: OrderBulkJobStatus.QUEUED })
+  status!: OrderBulkJobStatus;
+
+  @Column({ type: "boolean", default: false })
+  cancelRequested!: boolean;
+
+  @Column({ type: "int", default: 0 })
+  totalCount!: number;
+
+  @Column({ type: "int", default: 0 })
+  processedCount!: number;
+
+  @Column({ type: "int", default: 0 })
+  succeededCount!: number;
+
+  @Column({ type: "int", default: 0 })
+  failedCount!: number;
+
+  @Column({ type: "jsonb", default: [], select: false })
+  failures!: OrderBulkJobFailure[];
+
+  @Column({ type: "text", nullable: true })
+  errorMessage?: string | null;
+
+  @Column({ type: "timestamptz", nullable: true })
+  startedAt?: Date | null;
+
+  @Column({ type: "timestamptz", nullable: true })
+  finishedAt?: Date | null;
+
+  @CreateDateColumn({ type: "timestamptz" })
+  created_at!: Date;
+
+  @UpdateDateColumn({ type: "timestamptz" })
+  updated_at!: Date;
+}
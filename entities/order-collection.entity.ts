@@ -1,6 +1,6 @@
 import { Column, CreateDateColumn, Entity, Index, JoinColumn, ManyToOne, PrimaryGeneratedColumn } from "typeorm";
 import { OrderEntity } from "./order.entity";
-import { ShippingCompanyEntity } from "./shipping.entity";
+import { ShipmentEntity, ShippingCompanyEntity } from "./shipping.entity";
 import { User } from "./user.entity";
 
 // src/entities/payment-source.enum.ts
@@ -65,6 +65,14 @@ export class OrderCollectionEntity {
     @JoinColumn({ name: "shippingCompanyId" })
     shippingCompany?: ShippingCompanyEntity | null;
 
+    // parcel of a split order this money was collected for
+    @Column({ type: 'uuid', nullable: true })
+    shipmentId?: string | null;
+
+    @ManyToOne(() => ShipmentEntity, { nullable: true, onDelete: "SET NULL" })
+    @JoinColumn({ name: "shipmentId" })
+    shipment?: ShipmentEntity | null;
+
     @Column({ type: "uuid", nullable: true })
     safeId: string;
 
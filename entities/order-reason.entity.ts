@@ -0,0 +1,73 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from "typeorm";
+import { User } from "./user.entity";
+
+// root cause family a reason rolls up to in the reports
+export enum OrderReasonCategory {
+  PRICE = "price",
+  DELIVERY_TIME = "delivery_time",
+  CHANGED_MIND = "changed_mind",
+  FAKE_ORDER = "fake_order",
+  PRODUCT = "product",
+  CUSTOMER_UNREACHABLE = "customer_unreachable",
+  WRONG_DATA = "wrong_data",
+  OTHER = "other",
+}
+
+// which moves the reason can be picked for
+export enum OrderReasonScope {
+  REJECTION = "rejection",
+  CANCELLATION = "cancellation",
+  FAILED_DELIVERY = "failed_delivery",
+}
+
+// ✅ Tenant managed reason code, required on rejecting / cancelling / failing delivery once the tenant defines one for that scope
+@Entity({ name: "order_reasons" })
+@Index(["adminId", "code"], { unique: true })
+export class OrderReasonEntity {
+  @PrimaryGeneratedColumn("uuid")
+  id: string;
+
+  @Index()
+  @Column({ type: "uuid", nullable: true })
+  adminId: string;
+
+  @ManyToOne(() => User, { onDelete: "SET NULL" })
+  @JoinColumn({ name: "adminId" })
+  admin: User;
+
+  @Column({ type: "varchar", length: 60 })
+  code!: string;
+
+  @Column({ type: "varchar", length: 150 })
+  labelEn!: string;
+
+  @Column({ type: "varchar", length: 150 })
+  labelAr!: string;
+
+  @Column({ type: "enum", enum: OrderReasonCategory, default: OrderReasonCategory.OTHER })
+  category!: OrderReasonCategory;
+
+  @Column({ type: "jsonb", default: [] })
+  scopes!: OrderReasonScope[];
+
+  @Column({ type: "boolean", default: true })
+  isActive!: boolean;
+
+  @Column({ type: "int", default: 0 })
+  sortOrder!: number;
+
+  @CreateDateColumn({ type: "timestamptz" })
+  created_at!: Date;
+
+  @UpdateDateColumn({ type: "timestamptz" })
+  updated_at!: Date;
+}
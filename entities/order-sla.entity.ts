@@ -0,0 +1,117 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from "typeorm";
+import { User } from "./user.entity";
+import { OrderEntity, OrderStatusEntity } from "./order.entity";
+
+// ✅ Tenant SLA: how long an order may stay in a status before it is flagged
+@Entity({ name: "order_sla_rules" })
+@Index(["adminId", "statusId"], { unique: true })
+export class OrderSlaRuleEntity {
+  @PrimaryGeneratedColumn("uuid")
+  id: string;
+
+  @Index()
+  @Column({ type: "uuid", nullable: true })
+  adminId: string;
+
+  @ManyToOne(() => User, { onDelete: "SET NULL" })
+  @JoinColumn({ name: "adminId" })
+  admin: User;
+
+  @Column({ type: "uuid" })
+  statusId!: string;
+
+  @ManyToOne(() => OrderStatusEntity, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "statusId" })
+  status: OrderStatusEntity;
+
+  @Column({ type: "int" })
+  maxMinutes!: number;
+
+  // share of maxMinutes after which the order shows as "at risk"
+  @Column({ type: "int", default: 80 })
+  atRiskPercent!: number;
+
+  // only count the tenant's working hours (client settings), otherwise wall clock time
+  @Column({ type: "boolean", default: true })
+  businessHoursOnly!: boolean;
+
+  @Column({ type: "boolean", default: true })
+  isActive!: boolean;
+
+  @CreateDateColumn({ type: "timestamptz" })
+  created_at!: Date;
+
+  @UpdateDateColumn({ type: "timestamptz" })
+  updated_at!: Date;
+}
+
+// ✅ One stay of an order in a status covered by an SLA rule, opened and flagged by the SLA cron
+@Entity({ name: "order_sla_timers" })
+@Index(["orderId", "statusId", "enteredAt"], { unique: true })
+@Index(["adminId", "resolvedAt", "dueAt"])
+export class OrderSlaTimerEntity {
+  @PrimaryGeneratedColumn("uuid")
+  id: string;
+
+  @Index()
+  @Column({ type: "uuid", nullable: true })
+  adminId: string;
+
+  @Column({ type: "uuid" })
+  orderId!: string;
+
+  @ManyToOne(() => OrderEntity, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "orderId" })
+  order: OrderEntity;
+
+  @Column({ type: "uuid", nullable: true })
+  ruleId?: string | null;
+
+  @ManyToOne(() => OrderSlaRuleEntity, { nullable: true, onDelete: "SET NULL" })
+  @JoinColumn({ name: "ruleId" })
+  rule?: OrderSlaRuleEntity;
+
+  @Column({ type: "uuid" })
+  statusId!: string;
+
+  @ManyToOne(() => OrderStatusEntity, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "statusId" })
+  status: OrderStatusEntity;
+
+  // agent holding the order, refreshed when the timer is flagged
+  @Index()
+  @Column({ type: "uuid", nullable: true })
+  employeeId?: string | null;
+
+  @ManyToOne(() => User, { nullable: true, onDelete: "SET NULL" })
+  @JoinColumn({ name: "employeeId" })
+  employee?: User;
+
+  @Column({ type: "timestamptz" })
+  enteredAt!: Date;
+
+  @Column({ type: "timestamptz" })
+  atRiskAt!: Date;
+
+  @Column({ type: "timestamptz" })
+  dueAt!: Date;
+
+  @Column({ type: "timestamptz", nullable: true })
+  breachedAt?: Date | null;
+
+  // set once the order left the status
+  @Column({ type: "timestamptz", nullable: true })
+  resolvedAt?: Date | null;
+
+  @CreateDateColumn({ type: "timestamptz" })
+  created_at!: Date;
+}
@@ -0,0 +1,64 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+  Relation,
+  UpdateDateColumn,
+} from "typeorm";
+import { User } from "./user.entity";
+import { OrderStatusEntity } from "./order.entity";
+
+// fields the agent must fill in to perform a transition
+export enum TransitionRequiredField {
+  NOTES = "notes",
+  REJECT_REASON = "rejectReason",
+  POSTPONED_DATE = "postponedDate",
+}
+
+// ✅ One allowed edge of a tenant's order status graph (from -> to).
+// A tenant without any edge keeps the free flow; once one exists, only listed moves are accepted.
+@Entity({ name: "order_status_transitions" })
+@Index(["adminId", "fromStatusId", "toStatusId"], { unique: true })
+export class OrderStatusTransitionEntity {
+  @PrimaryGeneratedColumn("uuid")
+  id: string;
+
+  @Index()
+  @Column({ type: "uuid", nullable: true })
+  adminId: string;
+
+  @ManyToOne(() => User, { onDelete: "SET NULL" })
+  @JoinColumn({ name: "adminId" })
+  admin: User;
+
+  @Column({ type: "uuid" })
+  fromStatusId!: string;
+
+  @ManyToOne(() => OrderStatusEntity, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "fromStatusId" })
+  fromStatus!: Relation<OrderStatusEntity>;
+
+  @Column({ type: "uuid" })
+  toStatusId!: string;
+
+  @ManyToOne(() => OrderStatusEntity, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "toStatusId" })
+  toStatus!: Relation<OrderStatusEntity>;
+
+  @Column({ type: "jsonb", default: [] })
+  requiredFields!: TransitionRequiredField[];
+
+  // roles allowed to perform the move; empty = every role
+  @Column({ type: "jsonb", default: [] })
+  allowedRoleIds!: string[];
+
+  @CreateDateColumn({ type: "timestamptz" })
+  created_at!: Date;
+
+  @UpdateDateColumn({ type: "timestamptz" })
+  updated_at!: Date;
+}
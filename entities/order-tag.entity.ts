@@ -0,0 +1,43 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from "typeorm";
+import { User } from "./user.entity";
+
+// ✅ Tenant defined label put on orders ("VIP", "gift", "fragile"...) for routing and reporting
+@Entity({ name: "order_tags" })
+@Index(["adminId", "name"], { unique: true })
+export class OrderTagEntity {
+  @PrimaryGeneratedColumn("uuid")
+  id: string;
+
+  @Index()
+  @Column({ type: "uuid", nullable: true })
+  adminId: string;
+
+  @ManyToOne(() => User, { onDelete: "SET NULL" })
+  @JoinColumn({ name: "adminId" })
+  admin: User;
+
+  @Column({ type: "varchar", length: 60 })
+  name!: string;
+
+  @Column({ type: "varchar", length: 20, default: "#6B7280" })
+  color!: string;
+
+  // store-side tag names (Shopify / WooCommerce) imported as this tag, matched case-insensitively
+  @Column({ type: "jsonb", default: [] })
+  aliases!: string[];
+
+  @CreateDateColumn({ type: "timestamptz" })
+  created_at!: Date;
+
+  @UpdateDateColumn({ type: "timestamptz" })
+  updated_at!: Date;
+}
@@ -0,0 +1,60 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from "typeorm";
+import { User } from "./user.entity";
+import { OrderFilterGroup } from "src/orders/utils/order-filter";
+
+// ✅ Named order filter saved by a user, optionally shared with the rest of the tenant's team
+@Entity({ name: "order_saved_views" })
+@Index(["adminId", "ownerId"])
+export class OrderViewEntity {
+  @PrimaryGeneratedColumn("uuid")
+  id: string;
+
+  @Index()
+  @Column({ type: "uuid", nullable: true })
+  adminId: string;
+
+  @ManyToOne(() => User, { onDelete: "SET NULL" })
+  @JoinColumn({ name: "adminId" })
+  admin: User;
+
+  @Column({ type: "uuid" })
+  ownerId!: string;
+
+  @ManyToOne(() => User, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "ownerId" })
+  owner: User;
+
+  @Column({ type: "varchar", length: 120 })
+  name!: string;
+
+  @Column({ type: "jsonb" })
+  filter!: OrderFilterGroup;
+
+  @Column({ type: "varchar", length: 50, nullable: true })
+  sortBy?: string | null;
+
+  @Column({ type: "varchar", length: 4, nullable: true })
+  sortDir?: "ASC" | "DESC" | null;
+
+  @Column({ type: "boolean", default: false })
+  shared!: boolean;
+
+  // users that pinned the view to their orders page, each sees it with a live count
+  @Column({ type: "jsonb", default: [] })
+  pinnedBy!: string[];
+
+  @CreateDateColumn({ type: "timestamptz" })
+  created_at!: Date;
+
+  @UpdateDateColumn({ type: "timestamptz" })
+  updated_at!: Date;
+}
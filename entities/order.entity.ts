@@ -14,6 +14,9 @@ import {
   OneToOne,
   Relation,
   DeleteDateColumn,
+  ManyToMany,
+  JoinTable,
+  VersionColumn,
 } from "typeorm";
 import { ProductVariantEntity } from "./sku.entity";
 import { StoreEntity } from "./stores.entity";
@@ -26,6 +29,9 @@ import { normalizeEgyptianPhoneNumber } from "common/whatsapp";
 import { CityEntity } from "./cities.entity";
 import { OrderAssignmentEntity } from "./assignment.entity";
 import { BundleEntity } from "./bundle.entity";
+import { WarehouseEntity } from "./warehouses.entity";
+import { OrderReasonEntity } from "./order-reason.entity";
+import { OrderTagEntity } from "./order-tag.entity";
 
 
 // ✅ Order Status Enum
@@ -126,6 +132,28 @@ export enum PaymentMethod {
   UNKNOWN = "unknown",
 }
 
+// ✅ Risk Level Enum (fraud detection)
+export enum OrderRiskLevel {
+  LOW = "low",
+  MEDIUM = "medium",
+  HIGH = "high",
+}
+
+// ✅ Fulfilment of an order split into several shipments (null = the order ships as one parcel)
+export enum OrderFulfillmentStatus {
+  PARTIALLY_SHIPPED = "partially_shipped",
+  SHIPPED = "shipped",
+  PARTIALLY_DELIVERED = "partially_delivered",
+  DELIVERED = "delivered",
+}
+
+export type OrderRiskReason = {
+  rule: string; // FraudRuleType
+  points: number;
+  value: number; // the measured value that triggered the rule
+  threshold: number;
+};
+
 // ✅ Main Order Entity
 @Entity({ name: "orders" })
 @Index(["adminId", "orderNumber"], { unique: true })
@@ -136,6 +164,7 @@ export enum PaymentMethod {
 @Index(["adminId", "city", "area"])
 @Index(["adminId", "statusId", "rejectedAt"])
 @Index(["adminId", "normalizedPhoneNumber", "itemsSignature"])
+@Index(["adminId", "riskLevel"])
 export class OrderEntity {
   @PrimaryGeneratedColumn('uuid')
   id: string;
@@ -146,6 +175,14 @@ export class OrderEntity {
   @Column({ type: "text", nullable: true })
   rejectReason: string; // ✅ The new column for rejection/cancellation reasons
 
+  // coded reason of the last rejection / cancellation / failed delivery (free text stays in rejectReason)
+  @Column({ type: "uuid", nullable: true })
+  reasonId?: string | null;
+
+  @ManyToOne(() => OrderReasonEntity, { nullable: true, onDelete: "SET NULL" })
+  @JoinColumn({ name: "reasonId" })
+  reason?: OrderReasonEntity;
+
   @UpdateDateColumn({ type: "timestamptz", nullable: true })
   rejectedAt?: Date;
 
@@ -223,6 +260,27 @@ export class OrderEntity {
   @Column({ type: "varchar", length: 100, nullable: true })
   originalOrderNumber?: string;
 
+  // set on a duplicate once it was merged into the surviving order
+  @Index()
+  @Column({ type: "uuid", nullable: true })
+  mergedIntoOrderId?: string | null;
+
+  @Column({ type: "timestamptz", nullable: true })
+  mergedAt?: Date | null;
+
+  // ✅ Fraud Detection
+  @Column({ type: "int", nullable: true })
+  riskScore?: number | null; // 0 - 100, null when the order was never scored
+
+  @Column({ type: "enum", enum: OrderRiskLevel, nullable: true })
+  riskLevel?: OrderRiskLevel | null;
+
+  @Column({ type: "jsonb", nullable: true })
+  riskReasons?: OrderRiskReason[] | null;
+
+  @Column({ type: "timestamptz", nullable: true })
+  riskScoredAt?: Date | null;
+
   @Column({ type: "varchar", length: 50, nullable: true })
   secondPhoneNumber?: string;
 
@@ -297,9 +355,22 @@ export class OrderEntity {
   @JoinColumn({ name: "storeId" })
   store?: StoreEntity | null;
 
+  // ✅ Fulfilment warehouse (stock is deducted from it first)
+  @Column({ type: 'uuid', nullable: true })
+  @Index()
+  warehouseId?: string | null;
+
+  @ManyToOne(() => WarehouseEntity, { nullable: true, onDelete: "SET NULL" })
+  @JoinColumn({ name: "warehouseId" })
+  warehouse?: WarehouseEntity | null;
+
   @Column({ type: "varchar", length: 100, nullable: true })
   trackingNumber?: string;
 
+  // derived from the order's split shipments, see ShippingService.splitShipment
+  @Column({ type: "enum", enum: OrderFulfillmentStatus, nullable: true })
+  fulfillmentStatus?: OrderFulfillmentStatus | null;
+
   @UpdateDateColumn({ type: "timestamptz", nullable: true })
   distributed_at?: Date;
 
@@ -365,12 +436,24 @@ export class OrderEntity {
   @OneToMany(() => ReturnRequestEntity, (returnRequest) => returnRequest.order)
   returnRequests: ReturnRequestEntity[];
 
+  @ManyToMany(() => OrderTagEntity)
+  @JoinTable({
+    name: "order_tag_links",
+    joinColumn: { name: "orderId", referencedColumnName: "id" },
+    inverseJoinColumn: { name: "tagId", referencedColumnName: "id" },
+  })
+  tags?: OrderTagEntity[];
+
   @CreateDateColumn({ type: "timestamptz" })
   created_at!: Date;
 
   @UpdateDateColumn({ type: "timestamptz" })
   updated_at!: Date;
 
+  // bumped on every save, editors send it back so a stale form cannot overwrite a newer edit
+  @VersionColumn({ default: 1 })
+  version!: number;
+
   @Column({ default: false })
   isReplacement: boolean;
 
@@ -519,6 +602,21 @@ export class OrderItemEntity {
   @Column({ type: "int", default: 0 })
   stockDeductedQuantity: number;
 
+  // quantity whose actual inventory cost is stamped on unitCost (set when stock is deducted)
+  @Column({ type: "int", default: 0 })
+  costedQuantity: number;
+
+  @Column({ type: "timestamptz", nullable: true })
+  costedAt?: Date | null;
+
+  // deducted units no sellable lot covered, taken from unlotted stock
+  @Column({ type: "int", default: 0 })
+  unlottedQuantity: number;
+
+  // Warehouse the deducted stock was taken from (used to restock returns)
+  @Column({ type: 'uuid', nullable: true })
+  warehouseId?: string | null;
+
   @Column({ type: 'uuid', nullable: true })
   bundleId?: string;
 
@@ -652,9 +750,89 @@ export class OrderStatusHistoryEntity {
   @Column({ type: "text", nullable: true })
   notes?: string;
 
+  // reason code picked with the move, source of the rejection / cancellation analytics
+  @Index()
+  @Column({ type: "uuid", nullable: true })
+  reasonId?: string | null;
+
+  @ManyToOne(() => OrderReasonEntity, { nullable: true, onDelete: "SET NULL" })
+  @JoinColumn({ name: "reasonId" })
+  reason?: OrderReasonEntity;
+
   @Column({ type: "varchar", length: 50, nullable: true })
   ipAddress?: string;
 
+  // background bulk job the move was part of, so the whole job can be reverted
+  @Index()
+  @Column({ type: "uuid", nullable: true })
+  bulkJobId?: string | null;
+
+  // set on the move written by a revert: the move it undid
+  @Column({ type: "uuid", nullable: true })
+  revertOfId?: string | null;
+
+  @Column({ type: "timestamptz", nullable: true })
+  revertedAt?: Date | null;
+
+  @Column({ type: "uuid", nullable: true })
+  revertedByUserId?: string | null;
+
+  @CreateDateColumn({ type: "timestamptz" })
+  created_at!: Date;
+}
+
+// where an order edit came from
+export enum OrderChangeSource {
+  UI = "ui",
+  BULK_UPDATE = "bulk_update",
+  UPSELL = "upsell",
+  REPLACEMENT = "replacement",
+}
+
+export type OrderFieldChange = {
+  field: string; // order column, or "items.<sku>" for a line
+  oldValue: any;
+  newValue: any;
+};
+
+// ✅ Order Field Change Log (one row per edit, with the diff of every changed field)
+@Entity({ name: "order_change_logs" })
+@Index(["orderId", "created_at"])
+export class OrderChangeLogEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Index()
+  @Column({ type: 'uuid', nullable: true })
+  adminId: string;
+
+  @ManyToOne(() => User, { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'adminId' })
+  admin: User;
+
+  @Column({ type: 'uuid' })
+  orderId!: string;
+
+  @ManyToOne(() => OrderEntity, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "orderId" })
+  order!: OrderEntity;
+
+  @Column({ type: "enum", enum: OrderChangeSource, default: OrderChangeSource.UI })
+  source!: OrderChangeSource;
+
+  @Column({ type: "jsonb", default: [] })
+  changes!: OrderFieldChange[];
+
+  @Column({ type: 'uuid', nullable: true })
+  changedByUserId?: string | null;
+
+  @ManyToOne(() => User, { nullable: true })
+  @JoinColumn({ name: "changedByUserId" })
+  changedByUser?: User;
+
+  @Column({ type: "varchar", length: 50, nullable: true })
+  ipAddress?: string | null;
+
   @CreateDateColumn({ type: "timestamptz" })
   created_at!: Date;
 }
@@ -861,6 +1039,8 @@ export enum OrderActionType {
 
   RETURN_RECEIVED = "RETURN_RECEIVED", // استلام مرتجع
   RETRY_ATTEMPT = "RETRY_ATTEMPT",
+  MERGED = "MERGED", // duplicate orders combined into one
+  STATUS_REVERTED = "STATUS_REVERTED", // a status change undone
 }
 
 export enum OrderActionResult {
@@ -933,6 +1113,17 @@ export enum ReturnRequestStatus {
   APPROVED = "approved",
   REJECTED = "rejected",
 }
+
+// staff create returns directly; customer portal requests wait for staff approval
+export enum ReturnRequestSource {
+  STAFF = "staff",
+  CUSTOMER = "customer",
+}
+
+export enum ReturnRequestType {
+  RETURN = "return",
+  EXCHANGE = "exchange",
+}
 @Index(["adminId", "orderId"])
 @Entity("order_returns")
 export class ReturnRequestEntity {
@@ -957,12 +1148,38 @@ export class ReturnRequestEntity {
   @JoinColumn({ name: "orderId" })
   order: OrderEntity;
 
-  @Column({ type: 'uuid', })
-  userId: string; // User who created the request (Staff/Admin)
+  @Column({ type: 'uuid', nullable: true })
+  userId: string; // User who created the request (Staff/Admin), null for customer portal requests
 
   @Column({ nullable: true })
   reason: string;
 
+  @Column({ type: "enum", enum: ReturnRequestSource, default: ReturnRequestSource.STAFF })
+  source: ReturnRequestSource;
+
+  @Column({ type: "enum", enum: ReturnRequestType, default: ReturnRequestType.RETURN })
+  type: ReturnRequestType;
+
+  @Column({ type: "jsonb", default: [] })
+  images: string[];
+
+  @Column({ type: "text", nullable: true })
+  customerNotes?: string | null;
+
+  // ✅ Staff review of customer requests (null = awaiting approval)
+  @Column({ type: "uuid", nullable: true })
+  reviewedById?: string | null;
+
+  @ManyToOne(() => User, { nullable: true, onDelete: "SET NULL" })
+  @JoinColumn({ name: "reviewedById" })
+  reviewedBy?: User;
+
+  @Column({ type: "timestamptz", nullable: true })
+  reviewedAt?: Date | null;
+
+  @Column({ type: "text", nullable: true })
+  reviewNote?: string | null;
+
   @OneToMany(() => ReturnRequestItemEntity, (item) => item.returnRequest, {
     cascade: true,
   })
@@ -1018,4 +1235,12 @@ export class ReturnRequestItemEntity {
 
   @Column({ nullable: true })
   condition: string; // e.g., "Damaged", "Resellable"
+
+  // variant the customer wants instead, on exchange requests
+  @Column({ type: 'uuid', nullable: true })
+  exchangeVariantId?: string | null;
+
+  @ManyToOne(() => ProductVariantEntity, { nullable: true })
+  @JoinColumn({ name: "exchangeVariantId" })
+  exchangeVariant?: ProductVariantEntity;
 }
@@ -0,0 +1,176 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  OneToMany,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from "typeorm";
+import { User } from "./user.entity";
+import { OrderEntity } from "./order.entity";
+import { ProductVariantEntity } from "./sku.entity";
+import { StorageLocationEntity, WarehouseEntity } from "./warehouses.entity";
+
+export enum PickWaveStatus {
+  PICKING = "picking", // pickers walk the aggregated list
+  PACKING = "packing", // everything picked, items are sorted back to their orders
+  COMPLETED = "completed",
+  CANCELLED = "cancelled",
+}
+
+// ✅ A batch of orders picked in one walk through the warehouse
+@Entity({ name: "pick_waves" })
+@Index(["adminId", "waveNumber"], { unique: true })
+@Index(["adminId", "status"])
+export class PickWaveEntity {
+  @PrimaryGeneratedColumn("uuid")
+  id: string;
+
+  @Index()
+  @Column({ type: "uuid", nullable: true })
+  adminId: string;
+
+  @ManyToOne(() => User, { onDelete: "SET NULL" })
+  @JoinColumn({ name: "adminId" })
+  admin: User;
+
+  @Column({ type: "varchar", length: 120 })
+  waveNumber!: string;
+
+  // warehouse the pick locations are read from (null when the orders have none)
+  @Column({ type: "uuid", nullable: true })
+  warehouseId?: string | null;
+
+  @ManyToOne(() => WarehouseEntity, { nullable: true, onDelete: "SET NULL" })
+  @JoinColumn({ name: "warehouseId" })
+  warehouse?: WarehouseEntity | null;
+
+  @Column({ type: "varchar", length: 30, default: PickWaveStatus.PICKING })
+  status!: PickWaveStatus;
+
+  @Column({ type: "text", nullable: true })
+  notes?: string | null;
+
+  @OneToMany(() => PickWaveOrderEntity, (x) => x.wave)
+  orders!: PickWaveOrderEntity[];
+
+  @OneToMany(() => PickWaveLineEntity, (x) => x.wave)
+  lines!: PickWaveLineEntity[];
+
+  @Column({ type: "uuid", nullable: true })
+  createdByUserId?: string | null;
+
+  @ManyToOne(() => User, { nullable: true, onDelete: "SET NULL" })
+  @JoinColumn({ name: "createdByUserId" })
+  createdBy?: User | null;
+
+  @Column({ type: "timestamptz", nullable: true })
+  pickedAt?: Date | null;
+
+  @Column({ type: "timestamptz", nullable: true })
+  completedAt?: Date | null;
+
+  @CreateDateColumn({ type: "timestamptz" })
+  created_at!: Date;
+
+  @UpdateDateColumn({ type: "timestamptz" })
+  updated_at!: Date;
+}
+
+// ✅ Order of a wave and the slot (tote / pigeonhole) its items are sorted into
+@Entity({ name: "pick_wave_orders" })
+@Index(["waveId", "orderId"], { unique: true })
+export class PickWaveOrderEntity {
+  @PrimaryGeneratedColumn("uuid")
+  id: string;
+
+  @Index()
+  @Column({ type: "uuid", nullable: true })
+  adminId: string;
+
+  @Column({ type: "uuid" })
+  @Index()
+  waveId!: string;
+
+  @ManyToOne(() => PickWaveEntity, (x) => x.orders, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "waveId" })
+  wave!: PickWaveEntity;
+
+  @Column({ type: "uuid" })
+  @Index()
+  orderId!: string;
+
+  @ManyToOne(() => OrderEntity, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "orderId" })
+  order!: OrderEntity;
+
+  @Column({ type: "int" })
+  slot!: number;
+
+  // set once every item of the order went through the preparation scan
+  @Column({ type: "timestamptz", nullable: true })
+  packedAt?: Date | null;
+}
+
+// ✅ Aggregated pick line: total quantity of a variant across the wave orders
+@Entity({ name: "pick_wave_lines" })
+@Index(["waveId", "variantId"], { unique: true })
+export class PickWaveLineEntity {
+  @PrimaryGeneratedColumn("uuid")
+  id: string;
+
+  @Index()
+  @Column({ type: "uuid", nullable: true })
+  adminId: string;
+
+  @Column({ type: "uuid" })
+  @Index()
+  waveId!: string;
+
+  @ManyToOne(() => PickWaveEntity, (x) => x.lines, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "waveId" })
+  wave!: PickWaveEntity;
+
+  @Column({ type: "uuid" })
+  variantId!: string;
+
+  @ManyToOne(() => ProductVariantEntity, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "variantId" })
+  variant!: ProductVariantEntity;
+
+  @Column({ type: "uuid", nullable: true })
+  storageLocationId?: string | null;
+
+  @ManyToOne(() => StorageLocationEntity, { nullable: true, onDelete: "SET NULL" })
+  @JoinColumn({ name: "storageLocationId" })
+  storageLocation?: StorageLocationEntity | null;
+
+  // "zone / rack / shelf / bin" names when the wave was created, the list is walked in this order
+  @Column({ type: "varchar", length: 500, nullable: true })
+  locationPath?: string | null;
+
+  @Column({ type: "int" })
+  quantity!: number;
+
+  @Column({ type: "int", default: 0 })
+  pickedQuantity!: number;
+
+  // picked units already scanned into an order at the packing step
+  @Column({ type: "int", default: 0 })
+  sortedQuantity!: number;
+
+  @Column({ type: "uuid", nullable: true })
+  pickedByUserId?: string | null;
+
+  @Column({ type: "timestamptz", nullable: true })
+  pickedAt?: Date | null;
+
+  @CreateDateColumn({ type: "timestamptz" })
+  created_at!: Date;
+
+  @UpdateDateColumn({ type: "timestamptz" })
+  updated_at!: Date;
+}
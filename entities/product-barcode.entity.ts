@@ -0,0 +1,62 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+  Relation,
+} from "typeorm";
+import { User } from "./user.entity";
+import { ProductVariantEntity } from "./sku.entity";
+
+export enum BarcodeType {
+  EAN13 = "ean13",
+  CODE128 = "code128",
+}
+
+// ✅ Scannable code of a variant. A variant may carry several (supplier EAN + internal label);
+// codes are unique per tenant so a scan always resolves to a single variant.
+@Entity({ name: "product_variant_barcodes" })
+@Index(["adminId", "code"], { unique: true })
+@Index(["adminId", "variantId"])
+export class ProductVariantBarcodeEntity {
+  @PrimaryGeneratedColumn("uuid")
+  id: string;
+
+  @Index()
+  @Column({ type: "uuid", nullable: true })
+  adminId: string;
+
+  @ManyToOne(() => User, { onDelete: "SET NULL" })
+  @JoinColumn({ name: "adminId" })
+  admin: User;
+
+  @Column({ type: "uuid" })
+  variantId!: string;
+
+  @ManyToOne(() => ProductVariantEntity, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "variantId" })
+  variant!: Relation<ProductVariantEntity>;
+
+  @Column({ type: "varchar", length: 64 })
+  code!: string;
+
+  @Column({ type: "enum", enum: BarcodeType, default: BarcodeType.CODE128 })
+  type!: BarcodeType;
+
+  // printed on labels when the variant has more than one code
+  @Column({ type: "boolean", default: false })
+  isPrimary!: boolean;
+
+  // generated by the system (in-store EAN-13) rather than entered by a user
+  @Column({ type: "boolean", default: false })
+  isGenerated!: boolean;
+
+  @Column({ type: "uuid", nullable: true })
+  createdByUserId?: string | null;
+
+  @CreateDateColumn({ type: "timestamptz" })
+  created_at!: Date;
+}
@@ -0,0 +1,87 @@
+// --- File: entities/product-import.entity.ts ---
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+  ManyToOne,
+  JoinColumn,
+} from "typeorm";
+import { User } from "./user.entity";
+
+export enum ProductImportStatus {
+  QUEUED = "queued",
+  PROCESSING = "processing",
+  COMPLETED = "completed",
+  COMPLETED_WITH_ERRORS = "completed_with_errors",
+  FAILED = "failed", // the file itself could not be processed
+}
+
+// ✅ One uploaded catalog spreadsheet, processed in the background by the product-import queue.
+// Files are kept in the database (not under /uploads, which is served publicly).
+@Entity({ name: "product_imports" })
+@Index(["adminId", "created_at"])
+export class ProductImportEntity {
+  @PrimaryGeneratedColumn("uuid")
+  id: string;
+
+  @Index()
+  @Column({ type: "uuid", nullable: true })
+  adminId: string;
+
+  @ManyToOne(() => User, { onDelete: "SET NULL" })
+  @JoinColumn({ name: "adminId" })
+  admin: User;
+
+  @Column({ type: "uuid", nullable: true })
+  userId?: string | null;
+
+  @Column({ type: "varchar", length: 255 })
+  fileName!: string;
+
+  @Column({ type: "varchar", length: 30, default: ProductImportStatus.QUEUED })
+  status!: ProductImportStatus;
+
+  @Column({ type: "int", default: 0 })
+  totalRows!: number;
+
+  @Column({ type: "int", default: 0 })
+  processedRows!: number;
+
+  @Column({ type: "int", default: 0 })
+  createdCount!: number;
+
+  @Column({ type: "int", default: 0 })
+  updatedCount!: number;
+
+  @Column({ type: "int", default: 0 })
+  failedCount!: number;
+
+  @Column({ type: "text", nullable: true })
+  errorMessage?: string | null;
+
+  // uploaded spreadsheet, cleared once processed
+  @Column({ type: "bytea", nullable: true, select: false })
+  sourceFile?: Buffer | null;
+
+  // failed rows with the offending cells highlighted
+  @Column({ type: "bytea", nullable: true, select: false })
+  errorReport?: Buffer | null;
+
+  @Column({ type: "boolean", default: false })
+  hasErrorReport!: boolean;
+
+  @Column({ type: "timestamptz", nullable: true })
+  startedAt?: Date | null;
+
+  @Column({ type: "timestamptz", nullable: true })
+  finishedAt?: Date | null;
+
+  @CreateDateColumn({ type: "timestamptz" })
+  created_at!: Date;
+
+  @UpdateDateColumn({ type: "timestamptz" })
+  updated_at!: Date;
+}
@@ -0,0 +1,128 @@
+// entities/purchase-suggestion.entity.ts
+import {
+	Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn,
+	Index, ManyToOne, JoinColumn, OneToMany,
+} from "typeorm";
+import { User } from "./user.entity";
+import { ProductVariantEntity } from "./sku.entity";
+import { SupplierEntity } from "./supplier.entity";
+import { PurchaseInvoiceEntity } from "./purchase.entity";
+
+export enum PurchaseSuggestionStatus {
+	PENDING = "pending", // waiting for review
+	CONVERTED = "converted", // turned into a purchase invoice
+	DISMISSED = "dismissed",
+}
+
+// Draft purchase generated by the replenishment job for variants below their reorder point,
+// one pending suggestion per supplier (null = variants without a preferred supplier).
+@Entity({ name: "purchase_suggestions" })
+@Index(["adminId", "status"])
+@Index(["adminId", "supplierId"])
+export class PurchaseSuggestionEntity {
+	@PrimaryGeneratedColumn('uuid')
+	id: string;
+
+	@Index()
+	@Column({ type: 'uuid', nullable: true })
+	adminId: string;
+
+	@ManyToOne(() => User, { onDelete: 'SET NULL' })
+	@JoinColumn({ name: 'adminId' })
+	admin: User;
+
+	@Column({ type: 'uuid', nullable: true })
+	supplierId?: string | null;
+
+	@ManyToOne(() => SupplierEntity, { nullable: true, onDelete: "SET NULL" })
+	@JoinColumn({ name: "supplierId" })
+	supplier?: SupplierEntity | null;
+
+	@Column({ type: "varchar", length: 20, default: PurchaseSuggestionStatus.PENDING })
+	status!: PurchaseSuggestionStatus;
+
+	@Column({ type: "text", nullable: true })
+	notes?: string | null;
+
+	@OneToMany(() => PurchaseSuggestionItemEntity, (x) => x.suggestion, { cascade: true, eager: true })
+	items!: PurchaseSuggestionItemEntity[];
+
+	@Column({ type: 'uuid', nullable: true })
+	purchaseInvoiceId?: string | null;
+
+	@ManyToOne(() => PurchaseInvoiceEntity, { nullable: true, onDelete: "SET NULL" })
+	@JoinColumn({ name: "purchaseInvoiceId" })
+	purchaseInvoice?: PurchaseInvoiceEntity | null;
+
+	@Column({ type: 'uuid', nullable: true })
+	reviewedByUserId?: string | null;
+
+	@Column({ type: "timestamptz", nullable: true })
+	reviewedAt?: Date | null;
+
+	// last time the job refreshed the lines
+	@Column({ type: "timestamptz", nullable: true })
+	generatedAt?: Date | null;
+
+	@CreateDateColumn({ type: "timestamptz" })
+	created_at!: Date;
+
+	@UpdateDateColumn({ type: "timestamptz" })
+	updated_at!: Date;
+}
+
+@Entity({ name: "purchase_suggestion_items" })
+@Index(["suggestionId", "variantId"], { unique: true })
+export class PurchaseSuggestionItemEntity {
+	@PrimaryGeneratedColumn('uuid')
+	id: string;
+
+	@Index()
+	@Column({ type: 'uuid', nullable: true })
+	adminId: string;
+
+	@Column({ type: 'uuid' })
+	@Index()
+	suggestionId!: string;
+
+	@ManyToOne(() => PurchaseSuggestionEntity, (x) => x.items, { onDelete: "CASCADE" })
+	@JoinColumn({ name: "suggestionId" })
+	suggestion!: PurchaseSuggestionEntity;
+
+	@Column({ type: 'uuid' })
+	@Index()
+	variantId!: string;
+
+	@ManyToOne(() => ProductVariantEntity, { eager: true, onDelete: "CASCADE" })
+	@JoinColumn({ name: "variantId" })
+	variant!: ProductVariantEntity;
+
+	// snapshot of the numbers the suggestion was computed from
+	@Column({ type: "int", default: 0 })
+	availableQuantity!: number;
+
+	@Column({ type: "int", default: 0 })
+	incomingQuantity!: number; // in transit + on open purchase invoices
+
+	@Column({ type: "int", default: 0 })
+	reorderPoint!: number;
+
+	@Column({ type: "decimal", precision: 12, scale: 2, default: 0 })
+	averageDailySales!: number;
+
+	@Column({ type: "int", default: 0 })
+	suggestedQuantity!: number;
+
+	// what will be ordered; starts as suggestedQuantity and can be edited during review
+	@Column({ type: "int", default: 0 })
+	quantity!: number;
+
+	@Column({ type: "decimal", precision: 12, scale: 2, default: 0 })
+	purchaseCost!: number;
+
+	@CreateDateColumn({ type: "timestamptz" })
+	created_at!: Date;
+
+	@UpdateDateColumn({ type: "timestamptz" })
+	updated_at!: Date;
+}
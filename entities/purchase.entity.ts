@@ -11,6 +11,7 @@ import { SupplierEntity } from "./supplier.entity";
 import { MonthlyClosingEntity, SupplierClosingEntity } from "./accounting.entity";
 import { Account } from "./safe.entity";
 import { SupplierPaymentAllocationEntity } from "./supplier_payments.entity";
+import { WarehouseEntity } from "./warehouses.entity";
 
 
 @Entity({ name: "purchase_invoices" })
@@ -38,6 +39,15 @@ export class PurchaseInvoiceEntity {
 	@Column({ type: "varchar", length: 120 })
 	receiptNumber!: string;
 
+	// Warehouse receiving the stock; falls back to each product's warehouse
+	@Column({ type: 'uuid', nullable: true })
+	@Index()
+	warehouseId?: string | null;
+
+	@ManyToOne(() => WarehouseEntity, { nullable: true, onDelete: "SET NULL" })
+	@JoinColumn({ name: "warehouseId" })
+	warehouse?: WarehouseEntity | null;
+
 	@Column({ type: "text", nullable: true })
 	receiptAsset?: any | null;
 
@@ -143,6 +153,13 @@ export class PurchaseInvoiceItemEntity {
 	@Column({ type: "decimal", precision: 12, scale: 2, default: 0 })
 	lineTotal!: number;
 
+	// lot / expiry captured on receipt (see VariantLotEntity)
+	@Column({ type: "varchar", length: 100, nullable: true })
+	lotNumber?: string | null;
+
+	@Column({ type: "date", nullable: true })
+	expiryDate?: string | null;
+
 	@CreateDateColumn({ type: "timestamptz" })
 	created_at!: Date;
 }
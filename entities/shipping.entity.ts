@@ -10,7 +10,7 @@ import {
 	JoinColumn,
 	OneToMany,
 } from 'typeorm';
-import { OrderEntity } from './order.entity';
+import { OrderEntity, OrderItemEntity } from './order.entity';
 import { User } from './user.entity';
 import { CityEntity } from './cities.entity';
 
@@ -240,6 +240,24 @@ export class ShipmentEntity {
 	@Column({ type: "varchar", length: 100, nullable: true })
 	area?: string;
 
+	// ✅ Split shipments: carries only `items`, collects `codAmount` and ships from `warehouseId`
+	@Column({ type: 'boolean', default: false })
+	isPartial: boolean;
+
+	@Column({ type: 'decimal', precision: 12, scale: 2, nullable: true })
+	codAmount?: number | null;
+
+	@Column({ type: 'uuid', nullable: true })
+	warehouseId?: string | null;
+
+	// ✅ Reverse pickup of a customer return: collects items from the customer, never changes the order
+	@Column({ type: 'uuid', nullable: true })
+	@Index()
+	returnRequestId?: string | null;
+
+	@OneToMany(() => ShipmentItemEntity, (item) => item.shipment)
+	items: ShipmentItemEntity[];
+
 	@CreateDateColumn({ type: 'timestamptz' })
 	created_at: Date;
 
@@ -247,6 +265,45 @@ export class ShipmentEntity {
 	updated_at: Date;
 }
 
+@Entity({ name: 'shipment_items' })
+@Index(['adminId', 'orderItemId'])
+export class ShipmentItemEntity {
+	@PrimaryGeneratedColumn('uuid')
+	id: string;
+
+	@Index()
+	@Column({ type: 'uuid', nullable: true })
+	adminId: string;
+
+	@Column({ type: 'uuid' })
+	@Index()
+	shipmentId: string;
+
+	@ManyToOne(() => ShipmentEntity, (shipment) => shipment.items, { onDelete: 'CASCADE' })
+	@JoinColumn({ name: 'shipmentId' })
+	shipment: ShipmentEntity;
+
+	@Column({ type: 'uuid' })
+	orderItemId: string;
+
+	@ManyToOne(() => OrderItemEntity, { onDelete: 'CASCADE' })
+	@JoinColumn({ name: 'orderItemId' })
+	orderItem: OrderItemEntity;
+
+	@Column({ type: 'uuid', nullable: true })
+	variantId?: string | null;
+
+	@Column({ type: 'int' })
+	quantity: number;
+
+	// part of `quantity` already taken out of stock for this shipment (dispatch or delivery)
+	@Column({ type: 'int', default: 0 })
+	deductedQuantity: number;
+
+	@CreateDateColumn({ type: 'timestamptz' })
+	created_at: Date;
+}
+
 
 @Entity({ name: 'shipment_events' })
 @Index(['shipmentId', 'created_at'])
@@ -268,6 +325,10 @@ export class ShipmentEventEntity {
 	@Column({ type: 'varchar', length: 80 })
 	eventType: string;
 
+	// status the shipment moved to, for 'status_changed' events
+	@Column({ type: 'enum', enum: UnifiedShippingStatus, nullable: true })
+	unifiedStatus?: UnifiedShippingStatus | null;
+
 	@Column({ type: 'jsonb', nullable: true })
 	payload?: any;
 
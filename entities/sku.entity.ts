@@ -11,6 +11,7 @@ import {
   Code,
   OneToOne,
   Relation,
+  UpdateDateColumn,
 } from "typeorm";
 
 import { StoreEntity } from "./stores.entity";
@@ -19,6 +20,7 @@ import { CategoryEntity } from "./categories.entity";
 import { User } from "./user.entity";
 import { ActivatableEntity } from "./base.entity";
 import { ProductSyncStateEntity } from "./product_sync_error.entity";
+import { SupplierEntity } from "./supplier.entity";
 
 export type Money = number;
 
@@ -181,12 +183,85 @@ export class ProductVariantEntity extends ActivatableEntity {
   @Column({ type: 'int', default: 0 })
   companyDamagedQuantity!: number;
 
+  // dispatched from a warehouse by a stock transfer and not received yet (not part of stockOnHand)
+  @Column({ type: 'int', default: 0 })
+  inTransitQuantity!: number;
+
+  // replenishment: a purchase is suggested once available + incoming stock drops to reorderPoint
+  @Column({ type: 'int', nullable: true })
+  reorderPoint?: number | null;
+
+  // fixed quantity to order (null = computed from average daily sales)
+  @Column({ type: 'int', nullable: true })
+  reorderQuantity?: number | null;
+
+  @Column({ type: 'uuid', nullable: true })
+  @Index()
+  preferredSupplierId?: string | null;
+
+  @ManyToOne(() => SupplierEntity, { nullable: true, onDelete: "SET NULL" })
+  @JoinColumn({ name: "preferredSupplierId" })
+  preferredSupplier?: Relation<SupplierEntity> | null;
+
   @Column({ type: "varchar", length: 255, nullable: true })
   externalId?: string | null;
 
   @Column({ type: 'boolean', default: false })
   deletdWithParent: boolean;
 
+  @OneToMany(() => VariantWarehouseStockEntity, (ws) => ws.variant)
+  warehouseStocks?: VariantWarehouseStockEntity[];
+
   @CreateDateColumn({ type: "timestamptz" })
   created_at!: Date;
 }
+
+// ✅ Stock of a variant inside a single warehouse.
+// ProductVariantEntity.stockOnHand stays the tenant-wide total; the part of it
+// that is not allocated to any warehouse is reported as "unallocated".
+@Entity({ name: "variant_warehouse_stocks" })
+@Index(["variantId", "warehouseId"], { unique: true })
+@Index(["adminId", "warehouseId"])
+export class VariantWarehouseStockEntity {
+  @PrimaryGeneratedColumn("uuid")
+  id: string;
+
+  @Index()
+  @Column({ type: "uuid", nullable: true })
+  adminId: string;
+
+  @ManyToOne(() => User, { onDelete: "SET NULL" })
+  @JoinColumn({ name: "adminId" })
+  admin: User;
+
+  @Column({ type: "uuid" })
+  variantId!: string;
+
+  @ManyToOne(() => ProductVariantEntity, (v) => v.warehouseStocks, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "variantId" })
+  variant!: Relation<ProductVariantEntity>;
+
+  @Column({ type: "uuid" })
+  warehouseId!: string;
+
+  @ManyToOne(() => WarehouseEntity, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "warehouseId" })
+  warehouse!: WarehouseEntity;
+
+  // optional bin inside the warehouse where this variant is kept
+  @Column({ type: "uuid", nullable: true })
+  storageLocationId?: string | null;
+
+  @ManyToOne(() => StorageLocationEntity, { nullable: true, onDelete: "SET NULL" })
+  @JoinColumn({ name: "storageLocationId" })
+  storageLocation?: StorageLocationEntity | null;
+
+  @Column({ type: "int", default: 0 })
+  stockOnHand!: number;
+
+  @CreateDateColumn({ type: "timestamptz" })
+  created_at!: Date;
+
+  @UpdateDateColumn({ type: "timestamptz" })
+  updated_at!: Date;
+}
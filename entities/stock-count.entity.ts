@@ -0,0 +1,149 @@
+// entities/stock-count.entity.ts
+import {
+	Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn,
+	Index, ManyToOne, JoinColumn, OneToMany,
+} from "typeorm";
+import { User } from "./user.entity";
+import { ProductVariantEntity } from "./sku.entity";
+import { StorageLocationEntity, WarehouseEntity } from "./warehouses.entity";
+
+export enum StockCountStatus {
+	IN_PROGRESS = "in_progress", // expected quantities snapshotted, staff are counting
+	SUBMITTED = "submitted", // counting finished, waiting for a manager
+	APPROVED = "approved", // variances posted as stock adjustments
+	CANCELLED = "cancelled",
+}
+
+// A physical count of a warehouse, or of one storage location and everything below it.
+@Entity({ name: "stock_count_sessions" })
+@Index(["adminId", "sessionNumber"], { unique: true })
+@Index(["adminId", "status"])
+export class StockCountSessionEntity {
+	@PrimaryGeneratedColumn('uuid')
+	id: string;
+
+	@Index()
+	@Column({ type: 'uuid', nullable: true })
+	adminId: string;
+
+	@ManyToOne(() => User, { onDelete: 'SET NULL' })
+	@JoinColumn({ name: 'adminId' })
+	admin: User;
+
+	@Column({ type: "varchar", length: 120 })
+	sessionNumber!: string;
+
+	@Column({ type: 'uuid' })
+	@Index()
+	warehouseId!: string;
+
+	@ManyToOne(() => WarehouseEntity, { onDelete: "CASCADE" })
+	@JoinColumn({ name: "warehouseId" })
+	warehouse!: WarehouseEntity;
+
+	// root of the counted subtree (null = the whole warehouse)
+	@Column({ type: 'uuid', nullable: true })
+	storageLocationId?: string | null;
+
+	@ManyToOne(() => StorageLocationEntity, { nullable: true, onDelete: "SET NULL" })
+	@JoinColumn({ name: "storageLocationId" })
+	storageLocation?: StorageLocationEntity | null;
+
+	@Column({ type: "varchar", length: 30, default: StockCountStatus.IN_PROGRESS })
+	status!: StockCountStatus;
+
+	@Column({ type: "text", nullable: true })
+	notes?: string | null;
+
+	@OneToMany(() => StockCountLineEntity, (x) => x.session)
+	lines!: StockCountLineEntity[];
+
+	@Column({ type: 'uuid', nullable: true })
+	createdByUserId?: string | null;
+
+	@Column({ type: 'uuid', nullable: true })
+	submittedByUserId?: string | null;
+
+	@Column({ type: "timestamptz", nullable: true })
+	submittedAt?: Date | null;
+
+	@Column({ type: 'uuid', nullable: true })
+	approvedByUserId?: string | null;
+
+	@ManyToOne(() => User, { nullable: true, onDelete: "SET NULL" })
+	@JoinColumn({ name: "approvedByUserId" })
+	approvedBy?: User | null;
+
+	@Column({ type: "timestamptz", nullable: true })
+	approvedAt?: Date | null;
+
+	@CreateDateColumn({ type: "timestamptz" })
+	created_at!: Date;
+
+	@UpdateDateColumn({ type: "timestamptz" })
+	updated_at!: Date;
+}
+
+@Entity({ name: "stock_count_lines" })
+@Index(["sessionId", "variantId"], { unique: true })
+export class StockCountLineEntity {
+	@PrimaryGeneratedColumn('uuid')
+	id: string;
+
+	@Index()
+	@Column({ type: 'uuid', nullable: true })
+	adminId: string;
+
+	@Column({ type: 'uuid' })
+	@Index()
+	sessionId!: string;
+
+	@ManyToOne(() => StockCountSessionEntity, (x) => x.lines, { onDelete: "CASCADE" })
+	@JoinColumn({ name: "sessionId" })
+	session!: StockCountSessionEntity;
+
+	@Column({ type: 'uuid' })
+	variantId!: string;
+
+	@ManyToOne(() => ProductVariantEntity, { onDelete: "CASCADE" })
+	@JoinColumn({ name: "variantId" })
+	variant!: ProductVariantEntity;
+
+	@Column({ type: 'uuid', nullable: true })
+	storageLocationId?: string | null;
+
+	@ManyToOne(() => StorageLocationEntity, { nullable: true, onDelete: "SET NULL" })
+	@JoinColumn({ name: "storageLocationId" })
+	storageLocation?: StorageLocationEntity | null;
+
+	// warehouse quantity when the line was snapshotted
+	@Column({ type: 'int', default: 0 })
+	expectedQuantity!: number;
+
+	// null until the line is counted
+	@Column({ type: 'int', nullable: true })
+	countedQuantity?: number | null;
+
+	// correction actually posted on approval
+	@Column({ type: 'int', nullable: true })
+	adjustmentQuantity?: number | null;
+
+	@Column({ type: 'uuid', nullable: true })
+	countedByUserId?: string | null;
+
+	@ManyToOne(() => User, { nullable: true, onDelete: "SET NULL" })
+	@JoinColumn({ name: "countedByUserId" })
+	countedBy?: User | null;
+
+	@Column({ type: "timestamptz", nullable: true })
+	countedAt?: Date | null;
+
+	@Column({ type: "text", nullable: true })
+	notes?: string | null;
+
+	@CreateDateColumn({ type: "timestamptz" })
+	created_at!: Date;
+
+	@UpdateDateColumn({ type: "timestamptz" })
+	updated_at!: Date;
+}
@@ -0,0 +1,180 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Generated,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+  Relation,
+  UpdateDateColumn,
+} from "typeorm";
+import { User } from "./user.entity";
+import { ProductVariantEntity } from "./sku.entity";
+import { WarehouseEntity } from "./warehouses.entity";
+
+export enum StockMovementReason {
+  OPENING_BALANCE = "opening_balance", // balance the variant had before its first recorded movement
+  ORDER_RESERVATION = "order_reservation",
+  ORDER_RESERVATION_RELEASE = "order_reservation_release",
+  ORDER_DEDUCTION = "order_deduction",
+  ORDER_DEDUCTION_REVERSAL = "order_deduction_reversal", // status change undone, deducted units go back
+  REPLACEMENT = "replacement",
+  RETURN_RESTOCK = "return_restock",
+  RETURN_DAMAGED = "return_damaged",
+  SHIPMENT_RETURN = "shipment_return",
+  PURCHASE_RECEIPT = "purchase_receipt",
+  PURCHASE_REVERSAL = "purchase_reversal",
+  PURCHASE_RETURN = "purchase_return",
+  PURCHASE_RETURN_REVERSAL = "purchase_return_reversal",
+  MANUAL_ADJUSTMENT = "manual_adjustment",
+  SKU_UPDATE = "sku_update",
+  BUNDLE_CONSUMPTION = "bundle_consumption",
+  TRANSFER_DISPATCH = "transfer_dispatch",
+  TRANSFER_RECEIPT = "transfer_receipt",
+  TRANSFER_SHORTAGE = "transfer_shortage",
+  TRANSFER_CANCELLATION = "transfer_cancellation",
+  STOCK_COUNT = "stock_count",
+  PRODUCT_IMPORT = "product_import",
+}
+
+export enum StockMovementReference {
+  ORDER = "order",
+  RETURN_REQUEST = "return_request",
+  SHIPMENT = "shipment",
+  PURCHASE_INVOICE = "purchase_invoice",
+  PURCHASE_RETURN_INVOICE = "purchase_return_invoice",
+  PRODUCT = "product",
+  BUNDLE = "bundle",
+  STOCK_TRANSFER = "stock_transfer",
+  STOCK_COUNT = "stock_count",
+  PRODUCT_IMPORT = "product_import",
+}
+
+export type StockBalance = {
+  stockOnHand: number;
+  reserved: number;
+  customerDamagedQuantity: number;
+  companyDamagedQuantity: number;
+  inTransitQuantity: number;
+};
+
+// ✅ Append-only ledger: one row per change of a variant's stock buckets.
+// Rows are never updated or deleted; the sum of the deltas per variant must equal its current balance.
+@Entity({ name: "stock_movements" })
+@Index(["adminId", "variantId", "created_at"])
+@Index(["referenceType", "referenceId"])
+@Index(["variantId"], { unique: true, where: `"reason" = 'opening_balance'` })
+export class StockMovementEntity {
+  @PrimaryGeneratedColumn("uuid")
+  id: string;
+
+  @Index()
+  @Column({ type: "uuid", nullable: true })
+  adminId: string;
+
+  @ManyToOne(() => User, { onDelete: "SET NULL" })
+  @JoinColumn({ name: "adminId" })
+  admin: User;
+
+  @Column({ type: "uuid" })
+  variantId!: string;
+
+  @ManyToOne(() => ProductVariantEntity, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "variantId" })
+  variant!: Relation<ProductVariantEntity>;
+
+  // warehouse the stock went into / came out of (when known)
+  @Column({ type: "uuid", nullable: true })
+  warehouseId?: string | null;
+
+  @ManyToOne(() => WarehouseEntity, { nullable: true, onDelete: "SET NULL" })
+  @JoinColumn({ name: "warehouseId" })
+  warehouse?: WarehouseEntity | null;
+
+  @Column({ type: "enum", enum: StockMovementReason })
+  reason!: StockMovementReason;
+
+  @Column({ type: "int", default: 0 })
+  stockOnHandDelta!: number;
+
+  @Column({ type: "int", default: 0 })
+  reservedDelta!: number;
+
+  @Column({ type: "int", default: 0 })
+  customerDamagedDelta!: number;
+
+  @Column({ type: "int", default: 0 })
+  companyDamagedDelta!: number;
+
+  @Column({ type: "int", default: 0 })
+  inTransitDelta!: number;
+
+  // cost per unit of the stockOnHand change and the resulting inventory value change
+  @Column({ type: "decimal", precision: 14, scale: 4, nullable: true })
+  unitCost?: number | null;
+
+  @Column({ type: "decimal", precision: 14, scale: 2, default: 0 })
+  valueDelta!: number;
+
+  // average cost of the remaining stock after this movement (used to value stock as of a date)
+  @Column({ type: "decimal", precision: 14, scale: 4, nullable: true })
+  balanceUnitCost?: number | null;
+
+  // insertion order; rows written in one transaction share created_at
+  @Column({ type: "bigint" })
+  @Generated("increment")
+  sequence!: string;
+
+  @Column({ type: "varchar", length: 40, nullable: true })
+  referenceType?: StockMovementReference | null;
+
+  @Column({ type: "varchar", length: 64, nullable: true })
+  referenceId?: string | null;
+
+  @Column({ type: "uuid", nullable: true })
+  userId?: string | null;
+
+  @ManyToOne(() => User, { nullable: true, onDelete: "SET NULL" })
+  @JoinColumn({ name: "userId" })
+  user?: User | null;
+
+  @Column({ type: "text", nullable: true })
+  notes?: string | null;
+
+  @CreateDateColumn({ type: "timestamptz" })
+  created_at!: Date;
+}
+
+// Variants whose current balance does not match the sum of their ledger rows.
+// Maintained by the reconciliation job: rows are removed once the variant reconciles again.
+@Entity({ name: "stock_ledger_mismatches" })
+@Index(["variantId"], { unique: true })
+export class StockLedgerMismatchEntity {
+  @PrimaryGeneratedColumn("uuid")
+  id: string;
+
+  @Index()
+  @Column({ type: "uuid", nullable: true })
+  adminId: string;
+
+  @Column({ type: "uuid" })
+  variantId!: string;
+
+  @ManyToOne(() => ProductVariantEntity, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "variantId" })
+  variant!: Relation<ProductVariantEntity>;
+
+  @Column({ type: "jsonb" })
+  balance!: StockBalance;
+
+  @Column({ type: "jsonb" })
+  ledger!: StockBalance;
+
+  @CreateDateColumn({ type: "timestamptz" })
+  detectedAt!: Date;
+
+  @UpdateDateColumn({ type: "timestamptz" })
+  checkedAt!: Date;
+}
@@ -0,0 +1,192 @@
+// entities/stock-transfer.entity.ts
+import {
+	Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn,
+	Index, ManyToOne, JoinColumn, OneToMany,
+} from "typeorm";
+import { User } from "./user.entity";
+import { ProductVariantEntity } from "./sku.entity";
+import { WarehouseEntity } from "./warehouses.entity";
+
+export enum StockTransferStatus {
+	DRAFT = "draft",
+	IN_TRANSIT = "in_transit", // dispatched from the source, nothing received yet
+	PARTIALLY_RECEIVED = "partially_received",
+	RECEIVED = "received", // closed: everything received or the shortage was written off
+	CANCELLED = "cancelled",
+}
+
+@Entity({ name: "stock_transfers" })
+@Index(["adminId", "transferNumber"], { unique: true })
+@Index(["adminId", "status"])
+export class StockTransferEntity {
+	@PrimaryGeneratedColumn('uuid')
+	id: string;
+
+	@Index()
+	@Column({ type: 'uuid', nullable: true })
+	adminId: string;
+
+	@ManyToOne(() => User, { onDelete: 'SET NULL' })
+	@JoinColumn({ name: 'adminId' })
+	admin: User;
+
+	@Column({ type: "varchar", length: 120 })
+	transferNumber!: string;
+
+	@Column({ type: 'uuid' })
+	@Index()
+	sourceWarehouseId!: string;
+
+	@ManyToOne(() => WarehouseEntity, { onDelete: "RESTRICT" })
+	@JoinColumn({ name: "sourceWarehouseId" })
+	sourceWarehouse!: WarehouseEntity;
+
+	@Column({ type: 'uuid' })
+	@Index()
+	destinationWarehouseId!: string;
+
+	@ManyToOne(() => WarehouseEntity, { onDelete: "RESTRICT" })
+	@JoinColumn({ name: "destinationWarehouseId" })
+	destinationWarehouse!: WarehouseEntity;
+
+	@Column({ type: "varchar", length: 30, default: StockTransferStatus.DRAFT })
+	status!: StockTransferStatus;
+
+	@Column({ type: "text", nullable: true })
+	notes?: string | null;
+
+	@OneToMany(() => StockTransferItemEntity, (x) => x.transfer, { cascade: true, eager: true })
+	items!: StockTransferItemEntity[];
+
+	@Column({ type: 'uuid', nullable: true })
+	createdByUserId?: string | null;
+
+	@Column({ type: 'uuid', nullable: true })
+	dispatchedByUserId?: string | null;
+
+	@Column({ type: "timestamptz", nullable: true })
+	dispatchedAt?: Date | null;
+
+	@Column({ type: 'uuid', nullable: true })
+	receivedByUserId?: string | null;
+
+	@Column({ type: "timestamptz", nullable: true })
+	receivedAt?: Date | null;
+
+	@CreateDateColumn({ type: "timestamptz" })
+	created_at!: Date;
+
+	@UpdateDateColumn({ type: "timestamptz" })
+	updated_at!: Date;
+}
+
+@Entity({ name: "stock_transfer_items" })
+@Index(["adminId", "transferId"])
+export class StockTransferItemEntity {
+	@PrimaryGeneratedColumn('uuid')
+	id: string;
+
+	@Index()
+	@Column({ type: 'uuid', nullable: true })
+	adminId: string;
+
+	@ManyToOne(() => User, { onDelete: 'SET NULL' })
+	@JoinColumn({ name: 'adminId' })
+	admin: User;
+
+	@Column({ type: 'uuid' })
+	@Index()
+	transferId!: string;
+
+	@ManyToOne(() => StockTransferEntity, (x) => x.items, { onDelete: "CASCADE" })
+	@JoinColumn({ name: "transferId" })
+	transfer!: StockTransferEntity;
+
+	@Column({ type: 'uuid' })
+	@Index()
+	variantId!: string;
+
+	@ManyToOne(() => ProductVariantEntity, { eager: true, onDelete: "RESTRICT" })
+	@JoinColumn({ name: "variantId" })
+	variant!: ProductVariantEntity;
+
+	@Column({ type: 'int' })
+	quantity!: number;
+
+	@Column({ type: 'int', default: 0 })
+	receivedQuantity!: number;
+
+	// dispatched but never received (written off when the transfer is closed short)
+	@Column({ type: 'int', default: 0 })
+	shortageQuantity!: number;
+
+	@Column({ type: "text", nullable: true })
+	discrepancyNote?: string | null;
+
+	@CreateDateColumn({ type: "timestamptz" })
+	created_at!: Date;
+}
+
+export enum StockTransferAuditAction {
+	CREATED = "created",
+	UPDATED = "updated",
+	DISPATCHED = "dispatched",
+	RECEIVED = "received",
+	CLOSED = "closed",
+	CANCELLED = "cancelled",
+	DELETED = "deleted",
+}
+
+@Entity({ name: "stock_transfer_audit_logs" })
+@Index(["adminId", "transferId"])
+@Index(["transferId", "created_at"])
+export class StockTransferAuditLogEntity {
+	@PrimaryGeneratedColumn('uuid')
+	id: string;
+
+	@Index()
+	@Column({ type: 'uuid', nullable: true })
+	adminId: string;
+
+	@ManyToOne(() => User, { onDelete: 'SET NULL' })
+	@JoinColumn({ name: 'adminId' })
+	admin: User;
+
+	@Column({ type: 'uuid' })
+	@Index()
+	transferId!: string;
+
+	@ManyToOne(() => StockTransferEntity, { onDelete: "CASCADE" })
+	@JoinColumn({ name: "transferId" })
+	transfer!: StockTransferEntity;
+
+	@Column({ type: 'uuid', nullable: true })
+	@Index()
+	userId?: string | null;
+
+	@ManyToOne(() => User, { eager: true, nullable: true })
+	@JoinColumn({ name: "userId" })
+	user?: User | null;
+
+	@Column({ type: "varchar", length: 50 })
+	@Index()
+	action!: StockTransferAuditAction;
+
+	@Column({ type: "jsonb", nullable: true })
+	oldData?: any;
+
+	@Column({ type: "jsonb", nullable: true })
+	newData?: any;
+
+	@Column({ type: "jsonb", nullable: true })
+	changes?: any;
+
+	@Column({ type: "text", nullable: true })
+	description?: string;
+
+	@Column({ type: "varchar", length: 50, nullable: true })
+	ipAddress?: string;
+
+	@CreateDateColumn({ type: "timestamptz" })
+	created_at!: Date;
+}
@@ -0,0 +1,118 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+  Relation,
+  UpdateDateColumn,
+} from "typeorm";
+import { User } from "./user.entity";
+import { ProductVariantEntity } from "./sku.entity";
+import { WarehouseEntity } from "./warehouses.entity";
+import { OrderItemEntity } from "./order.entity";
+
+// ✅ A batch of a variant received with a lot number and/or expiry date.
+// Lot quantities are a breakdown of the variant stock: whatever is not in a lot is "unlotted".
+@Entity({ name: "variant_lots" })
+@Index(["adminId", "variantId", "lotNumber"], { unique: true })
+@Index(["adminId", "expiryDate"])
+export class VariantLotEntity {
+  @PrimaryGeneratedColumn("uuid")
+  id: string;
+
+  @Index()
+  @Column({ type: "uuid", nullable: true })
+  adminId: string;
+
+  @ManyToOne(() => User, { onDelete: "SET NULL" })
+  @JoinColumn({ name: "adminId" })
+  admin: User;
+
+  @Column({ type: "uuid" })
+  variantId!: string;
+
+  @ManyToOne(() => ProductVariantEntity, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "variantId" })
+  variant!: Relation<ProductVariantEntity>;
+
+  // warehouse the lot was received into
+  @Column({ type: "uuid", nullable: true })
+  warehouseId?: string | null;
+
+  @ManyToOne(() => WarehouseEntity, { nullable: true, onDelete: "SET NULL" })
+  @JoinColumn({ name: "warehouseId" })
+  warehouse?: WarehouseEntity | null;
+
+  @Column({ type: "varchar", length: 100 })
+  lotNumber!: string;
+
+  @Column({ type: "date", nullable: true })
+  expiryDate?: string | null;
+
+  // quantity still on hand in this lot
+  @Column({ type: "int", default: 0 })
+  quantity!: number;
+
+  @Column({ type: "int", default: 0 })
+  receivedQuantity!: number;
+
+  // purchase invoice that first brought the lot in
+  @Column({ type: "uuid", nullable: true })
+  purchaseInvoiceId?: string | null;
+
+  // set once the near-expiry alert went out, so the daily job notifies only once per lot
+  @Column({ type: "timestamptz", nullable: true })
+  expiryNotifiedAt?: Date | null;
+
+  @CreateDateColumn({ type: "timestamptz" })
+  created_at!: Date;
+
+  @UpdateDateColumn({ type: "timestamptz" })
+  updated_at!: Date;
+}
+
+// Which lots an order item was picked from, so returns can go back into the same lots.
+@Entity({ name: "order_item_lots" })
+@Index(["orderItemId"])
+export class OrderItemLotEntity {
+  @PrimaryGeneratedColumn("uuid")
+  id: string;
+
+  @Index()
+  @Column({ type: "uuid", nullable: true })
+  adminId: string;
+
+  @Column({ type: "uuid" })
+  @Index()
+  orderId!: string;
+
+  @Column({ type: "uuid" })
+  orderItemId!: string;
+
+  @ManyToOne(() => OrderItemEntity, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "orderItemId" })
+  orderItem!: Relation<OrderItemEntity>;
+
+  @Column({ type: "uuid" })
+  @Index()
+  lotId!: string;
+
+  @ManyToOne(() => VariantLotEntity, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "lotId" })
+  lot!: Relation<VariantLotEntity>;
+
+  @Column({ type: "uuid" })
+  variantId!: string;
+
+  @Column({ type: "int" })
+  quantity!: number;
+
+  @Column({ type: "int", default: 0 })
+  returnedQuantity!: number;
+
+  @CreateDateColumn({ type: "timestamptz" })
+  created_at!: Date;
+}
@@ -276,6 +276,7 @@ export type I18nTranslations = {
             "export_delivered": string;
             "export_success_rate": string;
             "export_total_period": string;
+            "export_attempts_per_confirmation": string;
         };
         "extra_features": {
             "feature_not_found_or_inactive": string;
@@ -349,6 +350,7 @@ export type I18nTranslations = {
             "status_active": string;
             "export_status": string;
             "status_inactive": string;
+            "some_tags_not_found": string;
         };
         "collections": {
             "order_not_found": string;
@@ -374,6 +376,8 @@ export type I18nTranslations = {
             "status_partial": string;
             "status_pending": string;
             "status_fully_collected": string;
+            "shipment_not_found": string;
+            "shipment_not_delivered": string;
         };
         "orphan_files": {
             "some_not_found": string;
@@ -512,6 +516,109 @@ export type I18nTranslations = {
             "low_stock_alert_title": string;
             "low_stock_alert_single": string;
             "low_stock_alert_multiple": string;
+            "low_stock_alert_warehouses": string;
+            "stock_movements": {
+                "title": string;
+                "reason": string;
+                "stock_on_hand": string;
+                "reserved": string;
+                "customer_damaged": string;
+                "company_damaged": string;
+                "warehouse": string;
+                "reference": string;
+                "notes": string;
+                "current_balance": string;
+                "mismatch_alert_title": string;
+                "mismatch_alert_message": string;
+                "reasons": {
+                    "opening_balance": string;
+                    "order_reservation": string;
+                    "order_reservation_release": string;
+                    "order_deduction": string;
+                    "replacement": string;
+                    "return_restock": string;
+                    "return_damaged": string;
+                    "shipment_return": string;
+                    "purchase_receipt": string;
+                    "purchase_reversal": string;
+                    "purchase_return": string;
+                    "purchase_return_reversal": string;
+                    "manual_adjustment": string;
+                    "sku_update": string;
+                    "bundle_consumption": string;
+                    "transfer_dispatch": string;
+                    "transfer_receipt": string;
+                    "transfer_shortage": string;
+                    "transfer_cancellation": string;
+                    "stock_count": string;
+                    "product_import": string;
+                    "order_deduction_reversal": string;
+                };
+                "in_transit": string;
+            };
+            "lots": {
+                "expiry_mismatch": string;
+                "expiry_alert_title": string;
+                "expiry_alert_single": string;
+                "expiry_alert_multiple": string;
+            };
+            "import": {
+                "not_found": string;
+                "no_error_report": string;
+                "unsupported_file": string;
+                "sheet_required": string;
+                "too_many_rows": string;
+                "sku_required": string;
+                "invalid_sku": string;
+                "invalid_slug": string;
+                "name_required": string;
+                "name_too_long": string;
+                "invalid_attributes": string;
+                "invalid_quantity": string;
+                "invalid_amount": string;
+                "duplicate_sku_in_file": string;
+                "attributes_hint": string;
+                "images_hint": string;
+                "slug_hint": string;
+                "errors_header": string;
+                "columns": {
+                    "name": string;
+                    "slug": string;
+                    "product_sku": string;
+                    "category": string;
+                    "description": string;
+                    "sku": string;
+                    "attributes": string;
+                    "price": string;
+                    "unit_cost": string;
+                    "stock": string;
+                    "main_image_url": string;
+                    "image_urls": string;
+                };
+            };
+            "barcodes": {
+                "not_found": string;
+                "code_not_found": string;
+                "invalid_code": string;
+                "already_assigned": string;
+                "conflicts_with_sku": string;
+                "generation_failed": string;
+                "labels_required": string;
+                "too_many_labels": string;
+                "variant_not_found": string;
+            };
+            "valuation": {
+                "sheet_name": string;
+                "warehouse": string;
+                "product": string;
+                "sku": string;
+                "quantity": string;
+                "unit_cost": string;
+                "value": string;
+                "unallocated": string;
+                "total": string;
+                "invalid_date": string;
+            };
         };
         "orders": {
             "delivery_status_not_found": string;
@@ -739,6 +846,7 @@ export type I18nTranslations = {
                 "rejected": string;
                 "return_received": string;
                 "retry_attempt": string;
+                "status_reverted": string;
             };
             "results": {
                 "success": string;
@@ -759,6 +867,26 @@ export type I18nTranslations = {
                 "order_status_wrong": string;
                 "return_request_created_message": string;
                 "damage_responsibility_required": string;
+                "portal": {
+                    "order_not_delivered": string;
+                    "request_already_pending": string;
+                    "item_not_found": string;
+                    "quantity_exceeds": string;
+                    "exchange_variant_invalid": string;
+                    "request_not_found": string;
+                    "not_awaiting_approval": string;
+                    "notification_title": string;
+                    "notification_message": string;
+                    "request_submitted_log": string;
+                    "request_approved_log": string;
+                    "request_rejected_log": string;
+                    "whatsapp_approved": string;
+                    "whatsapp_rejected": string;
+                    "types": {
+                        "return": string;
+                        "exchange": string;
+                    };
+                };
             };
             "replacement": {
                 "already_has_replacement": string;
@@ -782,6 +910,176 @@ export type I18nTranslations = {
                     "date": string;
                 };
             };
+            "risk": {
+                "feature_not_active": string;
+            };
+            "insufficient_stock_warehouse": string;
+            "transitions": {
+                "same_status": string;
+                "duplicate": string;
+                "role_not_found": string;
+                "not_allowed": string;
+                "role_not_allowed": string;
+                "missing_fields": string;
+                "bulk_not_allowed": string;
+            };
+            "merge": {
+                "survivor_in_list": string;
+                "orders_not_found": string;
+                "different_customer": string;
+                "already_merged": string;
+                "not_open": string;
+                "log_merged_into": string;
+                "log_merged_from": string;
+            };
+            "call_attempts": {
+                "auto_moved_note": string;
+                "retry_due_title": string;
+                "retry_due_message": string;
+            };
+            "tracking": {
+                "link_invalid": string;
+                "stages": {
+                    "received": string;
+                    "postponed": string;
+                    "confirmed": string;
+                    "preparing": string;
+                    "shipped": string;
+                    "delivered": string;
+                    "delivery_failed": string;
+                    "cancelled": string;
+                    "returned": string;
+                    "processing": string;
+                };
+                "shipment_statuses": {
+                    "new": string;
+                    "in_progress": string;
+                    "picked_up": string;
+                    "in_transit": string;
+                    "delivered": string;
+                    "returned": string;
+                    "exception": string;
+                    "cancelled": string;
+                    "terminated": string;
+                    "lost": string;
+                    "damaged": string;
+                    "on_hold": string;
+                    "action_required": string;
+                    "archived": string;
+                    "customer_not_respond": string;
+                    "customer_data_wrong": string;
+                    "customer_refused": string;
+                };
+            };
+            "reasons": {
+                "not_found": string;
+                "code_exists": string;
+                "required": string;
+                "invalid_for_status": string;
+                "scopes": {
+                    "rejection": string;
+                    "cancellation": string;
+                    "failed_delivery": string;
+                };
+            };
+            "views": {
+                "not_found": string;
+                "not_owner": string;
+            };
+            "filters": {
+                "invalid_group": string;
+                "invalid_logic": string;
+                "too_deep": string;
+                "too_many_conditions": string;
+                "unknown_field": string;
+                "invalid_operator": string;
+                "invalid_value": string;
+            };
+            "tags": {
+                "not_found": string;
+                "nothing_to_update": string;
+                "name_exists": string;
+            };
+            "export_tags": string;
+            "sla": {
+                "rule_exists": string;
+                "rule_not_found": string;
+                "breached_title": string;
+                "breached_message": string;
+            };
+            "edit_conflict": string;
+            "edit_lock": {
+                "held_by_other": string;
+                "not_holder": string;
+                "admin_only": string;
+            };
+            "pick_waves": {
+                "not_found": string;
+                "orders_not_found": string;
+                "order_not_pickable": string;
+                "order_in_open_wave": string;
+                "mixed_warehouses": string;
+                "nothing_to_pick": string;
+                "invalid_status": string;
+                "sku_not_in_wave": string;
+                "over_picked": string;
+                "pick_success": string;
+                "not_picked_yet": string;
+                "no_order_needs_item": string;
+                "statuses": {
+                    "picking": string;
+                    "packing": string;
+                    "completed": string;
+                    "cancelled": string;
+                };
+                "order_not_printed": string;
+            };
+            "bulk_jobs": {
+                "not_found": string;
+                "invalid_status": string;
+                "no_error_report": string;
+                "report_sheet": string;
+                "report_order_number": string;
+                "report_order_id": string;
+                "report_error": string;
+                "user_not_found": string;
+                "forbidden_action": string;
+                "missing_params": string;
+                "assignee_not_found": string;
+                "orders_not_found": string;
+                "selection_required": string;
+                "no_matching_orders": string;
+                "too_many_orders": string;
+                "actions": {
+                    "update_shipping_info": string;
+                    "print": string;
+                    "change_status": string;
+                    "assign": string;
+                    "revert": string;
+                };
+                "statuses": {
+                    "queued": string;
+                    "processing": string;
+                    "completed": string;
+                    "completed_with_errors": string;
+                    "cancelled": string;
+                    "failed": string;
+                };
+                "stalled": string;
+            };
+            "revert": {
+                "entry_not_found": string;
+                "already_reverted": string;
+                "revert_of_revert": string;
+                "nothing_to_revert": string;
+                "moved_since": string;
+                "shipment_picked_up": string;
+                "action_not_revertible": string;
+                "use_job_revert": string;
+                "history_note": string;
+                "log_details": string;
+            };
+            "insufficient_stock_expired": string;
         };
         "accounting": {
             "closing_period_start_after_last": string;
@@ -884,6 +1182,7 @@ export type I18nTranslations = {
             "status_changed_refunded_notes": string;
             "status_changed_description": string;
             "purchase_invoice_deleted_refunded_notes": string;
+            "cannot_modify_accepted_warehouse": string;
         };
         "purchase_return": {
             "return_number_required": string;
@@ -1303,6 +1602,20 @@ export type I18nTranslations = {
                 "single_message": string;
                 "multiple_message": string;
             };
+            "split": {
+                "replacement_not_supported": string;
+                "whole_shipment_open": string;
+                "item_not_found": string;
+                "quantity_exceeds": string;
+                "log_created": string;
+                "parcel_delivered_message": string;
+                "parcel_failed_message": string;
+            };
+            "return_pickup": {
+                "request_not_found": string;
+                "already_exists": string;
+                "log_created": string;
+            };
         };
         "stores": {
             "not_found": string;
@@ -1423,6 +1736,70 @@ export type I18nTranslations = {
                 "shelf": string;
                 "bin": string;
             };
+            "not_found": string;
+            "inactive": string;
+            "variant_not_found": string;
+            "stock_exceeds_unallocated": string;
+            "insufficient_stock": string;
+        };
+        "stock_transfers": {
+            "not_found": string;
+            "item_not_found": string;
+            "variant_not_found": string;
+            "items_required": string;
+            "same_warehouse": string;
+            "invalid_status": string;
+            "insufficient_available": string;
+            "receive_exceeds_outstanding": string;
+            "nothing_to_receive": string;
+            "sheet_name": string;
+            "transfer_number": string;
+            "source_warehouse": string;
+            "destination_warehouse": string;
+            "quantity": string;
+            "received_quantity": string;
+            "shortage_quantity": string;
+            "dispatched_at": string;
+            "received_at": string;
+            "statuses": {
+                "draft": string;
+                "in_transit": string;
+                "partially_received": string;
+                "received": string;
+                "cancelled": string;
+            };
+        };
+        "stock_counts": {
+            "not_found": string;
+            "open_session_exists": string;
+            "invalid_status": string;
+            "sku_not_found": string;
+            "variant_or_sku_required": string;
+            "outside_scope": string;
+            "scan_success": string;
+            "sheet_name": string;
+            "sku": string;
+            "product": string;
+            "location": string;
+            "expected": string;
+            "counted": string;
+            "variance": string;
+            "variance_value": string;
+            "adjustment": string;
+            "notes": string;
+            "totals": string;
+            "statuses": {
+                "in_progress": string;
+                "submitted": string;
+                "approved": string;
+                "cancelled": string;
+            };
+        };
+        "purchase_suggestions": {
+            "not_found": string;
+            "not_pending": string;
+            "item_not_found": string;
+            "no_items": string;
         };
     };
     "emails": {
@@ -21,5 +21,6 @@ import { Account } from 'entities/safe.entity';
     ManualExpenseCategoryEntity, SupplierClosingEntity, SupplierEntity, ShipmentEntity, MonthlyClosingEntity, OrderStatusEntity, Account])],
   controllers: [AccountingController, ExpensesController, ExpenseCategoriesController, MonthlyClosingController],
   providers: [AccountingService, ExpensesService, ExpenseCategoriesService, MonthlyClosingService],
+  exports: [AccountingService],
 })
 export class AccountingModule { }
@@ -13,10 +13,16 @@ import { StoresModule } from './stores/stores.module';
 import { WarehousesModule } from './warehouse/warehouse.module';
 import { CategoryModule } from './category/category.module';
 import { ProductsModule } from './products/products.module';
+import { StockMovementsModule } from './stock-movements/stock-movements.module';
+import { LotsModule } from './lots/lots.module';
+import { BarcodesModule } from './barcodes/barcodes.module';
 import { AssetModule } from "./asset/asset.module";
 import { SuppliersModule } from "./supplier/supplier.module";
 import { SupplierCategoriesModule } from "./supplier/categories/categories.module";
 import { PurchasesModule } from './purchases/purchases.module';
+import { StockTransfersModule } from './stock-transfers/stock-transfers.module';
+import { StockCountsModule } from './stock-counts/stock-counts.module';
+import { PurchaseSuggestionsModule } from './purchase-suggestions/purchase-suggestions.module';
 import { PurchasesReturnModule } from './purchases-return/purchases-return.module';
 import { OrdersModule } from './orders/orders.module';
 import { BundlesModule } from './bundles/bundles.module';
@@ -113,11 +119,17 @@ import { SupportTicketModule } from './support_ticket/support_ticket.module';
 		WarehousesModule,
 		CategoryModule,
 		ProductsModule,
+		StockMovementsModule,
+		LotsModule,
+		BarcodesModule,
 		AssetModule,
 		SuppliersModule,
 		SupplierCategoriesModule,
 		PurchasesModule,
 		PurchasesReturnModule,
+		StockTransfersModule,
+		StockCountsModule,
+		PurchaseSuggestionsModule,
 		OrdersModule,
 		BundlesModule,
 		// ShippingCompaniesModule
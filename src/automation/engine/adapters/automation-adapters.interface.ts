@@ -35,6 +35,24 @@ export interface AutomationAdapter {
         skippedSideEffect?: boolean;
     }>;
 
+    /**
+     * Add / remove order tags
+     * In production: updates the order's tag links
+     * In preview: returns mock data without side effects
+     */
+    updateOrderTags(
+        adminId: string,
+        orderId: string,
+        data: { addTagIds?: string[]; removeTagIds?: string[] },
+    ): Promise<{
+        success: boolean;
+        orderId: string;
+        added: string[];
+        removed: string[];
+        previewMode?: boolean;
+        skippedSideEffect?: boolean;
+    }>;
+
     /**
      * Send WhatsApp template message
      * In production: calls Meta API via WhatsappService
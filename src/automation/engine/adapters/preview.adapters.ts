@@ -60,6 +60,23 @@ export class PreviewAutomationAdapter implements AutomationAdapter {
         };
     }
 
+    async updateOrderTags(
+        adminId: string,
+        orderId: string,
+        data: { addTagIds?: string[]; removeTagIds?: string[] },
+    ) {
+        this.logger.log(`[PREVIEW] Skipping actual tags update for order ${orderId}`);
+
+        return {
+            success: true,
+            orderId,
+            added: data.addTagIds ?? [],
+            removed: data.removeTagIds ?? [],
+            previewMode: true,
+            skippedSideEffect: true,
+        };
+    }
+
     async sendTemplate(
         accountId: string,
         data: {
@@ -3,7 +3,7 @@ import { OrdersService } from 'src/orders/services/orders.service';
 import { WhatsappApiService, WhatsappInteractiveMessagePayload, WhatsappSendInteractiveMessageInput } from 'src/whatsapp/services/WhatsappApi.service';
 import { InjectRepository } from '@nestjs/typeorm';
 import { WhatsappTemplateEntity, WhatsappAccountEntity } from 'entities/whatsapp.entity';
-import { Repository, In } from 'typeorm';
+import { Repository, In, DataSource } from 'typeorm';
 import { AutomationAdapter } from './automation-adapters.interface';
 import { Upsell, UpsellHistory } from 'entities/upsells.entity';
 import { WhatsappService } from 'src/whatsapp/whatsapp.service';
@@ -12,6 +12,7 @@ import { AutomationRunEntity } from 'entities/automation.entity';
 import { UpsellsService } from 'src/upsells/upsells.service';
 import { OrderAssignmentService } from 'src/order-assignment/order-assignment.service';
 import { SmsService } from 'src/sms/sms.service';
+import { OrderTagsService } from 'src/orders/services/order-tags.service';
 import { isArray } from 'class-validator';
 
 /**
@@ -36,6 +37,9 @@ export class ProductionAutomationAdapter implements AutomationAdapter {
         private readonly accountRepo: Repository<WhatsappAccountEntity>,
         private readonly orderAssignmentService: OrderAssignmentService,
         private readonly smsService: SmsService,
+        @Inject(forwardRef(() => OrderTagsService))
+        private readonly orderTagsService: OrderTagsService,
+        private readonly dataSource: DataSource,
     ) { }
 
 
@@ -44,7 +48,7 @@ export class ProductionAutomationAdapter implements AutomationAdapter {
         orderId: string,
         data: { statusId: string; notes?: string },
     ) {
-        await this.ordersService.changeStatus(user, orderId, data);
+        await this.ordersService.changeStatus(user, orderId, data, undefined, { skipReasonCheck: true });
 
         return {
             success: true,
@@ -53,6 +57,23 @@ export class ProductionAutomationAdapter implements AutomationAdapter {
         };
     }
 
+    async updateOrderTags(
+        adminId: string,
+        orderId: string,
+        data: { addTagIds?: string[]; removeTagIds?: string[] },
+    ) {
+        const result = await this.dataSource.transaction((manager) =>
+            this.orderTagsService.updateOrderTags(manager, adminId, [orderId], data.addTagIds, data.removeTagIds),
+        );
+
+        return {
+            success: true,
+            orderId,
+            added: result.added,
+            removed: result.removed,
+        };
+    }
+
     async sendTemplate(
         accountId: string,
         data: {
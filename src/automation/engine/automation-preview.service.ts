@@ -43,6 +43,7 @@ import {
   ConditionQuickOrderStatusHandler,
   ConditionOrderCheckHandler,
   ActionUpdateOrderStatusHandler,
+  ActionUpdateOrderTagsHandler,
   ActionSendWhatsappTemplateMessageHandler,
   ActionSendUpsellHandler,
   ActionAssignOrderToEmployeeHandler,
@@ -552,6 +553,10 @@ class PreviewNodeHandlersRegistry {
       ActionType.UPDATE_ORDER_STATUS,
       new ActionUpdateOrderStatusHandler(this.adapter,orderRepo),
     );
+    this.handlers.set(
+      ActionType.UPDATE_ORDER_TAGS,
+      new ActionUpdateOrderTagsHandler(this.adapter, orderRepo),
+    );
     this.handlers.set(
       ActionType.SEND_WHATSAPP_TEMPLATE,
       new ActionSendWhatsappTemplateMessageHandler(this.adapter,orderRepo, this.messageRepo),
@@ -1,8 +1,8 @@
 // factory pattern. A registry that holds the actual execution logic for each FlowNodeType (e.g., WhatsappHandler, UpdateOrderStatusHandler, ConditionHandler).
 // The engine just says registry.execute(nodeType, hydratedConfig).
 
-import { Inject, Injectable, Logger, NotFoundException, forwardRef } from "@nestjs/common";
-import { ActionType, AssignOrderToEmployeeConfig, AutomationRunEntity, ConditionType, FlowNodeDataType, OrderCheckConfig, QuickOrderStatusConfig, SendSmsConfig, SendUpsellConfig, SendWhatsappMessageConfig, SendWhatsappTemplateConfig, TriggerType, UpdateOrderStatusConfig, WaitConfig } from "entities/automation.entity";
+import { BadRequestException, ForbiddenException, Inject, Injectable, Logger, NotFoundException, forwardRef } from "@nestjs/common";
+import { ActionType, AssignOrderToEmployeeConfig, AutomationRunEntity, ConditionType, FlowNodeDataType, OrderCheckConfig, QuickOrderStatusConfig, SendSmsConfig, SendUpsellConfig, SendWhatsappMessageConfig, SendWhatsappTemplateConfig, TriggerType, UpdateOrderStatusConfig, UpdateOrderTagsConfig, WaitConfig } from "entities/automation.entity";
 import { OrderEntity } from "entities/order.entity";
 import { MessageActionIntent, MessageStatus, TemplateStatus, WhatsappMessageEntity } from "entities/whatsapp.entity";
 
@@ -16,6 +16,7 @@ import { normalizeEgyptianPhoneNumber } from "common/whatsapp";
 import { OrderAssignmentEntity } from "entities/assignment.entity";
 import { OrdersService } from "src/orders/services/orders.service";
 import { getValueByPath } from "common/whatsapp.helper";
+import { buildTrackingUrl } from "src/orders/utils/tracking-link";
 import { WhatsappService } from "src/whatsapp/whatsapp.service";
 import { SmsSendStatus } from "entities/sms.entity";
 import { Company, User } from "entities/user.entity";
@@ -281,6 +282,8 @@ export abstract class FlowNodeHandler {
         if (!order) {
             throw new NotFoundException(`Order with ID ${id} not found`);
         }
+        // exposed to message templates as {{trackingUrl}}
+        (order as any).trackingUrl = buildTrackingUrl(order.id).url;
         return order;
     }
 }
@@ -510,11 +513,85 @@ export class ActionUpdateOrderStatusHandler extends FlowNodeHandler {
                 error?.stack,
             );
 
+            // validation failures (e.g. a move the tenant's transition graph does not allow) keep their reason in the run log
+            const rejected = error instanceof BadRequestException || error instanceof ForbiddenException;
+
             return {
                 success: false,
                 shouldPause: false,
-                error:
-                    'The order status could not be updated successfully.',
+                error: rejected
+                    ? error.message
+                    : 'The order status could not be updated successfully.',
+            };
+        }
+    }
+}
+
+@Injectable()
+export class ActionUpdateOrderTagsHandler extends FlowNodeHandler {
+    private readonly logger = new Logger(ActionUpdateOrderTagsHandler.name);
+
+    constructor(
+        private readonly adapter: AutomationAdapter,
+        @InjectRepository(OrderEntity)
+        protected readonly orderRepo: Repository<OrderEntity>,
+    ) {
+        super(orderRepo);
+    }
+
+    async execute(
+        hydratedConfig: UpdateOrderTagsConfig,
+        run: AutomationRunEntity,
+    ): Promise<NodeHandlerResponse> {
+        try {
+            const orderData = await this.getOrder(run.executionState.trigger.output);
+
+            if (!orderData?.id) {
+                return {
+                    success: false,
+                    shouldPause: false,
+                    error: 'The order information required to update the tags is missing.',
+                };
+            }
+
+            if (!hydratedConfig.addTagIds?.length && !hydratedConfig.removeTagIds?.length) {
+                return {
+                    success: false,
+                    shouldPause: false,
+                    error: 'No tags were selected to add or remove.',
+                };
+            }
+
+            const result = await this.adapter.updateOrderTags(orderData.adminId, orderData.id, {
+                addTagIds: hydratedConfig.addTagIds,
+                removeTagIds: hydratedConfig.removeTagIds,
+            });
+
+            return {
+                success: true,
+                shouldPause: false,
+                output: {
+                    orderId: orderData.id,
+                    orderNumber: orderData.orderNumber,
+                    addedTagIds: result.added,
+                    removedTagIds: result.removed,
+                },
+            };
+        } catch (error) {
+            this.logger.error(
+                `Failed to update order tags: ${error?.message}`,
+                error?.stack,
+            );
+
+            // a deleted tag surfaces as a not found error, keep its message in the run log
+            const rejected = error instanceof BadRequestException || error instanceof NotFoundException;
+
+            return {
+                success: false,
+                shouldPause: false,
+                error: rejected
+                    ? error.message
+                    : 'The order tags could not be updated successfully.',
             };
         }
     }
@@ -1200,6 +1277,7 @@ export class NodeHandlersRegistry {
         this.handlers.set(ConditionType.QUICK_ORDER_STATUS, new ConditionQuickOrderStatusHandler(this.orderRepo));
         this.handlers.set(ConditionType.ORDER_CHECK, new ConditionOrderCheckHandler(this.orderRepo));
         this.handlers.set(ActionType.UPDATE_ORDER_STATUS, new ActionUpdateOrderStatusHandler(this.adapter, this.orderRepo));
+        this.handlers.set(ActionType.UPDATE_ORDER_TAGS, new ActionUpdateOrderTagsHandler(this.adapter, this.orderRepo));
         this.handlers.set(ActionType.SEND_WHATSAPP_TEMPLATE, new ActionSendWhatsappTemplateMessageHandler(this.adapter, this.orderRepo, this.messageRepo, this.userRepo, this.clientSettingsService));
         this.handlers.set(ActionType.SEND_WHATSAPP_MESSAGE, new ActionSendWhatsappMessageHandler(this.adapter, this.orderRepo, this.messageRepo, this.whatsappService, this.userRepo, this.clientSettingsService));
         this.handlers.set(ActionType.SEND_UPSELL, new ActionSendUpsellHandler(this.adapter, this.orderRepo, this.messageRepo, this.userRepo, this.clientSettingsService));
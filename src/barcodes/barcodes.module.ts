@@ -0,0 +1,12 @@
+import { Module } from "@nestjs/common";
+import { TypeOrmModule } from "@nestjs/typeorm";
+import { ProductVariantEntity } from "entities/sku.entity";
+import { ProductVariantBarcodeEntity } from "entities/product-barcode.entity";
+import { BarcodesService } from "./barcodes.service";
+
+@Module({
+  imports: [TypeOrmModule.forFeature([ProductVariantBarcodeEntity, ProductVariantEntity])],
+  providers: [BarcodesService],
+  exports: [BarcodesService],
+})
+export class BarcodesModule { }
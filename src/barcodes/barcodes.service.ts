@@ -0,0 +1,334 @@
+import { BadRequestException, Injectable, NotFoundException } from "@nestjs/common";
+import { InjectRepository } from "@nestjs/typeorm";
+import { DataSource, EntityManager, In, Not, Repository } from "typeorm";
+import { BarcodeType, ProductVariantBarcodeEntity } from "entities/product-barcode.entity";
+import { ProductVariantEntity } from "entities/sku.entity";
+import { PurchaseInvoiceEntity } from "entities/purchase.entity";
+import { AddVariantBarcodeDto, PrintBarcodeLabelsDto } from "dto/barcode.dto";
+import { BarcodeHelper } from "common/barcode.helper";
+import { BarcodeLabel, LabelPdfHelper } from "common/label-pdf.helper";
+import { tenantId } from "../category/category.service";
+import { TranslationService } from "common/translation.service";
+
+const MAX_LABELS = 2000;
+const GENERATE_ATTEMPTS = 10;
+
+@Injectable()
+export class BarcodesService {
+  constructor(
+    private dataSource: DataSource,
+    @InjectRepository(ProductVariantBarcodeEntity) private barcodesRepo: Repository<ProductVariantBarcodeEntity>,
+    @InjectRepository(ProductVariantEntity) private pvRepo: Repository<ProductVariantEntity>,
+    private readonly translations: TranslationService,
+  ) { }
+
+  async listForVariant(me: any, productId: string, variantId: string) {
+    const adminId = tenantId(me);
+    if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+
+    const variant = await this.getVariant(this.dataSource.manager, adminId, productId, variantId);
+    const records = await this.barcodesRepo.find({
+      where: { adminId, variantId: variant.id },
+      order: { isPrimary: "DESC", created_at: "ASC" },
+    });
+
+    return {
+      variant: { id: variant.id, sku: variant.sku },
+      records,
+    };
+  }
+
+  /** Assigns a barcode to a variant; without a code an in-store EAN-13 is generated. */
+  async add(me: any, productId: string, variantId: string, dto: AddVariantBarcodeDto) {
+    const adminId = tenantId(me);
+    if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+
+    await this.dataSource.transaction(async (manager) => {
+      const variant = await this.getVariant(manager, adminId, productId, variantId);
+      const repo = manager.getRepository(ProductVariantBarcodeEntity);
+
+      let code = String(dto.code ?? "").trim();
+      let type = dto.type;
+      if (code) {
+        type = type ?? BarcodeHelper.detectType(code);
+        if (!BarcodeHelper.isValid(code, type)) {
+          throw new BadRequestException(this.translations.t("domains.products.barcodes.invalid_code", { args: { code, type } }));
+        }
+        await this.assertAvailable(manager, adminId, code, variant.id);
+      } else {
+        code = await this.generateCode(manager, adminId);
+        type = BarcodeType.EAN13;
+      }
+
+      const hasPrimary = await repo.exist({ where: { adminId, variantId: variant.id, isPrimary: true } });
+      const isPrimary = !hasPrimary || !!dto.isPrimary;
+      if (isPrimary && hasPrimary) {
+        await repo.update({ adminId, variantId: variant.id }, { isPrimary: false });
+      }
+
+      await repo.save(repo.create({
+        adminId,
+        variantId: variant.id,
+        code,
+        type,
+        isPrimary,
+        isGenerated: !dto.code,
+        createdByUserId: me?.id ?? null,
+      }));
+    });
+
+    return this.listForVariant(me, productId, variantId);
+  }
+
+  async setPrimary(me: any, productId: string, variantId: string, barcodeId: string) {
+    const adminId = tenantId(me);
+    if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+
+    await this.dataSource.transaction(async (manager) => {
+      const variant = await this.getVariant(manager, adminId, productId, variantId);
+      const repo = manager.getRepository(ProductVariantBarcodeEntity);
+
+      const barcode = await repo.findOne({ where: { id: barcodeId, adminId, variantId: variant.id } });
+      if (!barcode) throw new NotFoundException(this.translations.t("domains.products.barcodes.not_found"));
+
+      await repo.update({ adminId, variantId: variant.id }, { isPrimary: false });
+      await repo.update({ id: barcode.id }, { isPrimary: true });
+    });
+
+    return this.listForVariant(me, productId, variantId);
+  }
+
+  async remove(me: any, productId: string, variantId: string, barcodeId: string) {
+    const adminId = tenantId(me);
+    if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+
+    await this.dataSource.transaction(async (manager) => {
+      const variant = await this.getVariant(manager, adminId, productId, variantId);
+      const repo = manager.getRepository(ProductVariantBarcodeEntity);
+
+      const barcode = await repo.findOne({ where: { id: barcodeId, adminId, variantId: variant.id } });
+      if (!barcode) throw new NotFoundException(this.translations.t("domains.products.barcodes.not_found"));
+
+      await repo.delete({ id: barcode.id });
+
+      // keep one primary code for labels
+      if (barcode.isPrimary) {
+        const next = await repo.findOne({ where: { adminId, variantId: variant.id }, order: { created_at: "ASC" } });
+        if (next) await repo.update({ id: next.id }, { isPrimary: true });
+      }
+    });
+
+    return this.listForVariant(me, productId, variantId);
+  }
+
+  /** Resolves a scanned code to a variant (barcode first, then SKU) for scanner-driven screens. */
+  async lookup(me: any, code: string) {
+    const adminId = tenantId(me);
+    if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+
+    const variant = await this.resolveVariant(this.dataSource.manager, adminId, code);
+    if (!variant) {
+      throw new NotFoundException(this.translations.t("domains.products.barcodes.code_not_found", { args: { code } }));
+    }
+
+    const full = await this.pvRepo.findOne({ where: { id: variant.id, adminId }, relations: ["product"] });
+    const barcodes = await this.barcodesRepo.find({
+      where: { adminId, variantId: variant.id },
+      order: { isPrimary: "DESC", created_at: "ASC" },
+    });
+
+    return {
+      variantId: full.id,
+      productId: full.productId,
+      productName: full.product?.name ?? null,
+      sku: full.sku,
+      attributes: full.attributes,
+      price: full.price,
+      stockOnHand: full.stockOnHand,
+      reserved: full.reserved,
+      barcodes,
+    };
+  }
+
+  /**
+   * Resolves a scanned value to a variant of the tenant.
+   * Barcodes are matched first, the SKU is the fallback so existing SKU labels keep working.
+   */
+  async resolveVariant(manager: EntityManager, adminId: string, code: string): Promise<ProductVariantEntity | null> {
+    const value = String(code ?? "").trim();
+    if (!value) return null;
+
+    const barcode = await manager.getRepository(ProductVariantBarcodeEntity).findOne({
+      where: { adminId, code: value },
+      relations: ["variant"],
+    });
+    if (barcode?.variant) return barcode.variant;
+
+    return manager.getRepository(ProductVariantEntity).findOne({ where: { adminId, sku: value } });
+  }
+
+  /** Batch form of resolveVariant, keyed by the scanned value. */
+  async resolveMany(manager: EntityManager, adminId: string, codes: string[]): Promise<Map<string, ProductVariantEntity>> {
+    const values = [...new Set(codes.map((c) => String(c ?? "").trim()).filter(Boolean))];
+    const map = new Map<string, ProductVariantEntity>();
+    if (!values.length) return map;
+
+    const barcodes = await manager.getRepository(ProductVariantBarcodeEntity).find({
+      where: { adminId, code: In(values) },
+      relations: ["variant"],
+    });
+    barcodes.forEach((b) => b.variant && map.set(b.code, b.variant));
+
+    const rest = values.filter((v) => !map.has(v));
+    if (rest.length) {
+      const bySku = await manager.getRepository(ProductVariantEntity).find({ where: { adminId, sku: In(rest) } });
+      bySku.forEach((v) => map.set(v.sku, v));
+    }
+
+    return map;
+  }
+
+  /** Generates an in-store EAN-13 for every variant that has no barcode yet. */
+  async ensureForVariants(manager: EntityManager, adminId: string, variantIds: string[], userId?: string) {
+    const ids = [...new Set(variantIds.filter(Boolean))];
+    if (!adminId || !ids.length) return;
+
+    const repo = manager.getRepository(ProductVariantBarcodeEntity);
+    const existing = await repo.find({ where: { adminId, variantId: In(ids) }, select: ["variantId"] });
+    const covered = new Set(existing.map((b) => b.variantId));
+
+    for (const variantId of ids) {
+      if (covered.has(variantId)) continue;
+
+      await repo.save(repo.create({
+        adminId,
+        variantId,
+        code: await this.generateCode(manager, adminId),
+        type: BarcodeType.EAN13,
+        isPrimary: true,
+        isGenerated: true,
+        createdByUserId: userId ?? null,
+      }));
+    }
+  }
+
+  /** PDF label sheet for selected variants or for the lines of a purchase receipt. */
+  async printLabels(me: any, dto: PrintBarcodeLabelsDto): Promise<Buffer> {
+    const adminId = tenantId(me);
+    if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+
+    const requested: { variantId: string; copies: number; lotNumber?: string | null }[] = [];
+
+    if (dto.purchaseId) {
+      const purchase = await this.dataSource.getRepository(PurchaseInvoiceEntity).findOne({
+        where: { id: dto.purchaseId, adminId },
+        relations: ["items"],
+      });
+      if (!purchase) throw new NotFoundException(this.translations.t("domains.purchase_invoice.not_found"));
+
+      for (const item of purchase.items ?? []) {
+        if (!(item.quantity > 0)) continue;
+        requested.push({ variantId: item.variantId, copies: dto.perUnit === false ? 1 : item.quantity, lotNumber: item.lotNumber });
+      }
+    }
+
+    for (const item of dto.items ?? []) {
+      requested.push({ variantId: item.variantId, copies: item.copies ?? 1 });
+    }
+
+    if (!requested.length) throw new BadRequestException(this.translations.t("domains.products.barcodes.labels_required"));
+
+    const total = requested.reduce((sum, r) => sum + r.copies, 0);
+    if (total > MAX_LABELS) {
+      throw new BadRequestException(this.translations.t("domains.products.barcodes.too_many_labels", { args: { max: MAX_LABELS } }));
+    }
+
+    const variantIds = [...new Set(requested.map((r) => r.variantId))];
+    const variants = await this.pvRepo.find({ where: { adminId, id: In(variantIds) }, relations: ["product"] });
+    const byId = new Map(variants.map((v) => [v.id, v]));
+
+    const missing = variantIds.find((id) => !byId.has(id));
+    if (missing) {
+      throw new BadRequestException(this.translations.t("domains.products.barcodes.variant_not_found", { args: { variantId: missing } }));
+    }
+
+    const codes = await this.dataSource.transaction(async (manager) => {
+      await this.ensureForVariants(manager, adminId, variantIds, me?.id);
+      return this.primaryCodes(manager, adminId, variantIds);
+    });
+
+    const labels: BarcodeLabel[] = [];
+    for (const r of requested) {
+      const variant = byId.get(r.variantId);
+      const barcode = codes.get(r.variantId);
+      const attributes = Object.values(variant.attributes ?? {}).filter(Boolean).join(" / ");
+      const subtitle = [
+        variant.sku,
+        r.lotNumber ? `LOT ${r.lotNumber}` : null,
+        dto.showPrice ? Number(variant.price ?? 0).toFixed(2) : null,
+      ].filter(Boolean).join("  ");
+
+      for (let i = 0; i < r.copies; i++) {
+        labels.push({
+          code: barcode.code,
+          type: barcode.type,
+          title: [variant.product?.name, attributes].filter(Boolean).join(" - ") || variant.sku || "",
+          subtitle,
+        });
+      }
+    }
+
+    return LabelPdfHelper.build(labels);
+  }
+
+  /** The primary (or oldest) barcode of each variant. */
+  async primaryCodes(manager: EntityManager, adminId: string, variantIds: string[]) {
+    const rows = variantIds.length
+      ? await manager.getRepository(ProductVariantBarcodeEntity).find({
+        where: { adminId, variantId: In(variantIds) },
+        order: { isPrimary: "DESC", created_at: "ASC" },
+      })
+      : [];
+
+    const map = new Map<string, ProductVariantBarcodeEntity>();
+    rows.forEach((b) => !map.has(b.variantId) && map.set(b.variantId, b));
+    return map;
+  }
+
+  private async getVariant(manager: EntityManager, adminId: string, productId: string, variantId: string) {
+    const variant = await manager.getRepository(ProductVariantEntity).findOne({ where: { id: variantId, productId, adminId } });
+    if (!variant) throw new BadRequestException(this.translations.t("domains.products.variant_sku_row_not_found"));
+    return variant;
+  }
+
+  // codes are unique per tenant and must not shadow another variant's SKU, otherwise scans become ambiguous
+  private async assertAvailable(manager: EntityManager, adminId: string, code: string, variantId: string) {
+    const taken = await manager.getRepository(ProductVariantBarcodeEntity).findOne({
+      where: { adminId, code },
+      relations: ["variant"],
+    });
+    if (taken) {
+      throw new BadRequestException(
+        this.translations.t("domains.products.barcodes.already_assigned", { args: { code, sku: taken.variant?.sku ?? taken.variantId } }),
+      );
+    }
+
+    const skuOwner = await manager.getRepository(ProductVariantEntity).findOne({
+      where: { adminId, sku: code, isActive: true, id: Not(variantId) },
+    });
+    if (skuOwner) {
+      throw new BadRequestException(this.translations.t("domains.products.barcodes.conflicts_with_sku", { args: { code } }));
+    }
+  }
+
+  private async generateCode(manager: EntityManager, adminId: string) {
+    for (let i = 0; i < GENERATE_ATTEMPTS; i++) {
+      const code = BarcodeHelper.generateEan13();
+      const taken =
+        (await manager.getRepository(ProductVariantBarcodeEntity).exist({ where: { adminId, code } })) ||
+        (await manager.getRepository(ProductVariantEntity).exist({ where: { adminId, sku: code } }));
+      if (!taken) return code;
+    }
+    throw new BadRequestException(this.translations.t("domains.products.barcodes.generation_failed"));
+  }
+}
@@ -12,12 +12,16 @@ import { StoresModule } from "src/stores/stores.module";
 import { OrdersModule } from "src/orders/orders.module";
 import { OrphanFileEntity } from "entities/files.entity";
 import { OrphanFilesModule } from "src/orphan-files/orphan-files.module";
+import { StockMovementsModule } from "src/stock-movements/stock-movements.module";
+import { LotsModule } from "src/lots/lots.module";
 
 @Module({
   imports: [
     forwardRef(() => OrphanFilesModule),
     forwardRef(() => StoresModule),
      OrdersModule, 
+    StockMovementsModule,
+    LotsModule,
     TypeOrmModule.forFeature([BundleEntity, BundleItemEntity, ProductVariantEntity, OrphanFileEntity, CategoryEntity])],
   providers: [BundlesService, BundleSubscriber],
   controllers: [BundlesController],
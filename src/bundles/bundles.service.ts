@@ -18,6 +18,9 @@ import { OrphanFilesService } from "src/orphan-files/orphan-files.service";
 import { deletePhysicalFiles, generateSlug, getErrorMessage } from "common/healpers";
 import { StoreEntity } from "entities/stores.entity";
 import { ProductSyncStateEntity } from "entities/product_sync_error.entity";
+import { StockMovementsService } from "src/stock-movements/stock-movements.service";
+import { LotsService } from "src/lots/lots.service";
+import { StockMovementReason, StockMovementReference } from "entities/stock-movement.entity";
 
 @Injectable()
 export class BundlesService {
@@ -45,6 +48,8 @@ export class BundlesService {
 
 		private readonly dataSource: DataSource,
 		private readonly translations: TranslationService,
+		private readonly stockMovementsService: StockMovementsService,
+		private readonly lotsService: LotsService,
 	) { }
 
 	private async assertOwnedOrNull(
@@ -780,13 +785,26 @@ export class BundlesService {
 		}
 
 		// consume
-		for (const it of items) {
-			const v = await this.pvRepo.findOne({ where: { id: it.variantId, adminId } as any });
-			const need = it.qty * qty;
-			(v as any).stockOnHand = (v as any).stockOnHand - need;
+		await this.dataSource.transaction(async (manager) => {
+			for (const it of items) {
+				const v = await manager.findOne(ProductVariantEntity, { where: { id: it.variantId, adminId } as any });
+				const need = it.qty * qty;
+				(v as any).stockOnHand = (v as any).stockOnHand - need;
 
-			await this.pvRepo.save(v as any);
-		}
+				await manager.save(ProductVariantEntity, v as any);
+			}
+
+			await this.stockMovementsService.record(manager, items.map((it) => ({
+				adminId,
+				variantId: it.variantId,
+				reason: StockMovementReason.BUNDLE_CONSUMPTION,
+				stockOnHandDelta: -(it.qty * qty),
+				referenceType: StockMovementReference.BUNDLE,
+				referenceId: bundle.id,
+				userId: me?.id,
+			})));
+			await this.lotsService.trimToStock(manager, adminId, items.map((it) => it.variantId));
+		});
 
 		return { ok: true, bundleId: bundle.id };
 	}
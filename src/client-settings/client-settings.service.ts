@@ -1,12 +1,36 @@
 import { BadRequestException, Injectable } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { RedisService } from 'common/redis/RedisService';
-import { UpsertClientSettingsDto } from 'dto/client-settings.dto';
-import { ClientSettingsEntity } from 'entities/clientSettings.entity';
+import { FraudDetectionSettingsDto, UpsertClientSettingsDto } from 'dto/client-settings.dto';
+import { ClientSettingsEntity, DEFAULT_FRAUD_DETECTION_SETTINGS, FraudDetectionSettings, FraudRuleType } from 'entities/clientSettings.entity';
 import { OrderStatus } from 'entities/order.entity';
 import { tenantId } from 'src/category/category.service';
 import { EntityManager, Repository } from 'typeorm';
 
+// Partial updates only touch the provided keys; missing rules fall back to the defaults
+export function mergeFraudDetectionSettings(
+  current: FraudDetectionSettings | null,
+  patch?: FraudDetectionSettingsDto,
+): FraudDetectionSettings {
+  const base = current ?? DEFAULT_FRAUD_DETECTION_SETTINGS;
+  const rules = { ...DEFAULT_FRAUD_DETECTION_SETTINGS.rules };
+
+  for (const rule of Object.values(FraudRuleType)) {
+    rules[rule] = {
+      ...rules[rule],
+      ...(base.rules?.[rule] ?? {}),
+      ...(patch?.rules?.[rule] ?? {}),
+    };
+  }
+
+  return {
+    ...DEFAULT_FRAUD_DETECTION_SETTINGS,
+    ...base,
+    ...(patch ?? {}),
+    rules,
+  };
+}
+
 @Injectable()
 export class ClientSettingsService {
   constructor(
@@ -34,6 +58,7 @@ export class ClientSettingsService {
           ...(settings.notificationSettings ?? {}),
           ...(dto.notificationSettings ?? {}),
         },
+        fraudDetection: mergeFraudDetectionSettings(settings.fraudDetection, dto.fraudDetection),
       });
     } else {
       // Create new record for this admin
@@ -43,6 +68,7 @@ export class ClientSettingsService {
         notificationSettings: {
           ...(dto.notificationSettings ?? {}),
         },
+        fraudDetection: mergeFraudDetectionSettings(null, dto.fraudDetection),
       });
     }
 
@@ -0,0 +1,11 @@
+import { Module } from "@nestjs/common";
+import { TypeOrmModule } from "@nestjs/typeorm";
+import { InventoryCostLayerEntity } from "entities/inventory-cost-layer.entity";
+import { CostingService } from "./costing.service";
+
+@Module({
+  imports: [TypeOrmModule.forFeature([InventoryCostLayerEntity])],
+  providers: [CostingService],
+  exports: [CostingService],
+})
+export class CostingModule { }
@@ -0,0 +1,349 @@
+import { BadRequestException, Injectable } from "@nestjs/common";
+import { DataSource, EntityManager, MoreThan } from "typeorm";
+import * as ExcelJS from "exceljs";
+import { InventoryCostLayerEntity } from "entities/inventory-cost-layer.entity";
+import { ClientSettingsEntity, CostingMethod } from "entities/clientSettings.entity";
+import { ProductVariantEntity } from "entities/sku.entity";
+import { StockMovementReason } from "entities/stock-movement.entity";
+import type { StockMovementInput } from "src/stock-movements/stock-movements.service";
+import { tenantId } from "../category/category.service";
+import { TranslationService } from "common/translation.service";
+
+// inbound movements that put back stock taken out earlier under the same reference,
+// so they come back at the cost they left with
+const REVERSAL_REASONS = [
+  StockMovementReason.TRANSFER_RECEIPT,
+  StockMovementReason.TRANSFER_CANCELLATION,
+  StockMovementReason.PURCHASE_RETURN_REVERSAL,
+  StockMovementReason.ORDER_DEDUCTION_REVERSAL,
+];
+
+const round = (value: number, digits = 2) => Number(value.toFixed(digits));
+
+@Injectable()
+export class CostingService {
+  constructor(
+    private dataSource: DataSource,
+    private readonly translations: TranslationService,
+  ) { }
+
+  /**
+   * Values the stockOnHand changes of a batch of movements and updates the cost state.
+   * Called by StockMovementsService.record after the variant rows were written; fills
+   * `unitCost`, `valueDelta` and `balanceUnitCost` on the given movements.
+   *
+   * Incoming stock opens a FIFO layer at the movement's unitCost (the current average when none is given).
+   * Outgoing stock consumes layers oldest first and is valued by the tenant's costing method:
+   * the consumed layers (FIFO) or the current average (weighted average).
+   * variant.unitCost always holds the average cost of the remaining stock.
+   */
+  async apply(manager: EntityManager, movements: StockMovementInput[]) {
+    const rows = movements.filter((m) => Math.trunc(m.stockOnHandDelta || 0) !== 0);
+    if (!rows.length) return;
+
+    const variantIds = [...new Set(rows.map((r) => r.variantId))];
+    const variants: { id: string; adminId: string; stockOnHand: number; unitCost: string }[] = await manager.query(
+      `SELECT "id", "adminId", "stockOnHand", "unitCost" FROM "product_variants" WHERE "id" = ANY($1) ORDER BY "id" FOR UPDATE`,
+      [variantIds],
+    );
+
+    const methods = new Map<string, CostingMethod>();
+
+    for (const variant of variants) {
+      const own = rows.filter((r) => r.variantId === variant.id);
+      const method = await this.getMethod(manager, variant.adminId, methods);
+
+      let quantity = Number(variant.stockOnHand || 0) - own.reduce((sum, r) => sum + Math.trunc(r.stockOnHandDelta || 0), 0);
+      let average = Number(variant.unitCost || 0);
+
+      await this.openLayerForExistingStock(manager, variant.adminId, variant.id, quantity, average);
+
+      for (const row of own) {
+        const delta = Math.trunc(row.stockOnHandDelta);
+        let cost: number;
+
+        if (delta > 0) {
+          cost = row.unitCost != null ? Number(row.unitCost) : (await this.reversalCost(manager, row)) ?? average;
+
+          await manager.getRepository(InventoryCostLayerEntity).insert({
+            adminId: row.adminId,
+            variantId: row.variantId,
+            unitCost: round(cost, 4),
+            quantity: delta,
+            remainingQuantity: delta,
+            reason: row.reason,
+            referenceType: row.referenceType ?? null,
+            referenceId: row.referenceId != null ? String(row.referenceId) : null,
+          });
+
+          if (method === CostingMethod.WEIGHTED_AVERAGE) {
+            average = quantity > 0 ? (quantity * average + delta * cost) / (quantity + delta) : cost;
+          }
+        } else {
+          const consumed = await this.consumeLayers(manager, row, -delta);
+          // stock without layers (e.g. oversold) is valued at the current average
+          const value = consumed.value + (-delta - consumed.quantity) * average;
+          // a reversed receipt leaves at its own cost under both methods, so the average goes back
+          const reversal = row.reason === StockMovementReason.PURCHASE_REVERSAL;
+          cost = method === CostingMethod.FIFO || reversal ? value / -delta : average;
+
+          if (method === CostingMethod.WEIGHTED_AVERAGE && reversal && quantity + delta > 0) {
+            average = Math.max(0, (quantity * average - value) / (quantity + delta));
+          }
+        }
+
+        quantity += delta;
+        if (method === CostingMethod.FIFO) {
+          average = (await this.remainingAverage(manager, row.variantId)) ?? average;
+        }
+
+        row.unitCost = round(cost, 4);
+        row.valueDelta = round(delta * cost);
+        row.balanceUnitCost = round(average, 4);
+      }
+
+      if (round(average) !== round(Number(variant.unitCost || 0))) {
+        await manager.update(ProductVariantEntity, { id: variant.id }, { unitCost: round(average) });
+      }
+    }
+  }
+
+  /** Inventory value per warehouse as of a date (stock from the ledger, valued at the average cost at that time). */
+  async valuation(me: any, q?: any) {
+    const adminId = tenantId(me);
+    if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+
+    const asOf = this.parseAsOf(q?.asOf);
+    const page = Number(q?.page ?? 1);
+    const limit = Number(q?.limit ?? 10);
+
+    const rows = await this.valuationRows(adminId, asOf, q);
+    const settings = await this.dataSource.getRepository(ClientSettingsEntity).findOne({ where: { adminId }, select: ["id", "costingMethod"] });
+
+    const byWarehouse = new Map<string, { warehouseId: string | null; warehouseName: string | null; quantity: number; value: number }>();
+    for (const r of rows) {
+      const key = r.warehouseId ?? "unallocated";
+      const cur = byWarehouse.get(key) ?? { warehouseId: r.warehouseId, warehouseName: r.warehouseName, quantity: 0, value: 0 };
+      cur.quantity += r.quantity;
+      cur.value = round(cur.value + r.value);
+      byWarehouse.set(key, cur);
+    }
+
+    return {
+      asOf,
+      costingMethod: settings?.costingMethod ?? CostingMethod.WEIGHTED_AVERAGE,
+      totals: {
+        quantity: rows.reduce((sum, r) => sum + r.quantity, 0),
+        value: round(rows.reduce((sum, r) => sum + r.value, 0)),
+      },
+      warehouses: [...byWarehouse.values()],
+      total_records: rows.length,
+      current_page: page,
+      per_page: limit,
+      records: rows.slice((page - 1) * limit, page * limit),
+    };
+  }
+
+  async exportValuation(me: any, q?: any) {
+    const adminId = tenantId(me);
+    if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+
+    const asOf = this.parseAsOf(q?.asOf);
+    const rows = await this.valuationRows(adminId, asOf, q);
+
+    const workbook = new ExcelJS.Workbook();
+    const worksheet = workbook.addWorksheet(this.translations.t("domains.products.valuation.sheet_name"));
+
+    worksheet.columns = [
+      { header: this.translations.t("domains.products.valuation.warehouse"), key: "warehouse", width: 24 },
+      { header: this.translations.t("domains.products.valuation.product"), key: "product", width: 30 },
+      { header: this.translations.t("domains.products.valuation.sku"), key: "sku", width: 22 },
+      { header: this.translations.t("domains.products.valuation.quantity"), key: "quantity", width: 12 },
+      { header: this.translations.t("domains.products.valuation.unit_cost"), key: "unitCost", width: 14 },
+      { header: this.translations.t("domains.products.valuation.value"), key: "value", width: 16 },
+    ];
+
+    const unallocated = this.translations.t("domains.products.valuation.unallocated");
+    rows.forEach((r) => {
+      worksheet.addRow({
+        warehouse: r.warehouseName ?? unallocated,
+        product: r.productName ?? "",
+        sku: r.sku ?? "",
+        quantity: r.quantity,
+        unitCost: r.unitCost,
+        value: r.value,
+      });
+    });
+
+    worksheet.addRow({
+      warehouse: this.translations.t("domains.products.valuation.total", { args: { date: asOf.toISOString().slice(0, 10) } }),
+      quantity: rows.reduce((sum, r) => sum + r.quantity, 0),
+      value: round(rows.reduce((sum, r) => sum + r.value, 0)),
+    }).font = { bold: true };
+    worksheet.getRow(1).font = { bold: true };
+
+    return Buffer.from(await workbook.xlsx.writeBuffer());
+  }
+
+  private async valuationRows(adminId: string, asOf: Date, q?: any) {
+    const params: any[] = [adminId, asOf];
+    let filters = "";
+    if (q?.warehouseId === "unallocated") {
+      filters += ` AND m."warehouseId" IS NULL`;
+    } else if (q?.warehouseId) {
+      params.push(q.warehouseId);
+      filters += ` AND m."warehouseId" = $${params.length}`;
+    }
+    if (q?.search) {
+      params.push(`%${String(q.search).trim()}%`);
+      filters += ` AND (pv."sku" ILIKE $${params.length} OR p."name" ILIKE $${params.length})`;
+    }
+
+    // cost at the date: balance cost after the variant's last costed movement, the current cost when it has none
+    const rows: any[] = await this.dataSource.query(
+      `
+      WITH stock AS (
+        SELECT m."variantId", m."warehouseId", SUM(m."stockOnHandDelta")::int AS "quantity"
+        FROM "stock_movements" m
+        JOIN "product_variants" pv ON pv."id" = m."variantId"
+        JOIN "products" p ON p."id" = pv."productId"
+        WHERE m."adminId" = $1 AND m."created_at" <= $2 ${filters}
+        GROUP BY m."variantId", m."warehouseId"
+        HAVING SUM(m."stockOnHandDelta") <> 0
+      ),
+      cost AS (
+        SELECT DISTINCT ON (m."variantId") m."variantId", m."balanceUnitCost"
+        FROM "stock_movements" m
+        WHERE m."adminId" = $1 AND m."created_at" <= $2 AND m."balanceUnitCost" IS NOT NULL
+          AND m."variantId" IN (SELECT "variantId" FROM stock)
+        ORDER BY m."variantId", m."created_at" DESC, m."sequence" DESC
+      )
+      SELECT s."variantId", s."warehouseId", w."name" AS "warehouseName", s."quantity",
+        pv."sku", pv."productId", p."name" AS "productName", pv."attributes",
+        COALESCE(c."balanceUnitCost", pv."unitCost", 0)::float AS "unitCost"
+      FROM stock s
+      JOIN "product_variants" pv ON pv."id" = s."variantId"
+      JOIN "products" p ON p."id" = pv."productId"
+      LEFT JOIN "warehouses" w ON w."id" = s."warehouseId"
+      LEFT JOIN cost c ON c."variantId" = s."variantId"
+      ORDER BY w."name" ASC NULLS LAST, p."name" ASC, pv."sku" ASC
+      `,
+      params,
+    );
+
+    return rows.map((r) => ({
+      variantId: r.variantId,
+      productId: r.productId,
+      productName: r.productName,
+      sku: r.sku,
+      attributes: this.parseAttributes(r.attributes),
+      warehouseId: r.warehouseId ?? null,
+      warehouseName: r.warehouseName ?? null,
+      quantity: Number(r.quantity),
+      unitCost: round(Number(r.unitCost), 4),
+      value: round(Number(r.quantity) * Number(r.unitCost)),
+    }));
+  }
+
+  private parseAsOf(value?: string) {
+    if (!value) return new Date();
+    const date = new Date(value);
+    if (Number.isNaN(date.getTime())) {
+      throw new BadRequestException(this.translations.t("domains.products.valuation.invalid_date"));
+    }
+    // a plain date covers the whole day
+    if (/^\d{4}-\d{2}-\d{2}$/.test(value)) date.setHours(23, 59, 59, 999);
+    return date;
+  }
+
+  private parseAttributes(value: any) {
+    if (!value || typeof value !== "string") return value ?? {};
+    try {
+      return JSON.parse(value);
+    } catch {
+      return {};
+    }
+  }
+
+  private async getMethod(manager: EntityManager, adminId: string, cache: Map<string, CostingMethod>) {
+    if (!cache.has(adminId)) {
+      const settings = await manager.getRepository(ClientSettingsEntity).findOne({ where: { adminId }, select: ["id", "costingMethod"] });
+      cache.set(adminId, settings?.costingMethod ?? CostingMethod.WEIGHTED_AVERAGE);
+    }
+    return cache.get(adminId);
+  }
+
+  // stock that existed before costing started becomes one layer at the variant's cost
+  private async openLayerForExistingStock(manager: EntityManager, adminId: string, variantId: string, quantity: number, unitCost: number) {
+    if (quantity <= 0) return;
+
+    const repo = manager.getRepository(InventoryCostLayerEntity);
+    if (await repo.exist({ where: { variantId } })) return;
+
+    await repo.insert({
+      adminId,
+      variantId,
+      unitCost: round(unitCost, 4),
+      quantity,
+      remainingQuantity: quantity,
+      reason: null,
+    });
+  }
+
+  // a purchase reversal takes back the layers of its own receipt first
+  private async consumeLayers(manager: EntityManager, row: StockMovementInput, quantity: number) {
+    const repo = manager.getRepository(InventoryCostLayerEntity);
+    const lock = { mode: "pessimistic_write" as const };
+
+    const layers: InventoryCostLayerEntity[] = [];
+    if (row.reason === StockMovementReason.PURCHASE_REVERSAL && row.referenceId != null) {
+      layers.push(...await repo.find({
+        where: { variantId: row.variantId, remainingQuantity: MoreThan(0), reason: StockMovementReason.PURCHASE_RECEIPT, referenceId: String(row.referenceId) },
+        order: { sequence: "ASC" },
+        lock,
+      }));
+    }
+    const preferred = new Set(layers.map((l) => l.id));
+    layers.push(...(await repo.find({
+      where: { variantId: row.variantId, remainingQuantity: MoreThan(0) },
+      order: { sequence: "ASC" },
+      lock,
+    })).filter((l) => !preferred.has(l.id)));
+
+    let left = quantity;
+    let value = 0;
+    for (const layer of layers) {
+      if (left <= 0) break;
+      const take = Math.min(left, layer.remainingQuantity);
+      await repo.update({ id: layer.id }, { remainingQuantity: layer.remainingQuantity - take });
+      value += take * Number(layer.unitCost);
+      left -= take;
+    }
+
+    return { quantity: quantity - left, value };
+  }
+
+  private async reversalCost(manager: EntityManager, row: StockMovementInput): Promise<number | null> {
+    if (!REVERSAL_REASONS.includes(row.reason) || !row.referenceType || row.referenceId == null) return null;
+
+    const [res] = await manager.query(
+      `SELECT COALESCE(SUM(-"valueDelta"), 0)::float AS "value", COALESCE(SUM(-"stockOnHandDelta"), 0)::int AS "quantity"
+      FROM "stock_movements"
+      WHERE "variantId" = $1 AND "referenceType" = $2 AND "referenceId" = $3 AND "stockOnHandDelta" < 0 AND "unitCost" IS NOT NULL`,
+      [row.variantId, row.referenceType, String(row.referenceId)],
+    );
+
+    return res?.quantity > 0 ? res.value / res.quantity : null;
+  }
+
+  private async remainingAverage(manager: EntityManager, variantId: string): Promise<number | null> {
+    const [res] = await manager.query(
+      `SELECT COALESCE(SUM("remainingQuantity" * "unitCost"), 0)::float AS "value", COALESCE(SUM("remainingQuantity"), 0)::int AS "quantity"
+      FROM "inventory_cost_layers"
+      WHERE "variantId" = $1 AND "remainingQuantity" > 0`,
+      [variantId],
+    );
+
+    return res?.quantity > 0 ? res.value / res.quantity : null;
+  }
+}
@@ -0,0 +1,75 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { InjectRepository } from '@nestjs/typeorm';
+import { OrderAssignmentEntity } from 'entities/assignment.entity';
+import { NotificationType } from 'entities/notifications.entity';
+import { IsNull, LessThanOrEqual, Repository } from 'typeorm';
+import { NotificationService } from '../notifications/notification.service';
+import { RequestTranslationService } from 'common/translation.service';
+import { ClientSettingsService } from 'src/client-settings/client-settings.service';
+
+// Releases confirmation assignments whose retry interval elapsed, so the order comes back in the agent's queue.
+@Injectable()
+export class CallRetryCronService {
+  private readonly logger = new Logger(CallRetryCronService.name);
+
+  constructor(
+    @InjectRepository(OrderAssignmentEntity)
+    private readonly assignmentRepo: Repository<OrderAssignmentEntity>,
+    private readonly notificationService: NotificationService,
+    private readonly clientSettingsService: ClientSettingsService,
+    private requestTranslations: RequestTranslationService,
+  ) { }
+
+  @Cron(CronExpression.EVERY_5_MINUTES)
+  async handleDueRetries() {
+    const now = new Date();
+
+    const dueAssignments = await this.assignmentRepo.find({
+      where: {
+        isAssignmentActive: true,
+        finishedAt: IsNull(),
+        lockedUntil: LessThanOrEqual(now),
+      },
+      relations: ['order'],
+      select: {
+        id: true,
+        employeeId: true,
+        lockedUntil: true,
+        order: { id: true, adminId: true, orderNumber: true },
+      },
+    });
+
+    let released = 0;
+    for (const assignment of dueAssignments) {
+      const result = await this.assignmentRepo.update(
+        { id: assignment.id, lockedUntil: LessThanOrEqual(now) },
+        { retryDueAt: assignment.lockedUntil, lockedUntil: null },
+      );
+      // released meanwhile by another instance or an agent action: no second notification
+      if (!result.affected) continue;
+      released++;
+
+      const adminId = assignment.order?.adminId;
+      if (!adminId) continue;
+
+      const settings = await this.clientSettingsService.getCachedSettings(adminId);
+      if (!settings.notifyEmployee) continue;
+
+      await this.notificationService.create({
+        userId: assignment.employeeId,
+        type: NotificationType.ORDER_ASSIGNED,
+        title: await this.requestTranslations.tAsync('domains.orders.call_attempts.retry_due_title', adminId),
+        message: await this.requestTranslations.tAsync('domains.orders.call_attempts.retry_due_message', adminId, {
+          args: { orderNumber: assignment.order.orderNumber },
+        }),
+        relatedEntityType: 'order',
+        relatedEntityId: assignment.order.id,
+      });
+    }
+
+    if (released) {
+      this.logger.log(`Released ${released} order(s) due for another call`);
+    }
+  }
+}
@@ -6,6 +6,8 @@ import { ExpiryCronService } from './ExpiryCronService';
 import { OrphanFileEntity } from 'entities/files.entity';
 import { OrphanFilesCleanupCronService } from './orphan-files-cleanup.cron';
 import { OrderPostponedCronService } from './OrderPostponedCron.service';
+import { CallRetryCronService } from './CallRetryCron.service';
+import { OrderAssignmentEntity } from 'entities/assignment.entity';
 import { OrderEntity } from 'entities/order.entity';
 import { CronController } from './cronController';
 import { CitiesSyncService } from 'src/cities/cities-sync.logic';
@@ -20,12 +22,13 @@ import { CityEntity, ProviderLocationEntity } from 'entities/cities.entity';
       UserFeature,
       OrphanFileEntity,
       OrderEntity,
+      OrderAssignmentEntity,
       CityEntity,
       ProviderLocationEntity
     ]),
   ],
   controllers: [CronController],
-  providers: [ExpiryCronService, OrphanFilesCleanupCronService, OrderPostponedCronService, CitiesSyncService],
+  providers: [ExpiryCronService, OrphanFilesCleanupCronService, OrderPostponedCronService, CallRetryCronService, CitiesSyncService],
   exports: [ExpiryCronService], // Export if you need it elsewhere, otherwise keep it private
 })
 export class CronModule { }
\ No newline at end of file
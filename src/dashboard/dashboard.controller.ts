@@ -183,6 +183,21 @@ export class DashboardController {
     return this.dashboardService.getTopCitiesStats(req.user, filters);
   }
 
+  @Permissions("dashboard.read")
+  @Get('tags-stats')
+  async getTagsStats(
+    @Req() req: any,
+    @Query() filters: {
+      storeId?: string;
+      shippingCompanyId?: string;
+      startDate?: string;
+      endDate?: string;
+      limit?: number;
+    }
+  ) {
+    return this.dashboardService.getTagsStats(req.user, filters);
+  }
+
   @Permissions("dashboard.read")
   @Get('top-products-stats')
   async getTopProductsStats(
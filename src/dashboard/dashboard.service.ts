@@ -19,7 +19,7 @@ import {
   OrderScanLogEntity,
   ScanLogType,
 } from "entities/order.entity";
-import { OrderAssignmentEntity } from "entities/assignment.entity";
+import { OrderAssignmentEntity, OrderCallAttemptEntity } from "entities/assignment.entity";
 import { tenantId } from "src/category/category.service";
 import { Brackets, DataSource, Repository } from "typeorm";
 import * as ExcelJS from "exceljs";
@@ -1023,7 +1023,16 @@ export class DashboardService {
         if (q?.endDate && end)
           s.andWhere("sl.createdAt <= :empPerfRangeEnd");
         return s;
-      }, "outgoingFailedCount");
+      }, "outgoingFailedCount")
+      .addSelect((sub) => {
+        const s = sub
+          .select("COUNT(ca.id)", "callAttemptsCount")
+          .from(OrderCallAttemptEntity, "ca")
+          .where("ca.agentId = u.id");
+        if (start) s.andWhere("ca.created_at >= :empPerfRangeStart");
+        if (end) s.andWhere("ca.created_at <= :empPerfRangeEnd");
+        return s;
+      }, "callAttempts");
 
     // Grouping
     qb.groupBy("u.id").addGroupBy("u.name").addGroupBy("u.avatarUrl").addGroupBy("u.isActive");
@@ -1055,6 +1064,7 @@ export class DashboardService {
       const delivered = Number(row?.deliveredCount) || 0;
       const activeCount = Number(row?.activeAssignments) || 0;
       const lockedCount = Number(row?.lockedAssignments) || 0;
+      const callAttempts = Number(row?.callAttempts) || 0;
       const prepFailedCount =
         Number(
           row?.preparationfailedcount ??
@@ -1076,6 +1086,8 @@ export class DashboardService {
         lockedAssignments: lockedCount,
         preparationFailedRate: prepFailedCount,
         outgoingFailedRate: outFailedCount,
+        callAttempts,
+        attemptsPerConfirmation: confirmed > 0 ? Math.round((callAttempts / confirmed) * 100) / 100 : 0,
         confirmed: {
           count: confirmed,
           percent: total > 0 ? Math.round((confirmed / total) * 100) : 0,
@@ -1117,6 +1129,7 @@ export class DashboardService {
       { header: this.translations.t('domains.dashboard.export_total_assignments'), key: "totalAssigned", width: 15 },
       { header: this.translations.t('domains.dashboard.export_confirmed'), key: "confirmedCount", width: 12 },
       { header: this.translations.t('domains.dashboard.export_confirmation_rate'), key: "confirmedPercent", width: 15 },
+      { header: this.translations.t('domains.dashboard.export_attempts_per_confirmation'), key: "attemptsPerConfirmation", width: 18 },
       { header: this.translations.t('domains.dashboard.export_shipped'), key: "shippedCount", width: 12 },
       { header: this.translations.t('domains.dashboard.export_delivered'), key: "deliveredCount", width: 15 },
       { header: this.translations.t('domains.dashboard.export_success_rate'), key: "deliveryRate", width: 15 },
@@ -1144,6 +1157,7 @@ export class DashboardService {
         confirmedCount: confirmed,
         confirmedPercent:
           total > 0 ? `${Math.round((confirmed / total) * 100)}%` : "0%",
+        attemptsPerConfirmation: row.attemptsPerConfirmation,
         shippedCount: shipped,
         deliveredCount: delivered,
         deliveryRate: `${rate}%`,
@@ -1655,6 +1669,53 @@ export class DashboardService {
     }));
   }
 
+  // an order with several tags counts once under each of them
+  async getTagsStats(user: any, filters: any) {
+    const adminId = tenantId(user);
+    if (!adminId) throw new BadRequestException(this.translations.t('common.missing_admin_id'));
+
+    const { start, end } = DateFilterUtil.getBoundaries(filters.startDate, filters.endDate);
+    const limit = filters.limit ? Number(filters.limit) : 10;
+
+    const qb = this.orderRepo.createQueryBuilder("o")
+      .innerJoin("o.tags", "tag")
+      .leftJoin("o.status", "st")
+      .where("o.adminId = :adminId", { adminId });
+
+    // Apply Filters
+    if (filters.storeId) qb.andWhere("o.storeId = :storeId", { storeId: filters.storeId });
+    if (filters.shippingCompanyId) {
+      qb.andWhere("o.shippingCompanyId = :shippingCompanyId", { shippingCompanyId: filters.shippingCompanyId });
+    }
+    if (start) qb.andWhere("o.created_at >= :start", { start });
+    if (end) qb.andWhere("o.created_at <= :end", { end });
+
+    qb.select('tag.id', 'id')
+      .addSelect('tag.name', 'name')
+      .addSelect('tag.color', 'color')
+      .addSelect(`COUNT(DISTINCT o.id)`, 'totalOrders')
+      .addSelect(`COUNT(DISTINCT CASE WHEN o."isConfirmed" = true THEN o.id END)`, 'confirmedCount')
+      .addSelect(`COUNT(DISTINCT CASE WHEN st.code = '${OrderStatus.DELIVERED}' THEN o.id END)`, 'deliveredTotal')
+      .addSelect(`COALESCE(SUM(CASE WHEN st.code = '${OrderStatus.DELIVERED}' THEN o."finalTotal" ELSE 0 END), 0)`, 'deliveredRevenue')
+      .groupBy('tag.id')
+      .addGroupBy('tag.name')
+      .addGroupBy('tag.color')
+      .orderBy('"totalOrders"', 'DESC')
+      .limit(limit);
+
+    const rawResults = await qb.getRawMany();
+
+    return rawResults.map(row => ({
+      id: row.id,
+      name: row.name,
+      color: row.color,
+      totalOrders: Number(row.totalOrders || row.totalorders || 0),
+      confirmedCount: Number(row.confirmedCount || row.confirmedcount || 0),
+      deliveredTotal: Number(row.deliveredTotal || row.deliveredtotal || 0),
+      deliveredRevenue: Number(row.deliveredRevenue || row.deliveredrevenue || 0),
+    }));
+  }
+
   async getTopProductsStats(user: any, filters: any) {
     const adminId = tenantId(user);
     if (!adminId) throw new BadRequestException(this.translations.t('common.missing_admin_id'));
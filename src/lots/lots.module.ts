@@ -0,0 +1,13 @@
+import { Module } from "@nestjs/common";
+import { TypeOrmModule } from "@nestjs/typeorm";
+import { ProductVariantEntity } from "entities/sku.entity";
+import { OrderItemLotEntity, VariantLotEntity } from "entities/variant-lot.entity";
+import { LotsService } from "./lots.service";
+import { LotExpiryService } from "common/background-services/lot-expiry.service";
+
+@Module({
+  imports: [TypeOrmModule.forFeature([VariantLotEntity, OrderItemLotEntity, ProductVariantEntity])],
+  providers: [LotsService, LotExpiryService],
+  exports: [LotsService],
+})
+export class LotsModule { }
@@ -0,0 +1,387 @@
+import { BadRequestException, Injectable, Logger } from "@nestjs/common";
+import { InjectRepository } from "@nestjs/typeorm";
+import { EntityManager, In, Repository } from "typeorm";
+import { OrderItemLotEntity, VariantLotEntity } from "entities/variant-lot.entity";
+import { ProductVariantEntity } from "entities/sku.entity";
+import { OrderItemEntity } from "entities/order.entity";
+import { tenantId } from "../category/category.service";
+import { TranslationService } from "common/translation.service";
+
+export type ExpiringLot = {
+  id: string;
+  adminId: string;
+  variantId: string;
+  sku: string;
+  lotNumber: string;
+  expiryDate: string;
+  quantity: number;
+};
+
+@Injectable()
+export class LotsService {
+  private readonly logger = new Logger(LotsService.name);
+
+  constructor(
+    @InjectRepository(VariantLotEntity) private lotsRepo: Repository<VariantLotEntity>,
+    @InjectRepository(ProductVariantEntity) private pvRepo: Repository<ProductVariantEntity>,
+    private readonly translations: TranslationService,
+  ) { }
+
+  /**
+   * Adds received stock to a lot (created on first receipt of the lot number).
+   * The variant total is updated by the caller.
+   */
+  async receive(
+    manager: EntityManager,
+    params: {
+      adminId: string;
+      variantId: string;
+      lotNumber: string;
+      expiryDate?: string | null;
+      quantity: number;
+      warehouseId?: string | null;
+      purchaseInvoiceId?: string | null;
+    },
+  ) {
+    const { adminId, variantId, quantity } = params;
+    const lotNumber = String(params.lotNumber ?? "").trim();
+    if (!lotNumber || !(quantity > 0)) return null;
+
+    const repo = manager.getRepository(VariantLotEntity);
+    const lot = await repo.findOne({
+      where: { adminId, variantId, lotNumber },
+      lock: { mode: "pessimistic_write" },
+    });
+
+    if (!lot) {
+      return repo.save(repo.create({
+        adminId,
+        variantId,
+        lotNumber,
+        expiryDate: params.expiryDate || null,
+        quantity,
+        receivedQuantity: quantity,
+        warehouseId: params.warehouseId ?? null,
+        purchaseInvoiceId: params.purchaseInvoiceId ?? null,
+      }));
+    }
+
+    if (params.expiryDate && lot.expiryDate && lot.expiryDate !== params.expiryDate) {
+      throw new BadRequestException(
+        this.translations.t("domains.products.lots.expiry_mismatch", { args: { lotNumber, expiryDate: lot.expiryDate } }),
+      );
+    }
+
+    await manager
+      .createQueryBuilder()
+      .update(VariantLotEntity)
+      .set({
+        quantity: () => `"quantity" + ${quantity}`,
+        receivedQuantity: () => `"receivedQuantity" + ${quantity}`,
+        ...(params.expiryDate && !lot.expiryDate ? { expiryDate: params.expiryDate } : {}),
+      })
+      .where("id = :id", { id: lot.id })
+      .execute();
+
+    return lot;
+  }
+
+  /** Takes stock back out of a specific lot (e.g. a purchase receipt that is reversed). */
+  async remove(manager: EntityManager, params: { adminId: string; variantId: string; lotNumber: string; quantity: number }) {
+    const { adminId, variantId, quantity } = params;
+    const lotNumber = String(params.lotNumber ?? "").trim();
+    if (!lotNumber || !(quantity > 0)) return;
+
+    await manager
+      .createQueryBuilder()
+      .update(VariantLotEntity)
+      .set({
+        quantity: () => `GREATEST(0, "quantity" - ${quantity})`,
+        receivedQuantity: () => `GREATEST(0, "receivedQuantity" - ${quantity})`,
+      })
+      .where(`"adminId" = :adminId AND "variantId" = :variantId AND "lotNumber" = :lotNumber`, { adminId, variantId, lotNumber })
+      .execute();
+  }
+
+  /**
+   * Picks a deducted order item quantity from the variant lots, first expiry first out.
+   * Expired lots are skipped; whatever the lots cannot cover comes from unlotted stock and is recorded
+   * on the item as `unlottedQuantity` (deduction validation already keeps expired lot stock out).
+   */
+  async allocate(
+    manager: EntityManager,
+    params: { adminId: string; variantId: string; quantity: number; orderId: string; orderItemId: string },
+  ) {
+    const { adminId, variantId, orderId, orderItemId } = params;
+    let remaining = params.quantity;
+    if (!(remaining > 0)) return [];
+
+    const lots = await this.lockAvailableLots(manager, adminId, variantId, { skipExpired: true });
+    const allocations: OrderItemLotEntity[] = [];
+    const allocRepo = manager.getRepository(OrderItemLotEntity);
+
+    for (const lot of lots) {
+      if (remaining <= 0) break;
+      const take = Math.min(lot.quantity, remaining);
+
+      await this.decrementLot(manager, lot.id, take);
+      allocations.push(allocRepo.create({ adminId, orderId, orderItemId, lotId: lot.id, variantId, quantity: take }));
+      remaining -= take;
+    }
+
+    if (allocations.length) await allocRepo.save(allocations);
+
+    if (remaining > 0) {
+      await manager
+        .createQueryBuilder()
+        .update(OrderItemEntity)
+        .set({ unlottedQuantity: () => `"unlottedQuantity" + ${remaining}` })
+        .where("id = :id", { id: orderItemId })
+        .execute();
+
+      // only reachable when validation was skipped: the units really sit in expired lots
+      const expired = (await this.expiredQuantities(manager, adminId, [variantId])).get(variantId) || 0;
+      if (expired > 0) {
+        this.logger.warn(`Order ${orderId}: ${remaining} unit(s) of variant ${variantId} deducted as unlotted while ${expired} sit in expired lots`);
+      }
+    }
+
+    return allocations;
+  }
+
+  /** Stock held by expired lots per variant; it cannot be sold. */
+  async expiredQuantities(manager: EntityManager, adminId: string, variantIds: string[]) {
+    const ids = [...new Set((variantIds ?? []).filter(Boolean))];
+    const result = new Map<string, number>();
+    if (!ids.length) return result;
+
+    const rows = await manager.getRepository(VariantLotEntity)
+      .createQueryBuilder("lot")
+      .select("lot.variantId", "variantId")
+      .addSelect("COALESCE(SUM(lot.quantity), 0)::int", "quantity")
+      .where("lot.adminId = :adminId", { adminId })
+      .andWhere("lot.variantId IN (:...ids)", { ids })
+      .andWhere("lot.quantity > 0")
+      .andWhere("lot.expiryDate < CURRENT_DATE")
+      .groupBy("lot.variantId")
+      .getRawMany();
+
+    for (const row of rows) result.set(row.variantId, Number(row.quantity || 0));
+    return result;
+  }
+
+  /**
+   * Puts returned units back into the lots the order item was picked from (latest pick first).
+   * Returns the quantity that went back into lots; the rest is unlotted stock.
+   */
+  async restock(manager: EntityManager, params: { adminId: string; orderItemId: string; variantId: string; quantity: number }) {
+    const { adminId, orderItemId, variantId } = params;
+    let remaining = params.quantity;
+    if (!orderItemId || !(remaining > 0)) return 0;
+
+    const allocations = await manager.getRepository(OrderItemLotEntity)
+      .createQueryBuilder("a")
+      .setLock("pessimistic_write")
+      .where("a.adminId = :adminId", { adminId })
+      .andWhere("a.orderItemId = :orderItemId", { orderItemId })
+      .andWhere("a.variantId = :variantId", { variantId })
+      .andWhere("a.quantity > a.returnedQuantity")
+      .orderBy("a.created_at", "DESC")
+      .getMany();
+
+    let restocked = 0;
+    for (const alloc of allocations) {
+      if (remaining <= 0) break;
+      const back = Math.min(alloc.quantity - alloc.returnedQuantity, remaining);
+
+      await manager
+        .createQueryBuilder()
+        .update(VariantLotEntity)
+        .set({ quantity: () => `"quantity" + ${back}` })
+        .where("id = :id", { id: alloc.lotId })
+        .execute();
+
+      await manager
+        .createQueryBuilder()
+        .update(OrderItemLotEntity)
+        .set({ returnedQuantity: () => `"returnedQuantity" + ${back}` })
+        .where("id = :id", { id: alloc.id })
+        .execute();
+
+      remaining -= back;
+      restocked += back;
+    }
+
+    // what no lot takes back was shipped unlotted
+    if (remaining > 0) {
+      await manager
+        .createQueryBuilder()
+        .update(OrderItemEntity)
+        .set({ unlottedQuantity: () => `GREATEST(0, "unlottedQuantity" - ${remaining})` })
+        .where("id = :id", { id: orderItemId })
+        .execute();
+    }
+
+    return restocked;
+  }
+
+  /**
+   * Keeps the lots within the variant stock after a decrease that did not pick lots
+   * (manual adjustments, counts, supplier returns...): the excess is taken from the earliest-expiring lots.
+   */
+  async trimToStock(manager: EntityManager, adminId: string, variantIds: string[]) {
+    const ids = [...new Set((variantIds ?? []).filter(Boolean))];
+    if (!ids.length) return;
+
+    const rows = await manager.query(
+      `SELECT pv.id AS "variantId",
+        pv."stockOnHand" + pv."inTransitQuantity" AS "stock",
+        COALESCE(SUM(l."quantity"), 0) AS "lotted"
+      FROM "product_variants" pv
+      INNER JOIN "variant_lots" l ON l."variantId" = pv.id AND l."quantity" > 0
+      WHERE pv."adminId" = $1 AND pv.id = ANY($2::uuid[])
+      GROUP BY pv.id`,
+      [adminId, ids],
+    );
+
+    for (const row of rows) {
+      let excess = Number(row.lotted || 0) - Math.max(0, Number(row.stock || 0));
+      if (excess <= 0) continue;
+
+      const lots = await this.lockAvailableLots(manager, adminId, row.variantId, { skipExpired: false });
+      for (const lot of lots) {
+        if (excess <= 0) break;
+        const take = Math.min(lot.quantity, excess);
+        await this.decrementLot(manager, lot.id, take);
+        excess -= take;
+      }
+    }
+  }
+
+  async listForVariant(me: any, productId: string, variantId: string) {
+    const adminId = tenantId(me);
+    if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+
+    const variant = await this.pvRepo.findOne({ where: { id: variantId, productId, adminId } });
+    if (!variant) throw new BadRequestException(this.translations.t("domains.products.variant_sku_row_not_found"));
+
+    const lots = await this.lotsRepo
+      .createQueryBuilder("lot")
+      .leftJoinAndSelect("lot.warehouse", "warehouse")
+      .where("lot.adminId = :adminId", { adminId })
+      .andWhere("lot.variantId = :variantId", { variantId })
+      .orderBy("lot.expiryDate", "ASC", "NULLS LAST")
+      .addOrderBy("lot.created_at", "ASC")
+      .getMany();
+
+    const lotted = lots.reduce((sum, l) => sum + (l.quantity || 0), 0);
+
+    return {
+      variant: { id: variant.id, sku: variant.sku, stockOnHand: variant.stockOnHand },
+      unlottedQuantity: Math.max(0, (variant.stockOnHand || 0) - lotted),
+      records: lots,
+    };
+  }
+
+  /** Lots with stock across the tenant, filterable by expiry (`expiringWithinDays`, `expired`). */
+  async list(me: any, q?: any) {
+    const adminId = tenantId(me);
+    if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+
+    const page = Number(q?.page ?? 1);
+    const limit = Number(q?.limit ?? 10);
+    const search = String(q?.search ?? "").trim();
+
+    const qb = this.lotsRepo
+      .createQueryBuilder("lot")
+      .leftJoin("lot.variant", "variant")
+      .addSelect(["variant.id", "variant.sku", "variant.productId", "variant.attributes"])
+      .leftJoin("variant.product", "product")
+      .addSelect(["product.id", "product.name", "product.mainImage"])
+      .leftJoinAndSelect("lot.warehouse", "warehouse")
+      .where("lot.adminId = :adminId", { adminId });
+
+    if (!(q?.includeEmpty === "true" || q?.includeEmpty === true)) qb.andWhere("lot.quantity > 0");
+    if (q?.warehouseId && q.warehouseId !== "all") qb.andWhere("lot.warehouseId = :warehouseId", { warehouseId: q.warehouseId });
+    if (q?.variantId) qb.andWhere("lot.variantId = :variantId", { variantId: q.variantId });
+
+    if (q?.expired === "true" || q?.expired === true) {
+      qb.andWhere("lot.expiryDate < CURRENT_DATE");
+    } else if (q?.expiringWithinDays !== undefined && q.expiringWithinDays !== "") {
+      const days = Math.max(0, Number(q.expiringWithinDays) || 0);
+      qb.andWhere("lot.expiryDate >= CURRENT_DATE AND lot.expiryDate <= CURRENT_DATE + (:days)::int", { days });
+    }
+
+    if (search) {
+      qb.andWhere("(lot.lotNumber ILIKE :s OR variant.sku ILIKE :s OR product.name ILIKE :s)", { s: `%${search}%` });
+    }
+
+    qb.orderBy("lot.expiryDate", "ASC", "NULLS LAST").addOrderBy("lot.created_at", "ASC");
+
+    const [records, total] = await qb
+      .skip((page - 1) * limit)
+      .take(limit)
+      .getManyAndCount();
+
+    return {
+      total_records: total,
+      current_page: page,
+      per_page: limit,
+      records,
+    };
+  }
+
+  /** Lots with stock expiring within `days` (or already expired) that were not alerted yet. */
+  async findExpiringForAlert(days: number): Promise<ExpiringLot[]> {
+    const rows = await this.lotsRepo
+      .createQueryBuilder("lot")
+      .innerJoin("lot.variant", "variant")
+      .select([
+        `lot.id AS "id"`,
+        `lot.adminId AS "adminId"`,
+        `lot.variantId AS "variantId"`,
+        `variant.sku AS "sku"`,
+        `lot.lotNumber AS "lotNumber"`,
+        `lot.expiryDate AS "expiryDate"`,
+        `lot.quantity AS "quantity"`,
+      ])
+      .where("lot.quantity > 0")
+      .andWhere("lot.expiryDate IS NOT NULL")
+      .andWhere("lot.expiryDate <= CURRENT_DATE + (:days)::int", { days })
+      .andWhere("lot.expiryNotifiedAt IS NULL")
+      .orderBy("lot.expiryDate", "ASC")
+      .getRawMany();
+
+    return rows.map((r) => ({ ...r, quantity: Number(r.quantity || 0) }));
+  }
+
+  async markExpiryNotified(lotIds: string[]) {
+    if (!lotIds?.length) return;
+    await this.lotsRepo.update({ id: In(lotIds) }, { expiryNotifiedAt: new Date() });
+  }
+
+  private lockAvailableLots(manager: EntityManager, adminId: string, variantId: string, options: { skipExpired: boolean }) {
+    const qb = manager.getRepository(VariantLotEntity)
+      .createQueryBuilder("lot")
+      .setLock("pessimistic_write")
+      .where("lot.adminId = :adminId", { adminId })
+      .andWhere("lot.variantId = :variantId", { variantId })
+      .andWhere("lot.quantity > 0");
+
+    if (options.skipExpired) qb.andWhere("(lot.expiryDate IS NULL OR lot.expiryDate >= CURRENT_DATE)");
+
+    return qb
+      .orderBy("lot.expiryDate", "ASC", "NULLS LAST")
+      .addOrderBy("lot.created_at", "ASC")
+      .getMany();
+  }
+
+  private async decrementLot(manager: EntityManager, lotId: string, quantity: number) {
+    await manager
+      .createQueryBuilder()
+      .update(VariantLotEntity)
+      .set({ quantity: () => `"quantity" - ${quantity}` })
+      .where("id = :id", { id: lotId })
+      .execute();
+  }
+}
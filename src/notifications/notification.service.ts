@@ -162,11 +162,14 @@ export class NotificationService {
       case NotificationType.SHIPMENT_CANCELLED:
       case NotificationType.REPLACEMENT_CREATED:
       case NotificationType.RETURN_REQUEST_CREATED:
+      case NotificationType.ORDER_SLA_BREACHED:
         return "notifyOrderUpdates";
       case NotificationType.PRODUCT_CREATED:
       case NotificationType.COLLECTION_CREATED:
         return "notifyNewProducts";
       case NotificationType.LOW_STOCK_ALERT:
+      case NotificationType.STOCK_LEDGER_MISMATCH:
+      case NotificationType.LOT_EXPIRY_ALERT:
         return "notifyLowStock";
       case NotificationType.MARKETING_MESSAGE:
         return "notifyMarketing";
@@ -11,6 +11,7 @@ import { ProductEntity } from 'entities/sku.entity';
 import { CityEntity } from 'entities/cities.entity';
 import { ShippingCompanyEntity } from 'entities/shipping.entity';
 import { StoreEntity } from 'entities/stores.entity';
+import { OrderTagEntity } from 'entities/order-tag.entity';
 import { BullModule } from '@nestjs/bullmq';
 
 
@@ -27,7 +28,8 @@ import { BullModule } from '@nestjs/bullmq';
       ProductEntity,
       CityEntity,
       ShippingCompanyEntity,
-      StoreEntity
+      StoreEntity,
+      OrderTagEntity
     ]),
 
   ],
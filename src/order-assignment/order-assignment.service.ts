@@ -2,7 +2,7 @@ import { BadRequestException, forwardRef, Inject, Injectable, Logger, NotFoundEx
 import { InjectRepository } from '@nestjs/typeorm';
 import { DateFilterUtil } from 'common/date-filter.util';
 import { AutoAssignDto, AutoPreviewDto, CreateAutoAssignRuleDto, GetFreeOrdersDto, ManualAssignManyDto, UpdateAutoAssignRuleDto } from 'dto/order-assignment.dto';
-import { OrderAssignmentEntity, AutoAssignRuleEntity, AutoAssignRuleType, AssignmentStrategy, WeekDay } from 'entities/assignment.entity';
+import { OrderAssignmentEntity, AutoAssignRuleEntity, AutoAssignRuleType, AssignmentStrategy, WeekDay, OrderCallAttemptEntity } from 'entities/assignment.entity';
 import { OrderEntity, OrderStatus, OrderStatusEntity } from 'entities/order.entity';
 import { AssignmentMode } from 'entities/clientSettings.entity';
 import { TimeUnit } from 'entities/clientSettings.entity';
@@ -18,6 +18,7 @@ import { NotificationService } from 'src/notifications/notification.service';
 import { NotificationType } from 'entities/notifications.entity';
 import { BitmaskHelper, WeekDayHelper } from 'common/bitmask.helper';
 import { StoreEntity } from 'entities/stores.entity';
+import { OrderTagEntity } from 'entities/order-tag.entity';
 import { ClientSettingsService } from 'src/client-settings/client-settings.service';
 import { RequestTranslationService, TranslationService } from 'common/translation.service';
 
@@ -57,6 +58,8 @@ export class OrderAssignmentService {
 
         @InjectRepository(StoreEntity)
         private readonly storeRepo: Repository<StoreEntity>,
+        @InjectRepository(OrderTagEntity)
+        private readonly tagRepo: Repository<OrderTagEntity>,
         private readonly clientSettingsService: ClientSettingsService,
         private readonly translations: TranslationService,
         private requestTranslations: RequestTranslationService,
@@ -1019,12 +1022,20 @@ export class OrderAssignmentService {
             .leftJoinAndSelect("order.status", "status")
             .leftJoinAndSelect("order.shippingCompany", "shippingCompany")
             .leftJoinAndSelect("order.store", "store")
-            .orderBy("assignment.assignedAt", "ASC") // 🔥 Old → New
+            .orderBy("assignment.retryDueAt", "ASC", "NULLS LAST") // due retries come back first
+            .addOrderBy("assignment.assignedAt", "ASC") // 🔥 Old → New
             .addOrderBy("order.id", "ASC")
             .getOne();
 
         if (!order) return null;
 
+        (order as any).callAttempts = await this.dataSource.getRepository(OrderCallAttemptEntity).find({
+            where: { adminId, orderId: order.id },
+            relations: { agent: true },
+            select: { agent: { id: true, name: true } },
+            order: { created_at: "DESC" },
+        });
+
         // Collect upselling product ids
         const upsellingIds = new Set<string>();
 
@@ -1268,7 +1279,8 @@ export class OrderAssignmentService {
             .leftJoinAndSelect("rule.products", "products")
             .leftJoinAndSelect("rule.cities", "cities")
             .leftJoinAndSelect("rule.employees", "employees")
-            .leftJoinAndSelect("rule.stores", "stores");
+            .leftJoinAndSelect("rule.stores", "stores")
+            .leftJoinAndSelect("rule.tags", "tags");
 
         if (search) {
             qb.andWhere(new Brackets(sq => {
@@ -1340,6 +1352,13 @@ export class OrderAssignmentService {
             }));
         }
 
+        if (dto.tagIds?.length) {
+            promises.push(this.tagRepo.find({ where: { id: In(dto.tagIds), adminId } }).then(async tags => {
+                if (tags.length !== dto.tagIds.length) throw new BadRequestException(this.translations.t('domains.order_assignment.some_tags_not_found'));
+                rule.tags = tags;
+            }));
+        }
+
         if (dto.employeeIds?.length) {
             promises.push(this.userRepo.find({ where: { id: In(dto.employeeIds), adminId, isActive: true } }).then(async employees => {
                 if (employees.length !== dto.employeeIds.length) throw new BadRequestException(this.translations.t('domains.order_assignment.some_employees_not_found'));
@@ -1388,6 +1407,13 @@ export class OrderAssignmentService {
             }));
         }
 
+        if (dto.tagIds !== undefined) {
+            promises.push((dto.tagIds.length ? this.tagRepo.find({ where: { id: In(dto.tagIds), adminId } }) : Promise.resolve([])).then(async tags => {
+                if (dto.tagIds.length && tags.length !== dto.tagIds.length) throw new BadRequestException(this.translations.t('domains.order_assignment.some_tags_not_found'));
+                rule.tags = tags;
+            }));
+        }
+
         if (dto.employeeIds !== undefined) {
             promises.push((dto.employeeIds.length ? this.userRepo.find({ where: { id: In(dto.employeeIds), adminId, isActive: true } }) : Promise.resolve([])).then(async employees => {
                 if (dto.employeeIds.length && employees.length !== dto.employeeIds.length) throw new BadRequestException(this.translations.t('domains.order_assignment.some_employees_not_found'));
@@ -1406,7 +1432,7 @@ export class OrderAssignmentService {
 
         const rule = await this.autoAssignRuleRepo.findOne({
             where: { id, adminId },
-            relations: ["products", "cities", "employees"],
+            relations: ["products", "cities", "employees", "stores", "tags"],
         });
 
         if (!rule) throw new NotFoundException(this.translations.t('domains.order_assignment.rule_not_found'));
@@ -1527,7 +1553,7 @@ export class OrderAssignmentService {
             // 1. Get active rules ordered by priority
             const rules = await manager.find(AutoAssignRuleEntity, {
                 where: { adminId, isActive: true },
-                relations: ["products", "cities", "employees", "stores"],
+                relations: ["products", "cities", "employees", "stores", "tags"],
                 order: { priority: "ASC", createdAt: "ASC" },
             });
 
@@ -1536,7 +1562,7 @@ export class OrderAssignmentService {
             // 2. Fetch orders with necessary details
             const orders = await manager.find(OrderEntity, {
                 where: { id: In(orderIds), adminId },
-                relations: ["items", "items.variant", "items.variant.product", "cityDetails", "status"],
+                relations: ["items", "items.variant", "items.variant.product", "cityDetails", "status", "tags"],
             });
             this.logger.debug(`Fetched ${orders.map(o => o.orderNumber).join(', ')} orders for auto-assignment.`);
             const settings = await this.clientSettingsService.getCachedSettings(adminId);
@@ -1609,7 +1635,7 @@ export class OrderAssignmentService {
         // 1. Get active rules ordered by priority
         const rules = await this.autoAssignRuleRepo.find({
             where: { adminId, isActive: true },
-            relations: ["products", "cities", "employees", "stores"],
+            relations: ["products", "cities", "employees", "stores", "tags"],
             order: { priority: "ASC", createdAt: "ASC" },
         });
 
@@ -1620,6 +1646,17 @@ export class OrderAssignmentService {
             return { message: this.translations.t('domains.order_assignment.auto_assignment_disabled'), assignedCount: 0 };
         }
 
+        // orders handed in by the automation preview come without their tags
+        if (rules.some(rule => rule.ruleType === AutoAssignRuleType.TAG) && orders.some(order => !order.tags)) {
+            const tagged = await this.orderRepo.find({
+                where: { id: In(orders.map(order => order.id)), adminId },
+                select: { id: true },
+                relations: ["tags"],
+            });
+            const tagsByOrder = new Map(tagged.map(order => [order.id, order.tags]));
+            orders.forEach(order => order.tags ??= tagsByOrder.get(order.id) ?? []);
+        }
+
         let assignedCount = 0;
         const results = [];
 
@@ -1740,6 +1777,10 @@ export class OrderAssignmentService {
                 if (!rule.stores?.length) return false;
                 const ruleStoreIds = rule.stores.map(s => s.id);
                 return ruleStoreIds.includes(order.storeId);
+            case AutoAssignRuleType.TAG:
+                if (!rule.tags?.length) return false;
+                const ruleTagIds = rule.tags.map(t => t.id);
+                return (order.tags ?? []).some(tag => ruleTagIds.includes(tag.id));
             default:
                 return false;
         }
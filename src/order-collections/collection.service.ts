@@ -3,8 +3,8 @@ import { BadRequestException, Injectable, NotFoundException } from '@nestjs/comm
 import { InjectRepository } from '@nestjs/typeorm';
 import { CreateOrderCollectionDto } from 'dto/order-collection.dto';
 import { OrderCollectionEntity } from 'entities/order-collection.entity';
-import { OrderEntity, OrderStatus } from 'entities/order.entity';
-import { ShippingIntegrationEntity } from 'entities/shipping.entity';
+import { OrderEntity, OrderFulfillmentStatus, OrderStatus } from 'entities/order.entity';
+import { ShipmentEntity, ShipmentStatus, ShippingIntegrationEntity } from 'entities/shipping.entity';
 import { tenantId } from 'src/category/category.service';
 import { Brackets, DataSource, Repository } from 'typeorm';
 import * as ExcelJS from 'exceljs';
@@ -132,6 +132,18 @@ export class CollectionService {
                 }
             }
 
+            // 3.1 A split order is collected parcel by parcel, once each one is delivered
+            let shipment: ShipmentEntity | null = null;
+            if (dto.shipmentId) {
+                shipment = await manager.findOne(ShipmentEntity, {
+                    where: { id: dto.shipmentId, orderId: order.id, adminId },
+                });
+                if (!shipment) throw new NotFoundException(this.translations.t('domains.collections.shipment_not_found', { args: { shipmentId: dto.shipmentId } }));
+                if (shipment.status !== ShipmentStatus.DELIVERED) {
+                    throw new BadRequestException(this.translations.t('domains.collections.shipment_not_delivered', { args: { trackingNumber: shipment.trackingNumber ?? shipment.id } }));
+                }
+            }
+
             const currency = await this.usersService.getCompanyCurrency(me, manager);
 
             // 4. Create collection
@@ -143,7 +155,8 @@ export class CollectionService {
                 source: dto.source,
                 notes: dto.notes?.trim(),
                 collectedAt: dto.collectedAt ? new Date(dto.collectedAt) : new Date(),
-                shippingCompanyId: dto.shippingCompanyId || null,
+                shippingCompanyId: dto.shippingCompanyId || shipment?.shippingCompanyId || null,
+                shipmentId: shipment?.id ?? null,
                 safeId: dto.safeId,
             });
 
@@ -161,7 +174,7 @@ export class CollectionService {
                 referenceId: saved.id,
                 referenceMeta: {
                     shippingCompanyProvider: shippingIntegration?.shippingCompany?.code || null,
-                    trackingNumber: order.trackingNumber || null,
+                    trackingNumber: shipment?.trackingNumber || order.trackingNumber || null,
                     orderNumber: order.orderNumber || null,
                 },
                 notes: await this.requestTranslations.tAsync('domains.collections.collection_deposit_notes', adminId, { args: { orderNumber: order.orderNumber } }),
@@ -210,7 +223,7 @@ export class CollectionService {
         if (q?.collectionStatus) {
             const amt = "COALESCE(order.collectedAmount, 0)";
             const collectible = "(order.finalTotal)";
-            const deliveredCondition = `st.code = '${OrderStatus.DELIVERED}'`;
+            const deliveredCondition = `(st.code = '${OrderStatus.DELIVERED}' OR order.fulfillmentStatus = '${OrderFulfillmentStatus.PARTIALLY_DELIVERED}')`;
 
             if (q.collectionStatus === 'not_collected') {
                 qb.andWhere(`${amt} = 0`);
@@ -274,6 +287,7 @@ export class CollectionService {
                 orderId: order.id,
                 orderNumber: order.orderNumber,
                 deliveredAt: order.deliveredAt, // تاریخ التوصيل
+                fulfillmentStatus: order.fulfillmentStatus ?? null, // split orders are collected per delivered parcel
                 shippingCompany: order.shippingCompany || 'N/A',
                 shippingCost: order.shippingCost,
                 finalTotal: order.finalTotal,
@@ -322,7 +336,7 @@ export class CollectionService {
         if (statusFilter) {
             const amt = "COALESCE(order.collectedAmount, 0)";
             const collectible = "(order.finalTotal)";
-            const deliveredCondition = `st.code = '${OrderStatus.DELIVERED}'`;
+            const deliveredCondition = `(st.code = '${OrderStatus.DELIVERED}' OR order.fulfillmentStatus = '${OrderFulfillmentStatus.PARTIALLY_DELIVERED}')`;
             if (statusFilter === 'not_collected') qb.andWhere(`${amt} = 0`).andWhere(deliveredCondition);
             else if (statusFilter === 'partial') qb.andWhere(`${amt} > 0 AND ${amt} < ${collectible}`).andWhere(deliveredCondition);
             else if (statusFilter === 'fully_collected') qb.andWhere(`${amt} >= ${collectible}`);
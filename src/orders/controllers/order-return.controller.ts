@@ -1,8 +1,8 @@
-import { Body, Controller, Post, Req, UseGuards } from "@nestjs/common";
+import { Body, Controller, Get, Param, Post, Query, Req, UseGuards } from "@nestjs/common";
 import { PermissionsGuard } from "common/permissions.guard";
 import { JwtAuthGuard } from "src/auth/jwt-auth.guard";
 import { OrderReturnService } from "../services/order-return.service";
-import { CreateReturnDto } from "dto/order.dto";
+import { ApproveReturnRequestDto, CreateReturnDto, RejectReturnRequestDto } from "dto/order.dto";
 import { Permissions } from "common/permissions.decorator";
 import { RequireSubscription } from "common/require-subscription.decorator";
 import { SubscriptionGuard } from "common/subscription.guard";
@@ -18,4 +18,23 @@ export class OrderReturnsController {
     async create(@Body() createReturnDto: CreateReturnDto, @Req() req) {
         return this.svc.createReturnRequest(createReturnDto, req.user);
     }
+
+    // ✅ Requests customers submitted from the tracking page
+    @Get('customer-requests')
+    @Permissions("return-request.create")
+    async listCustomerRequests(@Req() req, @Query() q: any) {
+        return this.svc.listCustomerRequests(req.user, q);
+    }
+
+    @Post('customer-requests/:id/approve')
+    @Permissions("return-request.create")
+    async approve(@Param('id') id: string, @Body() dto: ApproveReturnRequestDto, @Req() req) {
+        return this.svc.approveReturnRequest(req.user, id, dto, req.ip);
+    }
+
+    @Post('customer-requests/:id/reject')
+    @Permissions("return-request.create")
+    async reject(@Param('id') id: string, @Body() dto: RejectReturnRequestDto, @Req() req) {
+        return this.svc.rejectReturnRequest(req.user, id, dto);
+    }
 }
\ No newline at end of file
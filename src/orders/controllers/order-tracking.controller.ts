@@ -0,0 +1,77 @@
+import { BadRequestException, Body, CallHandler, Controller, ExecutionContext, Get, Injectable, NestInterceptor, Param, Post, UploadedFiles, UseGuards, UseInterceptors } from "@nestjs/common";
+import { FileFieldsInterceptor } from "@nestjs/platform-express";
+import { minutes, Throttle } from "@nestjs/throttler";
+import { diskStorage } from "multer";
+import { extname } from "path";
+import { catchError, from, mergeMap, Observable, throwError } from "rxjs";
+import { CustomerReturnRequestDto } from "dto/order.dto";
+import { OrderTrackingService } from "../services/order-tracking.service";
+import { OrderReturnService } from "../services/order-return.service";
+import { TrackingTokenGuard } from "../tracking-token.guard";
+import { deletePhysicalFiles } from "common/healpers";
+
+const returnsStorage = diskStorage({
+  destination: "./uploads/returns",
+  filename: (req, file, cb) => {
+    const uniqueSuffix = Date.now() + "-" + Math.round(Math.random() * 1e9);
+    cb(null, `return-${uniqueSuffix}${extname(file.originalname)}`);
+  },
+});
+
+// a refused request keeps none of its photos, validation errors included
+@Injectable()
+class DeleteReturnUploadsOnError implements NestInterceptor {
+  intercept(ctx: ExecutionContext, next: CallHandler): Observable<any> {
+    const req = ctx.switchToHttp().getRequest();
+    return next.handle().pipe(
+      catchError((error) => {
+        const images = (req.files?.images ?? []).map((f: Express.Multer.File) => `/uploads/returns/${f.filename}`);
+        return from(deletePhysicalFiles(images)).pipe(mergeMap(() => throwError(() => error)));
+      }),
+    );
+  }
+}
+
+// Public: the signed token is the only credential, language follows ?lang= / Accept-Language
+@Throttle({ default: { limit: 5, ttl: minutes(1) } })
+@Controller("tracking")
+export class OrderTrackingController {
+  constructor(
+    private svc: OrderTrackingService,
+    private returns: OrderReturnService,
+  ) { }
+
+  @Get(":token")
+  track(@Param("token") token: string) {
+    return this.svc.getPublicTracking(token);
+  }
+
+  @Get(":token/returns")
+  returnOptions(@Param("token") token: string) {
+    return this.returns.getCustomerReturnOptions(token);
+  }
+
+  @UseGuards(TrackingTokenGuard)
+  @UseInterceptors(
+    FileFieldsInterceptor([{ name: "images", maxCount: 5 }], {
+      storage: returnsStorage,
+      limits: { fileSize: 5 * 1024 * 1024 },
+      fileFilter: (req, file, cb) => {
+        if (!file.mimetype.startsWith("image/")) {
+          return cb(new BadRequestException("Only image files are allowed"), false);
+        }
+        cb(null, true);
+      },
+    }),
+    DeleteReturnUploadsOnError,
+  )
+  @Post(":token/returns")
+  requestReturn(
+    @Param("token") token: string,
+    @UploadedFiles() files: { images?: Express.Multer.File[] },
+    @Body() dto: CustomerReturnRequestDto,
+  ) {
+    const images = (files?.images ?? []).map((f) => `/uploads/returns/${f.filename}`);
+    return this.returns.createCustomerReturnRequest(token, dto, images);
+  }
+}
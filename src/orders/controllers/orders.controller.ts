@@ -27,17 +27,46 @@ import { Permissions } from "common/permissions.decorator";
 import { RequireSubscription } from "common/require-subscription.decorator";
 import { SubscriptionGuard } from "common/subscription.guard";
 import { OrdersService } from "../services/orders.service";
+import { OrderRiskService } from "../services/order-risk.service";
+import { OrderStatusTransitionsService } from "../services/order-status-transitions.service";
+import { OrderMergeService } from "../services/order-merge.service";
+import { OrderTrackingService } from "../services/order-tracking.service";
+import { OrderReasonsService } from "../services/order-reasons.service";
+import { OrderViewsService } from "../services/order-views.service";
+import { OrderTagsService } from "../services/order-tags.service";
+import { OrderSlaService } from "../services/order-sla.service";
+import { OrderEditLockService } from "../services/order-edit-lock.service";
+import { OrderPickWavesService } from "../services/order-pick-waves.service";
+import { OrderBulkJobsService } from "../services/order-bulk-jobs.service";
+import { OrderStatusRevertService } from "../services/order-status-revert.service";
 import {
   CreateOrderDto,
   BulkUpdateShippingFieldsDto,
   UpdateOrderDto,
   ChangeOrderStatusDto,
+  LogCallAttemptDto,
   UpdatePaymentStatusDto,
   AddOrderMessageDto,
   MarkMessagesReadDto,
   CreateStatusDto,
   UpdateStatusDto,
   CreateManifestDto,
+  SaveStatusTransitionsDto,
+  MergeOrdersDto,
+  CreateOrderReasonDto,
+  UpdateOrderReasonDto,
+  RejectOrderDto,
+  CreateOrderViewDto,
+  UpdateOrderViewDto,
+  CreateOrderTagDto,
+  UpdateOrderTagDto,
+  SetOrderTagsDto,
+  BulkOrderTagsDto,
+  CreateOrderSlaRuleDto,
+  UpdateOrderSlaRuleDto,
+  CreatePickWaveDto,
+  ScanPickWaveDto,
+  CreateOrderBulkJobDto,
 } from "dto/order.dto";
 import { ScanLogType, ScanReason } from "entities/order.entity";
 import { tenantId } from "src/category/category.service";
@@ -47,7 +76,21 @@ import { tenantId } from "src/category/category.service";
 @Controller("orders")
 @RequireSubscription()
 export class OrdersController {
-  constructor(private svc: OrdersService) { }
+  constructor(
+    private svc: OrdersService,
+    private orderRiskService: OrderRiskService,
+    private statusTransitions: OrderStatusTransitionsService,
+    private orderMerge: OrderMergeService,
+    private orderTracking: OrderTrackingService,
+    private orderReasons: OrderReasonsService,
+    private orderViews: OrderViewsService,
+    private orderTags: OrderTagsService,
+    private orderSla: OrderSlaService,
+    private editLocks: OrderEditLockService,
+    private pickWaves: OrderPickWavesService,
+    private bulkJobs: OrderBulkJobsService,
+    private statusRevert: OrderStatusRevertService,
+  ) { }
 
   // ✅ Get order statistics
   @Get("stats")
@@ -78,6 +121,22 @@ export class OrdersController {
     return await this.svc.getOrderHistory(orderId, req.user);
   }
 
+  @Get(':id/field-changes')
+  @Permissions("orders.read")
+  async getFieldChanges(
+    @Param("id") orderId: string,
+    @Req() req: any
+  ) {
+    return await this.svc.getOrderFieldChanges(orderId, req.user);
+  }
+
+  // ✅ Undo a status change (only the latest one of the order)
+  @Post(':id/history/:historyId/revert')
+  @Permissions("orders.update")
+  revertStatusChange(@Req() req: any, @Param("id") id: string, @Param("historyId") historyId: string) {
+    return this.statusRevert.revert(req.user, id, historyId, req.ip);
+  }
+
   @Get("statuses")
   @Permissions("orders.read")
   statuses(@Req() req: any, @Query() q: any) {
@@ -90,6 +149,266 @@ export class OrdersController {
     return this.svc.getStatus(req.user, id);
   }
 
+  // ✅ Status transition graph of the tenant
+  @Get("status-transitions")
+  @Permissions("orders.read")
+  listStatusTransitions(@Req() req: any) {
+    return this.statusTransitions.list(req.user);
+  }
+
+  @Put("status-transitions")
+  @Permissions("orders.update")
+  saveStatusTransitions(@Req() req: any, @Body() dto: SaveStatusTransitionsDto) {
+    return this.statusTransitions.save(req.user, dto);
+  }
+
+  // ✅ Rejection / cancellation / failed delivery reason codes of the tenant
+  @Get("reasons")
+  @Permissions("orders.read")
+  listReasons(@Req() req: any, @Query() q: any) {
+    return this.orderReasons.list(req.user, q);
+  }
+
+  @Get("reasons/analytics")
+  @Permissions("orders.read")
+  reasonAnalytics(@Req() req: any, @Query() q: any) {
+    return this.orderReasons.analytics(req.user, q);
+  }
+
+  @Post("reasons")
+  @Permissions("orders.update")
+  createReason(@Req() req: any, @Body() dto: CreateOrderReasonDto) {
+    return this.orderReasons.create(req.user, dto);
+  }
+
+  @Patch("reasons/:reasonId")
+  @Permissions("orders.update")
+  updateReason(@Req() req: any, @Param("reasonId") id: string, @Body() dto: UpdateOrderReasonDto) {
+    return this.orderReasons.update(req.user, id, dto);
+  }
+
+  @Delete("reasons/:reasonId")
+  @Permissions("orders.update")
+  removeReason(@Req() req: any, @Param("reasonId") id: string) {
+    return this.orderReasons.remove(req.user, id);
+  }
+
+  // ✅ SLA rules (max time per status) and their compliance report
+  @Get("sla/rules")
+  @Permissions("orders.read")
+  listSlaRules(@Req() req: any) {
+    return this.orderSla.listRules(req.user);
+  }
+
+  @Get("sla/report")
+  @Permissions("orders.read")
+  slaReport(@Req() req: any, @Query() q: any) {
+    return this.orderSla.report(req.user, q);
+  }
+
+  @Post("sla/rules")
+  @Permissions("orders.update")
+  createSlaRule(@Req() req: any, @Body() dto: CreateOrderSlaRuleDto) {
+    return this.orderSla.createRule(req.user, dto);
+  }
+
+  @Patch("sla/rules/:ruleId")
+  @Permissions("orders.update")
+  updateSlaRule(@Req() req: any, @Param("ruleId") id: string, @Body() dto: UpdateOrderSlaRuleDto) {
+    return this.orderSla.updateRule(req.user, id, dto);
+  }
+
+  @Delete("sla/rules/:ruleId")
+  @Permissions("orders.update")
+  removeSlaRule(@Req() req: any, @Param("ruleId") id: string) {
+    return this.orderSla.removeRule(req.user, id);
+  }
+
+  // ✅ Open orders of the same customer inside the duplicate window
+  // ✅ Saved views (filter expressions, private or shared with the team)
+  @Get("views")
+  @Permissions("orders.read")
+  listViews(@Req() req: any) {
+    return this.orderViews.list(req.user);
+  }
+
+  @Get("views/pinned")
+  @Permissions("orders.read")
+  pinnedViews(@Req() req: any) {
+    return this.orderViews.pinnedCounts(req.user);
+  }
+
+  @Get("views/:viewId")
+  @Permissions("orders.read")
+  getView(@Req() req: any, @Param("viewId") viewId: string) {
+    return this.orderViews.get(req.user, viewId);
+  }
+
+  @Post("views")
+  @Permissions("orders.read")
+  createView(@Req() req: any, @Body() dto: CreateOrderViewDto) {
+    return this.orderViews.create(req.user, dto);
+  }
+
+  @Patch("views/:viewId")
+  @Permissions("orders.read")
+  updateView(@Req() req: any, @Param("viewId") viewId: string, @Body() dto: UpdateOrderViewDto) {
+    return this.orderViews.update(req.user, viewId, dto);
+  }
+
+  @Delete("views/:viewId")
+  @Permissions("orders.read")
+  removeView(@Req() req: any, @Param("viewId") viewId: string) {
+    return this.orderViews.remove(req.user, viewId);
+  }
+
+  @Post("views/:viewId/pin")
+  @Permissions("orders.read")
+  pinView(@Req() req: any, @Param("viewId") viewId: string) {
+    return this.orderViews.setPinned(req.user, viewId, true);
+  }
+
+  @Delete("views/:viewId/pin")
+  @Permissions("orders.read")
+  unpinView(@Req() req: any, @Param("viewId") viewId: string) {
+    return this.orderViews.setPinned(req.user, viewId, false);
+  }
+
+  // ✅ Tags
+  @Get("tags")
+  @Permissions("orders.read")
+  listTags(@Req() req: any, @Query() q: any) {
+    return this.orderTags.list(req.user, q);
+  }
+
+  @Post("tags")
+  @Permissions("orders.update")
+  createTag(@Req() req: any, @Body() dto: CreateOrderTagDto) {
+    return this.orderTags.create(req.user, dto);
+  }
+
+  @Patch("tags/bulk")
+  @Permissions("orders.update")
+  bulkTag(@Req() req: any, @Body() dto: BulkOrderTagsDto) {
+    return this.orderTags.bulkUpdate(req.user, dto);
+  }
+
+  @Patch("tags/:tagId")
+  @Permissions("orders.update")
+  updateTag(@Req() req: any, @Param("tagId") tagId: string, @Body() dto: UpdateOrderTagDto) {
+    return this.orderTags.update(req.user, tagId, dto);
+  }
+
+  @Delete("tags/:tagId")
+  @Permissions("orders.update")
+  removeTag(@Req() req: any, @Param("tagId") tagId: string) {
+    return this.orderTags.remove(req.user, tagId);
+  }
+
+  @Put(":id/tags")
+  @Permissions("orders.update")
+  setOrderTags(@Req() req: any, @Param("id") id: string, @Body() dto: SetOrderTagsDto) {
+    return this.orderTags.setOrderTags(req.user, id, dto);
+  }
+
+  @Get("duplicates")
+  @Permissions("orders.read")
+  duplicateCandidates(@Req() req: any, @Query() q: any) {
+    return this.orderMerge.duplicateCandidates(req.user, q);
+  }
+
+  // ✅ Merge duplicates into a surviving order
+  @Post("merge")
+  @Permissions("orders.update")
+  mergeOrders(@Req() req: any, @Body() dto: MergeOrdersDto) {
+    return this.orderMerge.merge(req.user, dto, req.ip);
+  }
+
+  // ✅ Statuses the current user may move this order to
+  @Get(":id/allowed-statuses")
+  @Permissions("orders.read", "orders.confirm-incoming")
+  allowedStatuses(@Param("id") id: string, @Req() req: any) {
+    return this.statusTransitions.allowedNext(req.user, id);
+  }
+
+
+  // ✅ Background bulk actions; progress is pushed on the "order:bulk-job-progress" socket event
+  @Post("bulk-jobs")
+  @Permissions("orders.update", "orders.assign")
+  submitBulkJob(@Req() req: any, @Body() dto: CreateOrderBulkJobDto) {
+    return this.bulkJobs.submit(req.user, dto);
+  }
+
+  @Get("bulk-jobs")
+  @Permissions("orders.read")
+  listBulkJobs(@Req() req: any, @Query() q: any) {
+    return this.bulkJobs.list(req.user, q);
+  }
+
+  @Get("bulk-jobs/:jobId")
+  @Permissions("orders.read")
+  getBulkJob(@Req() req: any, @Param("jobId") id: string) {
+    return this.bulkJobs.get(req.user, id);
+  }
+
+  @Get("bulk-jobs/:jobId/errors")
+  @Permissions("orders.read")
+  async downloadBulkJobErrors(@Req() req: any, @Param("jobId") id: string, @Res() res: Response) {
+    const buffer = await this.bulkJobs.getErrorReport(req.user, id);
+    res.setHeader("Content-Type", "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+    res.setHeader("Content-Disposition", `attachment; filename=orders_bulk_job_errors_${Date.now()}.xlsx`);
+    return res.send(buffer);
+  }
+
+  @Post("bulk-jobs/:jobId/cancel")
+  @Permissions("orders.update", "orders.assign")
+  cancelBulkJob(@Req() req: any, @Param("jobId") id: string) {
+    return this.bulkJobs.cancel(req.user, id);
+  }
+
+  // queues a revert job over the orders whose status the given job changed
+  @Post("bulk-jobs/:jobId/revert")
+  @Permissions("orders.update")
+  revertBulkJob(@Req() req: any, @Param("jobId") id: string) {
+    return this.bulkJobs.revert(req.user, id);
+  }
+
+  // ✅ Wave picking: aggregated pick list across orders, then sorted back to orders at packing
+  @Get("pick-waves")
+  @Permissions("orders.read")
+  listPickWaves(@Req() req: any, @Query() q: any) {
+    return this.pickWaves.list(req.user, q);
+  }
+
+  @Get("pick-waves/:waveId")
+  @Permissions("orders.read")
+  getPickWave(@Req() req: any, @Param("waveId") id: string) {
+    return this.pickWaves.get(req.user, id);
+  }
+
+  @Post("pick-waves")
+  @Permissions("orders.update")
+  createPickWave(@Req() req: any, @Body() dto: CreatePickWaveDto) {
+    return this.pickWaves.create(req.user, dto);
+  }
+
+  @Post("pick-waves/:waveId/pick/:sku")
+  @Permissions("warehouses.scan-preparation")
+  pickWaveScan(@Req() req: any, @Param("waveId") id: string, @Param("sku") sku: string, @Body() dto: ScanPickWaveDto) {
+    return this.pickWaves.pick(req.user, id, sku, dto);
+  }
+
+  @Post("pick-waves/:waveId/sort/:sku")
+  @Permissions("warehouses.scan-preparation")
+  sortPickWaveScan(@Req() req: any, @Param("waveId") id: string, @Param("sku") sku: string) {
+    return this.pickWaves.sort(req.user, id, sku);
+  }
+
+  @Post("pick-waves/:waveId/cancel")
+  @Permissions("orders.update")
+  cancelPickWave(@Req() req: any, @Param("waveId") id: string) {
+    return this.pickWaves.cancel(req.user, id);
+  }
 
   @Post(':id/scan-preparation/:sku')
   @Permissions("warehouses.scan-preparation")
@@ -267,6 +586,30 @@ export class OrdersController {
     return this.svc.changeConfirmationStatus(req.user, id, dto, ipAddress);
   }
 
+  @Permissions("orders.update")
+  @Post(':id/call-attempts')
+  logCallAttempt(
+    @Req() req: any,
+    @Param("id") id: string,
+    @Body() dto: LogCallAttemptDto,
+    @Ip() ipAddress: string
+  ) {
+    return this.svc.logCallAttempt(req.user, id, dto, ipAddress);
+  }
+
+  @Permissions("orders.read")
+  @Get(':id/call-attempts')
+  listCallAttempts(@Req() req: any, @Param("id") id: string) {
+    return this.svc.listCallAttempts(req.user, id);
+  }
+
+  // ✅ Signed public tracking link to share with the customer
+  @Permissions("orders.read")
+  @Get(':id/tracking-link')
+  trackingLink(@Req() req: any, @Param("id") id: string) {
+    return this.orderTracking.getTrackingLink(req.user, id);
+  }
+
   // ✅ List orders with filters
   @Permissions("orders.read")
   @Get()
@@ -344,8 +687,8 @@ export class OrdersController {
 
   @Permissions("orders.confirm-incoming")
   @Get('confirmation-counts')
-  async getCounts(@Req() req: any) {
-    return this.svc.getConfirmationStatusCounts(req.user);
+  async getCounts(@Req() req: any, @Query() q: any) {
+    return this.svc.getConfirmationStatusCounts(req.user, q);
   }
 
   // ✅ Get single order
@@ -380,6 +723,37 @@ export class OrdersController {
     return this.svc.bulkUpdateShippingFields(req.user, dto, req.ip);
   }
 
+  // ✅ Soft edit lock (who has the order open), kept alive by the editor's heartbeat
+  @Permissions("orders.read")
+  @Get(":id/edit-lock")
+  getEditLock(@Req() req: any, @Param("id") id: string) {
+    return this.editLocks.get(req.user, id);
+  }
+
+  @Permissions("orders.update")
+  @Post(":id/edit-lock")
+  acquireEditLock(@Req() req: any, @Param("id") id: string) {
+    return this.editLocks.acquire(req.user, id);
+  }
+
+  @Permissions("orders.update")
+  @Post(":id/edit-lock/heartbeat")
+  editLockHeartbeat(@Req() req: any, @Param("id") id: string) {
+    return this.editLocks.heartbeat(req.user, id);
+  }
+
+  @Permissions("orders.update")
+  @Delete(":id/edit-lock")
+  releaseEditLock(@Req() req: any, @Param("id") id: string) {
+    return this.editLocks.release(req.user, id);
+  }
+
+  @Permissions("orders.update")
+  @Delete(":id/edit-lock/force")
+  forceReleaseEditLock(@Req() req: any, @Param("id") id: string) {
+    return this.editLocks.forceRelease(req.user, id);
+  }
+
   // ✅ Update order
   @Permissions("orders.update")
   @Patch(":id")
@@ -397,7 +771,7 @@ export class OrdersController {
 
   @Permissions("orders.update")
   @Patch(":id/reject")
-  rejectOrder(@Req() req: any, @Param("id") id: string, @Body() dto: { notes?: string }) {
+  rejectOrder(@Req() req: any, @Param("id") id: string, @Body() dto: RejectOrderDto) {
     return this.svc.rejectOrder(req.user, id, dto, req.ip);
   }
 
@@ -407,6 +781,13 @@ export class OrdersController {
     return this.svc.reConfirmOrder(req.user, id);
   }
 
+  // ✅ Re-run fraud detection scoring for an order
+  @Permissions("orders.update")
+  @Post(":id/risk/recalculate")
+  recalculateRisk(@Req() req: any, @Param("id") id: string) {
+    return this.orderRiskService.recalculate(req.user, id);
+  }
+
   // ✅ Update payment status
   @Permissions("orders.update")
   @Patch(":id/payment-status")
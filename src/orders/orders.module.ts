@@ -35,10 +35,37 @@ import { OrderReturnService } from "./services/order-return.service";
 import { OrderReturnsController } from "./controllers/order-return.controller";
 import { WalletModule } from "src/wallet/wallet.module";
 import { OrderAssignmentModule } from "src/order-assignment/order-assignment.module";
-import { BulkUploadUsage } from "entities/plans.entity";
+import { BulkUploadUsage, UserFeature } from "entities/plans.entity";
 import { AutomationModule } from "src/automation/automation.module";
 import { ClientSettingsEntity } from "entities/clientSettings.entity";
 import { OrderReplacemetsController } from "./controllers/order-replacements.controller";
+import { OrderRiskService } from "./services/order-risk.service";
+import { OrderStatusTransitionsService } from "./services/order-status-transitions.service";
+import { OrderMergeService } from "./services/order-merge.service";
+import { OrderTrackingService } from "./services/order-tracking.service";
+import { OrderReasonsService } from "./services/order-reasons.service";
+import { OrderReasonEntity } from "entities/order-reason.entity";
+import { OrderViewsService } from "./services/order-views.service";
+import { OrderViewEntity } from "entities/order-view.entity";
+import { OrderTagsService } from "./services/order-tags.service";
+import { OrderTagEntity } from "entities/order-tag.entity";
+import { OrderSlaService } from "./services/order-sla.service";
+import { OrderEditLockService } from "./services/order-edit-lock.service";
+import { OrderPickWavesService } from "./services/order-pick-waves.service";
+import { PickWaveEntity, PickWaveLineEntity, PickWaveOrderEntity } from "entities/pick-wave.entity";
+import { OrderBulkJobsService } from "./services/order-bulk-jobs.service";
+import { OrderStatusRevertService } from "./services/order-status-revert.service";
+import { OrderBulkJobEntity } from "entities/order-bulk-job.entity";
+import { OrderSlaRuleEntity, OrderSlaTimerEntity } from "entities/order-sla.entity";
+import { OrderAssignmentEntity } from "entities/assignment.entity";
+import { OrderTrackingController } from "./controllers/order-tracking.controller";
+import { OrderStatusTransitionEntity } from "entities/order-status-transition.entity";
+import { AccountingModule } from "src/accounting/accounting.module";
+import { WarehousesModule } from "src/warehouse/warehouse.module";
+import { StockMovementsModule } from "src/stock-movements/stock-movements.module";
+import { LotsModule } from "src/lots/lots.module";
+import { BarcodesModule } from "src/barcodes/barcodes.module";
+import { WhatsappModule } from "src/whatsapp/whatsapp.module";
 
 @Module({
   imports: [
@@ -48,6 +75,12 @@ import { OrderReplacemetsController } from "./controllers/order-replacements.con
     forwardRef(() => WalletModule),
     forwardRef(() => AuthModule),
     forwardRef(() => OrderAssignmentModule),
+    forwardRef(() => WhatsappModule),
+    AccountingModule,
+    WarehousesModule,
+    StockMovementsModule,
+    LotsModule,
+    BarcodesModule,
     TypeOrmModule.forFeature([
       OrderEntity,
       OrderItemEntity,
@@ -69,6 +102,18 @@ import { OrderReplacemetsController } from "./controllers/order-replacements.con
       ShipmentManifestEntity,
       OrderActionLogEntity,
       ReturnRequestEntity,
+      UserFeature,
+      OrderStatusTransitionEntity,
+      OrderReasonEntity,
+      OrderViewEntity,
+      OrderTagEntity,
+      OrderSlaRuleEntity,
+      OrderSlaTimerEntity,
+      OrderAssignmentEntity,
+      PickWaveEntity,
+      PickWaveOrderEntity,
+      PickWaveLineEntity,
+      OrderBulkJobEntity,
     ]),
   ],
   providers: [
@@ -77,12 +122,25 @@ import { OrderReplacemetsController } from "./controllers/order-replacements.con
     ShippingSeedService,
     OrderReplacementService,
     OrderReturnService,
+    OrderRiskService,
+    OrderStatusTransitionsService,
+    OrderMergeService,
+    OrderTrackingService,
+    OrderReasonsService,
+    OrderViewsService,
+    OrderTagsService,
+    OrderSlaService,
+    OrderEditLockService,
+    OrderPickWavesService,
+    OrderBulkJobsService,
+    OrderStatusRevertService,
   ],
   controllers: [
     OrdersController,
     OrderReplacemetsController,
     OrderReturnsController,
+    OrderTrackingController,
   ],
-  exports: [OrdersService],
+  exports: [OrdersService, OrderReasonsService, OrderTagsService, OrderBulkJobsService],
 })
 export class OrdersModule { }
@@ -0,0 +1,482 @@
+import { BadRequestException, ForbiddenException, forwardRef, HttpException, Inject, Injectable, Logger } from "@nestjs/common";
+import { InjectRepository } from "@nestjs/typeorm";
+import { In, LessThan, Repository } from "typeorm";
+import { Cron, CronExpression } from "@nestjs/schedule";
+import * as ExcelJS from "exceljs";
+import { AppGateway } from "common/app.gateway";
+import { getErrorMessage } from "common/healpers";
+import { I18nKey, RequestTranslationService, TranslationService } from "common/translation.service";
+import { OrderEntity } from "entities/order.entity";
+import { SystemRole, User } from "entities/user.entity";
+import {
+  OrderBulkAction,
+  OrderBulkJobEntity,
+  OrderBulkJobFailure,
+  OrderBulkJobStatus,
+} from "entities/order-bulk-job.entity";
+import { ChangeOrderStatusDto, CreateOrderBulkJobDto } from "dto/order.dto";
+import { tenantId } from "src/category/category.service";
+import { OrderSyncQueueService } from "src/queue/queues/order-sync.queue";
+import { OrderAssignmentService } from "src/order-assignment/order-assignment.service";
+import { compileOrderFilter } from "../utils/order-filter";
+import { OrdersService } from "./orders.service";
+import { OrderViewsService } from "./order-views.service";
+import { OrderStatusRevertService } from "./order-status-revert.service";
+
+const MAX_ORDERS = 10000;
+
+// orders run between two progress reports (and cancel checks)
+const PROGRESS_EVERY_ORDERS = 25;
+
+// a running job reports after every chunk; one silent for this long lost its worker
+const STALLED_AFTER_MS = 15 * 60 * 1000;
+
+const ACTION_PERMISSIONS: Record<OrderBulkAction, string> = {
+  [OrderBulkAction.UPDATE_SHIPPING_INFO]: "orders.update",
+  [OrderBulkAction.PRINT]: "orders.update",
+  [OrderBulkAction.CHANGE_STATUS]: "orders.update",
+  [OrderBulkAction.ASSIGN]: "orders.assign",
+  [OrderBulkAction.REVERT]: "orders.update",
+};
+
+// jobs whose status changes can be undone
+const REVERTIBLE_ACTIONS = [OrderBulkAction.CHANGE_STATUS, OrderBulkAction.PRINT];
+
+type BulkItemResult = { orderId: string; orderNumber?: string; success: boolean; message?: string };
+
+/**
+ * Bulk order actions run in the background: the selection is resolved to ids on submit, then the worker applies
+ * the same single-order operation the synchronous endpoints use, one order at a time, so one bad order only
+ * fails itself.
+ */
+@Injectable()
+export class OrderBulkJobsService {
+  private readonly logger = new Logger(OrderBulkJobsService.name);
+
+  constructor(
+    @InjectRepository(OrderBulkJobEntity)
+    private readonly jobRepo: Repository<OrderBulkJobEntity>,
+    @InjectRepository(OrderEntity)
+    private readonly orderRepo: Repository<OrderEntity>,
+    @InjectRepository(User)
+    private readonly userRepo: Repository<User>,
+    private readonly orderSyncQueueService: OrderSyncQueueService,
+    private readonly ordersService: OrdersService,
+    private readonly orderViews: OrderViewsService,
+    private readonly statusRevert: OrderStatusRevertService,
+    @Inject(forwardRef(() => OrderAssignmentService))
+    private readonly orderAssignmentService: OrderAssignmentService,
+    private readonly appGateway: AppGateway,
+    private readonly translations: TranslationService,
+    private readonly requestTranslations: RequestTranslationService,
+  ) { }
+
+  async submit(me: any, dto: CreateOrderBulkJobDto) {
+    const adminId = tenantId(me);
+    if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+
+    this.assertPermission(me, dto.action);
+    const params = await this.buildParams(adminId, dto);
+    const orderIds = await this.resolveOrderIds(me, adminId, dto);
+
+    return this.enqueue(me, adminId, dto.action, params, orderIds);
+  }
+
+  /** Queues a job that undoes, order by order, the status changes a finished job made. */
+  async revert(me: any, id: string) {
+    const adminId = tenantId(me);
+    if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+
+    this.assertPermission(me, OrderBulkAction.REVERT);
+    const source = await this.get(me, id);
+
+    if (!REVERTIBLE_ACTIONS.includes(source.action)) {
+      throw new BadRequestException(
+        this.translations.t("domains.orders.revert.action_not_revertible", {
+          args: { action: this.translations.t(`domains.orders.bulk_jobs.actions.${source.action}` as I18nKey) },
+        }),
+      );
+    }
+    if ([OrderBulkJobStatus.QUEUED, OrderBulkJobStatus.PROCESSING].includes(source.status)) {
+      throw new BadRequestException(
+        this.translations.t("domains.orders.bulk_jobs.invalid_status", {
+          args: { status: this.translations.t(`domains.orders.bulk_jobs.statuses.${source.status}` as I18nKey) },
+        }),
+      );
+    }
+
+    const orderIds = await this.statusRevert.revertableJobOrderIds(adminId, source.id);
+    if (!orderIds.length) throw new BadRequestException(this.translations.t("domains.orders.revert.nothing_to_revert"));
+
+    return this.enqueue(me, adminId, OrderBulkAction.REVERT, { sourceJobId: source.id }, orderIds);
+  }
+
+  async list(me: any, q?: any) {
+    const adminId = tenantId(me);
+    if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+
+    const page = Number(q?.page ?? 1);
+    const limit = Number(q?.limit ?? 10);
+    const status = q?.status && q.status !== "all" ? String(q.status) : null;
+    const action = q?.action && q.action !== "all" ? String(q.action) : null;
+
+    const qb = this.jobRepo
+      .createQueryBuilder("j")
+      .where("j.adminId = :adminId", { adminId });
+
+    if (status) qb.andWhere("j.status = :status", { status });
+    if (action) qb.andWhere("j.action = :action", { action });
+
+    const [records, total] = await qb
+      .orderBy("j.created_at", "DESC")
+      .skip((page - 1) * limit)
+      .take(limit)
+      .getManyAndCount();
+
+    return {
+      total_records: total,
+      current_page: page,
+      per_page: limit,
+      records,
+    };
+  }
+
+  async get(me: any, id: string) {
+    const adminId = tenantId(me);
+    if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+
+    const job = await this.jobRepo.findOne({ where: { id, adminId } });
+    if (!job) throw new BadRequestException(this.translations.t("domains.orders.bulk_jobs.not_found"));
+    return job;
+  }
+
+  // a queued job is dropped right away; a running one stops at its next progress report
+  async cancel(me: any, id: string) {
+    const job = await this.get(me, id);
+
+    if (![OrderBulkJobStatus.QUEUED, OrderBulkJobStatus.PROCESSING].includes(job.status)) {
+      throw new BadRequestException(
+        this.translations.t("domains.orders.bulk_jobs.invalid_status", {
+          args: { status: this.translations.t(`domains.orders.bulk_jobs.statuses.${job.status}` as I18nKey) },
+        }),
+      );
+    }
+
+    await this.jobRepo.update({ id: job.id }, { cancelRequested: true });
+    await this.jobRepo.update({ id: job.id, status: OrderBulkJobStatus.QUEUED }, {
+      status: OrderBulkJobStatus.CANCELLED,
+      finishedAt: new Date(),
+    });
+
+    return this.get(me, id);
+  }
+
+  /** Failed orders with the reason of each, as a spreadsheet. */
+  async getErrorReport(me: any, id: string) {
+    const adminId = tenantId(me);
+    if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+
+    const job = await this.jobRepo
+      .createQueryBuilder("j")
+      .addSelect("j.failures")
+      .where("j.id = :id AND j.adminId = :adminId", { id, adminId })
+      .getOne();
+    if (!job) throw new BadRequestException(this.translations.t("domains.orders.bulk_jobs.not_found"));
+    if (!job.failures?.length) throw new BadRequestException(this.translations.t("domains.orders.bulk_jobs.no_error_report"));
+
+    const workbook = new ExcelJS.Workbook();
+    workbook.creator = "Madar";
+    workbook.created = new Date();
+
+    const sheet = workbook.addWorksheet(this.translations.t("domains.orders.bulk_jobs.report_sheet"), {
+      views: [{ state: "frozen", ySplit: 1 }],
+    });
+    sheet.columns = [
+      { header: this.translations.t("domains.orders.bulk_jobs.report_order_number"), key: "orderNumber", width: 20 },
+      { header: this.translations.t("domains.orders.bulk_jobs.report_order_id"), key: "orderId", width: 40 },
+      { header: this.translations.t("domains.orders.bulk_jobs.report_error"), key: "message", width: 80 },
+    ];
+
+    const headerRow = sheet.getRow(1);
+    headerRow.font = { bold: true };
+    headerRow.alignment = { vertical: "middle", horizontal: "center" };
+
+    for (const failure of job.failures) {
+      sheet.addRow({ orderNumber: failure.orderNumber ?? "", orderId: failure.orderId, message: failure.message });
+    }
+
+    const buffer = await workbook.xlsx.writeBuffer();
+    return Buffer.from(buffer);
+  }
+
+  // =========================
+  // Worker
+  // =========================
+
+  async processJob(jobId: string) {
+    const job = await this.jobRepo
+      .createQueryBuilder("j")
+      .addSelect("j.orderIds")
+      .where("j.id = :jobId", { jobId })
+      .getOne();
+
+    if (!job) return;
+
+    // claimed only from QUEUED: a job cancelled meanwhile, or delivered twice, is not run again
+    const startedAt = new Date();
+    const claim = await this.jobRepo.update({ id: job.id, status: OrderBulkJobStatus.QUEUED }, {
+      status: OrderBulkJobStatus.PROCESSING,
+      startedAt,
+    });
+    if (!claim.affected) return;
+
+    const adminId = job.adminId;
+    const notifyUserId = job.userId ?? adminId;
+    const failures: OrderBulkJobFailure[] = [];
+    let pending: BulkItemResult[] = [];
+    let cancelled = false;
+
+    job.status = OrderBulkJobStatus.PROCESSING;
+    job.startedAt = startedAt;
+
+    // persists the counters, streams the item results since the last report and picks up a cancel request
+    const report = async () => {
+      await this.jobRepo.update({ id: job.id }, {
+        processedCount: job.processedCount,
+        succeededCount: job.succeededCount,
+        failedCount: job.failedCount,
+        failures,
+      });
+      this.appGateway.emitOrderBulkJobProgress(notifyUserId, {
+        jobId: job.id,
+        action: job.action,
+        status: job.status,
+        totalCount: job.totalCount,
+        processedCount: job.processedCount,
+        succeededCount: job.succeededCount,
+        failedCount: job.failedCount,
+        items: pending,
+      });
+      pending = [];
+
+      // a job marked stalled in the meantime stops as well
+      const fresh = await this.jobRepo.findOne({ where: { id: job.id }, select: ["id", "status", "cancelRequested"] });
+      return !!fresh?.cancelRequested || fresh?.status !== OrderBulkJobStatus.PROCESSING;
+    };
+
+    try {
+      const me = job.userId ? await this.userRepo.findOne({ where: { id: job.userId } }) : null;
+      if (!me) throw new Error(await this.requestTranslations.tAsync("domains.orders.bulk_jobs.user_not_found", adminId));
+
+      const ids = job.orderIds ?? [];
+      for (let i = 0; i < ids.length && !cancelled; i += PROGRESS_EVERY_ORDERS) {
+        const chunk = ids.slice(i, i + PROGRESS_EVERY_ORDERS);
+        const orders = await this.orderRepo.find({ where: { id: In(chunk), adminId }, select: ["id", "orderNumber"] });
+        const numbers = new Map(orders.map((o) => [o.id, o.orderNumber]));
+
+        for (const orderId of chunk) {
+          const orderNumber = numbers.get(orderId);
+          try {
+            if (!numbers.has(orderId)) {
+              throw new Error(await this.requestTranslations.tAsync("domains.orders.order_not_found", adminId));
+            }
+            await this.runAction(job, me, orderId, orderNumber);
+            job.succeededCount++;
+            pending.push({ orderId, orderNumber, success: true });
+          } catch (e) {
+            const message = this.failureMessage(e);
+            job.failedCount++;
+            failures.push({ orderId, orderNumber: orderNumber ?? null, message });
+            pending.push({ orderId, orderNumber, success: false, message });
+          }
+          job.processedCount++;
+        }
+
+        cancelled = await report();
+      }
+
+      if (cancelled) job.status = OrderBulkJobStatus.CANCELLED;
+      else job.status = failures.length ? OrderBulkJobStatus.COMPLETED_WITH_ERRORS : OrderBulkJobStatus.COMPLETED;
+    } catch (e) {
+      this.logger.error(`Bulk order job ${job.id} failed`, e);
+      job.status = OrderBulkJobStatus.FAILED;
+      job.errorMessage = getErrorMessage(e);
+    }
+
+    const finished = await this.jobRepo.update({ id: job.id, status: OrderBulkJobStatus.PROCESSING }, {
+      status: job.status,
+      errorMessage: job.errorMessage ?? null,
+      finishedAt: new Date(),
+    });
+    if (!finished.affected) {
+      const current = await this.jobRepo.findOne({ where: { id: job.id }, select: ["id", "status"] });
+      job.status = current?.status ?? job.status;
+    }
+    await report();
+
+    return {
+      status: job.status,
+      succeededCount: job.succeededCount,
+      failedCount: job.failedCount,
+    };
+  }
+
+  // a worker that died leaves its job PROCESSING; failing it frees cancel and revert again
+  @Cron(CronExpression.EVERY_5_MINUTES)
+  async failStalledJobs() {
+    try {
+      const silentSince = LessThan(new Date(Date.now() - STALLED_AFTER_MS));
+      const stalled = await this.jobRepo.find({
+        where: { status: OrderBulkJobStatus.PROCESSING, updated_at: silentSince },
+        select: ["id", "adminId", "userId", "action", "totalCount", "processedCount", "succeededCount", "failedCount"],
+      });
+
+      for (const job of stalled) {
+        // rechecked in the write: a report that came in meanwhile keeps the job running
+        const result = await this.jobRepo.update({ id: job.id, status: OrderBulkJobStatus.PROCESSING, updated_at: silentSince }, {
+          status: OrderBulkJobStatus.FAILED,
+          errorMessage: await this.requestTranslations.tAsync("domains.orders.bulk_jobs.stalled", job.adminId),
+          finishedAt: new Date(),
+        });
+        if (!result.affected) continue;
+
+        this.appGateway.emitOrderBulkJobProgress(job.userId ?? job.adminId, {
+          jobId: job.id,
+          action: job.action,
+          status: OrderBulkJobStatus.FAILED,
+          totalCount: job.totalCount,
+          processedCount: job.processedCount,
+          succeededCount: job.succeededCount,
+          failedCount: job.failedCount,
+          items: [],
+        });
+      }
+    } catch (error) {
+      this.logger.error(`Stalled bulk job check failed: ${error?.message}`, error?.stack);
+    }
+  }
+
+  private async enqueue(me: any, adminId: string, action: OrderBulkAction, params: Record<string, any>, orderIds: string[]) {
+    const saved = await this.jobRepo.save(this.jobRepo.create({
+      adminId,
+      userId: me?.id ?? null,
+      action,
+      params,
+      orderIds,
+      status: OrderBulkJobStatus.QUEUED,
+      totalCount: orderIds.length,
+    }));
+
+    await this.orderSyncQueueService.enqueueBulkOrderAction(adminId, saved.id);
+
+    delete saved.orderIds;
+    return saved;
+  }
+
+  private async runAction(job: OrderBulkJobEntity, me: User, orderId: string, orderNumber: string) {
+    switch (job.action) {
+      case OrderBulkAction.CHANGE_STATUS:
+        return this.ordersService.changeStatus(me, orderId, job.params.status as ChangeOrderStatusDto, undefined, {
+          bulkJobId: job.id,
+        });
+
+      case OrderBulkAction.PRINT: {
+        const result = await this.ordersService.bulkPrint(me, [orderNumber], { bulkJobId: job.id });
+        if (!result.success) throw new BadRequestException("message" in result ? result.message : undefined);
+        return result;
+      }
+
+      case OrderBulkAction.UPDATE_SHIPPING_INFO: {
+        const { code, ...fields } = job.params.shipping ?? {};
+        return this.ordersService.bulkUpdateShippingFields(me, { code, items: [{ ...fields, id: orderId }] });
+      }
+
+      case OrderBulkAction.ASSIGN:
+        return this.orderAssignmentService.manualAssignMany(me, {
+          assignments: [{ userId: job.params.assigneeId, orderIds: [orderId] }],
+        });
+
+      case OrderBulkAction.REVERT:
+        return this.statusRevert.revertJobOrder(me, job.params.sourceJobId, orderId);
+    }
+  }
+
+  // the synchronous bulk update reports its per-order reason inside `errors`
+  private failureMessage(e: any) {
+    if (e instanceof HttpException) {
+      const reason = (e.getResponse() as any)?.errors?.[0]?.reason;
+      if (reason) return String(reason);
+    }
+    const message = getErrorMessage(e);
+    return Array.isArray(message) ? message.join(", ") : String(message);
+  }
+
+  private assertPermission(me: any, action: OrderBulkAction) {
+    const required = ACTION_PERMISSIONS[action];
+    const perms: string[] = me?.role?.permissionNames ?? [];
+    if (me?.role?.name === SystemRole.SUPER_ADMIN || perms.includes("*") || perms.includes(required)) return;
+
+    throw new ForbiddenException(this.translations.t("domains.orders.bulk_jobs.forbidden_action", { args: { permission: required } }));
+  }
+
+  // only the input of the chosen action is kept on the job
+  private async buildParams(adminId: string, dto: CreateOrderBulkJobDto): Promise<Record<string, any>> {
+    const missing = () =>
+      new BadRequestException(
+        this.translations.t("domains.orders.bulk_jobs.missing_params", {
+          args: { action: this.translations.t(`domains.orders.bulk_jobs.actions.${dto.action}` as I18nKey) },
+        }),
+      );
+
+    switch (dto.action) {
+      case OrderBulkAction.CHANGE_STATUS:
+        if (!dto.status?.statusId) throw missing();
+        return { status: dto.status };
+
+      case OrderBulkAction.UPDATE_SHIPPING_INFO:
+        if (!dto.shipping) throw missing();
+        return { shipping: dto.shipping };
+
+      case OrderBulkAction.ASSIGN: {
+        if (!dto.assigneeId) throw missing();
+        const exists = await this.userRepo.exist({ where: { id: dto.assigneeId, adminId } });
+        if (!exists) throw new BadRequestException(this.translations.t("domains.orders.bulk_jobs.assignee_not_found"));
+        return { assigneeId: dto.assigneeId };
+      }
+
+      // only created from the job it undoes
+      case OrderBulkAction.REVERT:
+        throw new BadRequestException(this.translations.t("domains.orders.revert.use_job_revert"));
+
+      default:
+        return {};
+    }
+  }
+
+  private async resolveOrderIds(me: any, adminId: string, dto: CreateOrderBulkJobDto) {
+    if (dto.orderIds?.length) {
+      const ids = Array.from(new Set(dto.orderIds));
+      const found = await this.orderRepo.count({ where: { id: In(ids), adminId } });
+      if (found !== ids.length) throw new BadRequestException(this.translations.t("domains.orders.bulk_jobs.orders_not_found"));
+      return ids;
+    }
+
+    const { filter } = await this.orderViews.resolve(me, adminId, { viewId: dto.viewId, filter: dto.filter });
+    if (!filter) throw new BadRequestException(this.translations.t("domains.orders.bulk_jobs.selection_required"));
+
+    const rows = await this.orderRepo
+      .createQueryBuilder("order")
+      .select("order.id", "id")
+      .where("order.adminId = :adminId", { adminId })
+      .andWhere(compileOrderFilter(filter, "order"))
+      .orderBy("order.created_at", "ASC")
+      .limit(MAX_ORDERS + 1)
+      .getRawMany();
+
+    if (!rows.length) throw new BadRequestException(this.translations.t("domains.orders.bulk_jobs.no_matching_orders"));
+    if (rows.length > MAX_ORDERS) {
+      throw new BadRequestException(this.translations.t("domains.orders.bulk_jobs.too_many_orders", { args: { max: MAX_ORDERS } }));
+    }
+    return rows.map((r) => r.id as string);
+  }
+}
@@ -0,0 +1,156 @@
+import { BadRequestException, ConflictException, ForbiddenException, Injectable, NotFoundException } from "@nestjs/common";
+import { InjectRepository } from "@nestjs/typeorm";
+import { Repository } from "typeorm";
+import { TranslationService } from "common/translation.service";
+import { RedisService } from "common/redis/RedisService";
+import { AppGateway } from "common/app.gateway";
+import { OrderEntity } from "entities/order.entity";
+import { SystemRole } from "entities/user.entity";
+import { tenantId } from "src/category/category.service";
+
+// the editor heartbeats well inside this window; a closed tab frees the order once it runs out
+const LOCK_TTL_SECONDS = 60;
+
+// compare-and-act on the holder in one step: 1 done, 0 no lock, -1 held by someone else
+const RELEASE_IF_HOLDER = `
+local value = redis.call("GET", KEYS[1])
+if not value then return 0 end
+if tostring(cjson.decode(value).userId) ~= ARGV[1] then return -1 end
+return redis.call("DEL", KEYS[1])
+`;
+
+const EXTEND_IF_HOLDER = `
+local value = redis.call("GET", KEYS[1])
+if not value then return 0 end
+if tostring(cjson.decode(value).userId) ~= ARGV[1] then return -1 end
+return redis.call("EXPIRE", KEYS[1], ARGV[2])
+`;
+
+export type OrderEditLock = {
+  orderId: string;
+  userId: string;
+  userName: string;
+  acquiredAt: string;
+  expiresIn?: number;
+};
+
+/**
+ * Soft edit lock of an order, held in Redis while an agent has it open.
+ * Advisory only: other users see who is editing, the version check on update is what rejects stale writes.
+ */
+@Injectable()
+export class OrderEditLockService {
+  constructor(
+    @InjectRepository(OrderEntity)
+    private readonly orderRepo: Repository<OrderEntity>,
+    private readonly redisService: RedisService,
+    private readonly appGateway: AppGateway,
+    private readonly translations: TranslationService,
+  ) { }
+
+  async get(me: any, orderId: string) {
+    await this.assertOrder(me, orderId);
+    return { lock: await this.read(orderId) };
+  }
+
+  // taken when free; an agent re-opening their own order just refreshes it
+  async acquire(me: any, orderId: string) {
+    const adminId = await this.assertOrder(me, orderId);
+
+    const lock: OrderEditLock = {
+      orderId,
+      userId: me.id,
+      userName: me.name ?? null,
+      acquiredAt: new Date().toISOString(),
+    };
+
+    if (await this.redisService.setNxWithTtl(this.key(orderId), JSON.stringify(lock), LOCK_TTL_SECONDS)) {
+      this.appGateway.emitOrderEditLock(adminId, { orderId, status: "locked", lock });
+      return { acquired: true, lock: { ...lock, expiresIn: LOCK_TTL_SECONDS } };
+    }
+
+    const current = await this.read(orderId);
+    if (current?.userId === me.id) return this.heartbeat(me, orderId);
+
+    return { acquired: false, lock: current };
+  }
+
+  async heartbeat(me: any, orderId: string) {
+    await this.assertOrder(me, orderId);
+
+    const extended = await this.holderScript(EXTEND_IF_HOLDER, orderId, me.id, LOCK_TTL_SECONDS);
+    if (extended === 0) return this.acquire(me, orderId);
+
+    const current = await this.read(orderId);
+    if (extended < 0) {
+      throw new ConflictException({
+        statusCode: 409,
+        error: "Conflict",
+        message: this.translations.t("domains.orders.edit_lock.held_by_other", { args: { name: current?.userName ?? "" } }),
+        lock: current,
+      });
+    }
+
+    return { acquired: true, lock: { ...current, expiresIn: LOCK_TTL_SECONDS } };
+  }
+
+  async release(me: any, orderId: string) {
+    const adminId = await this.assertOrder(me, orderId);
+
+    const current = await this.read(orderId);
+    if (!current) return { released: true };
+
+    const released = await this.holderScript(RELEASE_IF_HOLDER, orderId, me.id);
+    if (released < 0) {
+      throw new ForbiddenException(this.translations.t("domains.orders.edit_lock.not_holder"));
+    }
+    if (released === 0) return { released: true };
+
+    this.appGateway.emitOrderEditLock(adminId, { orderId, status: "released", lock: current });
+    return { released: true };
+  }
+
+  // admin override for a lock left behind (or an agent that walked away from the screen)
+  async forceRelease(me: any, orderId: string) {
+    const adminId = await this.assertOrder(me, orderId);
+    if (me.role?.name !== SystemRole.ADMIN) {
+      throw new ForbiddenException(this.translations.t("domains.orders.edit_lock.admin_only"));
+    }
+
+    const current = await this.read(orderId);
+    if (!current) return { released: true };
+
+    // only the lock the admin looked at: one taken over in between stays
+    const released = await this.holderScript(RELEASE_IF_HOLDER, orderId, current.userId);
+    if (released < 0) return { released: false, lock: await this.read(orderId) };
+    if (released === 0) return { released: true };
+
+    this.appGateway.emitOrderEditLock(adminId, { orderId, status: "released", lock: current, releasedBy: me.id });
+    return { released: true, lock: current };
+  }
+
+  private key(orderId: string) {
+    return `order_edit_lock:${orderId}`;
+  }
+
+  private async holderScript(script: string, orderId: string, userId: string, ...args: (string | number)[]) {
+    return Number(await this.redisService.redisClient.eval(script, 1, this.key(orderId), String(userId), ...args));
+  }
+
+  private async read(orderId: string): Promise<OrderEditLock | null> {
+    const value = await this.redisService.get<OrderEditLock>(this.key(orderId));
+    if (!value || typeof value !== "object") return null;
+
+    const expiresIn = await this.redisService.ttl(this.key(orderId));
+    return { ...value, expiresIn: expiresIn > 0 ? expiresIn : undefined };
+  }
+
+  private async assertOrder(me: any, orderId: string) {
+    const adminId = tenantId(me);
+    if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+
+    const exists = await this.orderRepo.exist({ where: { id: orderId, adminId } });
+    if (!exists) throw new NotFoundException(this.translations.t("domains.orders.order_not_found"));
+    return adminId;
+  }
+}
@@ -0,0 +1,440 @@
+import { BadRequestException, Injectable, NotFoundException } from "@nestjs/common";
+import { InjectRepository } from "@nestjs/typeorm";
+import { Brackets, DataSource, EntityManager, In, Repository } from "typeorm";
+import { RequestTranslationService, TranslationService } from "common/translation.service";
+import {
+  OrderActionType,
+  OrderEntity,
+  OrderItemEntity,
+  OrderStatus,
+} from "entities/order.entity";
+import { OrderAssignmentEntity } from "entities/assignment.entity";
+import { ProductVariantEntity } from "entities/sku.entity";
+import { StockMovementReason, StockMovementReference } from "entities/stock-movement.entity";
+import { MergeItemsMode, MergeOrdersDto } from "dto/order.dto";
+import { ClientSettingsService } from "src/client-settings/client-settings.service";
+import { StockMovementInput, StockMovementsService } from "src/stock-movements/stock-movements.service";
+import { OrdersService, tenantId } from "./orders.service";
+import { OrderStatusTransitionsService } from "./order-status-transitions.service";
+
+// orders in these statuses are past the point where merging makes sense
+const CLOSED_STATUS_CODES: string[] = [
+  OrderStatus.DUPLICATE,
+  OrderStatus.REJECTED,
+  OrderStatus.CANCELLED,
+  OrderStatus.CANCELLED_FOLLOW_UP,
+  OrderStatus.FAILED_DELIVERY,
+  OrderStatus.DISTRIBUTED,
+  OrderStatus.PRINTED,
+  OrderStatus.PREPARING,
+  OrderStatus.READY,
+  OrderStatus.SHIPPED,
+  OrderStatus.DELIVERED,
+  OrderStatus.RETURN_PREPARING,
+  OrderStatus.RETURNED,
+  OrderStatus.PARTIALLY_RETURNED,
+];
+
+const lineKey = (variantId: string, bundleId?: string | null) => `${variantId}::${bundleId ?? "null"}`;
+
+@Injectable()
+export class OrderMergeService {
+  constructor(
+    private dataSource: DataSource,
+    @InjectRepository(OrderEntity)
+    private readonly orderRepo: Repository<OrderEntity>,
+    private readonly ordersService: OrdersService,
+    private readonly statusTransitions: OrderStatusTransitionsService,
+    private readonly stockMovementsService: StockMovementsService,
+    private readonly clientSettingsService: ClientSettingsService,
+    private readonly translations: TranslationService,
+    private readonly requestTranslations: RequestTranslationService,
+  ) { }
+
+  // ========================================
+  // ✅ DUPLICATE CANDIDATES
+  // ========================================
+  /**
+   * Open orders of the same customer (normalized phone) placed within the duplicate window of each other.
+   * Orders whose stock was already deducted are left out, they can no longer be merged.
+   */
+  async duplicateCandidates(me: any, q?: any) {
+    const adminId = tenantId(me);
+    if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+
+    const page = Math.max(1, Number(q?.page ?? 1));
+    const limit = Math.min(100, Math.max(1, Number(q?.limit ?? 10)));
+    const search = String(q?.search ?? "").trim();
+
+    const settings = await this.clientSettingsService.getCachedSettings(adminId);
+    const windowHours = Math.max(1, Number(q?.windowHours) || settings?.duplicateWindowHours || 24);
+
+    const qb = this.orderRepo
+      .createQueryBuilder("order")
+      .innerJoin("order.status", "status")
+      .leftJoin("order.items", "items")
+      .leftJoin("items.variant", "variant")
+      .select([
+        "order.id",
+        "order.orderNumber",
+        "order.customerName",
+        "order.phoneNumber",
+        "order.normalizedPhoneNumber",
+        "order.itemsSignature",
+        "order.duplicateCount",
+        "order.finalTotal",
+        "order.created_at",
+        "status.id",
+        "status.code",
+        "status.name",
+        "status.color",
+        "items.id",
+        "items.variantId",
+        "items.bundleId",
+        "items.quantity",
+        "items.unitPrice",
+        "variant.id",
+        "variant.sku",
+      ])
+      .where("order.adminId = :adminId", { adminId })
+      .andWhere("order.mergedIntoOrderId IS NULL")
+      .andWhere("status.code NOT IN (:...closed)", { closed: CLOSED_STATUS_CODES })
+      .andWhere(`NOT EXISTS (SELECT 1 FROM "order_items" oi WHERE oi."orderId" = "order"."id" AND oi."stockDeducted" = true)`)
+      .andWhere(
+        `EXISTS (
+          SELECT 1 FROM "orders" other
+          INNER JOIN "order_statuses" other_status ON other_status."id" = other."statusId"
+          WHERE other."adminId" = "order"."adminId"
+            AND other."normalizedPhoneNumber" = "order"."normalizedPhoneNumber"
+            AND other."id" <> "order"."id"
+            AND other."mergedIntoOrderId" IS NULL
+            AND other."deleted_at" IS NULL
+            AND other_status."code" NOT IN (:...closed)
+            AND ABS(EXTRACT(EPOCH FROM (other."created_at" - "order"."created_at"))) <= :windowSeconds
+        )`,
+        { windowSeconds: windowHours * 60 * 60 },
+      )
+      .orderBy("order.normalizedPhoneNumber", "ASC")
+      .addOrderBy("order.created_at", "ASC");
+
+    if (search) {
+      qb.andWhere(
+        new Brackets((sq) => {
+          sq.where("order.normalizedPhoneNumber ILIKE :s", { s: `%${search}%` })
+            .orWhere("order.customerName ILIKE :s", { s: `%${search}%` })
+            .orWhere("order.orderNumber ILIKE :s", { s: `%${search}%` });
+        }),
+      );
+    }
+
+    const orders = await qb.getMany();
+
+    // split each customer's orders wherever the gap to the previous one exceeds the window
+    const windowMs = windowHours * 60 * 60 * 1000;
+    const groups: OrderEntity[][] = [];
+    for (const order of orders) {
+      const current = groups[groups.length - 1];
+      const previous = current?.[current.length - 1];
+      if (
+        previous &&
+        previous.normalizedPhoneNumber === order.normalizedPhoneNumber &&
+        new Date(order.created_at).getTime() - new Date(previous.created_at).getTime() <= windowMs
+      ) {
+        current.push(order);
+      } else {
+        groups.push([order]);
+      }
+    }
+
+    const records = groups
+      .filter((group) => group.length > 1)
+      .map((group) => ({
+        normalizedPhoneNumber: group[0].normalizedPhoneNumber,
+        customerName: group[0].customerName,
+        suggestedSurvivorId: group[0].id,
+        identicalItems: group.every((o) => o.itemsSignature === group[0].itemsSignature),
+        orders: group,
+      }));
+
+    return {
+      total_records: records.length,
+      current_page: page,
+      per_page: limit,
+      windowHours,
+      records: records.slice((page - 1) * limit, page * limit),
+    };
+  }
+
+  // ========================================
+  // ✅ MERGE DUPLICATES INTO ONE ORDER
+  // ========================================
+  /**
+   * Moves the lines of `orderIds` into the survivor, re-reserves stock for the net change,
+   * hands over an active assignment when the survivor has none, and marks the merged orders DUPLICATE.
+   */
+  async merge(me: any, dto: MergeOrdersDto, ipAddress?: string) {
+    const adminId = tenantId(me);
+    if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+
+    const mergedIds = [...new Set(dto.orderIds)];
+    if (mergedIds.includes(dto.survivorId)) {
+      throw new BadRequestException(this.translations.t("domains.orders.merge.survivor_in_list"));
+    }
+
+    return this.dataSource.transaction(async (manager) => {
+      // lock the orders in id order first: a concurrent merge, status change or deduction waits for this one,
+      // and the checks below run on what it committed
+      await manager
+        .getRepository(OrderEntity)
+        .createQueryBuilder("order")
+        .setLock("pessimistic_write")
+        .where("order.adminId = :adminId AND order.id IN (:...ids)", { adminId, ids: [dto.survivorId, ...mergedIds] })
+        .orderBy("order.id", "ASC")
+        .getMany();
+
+      const orders = await manager.find(OrderEntity, {
+        where: { adminId, id: In([dto.survivorId, ...mergedIds]) },
+        relations: ["items", "items.variant", "status", "assignments"],
+      });
+
+      const survivor = orders.find((o) => o.id === dto.survivorId);
+      if (!survivor) throw new NotFoundException(this.translations.t("domains.orders.order_not_found"));
+
+      const merged = mergedIds.map((id) => orders.find((o) => o.id === id));
+      if (merged.some((o) => !o)) {
+        throw new NotFoundException(this.translations.t("domains.orders.merge.orders_not_found"));
+      }
+
+      for (const order of [survivor, ...merged]) {
+        this.assertMergeable(order);
+        if (order.normalizedPhoneNumber !== survivor.normalizedPhoneNumber) {
+          throw new BadRequestException(
+            this.translations.t("domains.orders.merge.different_customer", { args: { orderNumber: order.orderNumber } }),
+          );
+        }
+      }
+
+      const duplicateStatus = await this.ordersService.findStatusByCode(OrderStatus.DUPLICATE, adminId, manager);
+      await this.statusTransitions.assertTransitions(manager, me, adminId, merged, duplicateStatus.id);
+
+      const mode =
+        dto.itemsMode ??
+        (merged.every((o) => o.itemsSignature === survivor.itemsSignature) ? MergeItemsMode.MAX : MergeItemsMode.SUM);
+
+      // 1. Combine the lines into the survivor
+      const survivorLines = new Map(survivor.items.map((item) => [lineKey(item.variantId, item.bundleId), item]));
+      const oldQuantities = new Map(survivor.items.map((item) => [item.id, item.quantity]));
+      const reservedDelta = new Map<string, number>();
+      const addReserved = (variantId: string, quantity: number) =>
+        reservedDelta.set(variantId, (reservedDelta.get(variantId) ?? 0) + quantity);
+
+      for (const order of merged) {
+        for (const item of order.items) {
+          addReserved(item.variantId, -item.quantity);
+
+          const key = lineKey(item.variantId, item.bundleId);
+          const existing = survivorLines.get(key);
+          if (existing) {
+            existing.quantity = mode === MergeItemsMode.SUM
+              ? existing.quantity + item.quantity
+              : Math.max(existing.quantity, item.quantity);
+            continue;
+          }
+
+          const line = manager.create(OrderItemEntity, {
+            adminId,
+            orderId: survivor.id,
+            variantId: item.variantId,
+            bundleId: item.bundleId ?? null,
+            quantity: item.quantity,
+            unitPrice: item.unitPrice,
+            unitCost: item.unitCost,
+            isAdditional: item.isAdditional,
+          } as any);
+          line.variant = item.variant;
+          survivorLines.set(key, line);
+          survivor.items.push(line);
+        }
+      }
+
+      for (const item of survivor.items) {
+        addReserved(item.variantId, item.quantity - (oldQuantities.get(item.id) ?? 0));
+        item.lineTotal = Number((Number(item.unitPrice) * item.quantity).toFixed(2));
+        item.lineProfit = Number(((Number(item.unitPrice) - Number(item.unitCost)) * item.quantity).toFixed(2));
+      }
+
+      // 2. Reservations follow the net change (merged orders release, survivor growth reserves)
+      await this.applyReservations(manager, adminId, me, survivor, merged, reservedDelta);
+
+      await manager.save(OrderItemEntity, survivor.items);
+
+      const { productsTotal, finalTotal, profit } = this.ordersService.calculateTotals(
+        survivor.items,
+        survivor.shippingCost,
+        survivor.discount,
+      );
+      await manager.update(OrderEntity, { id: survivor.id, adminId }, {
+        productsTotal,
+        finalTotal,
+        profit,
+        itemsSignature: this.ordersService.generateItemsSignature(survivor.items),
+        updatedByUserId: me?.id,
+      });
+
+      // 3. Assignments: the survivor keeps its own, otherwise takes over the latest active one
+      const now = new Date();
+      const survivorAssigned = survivor.assignments?.some((a) => a.isAssignmentActive);
+      const activeMerged = merged
+        .flatMap((o) => o.assignments ?? [])
+        .filter((a) => a.isAssignmentActive)
+        .sort((a, b) => new Date(b.assignedAt).getTime() - new Date(a.assignedAt).getTime());
+
+      for (const [index, assignment] of activeMerged.entries()) {
+        if (!survivorAssigned && index === 0) {
+          assignment.orderId = survivor.id;
+        } else {
+          assignment.isAssignmentActive = false;
+          assignment.finishedAt = now;
+          assignment.lockedUntil = null;
+        }
+      }
+      if (activeMerged.length) await manager.save(OrderAssignmentEntity, activeMerged);
+
+      // 4. Mark the merged orders as duplicates of the survivor
+      const mergedNumbers = merged.map((o) => o.orderNumber).join(", ");
+      const statusNote = dto.notes?.trim()
+        || await this.requestTranslations.tAsync("domains.orders.merge.log_merged_into", adminId, { args: { orderNumber: survivor.orderNumber } });
+
+      for (const order of merged) {
+        await manager.update(OrderEntity, { id: order.id, adminId }, {
+          statusId: duplicateStatus.id,
+          mergedIntoOrderId: survivor.id,
+          mergedAt: now,
+          originalOrderNumber: survivor.orderNumber,
+          updatedByUserId: me?.id,
+        });
+
+        await this.ordersService.logStatusChange({
+          adminId,
+          orderId: order.id,
+          fromStatusId: order.statusId,
+          toStatusId: duplicateStatus.id,
+          userId: me?.id,
+          notes: statusNote,
+          ipAddress,
+          manager,
+        });
+
+        await this.ordersService.logOrderAction({
+          manager,
+          adminId,
+          userId: me?.id,
+          orderId: order.id,
+          actionType: OrderActionType.MERGED,
+          details: await this.requestTranslations.tAsync("domains.orders.merge.log_merged_into", adminId, { args: { orderNumber: survivor.orderNumber } }),
+        });
+      }
+
+      await this.ordersService.logOrderAction({
+        manager,
+        adminId,
+        userId: me?.id,
+        orderId: survivor.id,
+        actionType: OrderActionType.MERGED,
+        details: await this.requestTranslations.tAsync("domains.orders.merge.log_merged_from", adminId, { args: { orderNumbers: mergedNumbers, mode } }),
+      });
+
+      return manager.findOne(OrderEntity, {
+        where: { id: survivor.id, adminId },
+        relations: ["items", "items.variant", "status"],
+      });
+    });
+  }
+
+  private assertMergeable(order: OrderEntity) {
+    const args = { orderNumber: order.orderNumber };
+
+    if (order.mergedIntoOrderId) {
+      throw new BadRequestException(this.translations.t("domains.orders.merge.already_merged", { args }));
+    }
+
+    if (CLOSED_STATUS_CODES.includes(order.status?.code) || order.items.some((item) => item.stockDeducted)) {
+      throw new BadRequestException(this.translations.t("domains.orders.merge.not_open", { args }));
+    }
+  }
+
+  private async applyReservations(
+    manager: EntityManager,
+    adminId: string,
+    me: any,
+    survivor: OrderEntity,
+    merged: OrderEntity[],
+    reservedDelta: Map<string, number>,
+  ) {
+    const variantIds = [...reservedDelta.keys()];
+    if (!variantIds.length) return;
+
+    const variants = await manager
+      .getRepository(ProductVariantEntity)
+      .createQueryBuilder("variant")
+      .setLock("pessimistic_write")
+      .where("variant.adminId = :adminId AND variant.id IN (:...variantIds)", { adminId, variantIds })
+      .orderBy("variant.id", "ASC")
+      .getMany();
+    const variantMap = new Map(variants.map((v) => [v.id, v]));
+
+    // the survivor can only grow by what the merged orders released plus free stock
+    const growing = [...reservedDelta.entries()].filter(([, delta]) => delta > 0);
+    if (growing.length) {
+      await this.ordersService.validateStockAvailability(
+        adminId,
+        growing.map(([variantId, quantity]) => ({ variantId, quantity })),
+        { variantMap, errorMessagePrefix: this.translations.t("domains.orders.insufficient_stock_prefix"), manager },
+      );
+    }
+
+    const movements: StockMovementInput[] = [];
+    for (const order of merged) {
+      for (const item of order.items) {
+        movements.push({
+          adminId,
+          variantId: item.variantId,
+          reason: StockMovementReason.ORDER_RESERVATION_RELEASE,
+          reservedDelta: -item.quantity,
+          referenceType: StockMovementReference.ORDER,
+          referenceId: order.id,
+          userId: me?.id,
+        });
+      }
+    }
+
+    // survivor side: whatever is left of the net change once the releases are booked
+    const survivorDelta = new Map(reservedDelta);
+    for (const movement of movements) {
+      survivorDelta.set(movement.variantId, (survivorDelta.get(movement.variantId) ?? 0) - movement.reservedDelta);
+    }
+    for (const [variantId, delta] of survivorDelta) {
+      if (delta === 0) continue;
+      movements.push({
+        adminId,
+        variantId,
+        reason: delta > 0 ? StockMovementReason.ORDER_RESERVATION : StockMovementReason.ORDER_RESERVATION_RELEASE,
+        reservedDelta: delta,
+        referenceType: StockMovementReference.ORDER,
+        referenceId: survivor.id,
+        userId: me?.id,
+      });
+    }
+
+    const changed: ProductVariantEntity[] = [];
+    for (const [variantId, delta] of reservedDelta) {
+      const variant = variantMap.get(variantId);
+      if (!variant || delta === 0) continue;
+      variant.reserved = Math.max(0, (variant.reserved || 0) + delta);
+      changed.push(variant);
+    }
+
+    if (changed.length) await manager.save(ProductVariantEntity, changed);
+    await this.stockMovementsService.record(manager, movements);
+  }
+}
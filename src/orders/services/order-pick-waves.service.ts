@@ -0,0 +1,466 @@
+import { BadRequestException, Injectable } from "@nestjs/common";
+import { InjectRepository } from "@nestjs/typeorm";
+import { DataSource, EntityManager, In, IsNull, Repository } from "typeorm";
+import { I18nKey, TranslationService } from "common/translation.service";
+import { DateFilterUtil } from "common/date-filter.util";
+import { OrderEntity, OrderItemEntity, OrderStatus } from "entities/order.entity";
+import { VariantWarehouseStockEntity } from "entities/sku.entity";
+import { PickWaveEntity, PickWaveLineEntity, PickWaveOrderEntity, PickWaveStatus } from "entities/pick-wave.entity";
+import { CreatePickWaveDto, ScanPickWaveDto } from "dto/order.dto";
+import { tenantId } from "src/category/category.service";
+import { WarehouseStockService } from "src/warehouse/warehouse-stock.service";
+import { BarcodesService } from "src/barcodes/barcodes.service";
+import { OrdersService } from "./orders.service";
+
+const OPEN_STATUSES = [PickWaveStatus.PICKING, PickWaveStatus.PACKING];
+
+// waybills may already be printed; packing goes through the preparation scan, which needs them printed
+const PICKABLE_ORDER_STATUSES: string[] = [OrderStatus.CONFIRMED, OrderStatus.PRINTED];
+const SCANNABLE_ORDER_STATUSES: string[] = [OrderStatus.PRINTED, OrderStatus.PREPARING];
+
+/**
+ * Wave picking: the items of many orders are picked in one walk, following an aggregated list sorted by
+ * storage location, then sorted back into per-order slots at the packing step.
+ */
+@Injectable()
+export class OrderPickWavesService {
+  constructor(
+    private readonly dataSource: DataSource,
+    @InjectRepository(PickWaveEntity)
+    private readonly waveRepo: Repository<PickWaveEntity>,
+    private readonly translations: TranslationService,
+    private readonly warehouseStockService: WarehouseStockService,
+    private readonly barcodesService: BarcodesService,
+    private readonly ordersService: OrdersService,
+  ) { }
+
+  async list(me: any, q?: any) {
+    const adminId = tenantId(me);
+    if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+
+    const page = Number(q?.page ?? 1);
+    const limit = Number(q?.limit ?? 10);
+    const search = String(q?.search ?? "").trim();
+    const status = q?.status && q.status !== "all" ? String(q.status) : null;
+
+    const qb = this.waveRepo
+      .createQueryBuilder("w")
+      .leftJoinAndSelect("w.warehouse", "warehouse")
+      .leftJoinAndSelect("w.createdBy", "createdBy")
+      .loadRelationCountAndMap("w.ordersCount", "w.orders")
+      .loadRelationCountAndMap("w.packedCount", "w.orders", "packedOrder", (sub) =>
+        sub.andWhere("packedOrder.packedAt IS NOT NULL"),
+      )
+      .where("w.adminId = :adminId", { adminId });
+
+    if (status) qb.andWhere("w.status = :status", { status });
+    if (search) qb.andWhere("w.waveNumber ILIKE :s", { s: `%${search}%` });
+    DateFilterUtil.applyToQueryBuilder(qb, "w.created_at", q?.startDate, q?.endDate);
+
+    const [records, total] = await qb
+      .orderBy("w.created_at", "DESC")
+      .skip((page - 1) * limit)
+      .take(limit)
+      .getManyAndCount();
+
+    return {
+      total_records: total,
+      current_page: page,
+      per_page: limit,
+      records,
+    };
+  }
+
+  /** The wave with its pick list in walking order and the packing slots of its orders. */
+  async get(me: any, id: string) {
+    const adminId = tenantId(me);
+    if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+
+    const wave = await this.waveRepo.findOne({
+      where: { id, adminId },
+      relations: ["warehouse", "createdBy"],
+    });
+    if (!wave) throw new BadRequestException(this.translations.t("domains.orders.pick_waves.not_found"));
+
+    const lines = await this.dataSource.getRepository(PickWaveLineEntity)
+      .createQueryBuilder("line")
+      .leftJoinAndSelect("line.variant", "variant")
+      .leftJoinAndSelect("variant.product", "product")
+      .where("line.waveId = :id", { id })
+      .orderBy("line.locationPath", "ASC", "NULLS LAST")
+      .addOrderBy("variant.sku", "ASC")
+      .getMany();
+
+    const slots = await this.dataSource.getRepository(PickWaveOrderEntity)
+      .createQueryBuilder("wo")
+      .leftJoinAndSelect("wo.order", "order")
+      .leftJoinAndSelect("order.status", "status")
+      .leftJoinAndSelect("order.items", "items")
+      .leftJoinAndSelect("items.variant", "itemVariant")
+      .where("wo.waveId = :id", { id })
+      .orderBy("wo.slot", "ASC")
+      .getMany();
+
+    const totals = lines.reduce(
+      (acc, line) => ({
+        quantity: acc.quantity + line.quantity,
+        picked: acc.picked + line.pickedQuantity,
+        sorted: acc.sorted + line.sortedQuantity,
+      }),
+      { quantity: 0, picked: 0, sorted: 0 },
+    );
+
+    return {
+      ...wave,
+      lines: lines.map((line) => ({
+        id: line.id,
+        variantId: line.variantId,
+        sku: line.variant?.sku ?? null,
+        productName: line.variant?.product?.name ?? null,
+        storageLocationId: line.storageLocationId ?? null,
+        locationPath: line.locationPath ?? null,
+        quantity: line.quantity,
+        pickedQuantity: line.pickedQuantity,
+        sortedQuantity: line.sortedQuantity,
+        remaining: Math.max(0, line.quantity - line.pickedQuantity),
+      })),
+      orders: slots.map((wo) => ({
+        slot: wo.slot,
+        orderId: wo.orderId,
+        orderNumber: wo.order?.orderNumber ?? null,
+        status: wo.order?.status ? { code: wo.order.status.code, name: wo.order.status.name } : null,
+        packedAt: wo.packedAt ?? null,
+        items: (wo.order?.items ?? []).map((item) => ({
+          id: item.id,
+          variantId: item.variantId,
+          sku: item.variant?.sku ?? null,
+          quantity: item.quantity,
+          scannedQuantity: item.scannedQuantity,
+        })),
+      })),
+      summary: {
+        orders: slots.length,
+        packedOrders: slots.filter((wo) => wo.packedAt).length,
+        units: totals.quantity,
+        pickedUnits: totals.picked,
+        sortedUnits: totals.sorted,
+      },
+    };
+  }
+
+  /**
+   * Groups the remaining (not yet prepared) quantities of the orders per variant and snapshots where each
+   * variant is kept in the wave warehouse. Orders get a slot in the order they were selected.
+   */
+  async create(me: any, dto: CreatePickWaveDto) {
+    const adminId = tenantId(me);
+    if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+
+    const orderIds = Array.from(new Set(dto.orderIds));
+
+    const wave = await this.dataSource.transaction(async (manager) => {
+      const orders = await manager.find(OrderEntity, {
+        where: { id: In(orderIds), adminId },
+        relations: ["status", "items"],
+      });
+      if (orders.length !== orderIds.length) {
+        throw new BadRequestException(this.translations.t("domains.orders.pick_waves.orders_not_found"));
+      }
+
+      const notPickable = orders.find((o) => !PICKABLE_ORDER_STATUSES.includes(o.status?.code));
+      if (notPickable) {
+        throw new BadRequestException(
+          this.translations.t("domains.orders.pick_waves.order_not_pickable", {
+            args: { number: notPickable.orderNumber, status: notPickable.status?.name ?? notPickable.status?.code ?? "" },
+          }),
+        );
+      }
+
+      const busy = await manager.getRepository(PickWaveOrderEntity)
+        .createQueryBuilder("wo")
+        .innerJoinAndSelect("wo.wave", "wave")
+        .innerJoinAndSelect("wo.order", "order")
+        .where("wo.orderId IN (:...orderIds)", { orderIds })
+        .andWhere("wave.status IN (:...open)", { open: OPEN_STATUSES })
+        .getOne();
+      if (busy) {
+        throw new BadRequestException(
+          this.translations.t("domains.orders.pick_waves.order_in_open_wave", {
+            args: { number: busy.order?.orderNumber ?? "", wave: busy.wave.waveNumber },
+          }),
+        );
+      }
+
+      const warehouseId = await this.resolveWarehouse(manager, adminId, orders, dto.warehouseId);
+
+      const quantities = new Map<string, number>();
+      for (const order of orders) {
+        for (const item of order.items ?? []) {
+          const remaining = item.quantity - (item.scannedQuantity ?? 0);
+          if (remaining > 0) quantities.set(item.variantId, (quantities.get(item.variantId) ?? 0) + remaining);
+        }
+      }
+      if (!quantities.size) throw new BadRequestException(this.translations.t("domains.orders.pick_waves.nothing_to_pick"));
+
+      const locations = await this.locateVariants(manager, adminId, warehouseId, Array.from(quantities.keys()));
+
+      const repo = manager.getRepository(PickWaveEntity);
+      const saved = await repo.save(repo.create({
+        adminId,
+        waveNumber: await this.generateWaveNumber(manager, adminId),
+        warehouseId,
+        status: PickWaveStatus.PICKING,
+        notes: dto.notes ?? null,
+        createdByUserId: me?.id ?? null,
+      }));
+
+      // slots follow the selection order so the packing table matches the list the user picked from
+      await manager.insert(PickWaveOrderEntity, orderIds.map((orderId, idx) => ({
+        adminId,
+        waveId: saved.id,
+        orderId,
+        slot: idx + 1,
+      })));
+
+      await manager.insert(PickWaveLineEntity, Array.from(quantities.entries()).map(([variantId, quantity]) => ({
+        adminId,
+        waveId: saved.id,
+        variantId,
+        storageLocationId: locations.get(variantId)?.storageLocationId ?? null,
+        locationPath: locations.get(variantId)?.path ?? null,
+        quantity,
+      })));
+
+      return saved;
+    });
+
+    return this.get(me, wave.id);
+  }
+
+  /** Pick scan: adds picked units to the variant line (one scan = one unit unless a quantity is given). */
+  async pick(me: any, id: string, sku: string, dto?: ScanPickWaveDto) {
+    const adminId = tenantId(me);
+    if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+
+    return this.dataSource.transaction(async (manager) => {
+      const wave = await this.lockWave(manager, adminId, id);
+      this.assertStatus(wave, [PickWaveStatus.PICKING]);
+
+      const line = await this.findLine(manager, adminId, wave.id, sku);
+      if (!line) {
+        return { success: false, message: this.translations.t("domains.orders.pick_waves.sku_not_in_wave", { args: { sku } }) };
+      }
+
+      const quantity = dto?.quantity ?? 1;
+      if (line.pickedQuantity + quantity > line.quantity) {
+        return {
+          success: false,
+          message: this.translations.t("domains.orders.pick_waves.over_picked", { args: { sku, quantity: line.quantity } }),
+        };
+      }
+
+      line.pickedQuantity += quantity;
+      line.pickedByUserId = me?.id ?? null;
+      line.pickedAt = new Date();
+      await manager.save(line);
+
+      const remaining = await manager.getRepository(PickWaveLineEntity)
+        .createQueryBuilder("line")
+        .where("line.waveId = :id", { id: wave.id })
+        .andWhere("line.pickedQuantity < line.quantity")
+        .getCount();
+
+      if (remaining === 0) {
+        await manager.update(PickWaveEntity, { id: wave.id }, { status: PickWaveStatus.PACKING, pickedAt: new Date() });
+      }
+
+      return {
+        success: true,
+        message: this.translations.t("domains.orders.pick_waves.pick_success", {
+          args: { sku, picked: line.pickedQuantity, quantity: line.quantity },
+        }),
+        line: {
+          id: line.id,
+          variantId: line.variantId,
+          locationPath: line.locationPath ?? null,
+          quantity: line.quantity,
+          pickedQuantity: line.pickedQuantity,
+        },
+        status: remaining === 0 ? PickWaveStatus.PACKING : wave.status,
+      };
+    });
+  }
+
+  /**
+   * Packing scan: a picked unit goes to the lowest slot still missing that variant and is recorded through
+   * the regular preparation scan of that order, so statuses, shipments and logs move exactly as for a single order.
+   */
+  async sort(me: any, id: string, sku: string) {
+    const adminId = tenantId(me);
+    if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+
+    return this.dataSource.transaction(async (manager) => {
+      const wave = await this.lockWave(manager, adminId, id);
+      this.assertStatus(wave, OPEN_STATUSES);
+
+      const line = await this.findLine(manager, adminId, wave.id, sku);
+      if (!line) {
+        return { success: false, message: this.translations.t("domains.orders.pick_waves.sku_not_in_wave", { args: { sku } }) };
+      }
+      if (line.sortedQuantity >= line.pickedQuantity) {
+        return { success: false, message: this.translations.t("domains.orders.pick_waves.not_picked_yet", { args: { sku } }) };
+      }
+
+      // an unprinted order keeps its slot open without blocking the orders after it
+      const target = await this.findSortTarget(manager, wave.id, line.variantId, SCANNABLE_ORDER_STATUSES);
+      if (!target) {
+        const unprinted = await this.findSortTarget(manager, wave.id, line.variantId);
+        return {
+          success: false,
+          message: unprinted
+            ? this.translations.t("domains.orders.pick_waves.order_not_printed", { args: { number: unprinted.orderNumber, sku } })
+            : this.translations.t("domains.orders.pick_waves.no_order_needs_item", { args: { sku } }),
+        };
+      }
+
+      const result: any = await this.ordersService.scanItem(target.orderId, sku, me, target.itemId, manager);
+      const placement = { slot: Number(target.slot), orderId: target.orderId, orderNumber: target.orderNumber };
+      if (!result?.success) return { ...result, ...placement };
+
+      await manager.increment(PickWaveLineEntity, { id: line.id }, "sortedQuantity", 1);
+      if (result.isOrderComplete) {
+        await manager.update(PickWaveOrderEntity, { waveId: wave.id, orderId: target.orderId }, { packedAt: new Date() });
+      }
+
+      const openSlots = await manager.count(PickWaveOrderEntity, { where: { waveId: wave.id, packedAt: IsNull() } });
+      let status = wave.status;
+      if (openSlots === 0) {
+        status = PickWaveStatus.COMPLETED;
+        await manager.update(PickWaveEntity, { id: wave.id }, {
+          status,
+          pickedAt: wave.pickedAt ?? new Date(),
+          completedAt: new Date(),
+        });
+      }
+
+      return { ...result, ...placement, status };
+    });
+  }
+
+  async cancel(me: any, id: string) {
+    const adminId = tenantId(me);
+    if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+
+    await this.dataSource.transaction(async (manager) => {
+      const wave = await this.lockWave(manager, adminId, id);
+      this.assertStatus(wave, OPEN_STATUSES);
+      await manager.update(PickWaveEntity, { id: wave.id }, { status: PickWaveStatus.CANCELLED });
+    });
+
+    return this.get(me, id);
+  }
+
+  private async resolveWarehouse(manager: EntityManager, adminId: string, orders: OrderEntity[], requested?: string) {
+    const orderWarehouses = Array.from(new Set(orders.map((o) => o.warehouseId).filter(Boolean)));
+
+    if (requested) {
+      await this.warehouseStockService.assertWarehouse(adminId, requested, manager);
+      if (orderWarehouses.some((w) => w !== requested)) {
+        throw new BadRequestException(this.translations.t("domains.orders.pick_waves.mixed_warehouses"));
+      }
+      return requested;
+    }
+
+    if (orderWarehouses.length > 1) {
+      throw new BadRequestException(this.translations.t("domains.orders.pick_waves.mixed_warehouses"));
+    }
+    return orderWarehouses[0] ?? null;
+  }
+
+  /** Storage location of each variant in the warehouse, with its "zone / rack / shelf / bin" path. */
+  private async locateVariants(manager: EntityManager, adminId: string, warehouseId: string | null, variantIds: string[]) {
+    const located = new Map<string, { storageLocationId: string; path: string | null }>();
+    if (!warehouseId || !variantIds.length) return located;
+
+    const stocks = await manager.find(VariantWarehouseStockEntity, {
+      where: { adminId, warehouseId, variantId: In(variantIds) },
+    });
+    const locationIds = Array.from(new Set(stocks.map((s) => s.storageLocationId).filter(Boolean)));
+    if (!locationIds.length) return located;
+
+    const rows = await manager.query(
+      `WITH RECURSIVE chain AS (
+        SELECT l.id AS "leafId", l."parentId", l.name, 0 AS depth
+        FROM "storage_locations" l
+        WHERE l.id = ANY($1::uuid[]) AND l."adminId" = $2
+        UNION ALL
+        SELECT c."leafId", p."parentId", p.name, c.depth + 1
+        FROM "storage_locations" p
+        INNER JOIN chain c ON p.id = c."parentId"
+      )
+      SELECT "leafId", string_agg(name, ' / ' ORDER BY depth DESC) AS path
+      FROM chain
+      GROUP BY "leafId"`,
+      [locationIds, adminId],
+    );
+    const paths = new Map<string, string>(rows.map((r: any) => [r.leafId, r.path]));
+
+    for (const stock of stocks) {
+      if (!stock.storageLocationId) continue;
+      located.set(stock.variantId, { storageLocationId: stock.storageLocationId, path: paths.get(stock.storageLocationId) ?? null });
+    }
+    return located;
+  }
+
+  private async findLine(manager: EntityManager, adminId: string, waveId: string, sku: string) {
+    // the scanned value may be a barcode or the SKU itself
+    const variant = await this.barcodesService.resolveVariant(manager, adminId, sku);
+    if (!variant) return null;
+
+    return manager.getRepository(PickWaveLineEntity).findOne({ where: { waveId, variantId: variant.id } });
+  }
+
+  // lowest open slot still missing the variant, optionally only among orders in the given statuses
+  private findSortTarget(manager: EntityManager, waveId: string, variantId: string, statuses?: string[]) {
+    const qb = manager.getRepository(OrderItemEntity)
+      .createQueryBuilder("item")
+      .innerJoin(PickWaveOrderEntity, "wo", "wo.orderId = item.orderId AND wo.waveId = :waveId", { waveId })
+      .innerJoin("item.order", "order")
+      .innerJoin("order.status", "status")
+      .select(["item.id AS \"itemId\"", "item.orderId AS \"orderId\"", "wo.slot AS slot", "order.orderNumber AS \"orderNumber\""])
+      .where("item.variantId = :variantId", { variantId })
+      .andWhere("wo.packedAt IS NULL")
+      .andWhere("COALESCE(item.scannedQuantity, 0) < item.quantity");
+    if (statuses) qb.andWhere("status.code IN (:...statuses)", { statuses });
+
+    return qb.orderBy("wo.slot", "ASC").limit(1).getRawOne();
+  }
+
+  private async generateWaveNumber(manager: EntityManager, adminId: string) {
+    const now = new Date();
+    const dateStr = `${now.getFullYear()}${String(now.getMonth() + 1).padStart(2, "0")}${String(now.getDate()).padStart(2, "0")}`;
+    const count = await manager.count(PickWaveEntity, { where: { adminId } });
+    return `WAVE-${dateStr}-${(count + 1).toString().padStart(4, "0")}`;
+  }
+
+  private async lockWave(manager: EntityManager, adminId: string, id: string) {
+    const wave = await manager.getRepository(PickWaveEntity)
+      .createQueryBuilder("w")
+      .setLock("pessimistic_write")
+      .where("w.id = :id", { id })
+      .andWhere("w.adminId = :adminId", { adminId })
+      .getOne();
+    if (!wave) throw new BadRequestException(this.translations.t("domains.orders.pick_waves.not_found"));
+    return wave;
+  }
+
+  private assertStatus(wave: PickWaveEntity, allowed: PickWaveStatus[]) {
+    if (!allowed.includes(wave.status)) {
+      throw new BadRequestException(
+        this.translations.t("domains.orders.pick_waves.invalid_status", {
+          args: { status: this.translations.t(`domains.orders.pick_waves.statuses.${wave.status}` as I18nKey) },
+        }),
+      );
+    }
+  }
+}
@@ -0,0 +1,243 @@
+import { BadRequestException, Injectable, NotFoundException } from "@nestjs/common";
+import { InjectRepository } from "@nestjs/typeorm";
+import { EntityManager, Repository } from "typeorm";
+import { I18nKey, TranslationService } from "common/translation.service";
+import { DateFilterUtil } from "common/date-filter.util";
+import { OrderStatus, OrderStatusHistoryEntity } from "entities/order.entity";
+import { OrderReasonEntity, OrderReasonScope } from "entities/order-reason.entity";
+import { CreateOrderReasonDto, UpdateOrderReasonDto } from "dto/order.dto";
+import { tenantId } from "src/category/category.service";
+
+// status moves that need a reason code, by the status the order lands in
+const SCOPE_BY_STATUS: Record<string, OrderReasonScope> = {
+  [OrderStatus.REJECTED]: OrderReasonScope.REJECTION,
+  [OrderStatus.CANCELLED]: OrderReasonScope.CANCELLATION,
+  [OrderStatus.CANCELLED_FOLLOW_UP]: OrderReasonScope.CANCELLATION,
+  [OrderStatus.FAILED_DELIVERY]: OrderReasonScope.FAILED_DELIVERY,
+};
+
+export enum ReasonBreakdown {
+  REASON = "reason",
+  CATEGORY = "category",
+  PRODUCT = "product",
+  CITY = "city",
+  STORE = "store",
+  AGENT = "agent",
+  CARRIER = "carrier",
+}
+
+const INTERVALS = ["day", "week", "month"] as const;
+
+// [id expression, name expression] of each breakdown, on top of the history / order / reason joins
+const BREAKDOWN_COLUMNS: Record<Exclude<ReasonBreakdown, ReasonBreakdown.REASON | ReasonBreakdown.CATEGORY>, [string, string]> = {
+  [ReasonBreakdown.PRODUCT]: ["product.id", "product.name"],
+  [ReasonBreakdown.CITY]: ["o.cityId", "COALESCE(city.nameAr, o.city)"],
+  [ReasonBreakdown.STORE]: ["o.storeId", "store.name"],
+  [ReasonBreakdown.AGENT]: ["h.changedByUserId", "agent.name"],
+  [ReasonBreakdown.CARRIER]: ["o.shippingCompanyId", "carrier.name"],
+};
+
+@Injectable()
+export class OrderReasonsService {
+  constructor(
+    @InjectRepository(OrderReasonEntity)
+    private readonly reasonRepo: Repository<OrderReasonEntity>,
+    @InjectRepository(OrderStatusHistoryEntity)
+    private readonly historyRepo: Repository<OrderStatusHistoryEntity>,
+    private readonly translations: TranslationService,
+  ) { }
+
+  async list(me: any, q?: { scope?: OrderReasonScope; includeInactive?: string }) {
+    const adminId = tenantId(me);
+    if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+
+    const qb = this.reasonRepo
+      .createQueryBuilder("reason")
+      .where("reason.adminId = :adminId", { adminId })
+      .orderBy("reason.sortOrder", "ASC")
+      .addOrderBy("reason.created_at", "ASC");
+
+    if (q?.includeInactive !== "true") qb.andWhere("reason.isActive = true");
+    if (q?.scope) qb.andWhere("reason.scopes @> :scope::jsonb", { scope: JSON.stringify([q.scope]) });
+
+    return qb.getMany();
+  }
+
+  async create(me: any, dto: CreateOrderReasonDto) {
+    const adminId = tenantId(me);
+    if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+
+    await this.assertCodeFree(adminId, dto.code);
+
+    return this.reasonRepo.save(
+      this.reasonRepo.create({
+        ...dto,
+        adminId,
+        scopes: [...new Set(dto.scopes)],
+      }),
+    );
+  }
+
+  async update(me: any, id: string, dto: UpdateOrderReasonDto) {
+    const adminId = tenantId(me);
+    if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+
+    const reason = await this.reasonRepo.findOne({ where: { id, adminId } });
+    if (!reason) throw new NotFoundException(this.translations.t("domains.orders.reasons.not_found"));
+
+    if (dto.code && dto.code !== reason.code) await this.assertCodeFree(adminId, dto.code);
+
+    Object.assign(reason, dto);
+    if (dto.scopes) reason.scopes = [...new Set(dto.scopes)];
+    return this.reasonRepo.save(reason);
+  }
+
+  // a reason already used on orders is only deactivated, so the reports keep their history
+  async remove(me: any, id: string) {
+    const adminId = tenantId(me);
+    if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+
+    const reason = await this.reasonRepo.findOne({ where: { id, adminId } });
+    if (!reason) throw new NotFoundException(this.translations.t("domains.orders.reasons.not_found"));
+
+    const used = await this.historyRepo.exist({ where: { adminId, reasonId: id } });
+    if (used) {
+      await this.reasonRepo.update({ id }, { isActive: false });
+      return { id, deleted: false, deactivated: true };
+    }
+
+    await this.reasonRepo.delete({ id });
+    return { id, deleted: true, deactivated: false };
+  }
+
+  /**
+   * Checks the reason code given with a move to `statusCode`.
+   * Returns the reason id to store, null when the move needs none or the tenant has no codes for it (free text flow).
+   */
+  async resolveForStatus(manager: EntityManager, adminId: string, statusCode: string, reasonId?: string | null) {
+    const scope = SCOPE_BY_STATUS[statusCode];
+    if (!scope) return null;
+
+    const reasons = await manager.find(OrderReasonEntity, {
+      where: { adminId, isActive: true },
+      select: ["id", "scopes"],
+    });
+    const allowed = reasons.filter((r) => (r.scopes ?? []).includes(scope));
+
+    if (!reasonId) {
+      if (allowed.length) {
+        throw new BadRequestException(this.translations.t("domains.orders.reasons.required", {
+          args: { scope: this.translations.t(`domains.orders.reasons.scopes.${scope}` as I18nKey) },
+        }));
+      }
+      return null;
+    }
+
+    if (!allowed.some((r) => r.id === reasonId)) {
+      throw new BadRequestException(this.translations.t("domains.orders.reasons.invalid_for_status"));
+    }
+    return reasonId;
+  }
+
+  /**
+   * Reason codes picked on rejected / cancelled / failed moves, broken down by a dimension and over time.
+   * Counts are status changes (an order rejected twice counts twice).
+   */
+  async analytics(me: any, q?: any) {
+    const adminId = tenantId(me);
+    if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+
+    const by: ReasonBreakdown = Object.values(ReasonBreakdown).includes(q?.by) ? q.by : ReasonBreakdown.REASON;
+    const interval = INTERVALS.includes(q?.interval) ? q.interval : "day";
+
+    const base = () => {
+      const qb = this.historyRepo
+        .createQueryBuilder("h")
+        .innerJoin("h.reason", "reason")
+        .innerJoin("h.order", "o")
+        .where("h.adminId = :adminId", { adminId });
+
+      if (q?.scope) qb.andWhere("reason.scopes @> :scope::jsonb", { scope: JSON.stringify([q.scope]) });
+      if (q?.reasonId) qb.andWhere("h.reasonId = :reasonId", { reasonId: q.reasonId });
+      if (q?.category) qb.andWhere("reason.category = :category", { category: q.category });
+      if (q?.storeId) qb.andWhere("o.storeId = :storeId", { storeId: q.storeId });
+      if (q?.shippingCompanyId) qb.andWhere("o.shippingCompanyId = :shippingCompanyId", { shippingCompanyId: q.shippingCompanyId });
+      if (q?.agentId) qb.andWhere("h.changedByUserId = :agentId", { agentId: q.agentId });
+      DateFilterUtil.applyToQueryBuilder(qb, "h.created_at", q?.startDate, q?.endDate);
+      return qb;
+    };
+
+    // ---- breakdown ----
+    const breakdownQb = base()
+      .select("reason.id", "reasonId")
+      .addSelect("reason.code", "code")
+      .addSelect("reason.labelEn", "labelEn")
+      .addSelect("reason.labelAr", "labelAr")
+      .addSelect("reason.category", "category")
+      .groupBy("reason.id")
+      .orderBy("count", "DESC");
+
+    if (by === ReasonBreakdown.CATEGORY) {
+      breakdownQb
+        .select("reason.category", "category")
+        .groupBy("reason.category");
+    } else if (by !== ReasonBreakdown.REASON) {
+      if (by === ReasonBreakdown.PRODUCT) {
+        breakdownQb
+          .innerJoin("o.items", "item")
+          .innerJoin("item.variant", "variant")
+          .innerJoin("variant.product", "product");
+      }
+      if (by === ReasonBreakdown.CITY) breakdownQb.leftJoin("o.cityDetails", "city");
+      if (by === ReasonBreakdown.STORE) breakdownQb.leftJoin("o.store", "store");
+      if (by === ReasonBreakdown.AGENT) breakdownQb.leftJoin("h.changedByUser", "agent");
+      if (by === ReasonBreakdown.CARRIER) breakdownQb.leftJoin("o.shippingCompany", "carrier");
+
+      const [idColumn, nameColumn] = BREAKDOWN_COLUMNS[by];
+      breakdownQb
+        .addSelect(idColumn, "dimensionId")
+        .addSelect(nameColumn, "dimensionName")
+        .addGroupBy(idColumn)
+        .addGroupBy(nameColumn);
+    }
+    // distinct: with the product breakdown a change is joined once per order line
+    breakdownQb.addSelect("COUNT(DISTINCT h.id)", "count");
+
+    // ---- trend ----
+    const bucket = `DATE_TRUNC('${interval}', h.created_at)`;
+    const trendQb = base()
+      .select(bucket, "period")
+      .addSelect("reason.category", "category")
+      .addSelect("COUNT(h.id)", "count")
+      .groupBy(bucket)
+      .addGroupBy("reason.category")
+      .orderBy("period", "ASC");
+
+    const [breakdown, trend, total] = await Promise.all([
+      breakdownQb.getRawMany(),
+      trendQb.getRawMany(),
+      base().getCount(),
+    ]);
+
+    return {
+      by,
+      interval,
+      total,
+      breakdown: breakdown.map((row) => ({
+        ...row,
+        count: Number(row.count),
+        share: total ? Number(((Number(row.count) / total) * 100).toFixed(2)) : 0,
+      })),
+      trend: trend.map((row) => ({
+        period: row.period,
+        category: row.category,
+        count: Number(row.count),
+      })),
+    };
+  }
+
+  private async assertCodeFree(adminId: string, code: string) {
+    const exists = await this.reasonRepo.exist({ where: { adminId, code } });
+    if (exists) throw new BadRequestException(this.translations.t("domains.orders.reasons.code_exists", { args: { code } }));
+  }
+}
@@ -1,6 +1,6 @@
-import { OrderEntity, OrderReplacementEntity, OrderReplacementItemEntity, OrderStatus } from "entities/order.entity";
+import { OrderChangeSource, OrderEntity, OrderReplacementEntity, OrderReplacementItemEntity, OrderStatus } from "entities/order.entity";
 import { OrdersService, tenantId } from "./orders.service";
-import { Brackets, DataSource, Repository } from "typeorm";
+import { Brackets, DataSource, EntityManager, In, Repository } from "typeorm";
 import { BadRequestException, forwardRef, Inject, Injectable } from "@nestjs/common";
 import { CreateOrderDto, CreateReplacementDto } from "dto/order.dto";
 import * as ExcelJS from "exceljs";
@@ -9,6 +9,8 @@ import { InjectRepository } from "@nestjs/typeorm";
 import { NotificationService } from "src/notifications/notification.service";
 import { NotificationType } from "entities/notifications.entity";
 import { RequestTranslationService, TranslationService } from "common/translation.service";
+import { StockMovementReason } from "entities/stock-movement.entity";
+import { ProductVariantEntity } from "entities/sku.entity";
 
 @Injectable()
 export class OrderReplacementService {
@@ -252,11 +254,11 @@ export class OrderReplacementService {
     }
 
 
-    async replaceOrder(me: any, dto: CreateReplacementDto, ipAddress?: string) {
+    async replaceOrder(me: any, dto: CreateReplacementDto, ipAddress?: string, manager?: EntityManager) {
         const adminId = tenantId(me);
         if (!adminId) throw new BadRequestException(this.translations.t('common.missing_admin_id'));
 
-        return this.dataSource.transaction(async (manager) => {
+        const runWithManager = async (manager: EntityManager) => {
             // 1️⃣ Get original order
             const originalOrder = await manager.findOne(OrderEntity, {
                 where: { id: dto.originalOrderId, adminId },
@@ -313,7 +315,9 @@ export class OrderReplacementService {
                 })),
             };
 
-            const newOrder = await this.ordersService.createWithManager(manager, adminId, me, createOrderDto, ipAddress);
+            const newOrder = await this.ordersService.createWithManager(manager, adminId, me, createOrderDto, ipAddress, {
+                stockReason: StockMovementReason.REPLACEMENT,
+            });
 
 
             // 3️⃣ Create OrderReplacementEntity
@@ -337,6 +341,40 @@ export class OrderReplacementService {
             await manager.save(OrderEntity, newOrder);
             await manager.save(OrderReplacementEntity, replacement);
 
+            // Record on the original order which lines were swapped and for what
+            const newVariants = await manager.find(ProductVariantEntity, {
+                where: { id: In(dto.items.map((it) => it.newVariantId)) },
+                select: ['id', 'sku'],
+            });
+            const newSkus = new Map(newVariants.map((v) => [v.id, v.sku]));
+            await this.ordersService.logFieldChanges({
+                manager,
+                adminId,
+                orderId: originalOrder.id,
+                source: OrderChangeSource.REPLACEMENT,
+                userId: me?.id,
+                ipAddress,
+                changes: [
+                    { field: 'replacementOrder', oldValue: null, newValue: newOrder.orderNumber },
+                    ...dto.items.map((it) => {
+                        const originalItem = originalOrder.items.find((i) => i.id === it.originalOrderItemId);
+                        return {
+                            field: `items.${originalItem?.variant?.sku ?? it.originalOrderItemId}`,
+                            oldValue: {
+                                sku: originalItem?.variant?.sku ?? null,
+                                quantity: it.quantityToReplace,
+                                unitPrice: Number(originalItem?.unitPrice || 0),
+                            },
+                            newValue: {
+                                sku: newSkus.get(it.newVariantId) ?? null,
+                                quantity: it.quantityToReplace,
+                                unitPrice: Number(it.newUnitPrice || 0),
+                            },
+                        };
+                    }),
+                ],
+            });
+
             await this.notificationService.create({
                 userId: adminId,
                 type: NotificationType.REPLACEMENT_CREATED,
@@ -350,7 +388,12 @@ export class OrderReplacementService {
                 replacement,
                 newOrder,
             };
-        });
+        };
+
+        if (manager) {
+            return runWithManager(manager);
+        }
+        return this.dataSource.transaction(runWithManager);
     }
 
     // ========================================
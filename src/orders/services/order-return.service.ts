@@ -1,17 +1,24 @@
-import { BadRequestException, Injectable, NotFoundException } from "@nestjs/common";
+import { BadRequestException, forwardRef, Inject, Injectable, Logger, NotFoundException } from "@nestjs/common";
 import { InjectRepository } from "@nestjs/typeorm";
-import { OrderActionResult, OrderActionType, OrderEntity, OrderItemEntity, OrderStatus, ReturnRequestEntity } from "entities/order.entity";
-import { DataSource, EntityManager, Repository } from "typeorm";
+import { OrderActionResult, OrderActionType, OrderEntity, OrderItemEntity, OrderStatus, ReturnRequestEntity, ReturnRequestSource, ReturnRequestStatus, ReturnRequestType } from "entities/order.entity";
+import { Brackets, DataSource, EntityManager, In, IsNull, Repository } from "typeorm";
 import { OrdersService, tenantId } from "./orders.service";
-import { CreateReturnDto } from "dto/order.dto";
+import { ApproveReturnRequestDto, CreateReturnDto, CustomerReturnRequestDto, RejectReturnRequestDto } from "dto/order.dto";
 import { NotificationService } from "src/notifications/notification.service";
 import { NotificationType } from "entities/notifications.entity";
-import { RequestTranslationService, TranslationService } from "common/translation.service";
+import { I18nKey, RequestTranslationService, TranslationService } from "common/translation.service";
 import { ProductVariantEntity } from "entities/sku.entity";
 import { getEffectiveDeductedQuantity, resolveRestockQuantity } from "../utils/stock-deduction";
+import { verifyTrackingToken } from "../utils/tracking-link";
+import { OrderReplacementService } from "./order-replacements.service";
+import { ShippingService } from "src/shipping/shipping.service";
+import { WhatsappService } from "src/whatsapp/whatsapp.service";
+import { DateFilterUtil } from "common/date-filter.util";
 
 @Injectable()
 export class OrderReturnService {
+    private readonly logger = new Logger(OrderReturnService.name);
+
     constructor(
         private dataSource: DataSource,
         @InjectRepository(ReturnRequestEntity)
@@ -22,6 +29,11 @@ export class OrderReturnService {
         private readonly notificationService: NotificationService,
         private readonly translations: TranslationService,
         private requestTranslations: RequestTranslationService,
+        private readonly replacementService: OrderReplacementService,
+        @Inject(forwardRef(() => ShippingService))
+        private readonly shippingService: ShippingService,
+        @Inject(forwardRef(() => WhatsappService))
+        private readonly whatsappService: WhatsappService,
     ) { }
 
 
@@ -170,4 +182,434 @@ export class OrderReturnService {
             return savedRequest;
         });
     }
+
+    // ========================================
+    // ✅ CUSTOMER PORTAL (signed tracking token, no authentication)
+    // ========================================
+
+    private async findPortalOrder(token: string) {
+        const orderId = verifyTrackingToken(token);
+        if (!orderId) throw new NotFoundException(this.translations.t("domains.orders.tracking.link_invalid"));
+
+        const order = await this.orderRepo.findOne({
+            where: { id: orderId },
+            relations: ["status", "items", "items.variant", "items.variant.product"],
+        });
+        if (!order) throw new NotFoundException(this.translations.t("domains.orders.tracking.link_invalid"));
+        return order;
+    }
+
+    private hasAwaitingRequest(order: OrderEntity, manager?: EntityManager) {
+        const repo = manager ? manager.getRepository(ReturnRequestEntity) : this.returnRepo;
+        return repo.exist({
+            where: {
+                orderId: order.id,
+                adminId: order.adminId,
+                source: ReturnRequestSource.CUSTOMER,
+                status: ReturnRequestStatus.PENDING,
+                reviewedAt: IsNull(),
+            },
+        });
+    }
+
+    /** Items the customer may send back and, per item, the other variants of the same product to exchange for. */
+    async getCustomerReturnOptions(token: string) {
+        const order = await this.findPortalOrder(token);
+        const eligible = order.status?.code === OrderStatus.DELIVERED;
+        const pendingRequest = await this.hasAwaitingRequest(order);
+
+        const productIds = [...new Set(order.items.map((i) => i.variant?.productId).filter(Boolean))];
+        const variants = productIds.length
+            ? await this.dataSource.getRepository(ProductVariantEntity).find({
+                where: { adminId: order.adminId, productId: In(productIds), isActive: true },
+                select: ["id", "productId", "sku", "attributes", "price"],
+            })
+            : [];
+
+        return {
+            orderNumber: order.orderNumber,
+            eligible: eligible && !pendingRequest,
+            pendingRequest,
+            types: Object.values(ReturnRequestType),
+            items: order.items.map((item) => ({
+                orderItemId: item.id,
+                productName: item.variant?.product?.name ?? null,
+                image: item.variant?.product?.mainImage ?? null,
+                sku: item.variant?.sku ?? null,
+                attributes: item.variant?.attributes ?? {},
+                quantity: item.quantity,
+                unitPrice: Number(item.unitPrice || 0),
+                exchangeOptions: variants
+                    .filter((v) => v.productId === item.variant?.productId && v.id !== item.variantId)
+                    .map((v) => ({ variantId: v.id, sku: v.sku ?? null, attributes: v.attributes ?? {} })),
+            })),
+        };
+    }
+
+    /** Customer submits a return / exchange; it waits for staff approval and leaves the order untouched. */
+    async createCustomerReturnRequest(token: string, dto: CustomerReturnRequestDto, images: string[]) {
+        const order = await this.findPortalOrder(token);
+        const adminId = order.adminId;
+
+        if (order.status?.code !== OrderStatus.DELIVERED) {
+            throw new BadRequestException(this.translations.t("domains.orders.return.portal.order_not_delivered"));
+        }
+
+        const requested = new Map<string, { quantity: number; exchangeVariantId?: string }>();
+        for (const line of dto.items) {
+            const current = requested.get(line.orderItemId);
+            requested.set(line.orderItemId, {
+                quantity: (current?.quantity || 0) + line.quantity,
+                exchangeVariantId: line.exchangeVariantId || current?.exchangeVariantId,
+            });
+        }
+
+        const orderItemsMap = new Map(order.items.map((item) => [item.id, item]));
+        for (const [orderItemId, line] of requested.entries()) {
+            const item = orderItemsMap.get(orderItemId);
+            if (!item) {
+                throw new BadRequestException(this.translations.t("domains.orders.return.portal.item_not_found"));
+            }
+            if (line.quantity > item.quantity) {
+                throw new BadRequestException(this.translations.t("domains.orders.return.portal.quantity_exceeds", {
+                    args: { sku: item.variant?.sku ?? orderItemId, purchased: item.quantity },
+                }));
+            }
+        }
+
+        const exchangeVariantIds = [...new Set([...requested.values()].map((l) => l.exchangeVariantId).filter(Boolean))];
+        if (dto.type === ReturnRequestType.EXCHANGE) {
+            const exchangeVariants = exchangeVariantIds.length
+                ? await this.dataSource.getRepository(ProductVariantEntity).find({
+                    where: { id: In(exchangeVariantIds), adminId, isActive: true },
+                    select: ["id", "productId"],
+                })
+                : [];
+            const productByVariant = new Map(exchangeVariants.map((v) => [v.id, v.productId]));
+
+            for (const [orderItemId, line] of requested.entries()) {
+                if (!line.exchangeVariantId) continue;
+                // exchanges swap size / colour of the same product, other products go through a new order
+                if (productByVariant.get(line.exchangeVariantId) !== orderItemsMap.get(orderItemId).variant?.productId) {
+                    throw new BadRequestException(this.translations.t("domains.orders.return.portal.exchange_variant_invalid"));
+                }
+            }
+        }
+
+        const returnRequest = this.returnRepo.create({
+            adminId,
+            orderId: order.id,
+            userId: null,
+            source: ReturnRequestSource.CUSTOMER,
+            type: dto.type,
+            reason: dto.reason,
+            customerNotes: dto.notes?.trim() || null,
+            images: images ?? [],
+            items: [...requested.entries()].map(([orderItemId, line]) => {
+                const item = orderItemsMap.get(orderItemId);
+                return {
+                    originalOrderItemId: orderItemId,
+                    returnedVariantId: item.variantId,
+                    quantity: line.quantity,
+                    damagedQuantity: 0,
+                    restockQuantity: Math.min(line.quantity, getEffectiveDeductedQuantity(item as any)),
+                    exchangeVariantId: dto.type === ReturnRequestType.EXCHANGE ? line.exchangeVariantId ?? null : null,
+                };
+            }),
+        });
+        // the order row lock keeps two submissions from both passing the pending check
+        const saved = await this.dataSource.transaction(async (manager) => {
+            await manager
+                .getRepository(OrderEntity)
+                .createQueryBuilder("order")
+                .setLock("pessimistic_write")
+                .where("order.id = :id", { id: order.id })
+                .getOne();
+
+            if (await this.hasAwaitingRequest(order, manager)) {
+                throw new BadRequestException(this.translations.t("domains.orders.return.portal.request_already_pending"));
+            }
+            return manager.save(ReturnRequestEntity, returnRequest);
+        });
+
+        await this.ordersService.logOrderAction({
+            adminId,
+            userId: null,
+            orderId: order.id,
+            actionType: OrderActionType.RETURN,
+            result: OrderActionResult.SUCCESS,
+            details: await this.requestTranslations.tAsync("domains.orders.return.portal.request_submitted_log", adminId, {
+                args: { type: await this.requestTranslations.tAsync(`domains.orders.return.portal.types.${dto.type}` as I18nKey, adminId), itemsCount: requested.size },
+            }),
+        });
+
+        await this.notificationService.create({
+            userId: adminId,
+            type: NotificationType.RETURN_REQUEST_CREATED,
+            title: await this.requestTranslations.tAsync("domains.orders.return.portal.notification_title", adminId),
+            message: await this.requestTranslations.tAsync("domains.orders.return.portal.notification_message", adminId, { args: { orderNumber: order.orderNumber } }),
+            relatedEntityType: "order",
+            relatedEntityId: String(order.id),
+        });
+
+        return { id: saved.id, type: saved.type, status: saved.status, createdAt: saved.createdAt };
+    }
+
+    // ========================================
+    // ✅ STAFF REVIEW OF CUSTOMER REQUESTS
+    // ========================================
+    async listCustomerRequests(me: any, q?: any) {
+        const adminId = tenantId(me);
+        if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+
+        const page = Number(q?.page ?? 1);
+        const limit = Number(q?.limit ?? 10);
+        const search = String(q?.search ?? "").trim();
+
+        const qb = this.returnRepo
+            .createQueryBuilder("rr")
+            .leftJoin("rr.order", "order")
+            .addSelect(["order.id", "order.orderNumber", "order.customerName", "order.phoneNumber"])
+            .leftJoinAndSelect("rr.items", "items")
+            .leftJoin("items.returnedVariant", "returnedVariant")
+            .addSelect(["returnedVariant.id", "returnedVariant.sku", "returnedVariant.attributes"])
+            .leftJoin("items.exchangeVariant", "exchangeVariant")
+            .addSelect(["exchangeVariant.id", "exchangeVariant.sku", "exchangeVariant.attributes"])
+            .leftJoin("rr.reviewedBy", "reviewedBy")
+            .addSelect(["reviewedBy.id", "reviewedBy.name"])
+            .where("rr.adminId = :adminId", { adminId })
+            .andWhere("rr.source = :source", { source: ReturnRequestSource.CUSTOMER });
+
+        if (q?.type) {
+            qb.andWhere("rr.type = :type", { type: q.type });
+        }
+
+        // awaiting = not reviewed yet; approved returns stay pending until their return manifest
+        if (q?.status === "awaiting") {
+            qb.andWhere("rr.reviewedAt IS NULL");
+        } else if (q?.status) {
+            qb.andWhere("rr.status = :status", { status: q.status });
+        }
+
+        if (search) {
+            qb.andWhere(
+                new Brackets((sq) => {
+                    sq.where("order.orderNumber ILIKE :s", { s: `%${search}%` })
+                        .orWhere("order.customerName ILIKE :s", { s: `%${search}%` })
+                        .orWhere("order.phoneNumber ILIKE :s", { s: `%${search}%` });
+                }),
+            );
+        }
+
+        DateFilterUtil.applyToQueryBuilder(qb, "rr.createdAt", q?.startDate, q?.endDate);
+        qb.orderBy("rr.createdAt", "DESC");
+
+        const total = await qb.getCount();
+        const records = await qb
+            .skip((page - 1) * limit)
+            .take(limit)
+            .getMany();
+
+        return {
+            total_records: total,
+            current_page: page,
+            per_page: limit,
+            records,
+        };
+    }
+
+    // the row lock makes a second reviewer wait, then see the request as already reviewed
+    private async findAwaitingRequest(manager: EntityManager, adminId: string, id: string) {
+        await manager
+            .getRepository(ReturnRequestEntity)
+            .createQueryBuilder("rr")
+            .setLock("pessimistic_write")
+            .where("rr.id = :id AND rr.adminId = :adminId", { id, adminId })
+            .getOne();
+
+        const returnRequest = await manager.findOne(ReturnRequestEntity, {
+            where: { id, adminId, source: ReturnRequestSource.CUSTOMER },
+            relations: ["items", "order", "order.status", "order.items"],
+        });
+        if (!returnRequest) throw new NotFoundException(this.translations.t("domains.orders.return.portal.request_not_found"));
+        if (returnRequest.reviewedAt || returnRequest.status !== ReturnRequestStatus.PENDING) {
+            throw new BadRequestException(this.translations.t("domains.orders.return.portal.not_awaiting_approval"));
+        }
+        return returnRequest;
+    }
+
+    async approveReturnRequest(me: any, id: string, dto: ApproveReturnRequestDto, ipAddress?: string) {
+        const adminId = tenantId(me);
+        if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+        const userId = me.id;
+
+        const review = { reviewedById: userId, reviewedAt: new Date(), reviewNote: dto.note?.trim() || null };
+
+        const { request, replacementOrder } = await this.dataSource.transaction(async (manager) => {
+            const request = await this.findAwaitingRequest(manager, adminId, id);
+            const order = request.order;
+
+            // the order may have moved on since the customer asked; only a delivered one can go back
+            await manager
+                .getRepository(OrderEntity)
+                .createQueryBuilder("order")
+                .setLock("pessimistic_write")
+                .where("order.id = :id", { id: order.id })
+                .getOne();
+            const current = await manager.findOne(OrderEntity, { where: { id: order.id }, relations: ["status"] });
+            if (current?.status?.code !== OrderStatus.DELIVERED) {
+                throw new BadRequestException(this.translations.t("domains.orders.return.portal.order_not_delivered"));
+            }
+
+            // the replacement order ships as an exchange parcel, which also collects the returned items
+            let replacementOrder: OrderEntity | null = null;
+            if (request.type === ReturnRequestType.EXCHANGE) {
+                const orderItems = new Map(order.items.map((item) => [item.id, item]));
+                const { newOrder } = await this.replacementService.replaceOrder(me, {
+                    originalOrderId: order.id,
+                    reason: request.reason,
+                    customerNotes: request.customerNotes ?? undefined,
+                    internalNotes: dto.note?.trim() || undefined,
+                    returnImages: request.images ?? [],
+                    paymentMethod: order.paymentMethod,
+                    items: request.items.map((item) => ({
+                        originalOrderItemId: item.originalOrderItemId,
+                        quantityToReplace: item.quantity,
+                        returnQuantity: item.quantity,
+                        newVariantId: item.exchangeVariantId ?? item.returnedVariantId,
+                        newUnitPrice: Number(orderItems.get(item.originalOrderItemId)?.unitPrice || 0),
+                    })),
+                }, ipAddress, manager);
+                replacementOrder = newOrder;
+            }
+
+            if (request.type === ReturnRequestType.RETURN) {
+                // from here on it is a regular return: the order waits for the return manifest
+                await manager.update(ReturnRequestEntity, { id: request.id }, review);
+
+                const preparingStatus = await this.ordersService.findStatusByCode(OrderStatus.RETURN_PREPARING, adminId, manager);
+                if (preparingStatus) {
+                    await manager.update(OrderEntity, { id: order.id }, {
+                        statusId: preparingStatus.id,
+                        lastReturnId: request.id,
+                        updatedByUserId: userId,
+                    });
+
+                    await this.ordersService.logStatusChange({
+                        adminId,
+                        orderId: order.id,
+                        fromStatusId: order.statusId,
+                        toStatusId: preparingStatus.id,
+                        userId,
+                        notes: await this.requestTranslations.tAsync("domains.orders.return.moved_to_return_preparing", adminId, {}),
+                        manager,
+                    });
+                }
+            } else {
+                await manager.update(ReturnRequestEntity, { id: request.id }, { ...review, status: ReturnRequestStatus.APPROVED });
+            }
+
+            await this.ordersService.logOrderAction({
+                manager,
+                adminId,
+                userId,
+                orderId: order.id,
+                actionType: OrderActionType.RETURN,
+                result: OrderActionResult.SUCCESS,
+                details: await this.requestTranslations.tAsync("domains.orders.return.portal.request_approved_log", adminId, {
+                    args: { orderNumber: order.orderNumber },
+                }),
+            });
+
+            return { request, replacementOrder };
+        });
+        const order = request.order;
+
+        let reverseShipment = null;
+        if (dto.reverseShipmentProvider && request.type === ReturnRequestType.RETURN) {
+            reverseShipment = await this.shippingService.createReturnPickup(me, dto.reverseShipmentProvider, request.id);
+        }
+
+        if (dto.notifyCustomer) {
+            await this.notifyCustomer(order, await this.requestTranslations.tAsync("domains.orders.return.portal.whatsapp_approved", adminId, {
+                args: {
+                    customerName: order.customerName,
+                    orderNumber: order.orderNumber,
+                    reference: reverseShipment?.trackingNumber ?? replacementOrder?.orderNumber ?? "—",
+                },
+            }));
+        }
+
+        return {
+            id: request.id,
+            type: request.type,
+            reviewedAt: review.reviewedAt,
+            replacementOrderId: replacementOrder?.id ?? null,
+            reverseShipment,
+        };
+    }
+
+    async rejectReturnRequest(me: any, id: string, dto: RejectReturnRequestDto) {
+        const adminId = tenantId(me);
+        if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+        const userId = me.id;
+
+        const returnRequest = await this.dataSource.transaction(async (manager) => {
+            const request = await this.findAwaitingRequest(manager, adminId, id);
+            const review = {
+                status: ReturnRequestStatus.REJECTED,
+                reviewedById: userId,
+                reviewedAt: new Date(),
+                reviewNote: dto.note?.trim() || null,
+            };
+            await manager.update(ReturnRequestEntity, { id: request.id }, review);
+
+            await this.ordersService.logOrderAction({
+                manager,
+                adminId,
+                userId,
+                orderId: request.orderId,
+                actionType: OrderActionType.RETURN,
+                result: OrderActionResult.FAILED,
+                details: await this.requestTranslations.tAsync("domains.orders.return.portal.request_rejected_log", adminId, {
+                    args: { orderNumber: request.order.orderNumber, note: review.reviewNote ?? "—" },
+                }),
+            });
+
+            return Object.assign(request, review);
+        });
+
+        if (dto.notifyCustomer) {
+            await this.notifyCustomer(returnRequest.order, await this.requestTranslations.tAsync("domains.orders.return.portal.whatsapp_rejected", adminId, {
+                args: {
+                    customerName: returnRequest.order.customerName,
+                    orderNumber: returnRequest.order.orderNumber,
+                    note: returnRequest.reviewNote ?? "",
+                },
+            }));
+        }
+
+        return { id: returnRequest.id, status: returnRequest.status, reviewedAt: returnRequest.reviewedAt };
+    }
+
+    // a failed WhatsApp message must not undo the review
+    private async notifyCustomer(order: OrderEntity, body: string) {
+        try {
+            await this.whatsappService.sendMessage(
+                { id: order.adminId, adminId: order.adminId },
+                {
+                    to: order.phoneNumber,
+                    messaging_product: "whatsapp",
+                    type: "text",
+                    text: { body },
+                },
+                undefined,
+                undefined,
+                undefined,
+                order.id,
+            );
+        } catch (error) {
+            this.logger.warn(`Return request WhatsApp notification failed for order ${order.id}: ${error?.message}`);
+        }
+    }
 }
@@ -0,0 +1,214 @@
+import { BadRequestException, Injectable, NotFoundException } from "@nestjs/common";
+import { InjectRepository } from "@nestjs/typeorm";
+import { RedisService } from "common/redis/RedisService";
+import { TranslationService } from "common/translation.service";
+import { DEFAULT_FRAUD_DETECTION_SETTINGS, FraudDetectionSettings, FraudRuleType } from "entities/clientSettings.entity";
+import { OrderEntity, OrderRiskLevel, OrderRiskReason, OrderStatus, PaymentMethod } from "entities/order.entity";
+import { FeatureType, SubscriptionStatus, UserFeature } from "entities/plans.entity";
+import { AccountingService } from "src/accounting/services/accounting.service";
+import { ClientSettingsService, mergeFraudDetectionSettings } from "src/client-settings/client-settings.service";
+import { EntityManager, Repository } from "typeorm";
+import { tenantId } from "src/category/category.service";
+
+export type OrderRiskInput = {
+    orderId?: string; // excluded from the customer history when re-scoring an existing order
+    normalizedPhoneNumber: string;
+    city?: string;
+    paymentMethod?: PaymentMethod;
+    finalTotal: number;
+    duplicateCount: number;
+};
+
+export type OrderRiskResult = {
+    riskScore: number;
+    riskLevel: OrderRiskLevel;
+    riskReasons: OrderRiskReason[];
+};
+
+type TenantRiskBaseline = {
+    averageCodTotal: number;
+    cityReturnRates: Record<string, { totalOrders: number; returnPercent: number }>;
+};
+
+// Cities with fewer orders than this are ignored, their return rate is just noise
+const MIN_CITY_SAMPLE = 10;
+const BASELINE_TTL_SECONDS = 60 * 60;
+const FEATURE_TTL_SECONDS = 5 * 60;
+
+@Injectable()
+export class OrderRiskService {
+    constructor(
+        @InjectRepository(OrderEntity)
+        private readonly orderRepo: Repository<OrderEntity>,
+        @InjectRepository(UserFeature)
+        private readonly userFeatureRepo: Repository<UserFeature>,
+        private readonly accountingService: AccountingService,
+        private readonly clientSettingsService: ClientSettingsService,
+        private readonly redisService: RedisService,
+        private readonly translations: TranslationService,
+    ) { }
+
+    /**
+     * Scores an order before it is saved. Returns null when the tenant does not own
+     * an active FRAUD_DETECTION feature, so callers can leave the risk columns empty.
+     */
+    async scoreOrder(manager: EntityManager, adminId: string, input: OrderRiskInput): Promise<OrderRiskResult | null> {
+        if (!(await this.isEnabled(adminId))) return null;
+
+        const settings = await this.getFraudSettings(adminId);
+        const { rules } = settings;
+        const reasons: OrderRiskReason[] = [];
+
+        const addReason = (rule: FraudRuleType, value: number, triggered: boolean) => {
+            const config = rules[rule];
+            if (!config?.enabled || !triggered) return;
+            reasons.push({ rule, points: config.weight, value, threshold: config.threshold });
+        };
+
+        // 1. Customer history (same phone number)
+        const history = await this.getCustomerHistory(manager, adminId, input.normalizedPhoneNumber, input.orderId);
+        const rejected = history[OrderStatus.REJECTED] ?? 0;
+        const returned = (history[OrderStatus.RETURNED] ?? 0) + (history[OrderStatus.PARTIALLY_RETURNED] ?? 0);
+        const wrongNumber = history[OrderStatus.WRONG_NUMBER] ?? 0;
+
+        addReason(FraudRuleType.REJECTED_HISTORY, rejected, rejected > 0 && rejected >= rules.rejected_history.threshold);
+        addReason(FraudRuleType.RETURNED_HISTORY, returned, returned > 0 && returned >= rules.returned_history.threshold);
+        addReason(FraudRuleType.WRONG_NUMBER_HISTORY, wrongNumber, wrongNumber > 0 && wrongNumber >= rules.wrong_number_history.threshold);
+
+        // 2. Duplicates inside the configured duplicate window
+        const duplicates = input.duplicateCount ?? 0;
+        addReason(FraudRuleType.DUPLICATE_ORDERS, duplicates, duplicates > 0 && duplicates >= rules.duplicate_orders.threshold);
+
+        // 3. Tenant baselines (COD average & city return rates)
+        const baseline = await this.getTenantBaseline(adminId);
+
+        if (input.paymentMethod === PaymentMethod.CASH_ON_DELIVERY && baseline.averageCodTotal > 0) {
+            const ratio = Number((Number(input.finalTotal || 0) / baseline.averageCodTotal).toFixed(2));
+            addReason(FraudRuleType.HIGH_COD_AMOUNT, ratio, ratio >= rules.high_cod_amount.threshold);
+        }
+
+        const city = baseline.cityReturnRates[input.city?.trim()];
+        if (city && city.totalOrders >= MIN_CITY_SAMPLE) {
+            addReason(FraudRuleType.CITY_RETURN_RATE, city.returnPercent, city.returnPercent >= rules.city_return_rate.threshold);
+        }
+
+        const riskScore = Math.min(100, reasons.reduce((sum, r) => sum + r.points, 0));
+
+        return {
+            riskScore,
+            riskLevel: this.resolveLevel(riskScore, settings),
+            riskReasons: reasons,
+        };
+    }
+
+    async getFraudSettings(adminId: string): Promise<FraudDetectionSettings> {
+        const settings = await this.clientSettingsService.getCachedSettings(adminId);
+        return mergeFraudDetectionSettings(settings?.fraudDetection ?? DEFAULT_FRAUD_DETECTION_SETTINGS);
+    }
+
+    async recalculate(me: any, orderId: string) {
+        const adminId = tenantId(me);
+
+        const order = await this.orderRepo.findOne({ where: { id: orderId, adminId } });
+        if (!order) {
+            throw new NotFoundException(this.translations.t('domains.orders.order_not_found', { args: { orderId } }));
+        }
+
+        const result = await this.scoreOrder(this.orderRepo.manager, adminId, {
+            orderId: order.id,
+            normalizedPhoneNumber: order.normalizedPhoneNumber,
+            city: order.city,
+            paymentMethod: order.paymentMethod,
+            finalTotal: Number(order.finalTotal),
+            duplicateCount: order.duplicateCount,
+        });
+
+        if (!result) {
+            throw new BadRequestException(this.translations.t('domains.orders.risk.feature_not_active'));
+        }
+
+        await this.orderRepo.update({ id: order.id, adminId }, { ...result, riskScoredAt: new Date() });
+
+        return { orderId: order.id, ...result };
+    }
+
+    private resolveLevel(score: number, settings: FraudDetectionSettings): OrderRiskLevel {
+        if (score >= settings.highRiskThreshold) return OrderRiskLevel.HIGH;
+        if (score >= settings.mediumRiskThreshold) return OrderRiskLevel.MEDIUM;
+        return OrderRiskLevel.LOW;
+    }
+
+    private async isEnabled(adminId: string): Promise<boolean> {
+        const cacheKey = `fraud_detection_enabled:${adminId}`;
+        const cached = await this.redisService.get<boolean>(cacheKey);
+        if (typeof cached === 'boolean') return cached;
+
+        const enabled = await this.userFeatureRepo.createQueryBuilder("uf")
+            .innerJoin("uf.feature", "feature")
+            .where("uf.userId = :adminId", { adminId })
+            .andWhere("uf.status = :status", { status: SubscriptionStatus.ACTIVE })
+            .andWhere("feature.type = :type", { type: FeatureType.FRAUD_DETECTION })
+            .getExists();
+
+        await this.redisService.set(cacheKey, enabled, FEATURE_TTL_SECONDS);
+        return enabled;
+    }
+
+    private async getCustomerHistory(
+        manager: EntityManager,
+        adminId: string,
+        normalizedPhoneNumber: string,
+        excludeOrderId?: string,
+    ): Promise<Record<string, number>> {
+        if (!normalizedPhoneNumber) return {};
+
+        const qb = manager.createQueryBuilder(OrderEntity, "order")
+            .innerJoin("order.status", "status")
+            .select("status.code", "code")
+            .addSelect("COUNT(order.id)", "count")
+            .where("order.adminId = :adminId", { adminId })
+            .andWhere("order.normalizedPhoneNumber = :normalizedPhoneNumber", { normalizedPhoneNumber })
+            .andWhere("status.code IN (:...codes)", {
+                codes: [OrderStatus.REJECTED, OrderStatus.RETURNED, OrderStatus.PARTIALLY_RETURNED, OrderStatus.WRONG_NUMBER],
+            })
+            .groupBy("status.code");
+
+        if (excludeOrderId) {
+            qb.andWhere("order.id != :excludeOrderId", { excludeOrderId });
+        }
+
+        const rows = await qb.getRawMany();
+        return rows.reduce((acc, row) => {
+            acc[row.code] = parseInt(row.count) || 0;
+            return acc;
+        }, {} as Record<string, number>);
+    }
+
+    private async getTenantBaseline(adminId: string): Promise<TenantRiskBaseline> {
+        const cacheKey = `fraud_detection_baseline:${adminId}`;
+        const cached = await this.redisService.get<TenantRiskBaseline>(cacheKey);
+        if (cached && typeof cached === 'object') return cached;
+
+        const since = new Date(Date.now() - 90 * 24 * 60 * 60 * 1000);
+
+        const avg = await this.orderRepo.createQueryBuilder("order")
+            .select("AVG(order.finalTotal)", "average")
+            .where("order.adminId = :adminId", { adminId })
+            .andWhere("order.paymentMethod = :method", { method: PaymentMethod.CASH_ON_DELIVERY })
+            .andWhere("order.created_at >= :since", { since })
+            .getRawOne();
+
+        const rates = await this.accountingService.getCityReturnRates(adminId, { startDate: since.toISOString() });
+
+        const baseline: TenantRiskBaseline = {
+            averageCodTotal: Number(avg?.average) || 0,
+            cityReturnRates: rates.reduce((acc, row) => {
+                if (row.city) acc[row.city.trim()] = { totalOrders: row.totalOrders, returnPercent: row.returnPercent };
+                return acc;
+            }, {} as TenantRiskBaseline['cityReturnRates']),
+        };
+
+        await this.redisService.set(cacheKey, baseline, BASELINE_TTL_SECONDS);
+        return baseline;
+    }
+}
@@ -0,0 +1,308 @@
+import { BadRequestException, Injectable, Logger, NotFoundException } from "@nestjs/common";
+import { Cron, CronExpression } from "@nestjs/schedule";
+import { InjectRepository } from "@nestjs/typeorm";
+import { Brackets, In, IsNull, Repository, SelectQueryBuilder } from "typeorm";
+import { RequestTranslationService, TranslationService } from "common/translation.service";
+import { DateFilterUtil } from "common/date-filter.util";
+import { OrderEntity, OrderStatusEntity } from "entities/order.entity";
+import { OrderAssignmentEntity } from "entities/assignment.entity";
+import { OrderSlaRuleEntity, OrderSlaTimerEntity } from "entities/order-sla.entity";
+import { NotificationType } from "entities/notifications.entity";
+import { CreateOrderSlaRuleDto, UpdateOrderSlaRuleDto } from "dto/order.dto";
+import { tenantId } from "src/category/category.service";
+import { ClientSettingsService } from "src/client-settings/client-settings.service";
+import { NotificationService } from "src/notifications/notification.service";
+import { addSlaMinutes } from "../utils/order-sla";
+
+const INSERT_CHUNK = 500;
+
+// a stay counts as breached once it ran past its due time, whether or not the cron flagged it yet
+const BREACHED_SQL = `COALESCE(t."resolvedAt", NOW()) > t."dueAt"`;
+const COMPLIANT_SQL = `t."resolvedAt" IS NOT NULL AND t."resolvedAt" <= t."dueAt"`;
+
+@Injectable()
+export class OrderSlaService {
+  private readonly logger = new Logger(OrderSlaService.name);
+
+  constructor(
+    @InjectRepository(OrderSlaRuleEntity)
+    private readonly ruleRepo: Repository<OrderSlaRuleEntity>,
+    @InjectRepository(OrderSlaTimerEntity)
+    private readonly timerRepo: Repository<OrderSlaTimerEntity>,
+    @InjectRepository(OrderEntity)
+    private readonly orderRepo: Repository<OrderEntity>,
+    @InjectRepository(OrderStatusEntity)
+    private readonly statusRepo: Repository<OrderStatusEntity>,
+    @InjectRepository(OrderAssignmentEntity)
+    private readonly assignmentRepo: Repository<OrderAssignmentEntity>,
+    private readonly clientSettingsService: ClientSettingsService,
+    private readonly notificationService: NotificationService,
+    private readonly translations: TranslationService,
+    private requestTranslations: RequestTranslationService,
+  ) { }
+
+  async listRules(me: any) {
+    const adminId = tenantId(me);
+    if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+
+    return this.ruleRepo.find({
+      where: { adminId },
+      relations: ["status"],
+      order: { created_at: "ASC" },
+    });
+  }
+
+  async createRule(me: any, dto: CreateOrderSlaRuleDto) {
+    const adminId = tenantId(me);
+    if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+
+    const status = await this.statusRepo.findOne({
+      where: [
+        { id: dto.statusId, system: true },
+        { id: dto.statusId, adminId },
+      ],
+    });
+    if (!status) throw new NotFoundException(this.translations.t("domains.orders.status_id_not_found", { args: { id: dto.statusId } }));
+
+    const exists = await this.ruleRepo.exist({ where: { adminId, statusId: dto.statusId } });
+    if (exists) throw new BadRequestException(this.translations.t("domains.orders.sla.rule_exists", { args: { status: status.name } }));
+
+    return this.ruleRepo.save(this.ruleRepo.create({ ...dto, adminId }));
+  }
+
+  async updateRule(me: any, id: string, dto: UpdateOrderSlaRuleDto) {
+    const adminId = tenantId(me);
+    if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+
+    const rule = await this.ruleRepo.findOne({ where: { id, adminId } });
+    if (!rule) throw new NotFoundException(this.translations.t("domains.orders.sla.rule_not_found"));
+
+    const retimed = (["maxMinutes", "atRiskPercent", "businessHoursOnly"] as const)
+      .some((key) => dto[key] !== undefined && dto[key] !== rule[key]);
+    const deactivated = dto.isActive === false && rule.isActive;
+
+    Object.assign(rule, dto);
+    const saved = await this.ruleRepo.save(rule);
+
+    if (deactivated) await this.closeTimers(rule.id);
+    // open stays are timed again with the new numbers on the next run
+    else if (retimed) await this.timerRepo.delete({ ruleId: rule.id, resolvedAt: IsNull(), breachedAt: IsNull() });
+
+    return saved;
+  }
+
+  async removeRule(me: any, id: string) {
+    const adminId = tenantId(me);
+    if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+
+    const rule = await this.ruleRepo.findOne({ where: { id, adminId } });
+    if (!rule) throw new NotFoundException(this.translations.t("domains.orders.sla.rule_not_found"));
+
+    await this.closeTimers(rule.id);
+    await this.ruleRepo.delete({ id });
+    return { id, deleted: true };
+  }
+
+  /**
+   * SLA compliance of the stays that started in the period, per status and per agent.
+   * Stays shorter than the cron interval are never timed, they would all be compliant.
+   */
+  async report(me: any, q?: any) {
+    const adminId = tenantId(me);
+    if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+
+    const base = () => {
+      const qb = this.timerRepo
+        .createQueryBuilder("t")
+        .where("t.adminId = :adminId", { adminId });
+
+      if (q?.statusId) qb.andWhere("t.statusId = :statusId", { statusId: q.statusId });
+      if (q?.employeeId) qb.andWhere("t.employeeId = :employeeId", { employeeId: q.employeeId });
+      DateFilterUtil.applyToQueryBuilder(qb, "t.enteredAt", q?.startDate, q?.endDate);
+      return qb;
+    };
+
+    // added after the dimension columns (select() resets the selection)
+    const withCounts = (qb: SelectQueryBuilder<OrderSlaTimerEntity>) =>
+      qb
+        .addSelect("COUNT(t.id)", "total")
+        .addSelect(`COUNT(t.id) FILTER (WHERE ${BREACHED_SQL})`, "breached")
+        .addSelect(`COUNT(t.id) FILTER (WHERE ${COMPLIANT_SQL})`, "compliant")
+        .addSelect(`COUNT(t.id) FILTER (WHERE t."resolvedAt" IS NULL AND t."dueAt" > NOW())`, "open")
+        .addSelect(`AVG(EXTRACT(EPOCH FROM (t."resolvedAt" - t."enteredAt")) / 60) FILTER (WHERE t."resolvedAt" IS NOT NULL)`, "avgMinutes");
+
+    const [byStatus, byAgent] = await Promise.all([
+      withCounts(
+        base()
+          .innerJoin("t.status", "status")
+          .select("status.id", "statusId")
+          .addSelect("status.name", "statusName")
+          .addSelect("status.code", "statusCode"),
+      )
+        .groupBy("status.id")
+        .orderBy("breached", "DESC")
+        .getRawMany(),
+      withCounts(
+        base()
+          .leftJoin("t.employee", "employee")
+          .select("t.employeeId", "employeeId")
+          .addSelect("employee.name", "employeeName"),
+      )
+        .groupBy("t.employeeId")
+        .addGroupBy("employee.name")
+        .orderBy("breached", "DESC")
+        .getRawMany(),
+    ]);
+
+    const present = (row: any) => {
+      const breached = Number(row.breached);
+      const compliant = Number(row.compliant);
+      return {
+        ...row,
+        total: Number(row.total),
+        breached,
+        compliant,
+        open: Number(row.open),
+        avgMinutes: row.avgMinutes === null ? null : Number(Number(row.avgMinutes).toFixed(1)),
+        compliance: breached + compliant ? Number(((compliant / (breached + compliant)) * 100).toFixed(2)) : null,
+      };
+    };
+
+    return { byStatus: byStatus.map(present), byAgent: byAgent.map(present) };
+  }
+
+  @Cron(CronExpression.EVERY_5_MINUTES)
+  async handleSlaTimers() {
+    try {
+      await this.resolveTimers();
+      await this.openTimers();
+      await this.flagBreaches();
+    } catch (error) {
+      this.logger.error(`SLA evaluation failed: ${error?.message}`, error?.stack);
+    }
+  }
+
+  // stays that ended: the order moved on, or left and came back (a new stay)
+  private async resolveTimers() {
+    await this.timerRepo
+      .createQueryBuilder()
+      .update(OrderSlaTimerEntity)
+      .set({ resolvedAt: () => "NOW()" })
+      .where(`"resolvedAt" IS NULL`)
+      .andWhere(new Brackets((qb) => {
+        qb.where(`NOT EXISTS (SELECT 1 FROM orders o WHERE o.id = order_sla_timers."orderId" AND o."statusId" = order_sla_timers."statusId")`)
+          .orWhere(`EXISTS (
+            SELECT 1 FROM order_status_history h
+            WHERE h."orderId" = order_sla_timers."orderId"
+              AND h."toStatusId" = order_sla_timers."statusId"
+              AND h.created_at > order_sla_timers."enteredAt"
+          )`);
+      }))
+      .execute();
+  }
+
+  private async openTimers() {
+    const rules = await this.ruleRepo.find({ where: { isActive: true } });
+
+    for (const rule of rules) {
+      const stays = await this.orderRepo
+        .createQueryBuilder("o")
+        .select("o.id", "orderId")
+        .addSelect(`COALESCE((
+          SELECT MAX(h.created_at) FROM order_status_history h
+          WHERE h."orderId" = o.id AND h."toStatusId" = o."statusId"
+        ), o.created_at)`, "enteredAt")
+        .where("o.adminId = :adminId", { adminId: rule.adminId })
+        .andWhere("o.statusId = :statusId", { statusId: rule.statusId })
+        .andWhere(`NOT EXISTS (
+          SELECT 1 FROM order_sla_timers t
+          WHERE t."orderId" = o.id AND t."statusId" = o."statusId" AND t."resolvedAt" IS NULL
+        )`)
+        .getRawMany();
+      if (!stays.length) continue;
+
+      const settings = await this.clientSettingsService.getCachedSettings(rule.adminId);
+      const hours = rule.businessHoursOnly ? settings?.workingHours : null;
+      const owners = await this.activeEmployees(stays.map((stay) => stay.orderId));
+
+      const timers = stays.map((stay) => {
+        const enteredAt = new Date(stay.enteredAt);
+        return {
+          adminId: rule.adminId,
+          orderId: stay.orderId,
+          ruleId: rule.id,
+          statusId: rule.statusId,
+          employeeId: owners.get(stay.orderId) ?? null,
+          enteredAt,
+          atRiskAt: addSlaMinutes(enteredAt, (rule.maxMinutes * rule.atRiskPercent) / 100, hours),
+          dueAt: addSlaMinutes(enteredAt, rule.maxMinutes, hours),
+        };
+      });
+
+      // a stay closed by a deactivated rule keeps its row, the unique key skips it
+      for (let i = 0; i < timers.length; i += INSERT_CHUNK) {
+        await this.timerRepo
+          .createQueryBuilder()
+          .insert()
+          .into(OrderSlaTimerEntity)
+          .values(timers.slice(i, i + INSERT_CHUNK))
+          .orIgnore()
+          .execute();
+      }
+    }
+  }
+
+  private async flagBreaches() {
+    const due = await this.timerRepo
+      .createQueryBuilder("t")
+      .innerJoin("t.order", "o")
+      .innerJoin("t.status", "status")
+      .leftJoin("t.rule", "rule")
+      .select(["t.id", "t.adminId", "t.orderId", "t.dueAt", "o.id", "o.orderNumber", "status.id", "status.name", "rule.id", "rule.created_at"])
+      .where(`t."resolvedAt" IS NULL`)
+      .andWhere(`t."breachedAt" IS NULL`)
+      .andWhere(`t."dueAt" <= NOW()`)
+      .getMany();
+    if (!due.length) return;
+
+    const owners = await this.activeEmployees(due.map((timer) => timer.orderId));
+
+    for (const timer of due) {
+      const employeeId = owners.get(timer.orderId) ?? null;
+      await this.timerRepo.update({ id: timer.id }, { breachedAt: new Date(), employeeId });
+
+      // orders already late when the rule was added are flagged without a notification burst
+      if (timer.rule && timer.dueAt < timer.rule.created_at) continue;
+
+      const args = { orderNumber: timer.order.orderNumber, status: timer.status.name };
+      const recipients = [...new Set([employeeId, timer.adminId].filter(Boolean))];
+      for (const userId of recipients) {
+        await this.notificationService.create({
+          userId,
+          type: NotificationType.ORDER_SLA_BREACHED,
+          title: await this.requestTranslations.tAsync("domains.orders.sla.breached_title", timer.adminId),
+          message: await this.requestTranslations.tAsync("domains.orders.sla.breached_message", timer.adminId, { args }),
+          relatedEntityType: "order",
+          relatedEntityId: timer.orderId,
+        });
+      }
+    }
+
+    this.logger.log(`Flagged ${due.length} order(s) past their SLA`);
+  }
+
+  private async closeTimers(ruleId: string) {
+    await this.timerRepo.delete({ ruleId, resolvedAt: IsNull(), breachedAt: IsNull() });
+    await this.timerRepo.update({ ruleId, resolvedAt: IsNull() }, { resolvedAt: new Date() });
+  }
+
+  private async activeEmployees(orderIds: string[]) {
+    if (!orderIds.length) return new Map<string, string>();
+
+    const assignments = await this.assignmentRepo.find({
+      where: { orderId: In(orderIds), isAssignmentActive: true },
+      select: ["orderId", "employeeId"],
+    });
+    return new Map(assignments.map((assignment) => [assignment.orderId, assignment.employeeId]));
+  }
+}
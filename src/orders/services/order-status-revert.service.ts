@@ -0,0 +1,378 @@
+import { BadRequestException, Injectable, NotFoundException } from "@nestjs/common";
+import { InjectRepository } from "@nestjs/typeorm";
+import { DataSource, EntityManager, In, MoreThanOrEqual, Repository } from "typeorm";
+import { RequestTranslationService, TranslationService } from "common/translation.service";
+import {
+  OrderActionType,
+  OrderEntity,
+  OrderItemEntity,
+  OrderStatus,
+  OrderStatusHistoryEntity,
+} from "entities/order.entity";
+import { OrderAssignmentEntity } from "entities/assignment.entity";
+import { ProductVariantEntity } from "entities/sku.entity";
+import { ShipmentEntity, ShipmentStatus, UnifiedShippingStatus } from "entities/shipping.entity";
+import { StockMovementEntity, StockMovementReason, StockMovementReference } from "entities/stock-movement.entity";
+import { WarehouseStockService } from "src/warehouse/warehouse-stock.service";
+import { StockMovementInput, StockMovementsService } from "src/stock-movements/stock-movements.service";
+import { LotsService } from "src/lots/lots.service";
+import { getEffectiveDeductedQuantity } from "../utils/stock-deduction";
+import { OrdersService, tenantId } from "./orders.service";
+
+// the parcel is still in the warehouse: nothing was handed to the courier yet
+const WAREHOUSE_SHIPMENT_STATUSES = [
+  ShipmentStatus.PENDING_ACTION,
+  ShipmentStatus.PREPARING,
+  ShipmentStatus.READY_TO_SHIP,
+  ShipmentStatus.CANCELLED,
+];
+
+// provider states that mean the courier already has the parcel
+const COURIER_SHIPMENT_STATUSES = [
+  UnifiedShippingStatus.PICKED_UP,
+  UnifiedShippingStatus.IN_TRANSIT,
+  UnifiedShippingStatus.DELIVERED,
+  UnifiedShippingStatus.RETURNED,
+  UnifiedShippingStatus.LOST,
+  UnifiedShippingStatus.DAMAGED,
+];
+
+// shipment step taken together with the order move: [status it moved to, status it goes back to]
+const SHIPMENT_STEP_BACK: Partial<Record<string, [ShipmentStatus, ShipmentStatus]>> = {
+  [OrderStatus.PRINTED]: [ShipmentStatus.PREPARING, ShipmentStatus.PENDING_ACTION],
+  [OrderStatus.READY]: [ShipmentStatus.READY_TO_SHIP, ShipmentStatus.PREPARING],
+};
+
+/**
+ * Undo of a status change: the order goes back to the status it came from and what the move did on the way
+ * (stock deduction, confirmation / shipping / rejection stamps, printed label, closed assignment) is put back.
+ * Only the latest move of an order can be undone, and not once the parcel is with the courier.
+ * The revert is itself a status change, so automations and the store sync see the order move back.
+ */
+@Injectable()
+export class OrderStatusRevertService {
+  constructor(
+    private dataSource: DataSource,
+    @InjectRepository(OrderStatusHistoryEntity)
+    private readonly historyRepo: Repository<OrderStatusHistoryEntity>,
+    private readonly ordersService: OrdersService,
+    private readonly warehouseStockService: WarehouseStockService,
+    private readonly stockMovementsService: StockMovementsService,
+    private readonly lotsService: LotsService,
+    private readonly translations: TranslationService,
+    private readonly requestTranslations: RequestTranslationService,
+  ) { }
+
+  async revert(me: any, orderId: string, historyId: string, ipAddress?: string) {
+    const adminId = tenantId(me);
+    if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+
+    const exists = await this.historyRepo.exist({ where: { id: historyId, orderId, adminId } });
+    if (!exists) throw new NotFoundException(this.translations.t("domains.orders.revert.entry_not_found"));
+
+    return this.dataSource.transaction((manager) => this.revertEntry(manager, me, adminId, historyId, ipAddress));
+  }
+
+  // one order of a bulk job revert: the move the source job made on it
+  async revertJobOrder(me: any, sourceJobId: string, orderId: string) {
+    const adminId = tenantId(me);
+    if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+
+    const entry = await this.historyRepo
+      .createQueryBuilder("h")
+      .where("h.adminId = :adminId AND h.orderId = :orderId", { adminId, orderId })
+      .andWhere("h.bulkJobId = :sourceJobId", { sourceJobId })
+      .andWhere("h.revertedAt IS NULL")
+      .andWhere("h.fromStatusId <> h.toStatusId")
+      .orderBy("h.created_at", "DESC")
+      .getOne();
+    if (!entry) throw new BadRequestException(this.translations.t("domains.orders.revert.nothing_to_revert"));
+
+    return this.dataSource.transaction((manager) => this.revertEntry(manager, me, adminId, entry.id));
+  }
+
+  // orders a bulk job moved whose move was not undone yet
+  async revertableJobOrderIds(adminId: string, jobId: string): Promise<string[]> {
+    const rows = await this.historyRepo
+      .createQueryBuilder("h")
+      .select("DISTINCT h.orderId", "orderId")
+      .where("h.adminId = :adminId", { adminId })
+      .andWhere("h.bulkJobId = :jobId", { jobId })
+      .andWhere("h.revertedAt IS NULL")
+      .andWhere("h.fromStatusId <> h.toStatusId")
+      .getRawMany();
+
+    return rows.map((r) => r.orderId as string);
+  }
+
+  private async revertEntry(manager: EntityManager, me: any, adminId: string, historyId: string, ipAddress?: string) {
+    const entry = await manager.findOne(OrderStatusHistoryEntity, {
+      where: { id: historyId, adminId },
+      relations: ["fromStatus", "toStatus"],
+    });
+    if (!entry) throw new NotFoundException(this.translations.t("domains.orders.revert.entry_not_found"));
+    if (entry.revertedAt) throw new BadRequestException(this.translations.t("domains.orders.revert.already_reverted"));
+    if (entry.revertOfId) throw new BadRequestException(this.translations.t("domains.orders.revert.revert_of_revert"));
+    if (entry.fromStatusId === entry.toStatusId) {
+      throw new BadRequestException(this.translations.t("domains.orders.revert.nothing_to_revert"));
+    }
+
+    const order = await manager
+      .getRepository(OrderEntity)
+      .createQueryBuilder("order")
+      .setLock("pessimistic_write")
+      .where("order.id = :id AND order.adminId = :adminId", { id: entry.orderId, adminId })
+      .getOne();
+    if (!order) throw new BadRequestException(this.translations.t("domains.orders.order_not_found"));
+
+    await this.ordersService.throwIfDelivered(order, this.translations.t("domains.orders.cannot_update_closed"));
+    if (order.mergedIntoOrderId) {
+      throw new BadRequestException(this.translations.t("domains.orders.merge.already_merged", { args: { orderNumber: order.orderNumber } }));
+    }
+
+    // anything that moved the order afterwards would be silently lost
+    const latest = await manager
+      .getRepository(OrderStatusHistoryEntity)
+      .createQueryBuilder("h")
+      .where("h.orderId = :orderId", { orderId: order.id })
+      .andWhere("h.fromStatusId <> h.toStatusId")
+      .orderBy("h.created_at", "DESC")
+      .getOne();
+    if (order.statusId !== entry.toStatusId || latest?.id !== entry.id) {
+      throw new BadRequestException(this.translations.t("domains.orders.revert.moved_since", { args: { orderNumber: order.orderNumber } }));
+    }
+
+    const shipments = await manager.find(ShipmentEntity, {
+      where: { orderId: order.id },
+      select: ["id", "status", "unifiedStatus"],
+    });
+    const handedOver = shipments.some(
+      (s) => !WAREHOUSE_SHIPMENT_STATUSES.includes(s.status) || COURIER_SHIPMENT_STATUSES.includes(s.unifiedStatus),
+    );
+    if (handedOver) {
+      throw new BadRequestException(this.translations.t("domains.orders.revert.shipment_picked_up", { args: { orderNumber: order.orderNumber } }));
+    }
+
+    const toCode = entry.toStatus?.code;
+    // stamps from an earlier visit to the same status stay
+    const reachedBefore = await this.reachedBefore(manager, entry);
+
+    const previous = await manager
+      .getRepository(OrderStatusHistoryEntity)
+      .createQueryBuilder("h")
+      .where("h.orderId = :orderId", { orderId: order.id })
+      .andWhere("h.toStatusId = :statusId", { statusId: entry.fromStatusId })
+      .andWhere("h.created_at < :at", { at: entry.created_at })
+      .orderBy("h.created_at", "DESC")
+      .getOne();
+
+    const patch: Partial<OrderEntity> = {
+      statusId: entry.fromStatusId,
+      reasonId: previous?.reasonId ?? null,
+      updatedByUserId: me?.id,
+    };
+    if (toCode === OrderStatus.CONFIRMED && !reachedBefore) {
+      patch.isConfirmed = false;
+      patch.confirmedAt = null;
+    }
+    if (toCode === OrderStatus.SHIPPED && !reachedBefore) patch.shippedAt = null;
+    if (toCode === OrderStatus.DELIVERED && !reachedBefore) patch.deliveredAt = null;
+    if (toCode === OrderStatus.PRINTED && !reachedBefore) patch.labelPrinted = null;
+    if (toCode === OrderStatus.REJECTED) {
+      patch.rejectReason = null;
+      patch.rejectedById = null;
+      patch.rejectedAt = null;
+    }
+    if (toCode === OrderStatus.POSTPONED) patch.postponedDate = null;
+
+    await manager.update(OrderEntity, { id: order.id }, patch);
+
+    const step = SHIPMENT_STEP_BACK[toCode];
+    const steppedShipmentIds = step ? shipments.filter((s) => s.status === step[0]).map((s) => s.id) : [];
+    if (steppedShipmentIds.length) {
+      await manager.update(ShipmentEntity, { id: In(steppedShipmentIds) }, { status: step[1] });
+    }
+
+    await this.restockDeduction(manager, adminId, order.id, entry, me?.id);
+    await this.reopenAssignment(manager, entry);
+
+    await manager.update(OrderStatusHistoryEntity, { id: entry.id }, {
+      revertedAt: new Date(),
+      revertedByUserId: me?.id ?? null,
+    });
+
+    await this.ordersService.logStatusChange({
+      adminId,
+      orderId: order.id,
+      fromStatusId: entry.toStatusId,
+      toStatusId: entry.fromStatusId,
+      userId: me?.id,
+      notes: this.translations.t("domains.orders.revert.history_note", { args: { statusName: entry.toStatus?.name } }),
+      reasonId: previous?.reasonId ?? null,
+      ipAddress,
+      revertOfId: entry.id,
+      manager,
+    });
+
+    await this.ordersService.logOrderAction({
+      manager,
+      adminId,
+      userId: me?.id,
+      orderId: order.id,
+      actionType: OrderActionType.STATUS_REVERTED,
+      details: await this.requestTranslations.tAsync("domains.orders.revert.log_details", adminId, {
+        args: { fromStatusName: entry.toStatus?.name, toStatusName: entry.fromStatus?.name },
+      }),
+    });
+
+    return {
+      orderId: order.id,
+      orderNumber: order.orderNumber,
+      statusId: entry.fromStatusId,
+      revertedHistoryId: entry.id,
+    };
+  }
+
+  private async reachedBefore(manager: EntityManager, entry: OrderStatusHistoryEntity) {
+    const count = await manager
+      .getRepository(OrderStatusHistoryEntity)
+      .createQueryBuilder("h")
+      .where("h.orderId = :orderId", { orderId: entry.orderId })
+      .andWhere("h.toStatusId = :statusId", { statusId: entry.toStatusId })
+      .andWhere("h.created_at < :at", { at: entry.created_at })
+      .andWhere("h.revertedAt IS NULL")
+      .getCount();
+    return count > 0;
+  }
+
+  /**
+   * Puts back the stock the move deducted. The ledger rows written with the move (same order reference, from the
+   * move on) tell what was taken from which warehouse; units already given back by an earlier revert are netted out.
+   */
+  private async restockDeduction(manager: EntityManager, adminId: string, orderId: string, entry: OrderStatusHistoryEntity, userId?: string) {
+    const rows = await manager
+      .getRepository(StockMovementEntity)
+      .createQueryBuilder("m")
+      .select("m.variantId", "variantId")
+      .addSelect("m.warehouseId", "warehouseId")
+      .addSelect(`SUM(m."stockOnHandDelta")::int`, "stockOnHand")
+      .addSelect(`SUM(m."reservedDelta")::int`, "reserved")
+      .where("m.referenceType = :type", { type: StockMovementReference.ORDER })
+      .andWhere("m.referenceId = :orderId", { orderId })
+      .andWhere("m.reason IN (:...reasons)", {
+        reasons: [StockMovementReason.ORDER_DEDUCTION, StockMovementReason.ORDER_DEDUCTION_REVERSAL],
+      })
+      .andWhere("m.created_at >= :at", { at: entry.created_at })
+      .groupBy("m.variantId")
+      .addGroupBy("m.warehouseId")
+      .getRawMany();
+
+    const taken = rows
+      .map((r) => ({
+        variantId: r.variantId as string,
+        warehouseId: (r.warehouseId as string) ?? null,
+        quantity: Math.max(0, -Number(r.stockOnHand || 0)),
+        reserved: Math.max(0, -Number(r.reserved || 0)),
+      }))
+      .filter((r) => r.quantity > 0 || r.reserved > 0);
+    if (!taken.length) return;
+
+    const movements: StockMovementInput[] = [];
+    const perVariant = new Map<string, number>();
+
+    for (const row of taken) {
+      await manager
+        .createQueryBuilder()
+        .update(ProductVariantEntity)
+        .set({
+          stockOnHand: () => `"stockOnHand" + ${row.quantity}`,
+          reserved: () => `"reserved" + ${row.reserved}`,
+        })
+        .where("id = :id", { id: row.variantId })
+        .execute();
+
+      if (row.warehouseId) {
+        await this.warehouseStockService.increase(manager, {
+          adminId,
+          variantId: row.variantId,
+          warehouseId: row.warehouseId,
+          quantity: row.quantity,
+        });
+      }
+
+      perVariant.set(row.variantId, (perVariant.get(row.variantId) || 0) + row.quantity);
+      movements.push({
+        adminId,
+        variantId: row.variantId,
+        reason: StockMovementReason.ORDER_DEDUCTION_REVERSAL,
+        stockOnHandDelta: row.quantity,
+        reservedDelta: row.reserved,
+        warehouseId: row.warehouseId,
+        referenceType: StockMovementReference.ORDER,
+        referenceId: orderId,
+        userId: userId ?? null,
+      });
+    }
+
+    // record() values the reversals at the cost the units left with, which comes back out of the lines' cost
+    await this.stockMovementsService.record(manager, movements);
+    const returnedCost = new Map<string, { value: number; quantity: number }>();
+    for (const movement of movements) {
+      if (movement.unitCost == null || !movement.stockOnHandDelta) continue;
+      const current = returnedCost.get(movement.variantId) ?? { value: 0, quantity: 0 };
+      current.value += Number(movement.unitCost) * movement.stockOnHandDelta;
+      current.quantity += movement.stockOnHandDelta;
+      returnedCost.set(movement.variantId, current);
+    }
+
+    // the lines count as not deducted again, so the next move into a deducting status takes the stock anew
+    const items = await manager.find(OrderItemEntity, { where: { orderId, variantId: In([...perVariant.keys()]) } });
+    for (const item of items) {
+      const remaining = perVariant.get(item.variantId) || 0;
+      const back = Math.min(getEffectiveDeductedQuantity(item), remaining);
+      if (back <= 0) continue;
+      perVariant.set(item.variantId, remaining - back);
+
+      await manager
+        .createQueryBuilder()
+        .update(OrderItemEntity)
+        .set({
+          stockDeducted: () => `(COALESCE(NULLIF("stockDeductedQuantity", 0), "quantity") - ${back}) > 0`,
+          stockDeductedQuantity: () => `GREATEST(0, COALESCE(NULLIF("stockDeductedQuantity", 0), "quantity") - ${back})`,
+        })
+        .where("id = :id", { id: item.id })
+        .execute();
+
+      const cost = returnedCost.get(item.variantId);
+      await this.ordersService.unstampItemCost(manager, item.id, back, cost?.quantity ? cost.value / cost.quantity : null);
+      await this.lotsService.restock(manager, { adminId, orderItemId: item.id, variantId: item.variantId, quantity: back });
+    }
+  }
+
+  // a confirmation-team move closes the employee's assignment; undoing it hands the order back to them
+  private async reopenAssignment(manager: EntityManager, entry: OrderStatusHistoryEntity) {
+    if (!entry.changedByUserId) return;
+
+    const active = await manager.getRepository(OrderAssignmentEntity).exist({ where: { orderId: entry.orderId, isAssignmentActive: true } });
+    if (active) return;
+
+    const closed = await manager.findOne(OrderAssignmentEntity, {
+      where: {
+        orderId: entry.orderId,
+        employeeId: entry.changedByUserId,
+        isAssignmentActive: false,
+        lastStatusId: entry.toStatusId,
+        finishedAt: MoreThanOrEqual(entry.created_at),
+      },
+      order: { finishedAt: "DESC" },
+    });
+    if (!closed) return;
+
+    await manager.update(OrderAssignmentEntity, { id: closed.id }, {
+      isAssignmentActive: true,
+      finishedAt: null,
+      lockedUntil: null,
+      lastStatusId: entry.fromStatusId,
+    });
+  }
+}
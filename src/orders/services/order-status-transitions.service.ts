@@ -0,0 +1,261 @@
+import { BadRequestException, ForbiddenException, Injectable, NotFoundException } from "@nestjs/common";
+import { InjectRepository } from "@nestjs/typeorm";
+import { DataSource, EntityManager, In, Repository } from "typeorm";
+import { TranslationService } from "common/translation.service";
+import { OrderEntity, OrderStatusEntity } from "entities/order.entity";
+import { OrderStatusTransitionEntity, TransitionRequiredField } from "entities/order-status-transition.entity";
+import { Role, SystemRole } from "entities/user.entity";
+import { SaveStatusTransitionsDto } from "dto/order.dto";
+import { tenantId } from "src/category/category.service";
+
+// values supplied with a status change, checked against the edge's required fields
+export type TransitionInput = Partial<Record<TransitionRequiredField, string | Date | null>>;
+
+const hasValue = (value: unknown) => value != null && String(value).trim() !== "";
+
+@Injectable()
+export class OrderStatusTransitionsService {
+  constructor(
+    @InjectRepository(OrderStatusTransitionEntity)
+    private transitionRepo: Repository<OrderStatusTransitionEntity>,
+    @InjectRepository(OrderStatusEntity)
+    private statusRepo: Repository<OrderStatusEntity>,
+    @InjectRepository(OrderEntity)
+    private orderRepo: Repository<OrderEntity>,
+    private dataSource: DataSource,
+    private readonly translations: TranslationService,
+  ) { }
+
+  async list(me: any) {
+    const adminId = tenantId(me);
+    if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+
+    const transitions = await this.transitionRepo.find({
+      where: { adminId },
+      relations: ["fromStatus", "toStatus"],
+      order: { created_at: "ASC" },
+    });
+
+    return { restricted: transitions.length > 0, transitions };
+  }
+
+  async save(me: any, dto: SaveStatusTransitionsDto) {
+    const adminId = tenantId(me);
+    if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+
+    const items = dto.transitions ?? [];
+    const pairs = new Set<string>();
+    for (const item of items) {
+      if (item.fromStatusId === item.toStatusId) {
+        throw new BadRequestException(this.translations.t("domains.orders.transitions.same_status"));
+      }
+      const key = `${item.fromStatusId}:${item.toStatusId}`;
+      if (pairs.has(key)) {
+        throw new BadRequestException(this.translations.t("domains.orders.transitions.duplicate"));
+      }
+      pairs.add(key);
+    }
+
+    const statusIds = [...new Set(items.flatMap((i) => [i.fromStatusId, i.toStatusId]))];
+    if (statusIds.length) {
+      const statuses = await this.statusRepo.find({
+        where: [
+          { id: In(statusIds), system: true },
+          { id: In(statusIds), adminId },
+        ],
+        select: ["id"],
+      });
+      const found = new Set(statuses.map((s) => s.id));
+      const missing = statusIds.find((id) => !found.has(id));
+      if (missing) {
+        throw new NotFoundException(this.translations.t("domains.orders.status_id_not_found", { args: { id: missing } }));
+      }
+    }
+
+    const roleIds = [...new Set(items.flatMap((i) => i.allowedRoleIds ?? []))];
+    if (roleIds.length) {
+      const roles = await this.dataSource.getRepository(Role).find({
+        where: [
+          { id: In(roleIds), adminId },
+          { id: In(roleIds), isGlobal: true },
+        ],
+        select: ["id"],
+      });
+      const found = new Set(roles.map((r) => r.id));
+      const missing = roleIds.find((id) => !found.has(id));
+      if (missing) {
+        throw new NotFoundException(this.translations.t("domains.orders.transitions.role_not_found", { args: { id: missing } }));
+      }
+    }
+
+    await this.dataSource.transaction(async (manager) => {
+      await manager.delete(OrderStatusTransitionEntity, { adminId });
+      if (!items.length) return;
+
+      await manager.insert(
+        OrderStatusTransitionEntity,
+        items.map((item) => ({
+          adminId,
+          fromStatusId: item.fromStatusId,
+          toStatusId: item.toStatusId,
+          requiredFields: [...new Set(item.requiredFields ?? [])],
+          allowedRoleIds: [...new Set(item.allowedRoleIds ?? [])],
+        })),
+      );
+    });
+
+    return this.list(me);
+  }
+
+  /** Statuses the current user may move the order to, with the fields each move requires. */
+  async allowedNext(me: any, orderId: string) {
+    const adminId = tenantId(me);
+    if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+
+    const order = await this.orderRepo.findOne({
+      where: { id: orderId, adminId },
+      relations: ["status"],
+      select: { id: true, statusId: true, status: { id: true, code: true, name: true, color: true } },
+    });
+    if (!order) throw new NotFoundException(this.translations.t("domains.orders.order_not_found"));
+
+    const restricted = await this.isRestricted(this.dataSource.manager, adminId);
+
+    let statuses: Array<OrderStatusEntity & { requiredFields: TransitionRequiredField[] }>;
+    if (restricted) {
+      const edges = await this.transitionRepo.find({
+        where: { adminId, fromStatusId: order.statusId },
+        relations: ["toStatus"],
+      });
+      statuses = edges
+        .filter((edge) => edge.toStatus?.isActive && this.actorAllowed(me, edge))
+        .map((edge) => Object.assign(edge.toStatus, { requiredFields: edge.requiredFields ?? [] }));
+    } else {
+      const all = await this.statusRepo.find({
+        where: [
+          { system: true, isActive: true },
+          { adminId, isActive: true },
+        ],
+      });
+      statuses = all
+        .filter((status) => status.id !== order.statusId)
+        .map((status) => Object.assign(status, { requiredFields: [] }));
+    }
+
+    statuses.sort((a, b) => (a.sortOrder ?? 0) - (b.sortOrder ?? 0));
+
+    return {
+      orderId: order.id,
+      currentStatus: order.status,
+      restricted,
+      statuses,
+    };
+  }
+
+  /**
+   * Throws unless the tenant's graph lets this user move an order from `fromStatusId` to `toStatusId`
+   * and `input` carries every field the edge requires. Tenants without a graph are not restricted.
+   */
+  async assertTransition(
+    manager: EntityManager,
+    me: any,
+    adminId: string,
+    fromStatusId: string | null | undefined,
+    toStatusId: string,
+    input: TransitionInput = {},
+  ) {
+    if (!fromStatusId || fromStatusId === toStatusId) return;
+    if (!(await this.isRestricted(manager, adminId))) return;
+
+    const edge = await manager.findOne(OrderStatusTransitionEntity, {
+      where: { adminId, fromStatusId, toStatusId },
+    });
+    this.checkEdge(me, edge, input, await this.statusNames(manager, [fromStatusId, toStatusId]), fromStatusId, toStatusId);
+  }
+
+  /**
+   * Bulk variant: validates every order before anything is written and reports all failures at once,
+   * the same way the bulk shipping update does.
+   */
+  async assertTransitions(
+    manager: EntityManager,
+    me: any,
+    adminId: string,
+    orders: Array<{ id: string; orderNumber?: string; statusId: string }>,
+    toStatusId: string,
+    input: TransitionInput = {},
+  ) {
+    const moving = orders.filter((o) => o.statusId && o.statusId !== toStatusId);
+    if (!moving.length || !(await this.isRestricted(manager, adminId))) return;
+
+    const edges = await manager.find(OrderStatusTransitionEntity, {
+      where: { adminId, toStatusId, fromStatusId: In([...new Set(moving.map((o) => o.statusId))]) },
+    });
+    const edgeByFrom = new Map(edges.map((e) => [e.fromStatusId, e]));
+    const names = await this.statusNames(manager, [toStatusId, ...moving.map((o) => o.statusId)]);
+
+    const errors: Array<{ id: string; orderNumber?: string; reason: string }> = [];
+    for (const order of moving) {
+      try {
+        this.checkEdge(me, edgeByFrom.get(order.statusId), input, names, order.statusId, toStatusId);
+      } catch (err) {
+        errors.push({ id: order.id, orderNumber: order.orderNumber, reason: err.message });
+      }
+    }
+
+    if (errors.length) {
+      throw new BadRequestException({
+        message: this.translations.t("domains.orders.transitions.bulk_not_allowed"),
+        errors,
+      });
+    }
+  }
+
+  private checkEdge(
+    me: any,
+    edge: OrderStatusTransitionEntity | null | undefined,
+    input: TransitionInput,
+    names: Map<string, string>,
+    fromStatusId: string,
+    toStatusId: string,
+  ) {
+    const args = { from: names.get(fromStatusId) ?? fromStatusId, to: names.get(toStatusId) ?? toStatusId };
+
+    if (!edge) {
+      throw new BadRequestException(this.translations.t("domains.orders.transitions.not_allowed", { args }));
+    }
+
+    if (!this.actorAllowed(me, edge)) {
+      throw new ForbiddenException(this.translations.t("domains.orders.transitions.role_not_allowed", { args }));
+    }
+
+    const missing = (edge.requiredFields ?? []).filter((field) => !hasValue(input[field]));
+    if (missing.length) {
+      throw new BadRequestException(
+        this.translations.t("domains.orders.transitions.missing_fields", { args: { ...args, fields: missing.join(", ") } }),
+      );
+    }
+  }
+
+  // system actors (automation, integrations) carry no role, and the tenant owner is never locked out
+  private actorAllowed(me: any, edge: OrderStatusTransitionEntity) {
+    if (!edge.allowedRoleIds?.length) return true;
+
+    const role = me?.role;
+    if (!role || role.name === SystemRole.ADMIN) return true;
+
+    return edge.allowedRoleIds.includes(role.id ?? me.roleId);
+  }
+
+  private async isRestricted(manager: EntityManager, adminId: string) {
+    return manager.getRepository(OrderStatusTransitionEntity).exist({ where: { adminId } });
+  }
+
+  private async statusNames(manager: EntityManager, ids: string[]) {
+    const statuses = await manager.find(OrderStatusEntity, {
+      where: { id: In([...new Set(ids)]) },
+      select: ["id", "name"],
+    });
+    return new Map(statuses.map((s) => [s.id, s.name]));
+  }
+}
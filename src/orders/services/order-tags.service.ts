@@ -0,0 +1,212 @@
+import { BadRequestException, Injectable, NotFoundException } from "@nestjs/common";
+import { InjectRepository } from "@nestjs/typeorm";
+import { EntityManager, In, Repository } from "typeorm";
+import { TranslationService } from "common/translation.service";
+import { OrderEntity } from "entities/order.entity";
+import { OrderTagEntity } from "entities/order-tag.entity";
+import { BulkOrderTagsDto, CreateOrderTagDto, SetOrderTagsDto, UpdateOrderTagDto } from "dto/order.dto";
+import { tenantId } from "src/category/category.service";
+
+const LINK_TABLE = "order_tag_links";
+
+@Injectable()
+export class OrderTagsService {
+  constructor(
+    @InjectRepository(OrderTagEntity)
+    private readonly tagRepo: Repository<OrderTagEntity>,
+    @InjectRepository(OrderEntity)
+    private readonly orderRepo: Repository<OrderEntity>,
+    private readonly translations: TranslationService,
+  ) { }
+
+  async list(me: any, q?: { search?: string }) {
+    const adminId = tenantId(me);
+    if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+
+    const qb = this.tagRepo
+      .createQueryBuilder("tag")
+      .where("tag.adminId = :adminId", { adminId })
+      .orderBy("tag.name", "ASC");
+
+    const search = String(q?.search ?? "").trim();
+    if (search) qb.andWhere("tag.name ILIKE :s", { s: `%${search}%` });
+
+    const tags = await qb.getMany();
+    if (!tags.length) return [];
+
+    const counts = await this.tagRepo.manager
+      .createQueryBuilder()
+      .select(`l."tagId"`, "tagId")
+      .addSelect("COUNT(*)", "count")
+      .from(LINK_TABLE, "l")
+      .where(`l."tagId" IN (:...ids)`, { ids: tags.map((t) => t.id) })
+      .groupBy(`l."tagId"`)
+      .getRawMany();
+    const countById = new Map(counts.map((row) => [row.tagId, Number(row.count)]));
+
+    return tags.map((tag) => ({ ...tag, ordersCount: countById.get(tag.id) ?? 0 }));
+  }
+
+  async create(me: any, dto: CreateOrderTagDto) {
+    const adminId = tenantId(me);
+    if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+
+    const name = dto.name.trim();
+    await this.assertNameFree(adminId, name);
+
+    return this.tagRepo.save(
+      this.tagRepo.create({
+        adminId,
+        name,
+        color: dto.color,
+        aliases: this.cleanAliases(dto.aliases),
+      }),
+    );
+  }
+
+  async update(me: any, id: string, dto: UpdateOrderTagDto) {
+    const adminId = tenantId(me);
+    if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+
+    const tag = await this.tagRepo.findOne({ where: { id, adminId } });
+    if (!tag) throw new NotFoundException(this.translations.t("domains.orders.tags.not_found"));
+
+    if (dto.name !== undefined) {
+      const name = dto.name.trim();
+      if (name.toLowerCase() !== tag.name.toLowerCase()) await this.assertNameFree(adminId, name, tag.id);
+      tag.name = name;
+    }
+    if (dto.color !== undefined) tag.color = dto.color;
+    if (dto.aliases !== undefined) tag.aliases = this.cleanAliases(dto.aliases);
+
+    return this.tagRepo.save(tag);
+  }
+
+  // the links go with the tag (cascade on the join table)
+  async remove(me: any, id: string) {
+    const adminId = tenantId(me);
+    if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+
+    const tag = await this.tagRepo.findOne({ where: { id, adminId } });
+    if (!tag) throw new NotFoundException(this.translations.t("domains.orders.tags.not_found"));
+
+    await this.tagRepo.delete({ id });
+    return { id, deleted: true };
+  }
+
+  /** Replaces the tags of one order. */
+  async setOrderTags(me: any, orderId: string, dto: SetOrderTagsDto) {
+    const adminId = tenantId(me);
+    if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+
+    const tagIds = [...new Set(dto.tagIds)];
+
+    return this.orderRepo.manager.transaction(async (manager) => {
+      await this.assertOrders(manager, adminId, [orderId]);
+      await this.assertTags(manager, adminId, tagIds);
+
+      const remove = await manager
+        .createQueryBuilder()
+        .select(`l."tagId"`, "tagId")
+        .from(LINK_TABLE, "l")
+        .where(`l."orderId" = :orderId`, { orderId })
+        .getRawMany()
+        .then((rows) => rows.map((row) => row.tagId).filter((id) => !tagIds.includes(id)));
+
+      await this.link(manager, [orderId], tagIds, remove);
+
+      if (!tagIds.length) return [];
+      return manager.find(OrderTagEntity, { where: { adminId, id: In(tagIds) }, order: { name: "ASC" } });
+    });
+  }
+
+  async bulkUpdate(me: any, dto: BulkOrderTagsDto) {
+    const adminId = tenantId(me);
+    if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+
+    return this.orderRepo.manager.transaction((manager) =>
+      this.updateOrderTags(manager, adminId, dto.orderIds, dto.addTagIds, dto.removeTagIds),
+    );
+  }
+
+  /** Adds / removes tags on tenant orders; shared by the bulk endpoint and the automation action. */
+  async updateOrderTags(manager: EntityManager, adminId: string, orderIds: string[], addTagIds: string[] = [], removeTagIds: string[] = []) {
+    const ids = [...new Set(orderIds)];
+    const add = [...new Set(addTagIds)];
+    const remove = [...new Set(removeTagIds)].filter((id) => !add.includes(id));
+    if (!add.length && !remove.length) throw new BadRequestException(this.translations.t("domains.orders.tags.nothing_to_update"));
+
+    await this.assertOrders(manager, adminId, ids);
+    await this.assertTags(manager, adminId, [...add, ...remove]);
+    await this.link(manager, ids, add, remove);
+
+    return { updated: ids.length, added: add, removed: remove };
+  }
+
+  /**
+   * Tags a store order with the tenant tags whose name or alias matches the store's tags.
+   * Store tags the tenant did not define are ignored.
+   */
+  async applyStoreTags(manager: EntityManager, adminId: string, orderId: string, storeTags?: string[]) {
+    const wanted = new Set((storeTags ?? []).map((t) => String(t).trim().toLowerCase()).filter(Boolean));
+    if (!wanted.size) return [];
+
+    const tags = await manager.find(OrderTagEntity, { where: { adminId } });
+    const matched = tags.filter((tag) =>
+      [tag.name, ...(tag.aliases ?? [])].some((name) => wanted.has(name.trim().toLowerCase())),
+    );
+
+    await this.link(manager, [orderId], matched.map((tag) => tag.id), []);
+    return matched;
+  }
+
+  private async link(manager: EntityManager, orderIds: string[], add: string[], remove: string[]) {
+    if (!orderIds.length) return;
+
+    if (add.length) {
+      await manager
+        .createQueryBuilder()
+        .insert()
+        .into(LINK_TABLE, ["orderId", "tagId"])
+        .values(orderIds.flatMap((orderId) => add.map((tagId) => ({ orderId, tagId }))))
+        .orIgnore()
+        .execute();
+    }
+
+    if (remove.length) {
+      await manager
+        .createQueryBuilder()
+        .delete()
+        .from(LINK_TABLE)
+        .where(`"orderId" IN (:...orderIds)`, { orderIds })
+        .andWhere(`"tagId" IN (:...remove)`, { remove })
+        .execute();
+    }
+  }
+
+  private async assertOrders(manager: EntityManager, adminId: string, orderIds: string[]) {
+    const found = await manager.count(OrderEntity, { where: { id: In(orderIds), adminId } });
+    if (found !== orderIds.length) throw new NotFoundException(this.translations.t("domains.orders.order_not_found"));
+  }
+
+  private async assertTags(manager: EntityManager, adminId: string, tagIds: string[]) {
+    if (!tagIds.length) return;
+    const found = await manager.count(OrderTagEntity, { where: { id: In(tagIds), adminId } });
+    if (found !== new Set(tagIds).size) throw new NotFoundException(this.translations.t("domains.orders.tags.not_found"));
+  }
+
+  private async assertNameFree(adminId: string, name: string, exceptId?: string) {
+    const qb = this.tagRepo
+      .createQueryBuilder("tag")
+      .where("tag.adminId = :adminId", { adminId })
+      .andWhere("LOWER(tag.name) = LOWER(:name)", { name });
+    if (exceptId) qb.andWhere("tag.id != :exceptId", { exceptId });
+
+    const exists = await qb.getExists();
+    if (exists) throw new BadRequestException(this.translations.t("domains.orders.tags.name_exists", { args: { name } }));
+  }
+
+  private cleanAliases(aliases?: string[]) {
+    return [...new Set((aliases ?? []).map((a) => a.trim()).filter(Boolean))];
+  }
+}
@@ -0,0 +1,171 @@
+import { BadRequestException, Injectable, NotFoundException, OnModuleInit } from "@nestjs/common";
+import { InjectRepository } from "@nestjs/typeorm";
+import { In, IsNull, Not, Repository } from "typeorm";
+import { I18nKey, TranslationService } from "common/translation.service";
+import { OrderEntity, OrderStatus, OrderStatusHistoryEntity } from "entities/order.entity";
+import { ShipmentEntity, ShipmentEventEntity, UnifiedShippingStatus } from "entities/shipping.entity";
+import { ClientSettingsService } from "src/client-settings/client-settings.service";
+import { tenantId } from "src/category/category.service";
+import { assertTrackingSecret, buildTrackingUrl, verifyTrackingToken } from "../utils/tracking-link";
+
+// what the customer sees instead of the tenant's internal order statuses
+export enum TrackingStage {
+  RECEIVED = "received",
+  POSTPONED = "postponed",
+  CONFIRMED = "confirmed",
+  PREPARING = "preparing",
+  SHIPPED = "shipped",
+  DELIVERED = "delivered",
+  DELIVERY_FAILED = "delivery_failed",
+  CANCELLED = "cancelled",
+  RETURNED = "returned",
+  PROCESSING = "processing",
+}
+
+const STAGE_BY_STATUS: Record<string, TrackingStage> = {
+  [OrderStatus.NEW]: TrackingStage.RECEIVED,
+  [OrderStatus.UNDER_REVIEW]: TrackingStage.RECEIVED,
+  [OrderStatus.NO_ANSWER]: TrackingStage.RECEIVED,
+  [OrderStatus.NO_ANSWER_FOLLOW_UP]: TrackingStage.RECEIVED,
+  [OrderStatus.WRONG_NUMBER]: TrackingStage.RECEIVED,
+  [OrderStatus.DUPLICATE]: TrackingStage.RECEIVED,
+  [OrderStatus.OUT_OF_DELIVERY_AREA]: TrackingStage.RECEIVED,
+  [OrderStatus.POSTPONED]: TrackingStage.POSTPONED,
+  [OrderStatus.CONFIRMED]: TrackingStage.CONFIRMED,
+  [OrderStatus.DISTRIBUTED]: TrackingStage.PREPARING,
+  [OrderStatus.PRINTED]: TrackingStage.PREPARING,
+  [OrderStatus.PREPARING]: TrackingStage.PREPARING,
+  [OrderStatus.READY]: TrackingStage.PREPARING,
+  [OrderStatus.SHIPPED]: TrackingStage.SHIPPED,
+  [OrderStatus.DELIVERED]: TrackingStage.DELIVERED,
+  [OrderStatus.FAILED_DELIVERY]: TrackingStage.DELIVERY_FAILED,
+  [OrderStatus.REJECTED]: TrackingStage.CANCELLED,
+  [OrderStatus.CANCELLED]: TrackingStage.CANCELLED,
+  [OrderStatus.CANCELLED_FOLLOW_UP]: TrackingStage.CANCELLED,
+  [OrderStatus.RETURN_PREPARING]: TrackingStage.RETURNED,
+  [OrderStatus.RETURNED]: TrackingStage.RETURNED,
+  [OrderStatus.PARTIALLY_RETURNED]: TrackingStage.RETURNED,
+};
+
+const CLOSED_STAGES = [TrackingStage.CANCELLED, TrackingStage.RETURNED, TrackingStage.DELIVERED];
+
+const DEFAULT_EXPECTED_DELIVERY_DAYS = 3;
+
+@Injectable()
+export class OrderTrackingService implements OnModuleInit {
+  constructor(
+    @InjectRepository(OrderEntity)
+    private readonly orderRepo: Repository<OrderEntity>,
+    @InjectRepository(OrderStatusHistoryEntity)
+    private readonly historyRepo: Repository<OrderStatusHistoryEntity>,
+    private readonly clientSettingsService: ClientSettingsService,
+    private readonly translations: TranslationService,
+  ) { }
+
+  onModuleInit() {
+    assertTrackingSecret();
+  }
+
+  async getTrackingLink(me: any, orderId: string) {
+    const adminId = tenantId(me);
+    if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+
+    const exists = await this.orderRepo.exist({ where: { id: orderId, adminId } });
+    if (!exists) throw new NotFoundException(this.translations.t("domains.orders.order_not_found"));
+
+    return buildTrackingUrl(orderId);
+  }
+
+  /** Customer-facing view of an order, resolved from a signed tracking token (no authentication). */
+  async getPublicTracking(token: string) {
+    const orderId = verifyTrackingToken(token);
+    if (!orderId) throw new NotFoundException(this.translations.t("domains.orders.tracking.link_invalid"));
+
+    const order = await this.orderRepo.findOne({
+      where: { id: orderId },
+      relations: ["status", "shippingCompany", "store"],
+    });
+    if (!order) throw new NotFoundException(this.translations.t("domains.orders.tracking.link_invalid"));
+
+    const [history, shipments] = await Promise.all([
+      this.historyRepo.find({
+        where: { orderId: order.id, adminId: order.adminId },
+        relations: ["toStatus"],
+        order: { created_at: "ASC" },
+      }),
+      this.orderRepo.manager.find(ShipmentEntity, {
+        where: { orderId: order.id, adminId: order.adminId },
+        order: { created_at: "ASC" },
+      }),
+    ]);
+
+    const events = shipments.length
+      ? await this.orderRepo.manager.find(ShipmentEventEntity, {
+        where: { shipmentId: In(shipments.map((s) => s.id)), unifiedStatus: Not(IsNull()) },
+        order: { created_at: "ASC" },
+      })
+      : [];
+
+    const timeline: Array<{ type: "order" | "shipment"; code: string; label: string; trackingNumber?: string | null; at: Date }> = [];
+
+    let lastStage: TrackingStage | null = null;
+    for (const entry of history) {
+      const stage = this.stageOf(entry.toStatus?.code);
+      if (stage === lastStage) continue;
+      lastStage = stage;
+      timeline.push({ type: "order", code: stage, label: this.stageLabel(stage), at: entry.created_at });
+    }
+    if (!timeline.length) {
+      timeline.push({ type: "order", code: TrackingStage.RECEIVED, label: this.stageLabel(TrackingStage.RECEIVED), at: order.created_at });
+    }
+
+    const trackingById = new Map(shipments.map((s) => [s.id, s.trackingNumber ?? null]));
+    for (const event of events) {
+      timeline.push({
+        type: "shipment",
+        code: event.unifiedStatus,
+        label: this.shipmentStatusLabel(event.unifiedStatus),
+        trackingNumber: trackingById.get(event.shipmentId) ?? null,
+        at: event.created_at,
+      });
+    }
+    timeline.sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime());
+
+    const stage = this.stageOf(order.status?.code);
+    const settings = await this.clientSettingsService.getCachedSettings(order.adminId);
+    const expectedDays = settings?.expectedDeliveryDays ?? DEFAULT_EXPECTED_DELIVERY_DAYS;
+    const expectedDelivery = order.shippedAt && !CLOSED_STAGES.includes(stage)
+      ? new Date(new Date(order.shippedAt).getTime() + expectedDays * 24 * 60 * 60 * 1000)
+      : null;
+
+    return {
+      orderNumber: order.orderNumber,
+      storeName: order.store?.name ?? null,
+      placedAt: order.created_at,
+      status: { code: stage, label: this.stageLabel(stage) },
+      carrier: order.shippingCompany?.name ?? null,
+      trackingNumber: order.trackingNumber ?? null,
+      expectedDelivery,
+      deliveredAt: order.deliveredAt ?? null,
+      shipments: shipments.map((s) => ({
+        carrier: s.shippingCompany?.name ?? null,
+        trackingNumber: s.trackingNumber ?? null,
+        status: s.unifiedStatus ? { code: s.unifiedStatus, label: this.shipmentStatusLabel(s.unifiedStatus) } : null,
+      })),
+      timeline,
+    };
+  }
+
+  // custom tenant statuses are internal, the customer only learns the order is being processed
+  private stageOf(code?: string | null) {
+    return (code && STAGE_BY_STATUS[code]) || TrackingStage.PROCESSING;
+  }
+
+  private stageLabel(stage: TrackingStage) {
+    return this.translations.t(`domains.orders.tracking.stages.${stage}` as I18nKey);
+  }
+
+  private shipmentStatusLabel(status: UnifiedShippingStatus) {
+    return this.translations.t(`domains.orders.tracking.shipment_statuses.${status}` as I18nKey);
+  }
+}
@@ -0,0 +1,219 @@
+import { BadRequestException, ForbiddenException, Injectable, NotFoundException } from "@nestjs/common";
+import { InjectRepository } from "@nestjs/typeorm";
+import { Brackets, Repository } from "typeorm";
+import { I18nKey, TranslationService } from "common/translation.service";
+import { OrderEntity } from "entities/order.entity";
+import { OrderViewEntity } from "entities/order-view.entity";
+import { CreateOrderViewDto, UpdateOrderViewDto } from "dto/order.dto";
+import { tenantId } from "src/category/category.service";
+import {
+  compileOrderFilter,
+  mergeOrderFilters,
+  OrderFilterError,
+  OrderFilterGroup,
+  validateOrderFilter,
+} from "../utils/order-filter";
+
+@Injectable()
+export class OrderViewsService {
+  constructor(
+    @InjectRepository(OrderViewEntity)
+    private readonly viewRepo: Repository<OrderViewEntity>,
+    @InjectRepository(OrderEntity)
+    private readonly orderRepo: Repository<OrderEntity>,
+    private readonly translations: TranslationService,
+  ) { }
+
+  // own views first, then the ones teammates shared
+  async list(me: any) {
+    const adminId = tenantId(me);
+    if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+
+    const views = await this.visibleQuery(adminId, me.id)
+      .leftJoin("view.owner", "owner")
+      .addSelect(["owner.id", "owner.name"])
+      .orderBy("view.name", "ASC")
+      .getMany();
+
+    return views
+      .map((view) => this.present(view, me.id))
+      .sort((a, b) => Number(b.isOwner) - Number(a.isOwner));
+  }
+
+  async get(me: any, id: string) {
+    const adminId = tenantId(me);
+    if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+
+    return this.present(await this.findVisible(adminId, me.id, id), me.id);
+  }
+
+  async create(me: any, dto: CreateOrderViewDto) {
+    const adminId = tenantId(me);
+    if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+
+    const view = await this.viewRepo.save(
+      this.viewRepo.create({
+        adminId,
+        ownerId: me.id,
+        name: dto.name.trim(),
+        filter: this.validate(dto.filter),
+        sortBy: dto.sortBy ?? null,
+        sortDir: dto.sortDir ?? null,
+        shared: !!dto.shared,
+        pinnedBy: [],
+      }),
+    );
+    return this.present(view, me.id);
+  }
+
+  async update(me: any, id: string, dto: UpdateOrderViewDto) {
+    const adminId = tenantId(me);
+    if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+
+    const view = await this.findManaged(me, adminId, id);
+
+    if (dto.name !== undefined) view.name = dto.name.trim();
+    if (dto.filter !== undefined) view.filter = this.validate(dto.filter);
+    if (dto.sortBy !== undefined) view.sortBy = dto.sortBy;
+    if (dto.sortDir !== undefined) view.sortDir = dto.sortDir;
+    if (dto.shared !== undefined) {
+      view.shared = dto.shared;
+      // teammates lose an unshared view, their pins go with it
+      if (!dto.shared) view.pinnedBy = (view.pinnedBy ?? []).filter((userId) => userId === view.ownerId);
+    }
+
+    return this.present(await this.viewRepo.save(view), me.id);
+  }
+
+  async remove(me: any, id: string) {
+    const adminId = tenantId(me);
+    if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+
+    const view = await this.findManaged(me, adminId, id);
+    await this.viewRepo.delete({ id: view.id });
+    return { id, deleted: true };
+  }
+
+  async setPinned(me: any, id: string, pinned: boolean) {
+    const adminId = tenantId(me);
+    if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+
+    const view = await this.findVisible(adminId, me.id, id);
+    const others = (view.pinnedBy ?? []).filter((userId) => userId !== me.id);
+    view.pinnedBy = pinned ? [...others, me.id] : others;
+    await this.viewRepo.update({ id: view.id }, { pinnedBy: view.pinnedBy });
+
+    return this.present(view, me.id);
+  }
+
+  /** Views the user pinned, each with the number of orders it currently matches. */
+  async pinnedCounts(me: any) {
+    const adminId = tenantId(me);
+    if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+
+    const views = await this.visibleQuery(adminId, me.id)
+      .andWhere("view.pinnedBy @> :pinned::jsonb", { pinned: JSON.stringify([me.id]) })
+      .orderBy("view.name", "ASC")
+      .getMany();
+
+    return Promise.all(
+      views.map(async (view) => {
+        const count = await this.orderRepo
+          .createQueryBuilder("order")
+          .where("order.adminId = :adminId", { adminId })
+          .andWhere(compileOrderFilter(view.filter, "order"))
+          .getCount();
+
+        return { ...this.present(view, me.id), count };
+      }),
+    );
+  }
+
+  /**
+   * The filter of a list / stats request: the saved view in `q.viewId` AND the ad hoc expression in `q.filter`
+   * (a JSON string on query strings). Null when the request has neither.
+   */
+  async resolve(me: any, adminId: string | null, q?: any): Promise<{ filter: OrderFilterGroup | null; view: OrderViewEntity | null }> {
+    if (!q?.viewId && !q?.filter) return { filter: null, view: null };
+    if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+
+    const view = q.viewId ? await this.findVisible(adminId, me?.id, q.viewId) : null;
+
+    let adHoc: OrderFilterGroup | null = null;
+    if (q.filter) {
+      let parsed = q.filter;
+      if (typeof parsed === "string") {
+        try {
+          parsed = JSON.parse(parsed);
+        } catch {
+          throw new BadRequestException(this.translations.t("domains.orders.filters.invalid_group"));
+        }
+      }
+      adHoc = this.validate(parsed);
+    }
+
+    // views saved before a rule was added are checked again, so a bad one is a 400 and not a failing query
+    const saved = view?.filter ? this.validate(view.filter) : null;
+
+    return { filter: mergeOrderFilters(saved, adHoc), view };
+  }
+
+  /**
+   * Join condition restricting an `orders` alias to the filter, for queries that count orders through a join
+   * (the join condition cannot take nested brackets, so the filter runs as an id subquery).
+   */
+  joinCondition(alias: string, adminId: string, filter: OrderFilterGroup | null) {
+    if (!filter) return { sql: "", params: {} };
+
+    const sub = this.orderRepo
+      .createQueryBuilder("view_order")
+      .select("view_order.id")
+      .where("view_order.adminId = :viewAdminId", { viewAdminId: adminId })
+      .andWhere(compileOrderFilter(filter, "view_order", "vf"));
+
+    return { sql: ` AND ${alias}.id IN (${sub.getQuery()})`, params: sub.getParameters() };
+  }
+
+  private visibleQuery(adminId: string, userId: string) {
+    return this.viewRepo
+      .createQueryBuilder("view")
+      .where("view.adminId = :adminId", { adminId })
+      .andWhere(new Brackets((qb) => {
+        qb.where("view.ownerId = :userId", { userId }).orWhere("view.shared = true");
+      }));
+  }
+
+  private async findVisible(adminId: string, userId: string, id: string) {
+    const view = await this.visibleQuery(adminId, userId).andWhere("view.id = :id", { id }).getOne();
+    if (!view) throw new NotFoundException(this.translations.t("domains.orders.views.not_found"));
+    return view;
+  }
+
+  // the owner manages a view, the tenant admin can also tidy up shared ones
+  private async findManaged(me: any, adminId: string, id: string) {
+    const view = await this.findVisible(adminId, me.id, id);
+    if (view.ownerId !== me.id && me.id !== adminId) {
+      throw new ForbiddenException(this.translations.t("domains.orders.views.not_owner"));
+    }
+    return view;
+  }
+
+  private validate(filter: any) {
+    try {
+      return validateOrderFilter(filter);
+    } catch (error) {
+      if (!(error instanceof OrderFilterError)) throw error;
+      throw new BadRequestException(this.translations.t(`domains.orders.filters.${error.key}` as I18nKey, { args: error.args }));
+    }
+  }
+
+  private present(view: OrderViewEntity, userId: string) {
+    const { pinnedBy, ...rest } = view;
+    return {
+      ...rest,
+      isOwner: view.ownerId === userId,
+      pinned: (pinnedBy ?? []).includes(userId),
+      pinnedCount: (pinnedBy ?? []).length,
+    };
+  }
+}
@@ -1,6 +1,7 @@
 // orders/orders.service.ts
 import {
   BadRequestException,
+  ConflictException,
   ForbiddenException,
   forwardRef,
   Inject,
@@ -25,6 +26,8 @@ import axios from 'axios';
 import * as ExcelJS from "exceljs";
 import { getMissingDeductionQuantity } from "../utils/stock-deduction";
 import { isPartiallyReturnedForManifest } from "../utils/return-manifest-status";
+import { isShipmentOpen } from "../utils/fulfillment";
+import { diffOrderSnapshots, OrderSnapshot, snapshotOrder } from "../utils/order-changes";
 import {
   OrderEntity,
   OrderItemEntity,
@@ -48,13 +51,19 @@ import {
   ReturnRequestEntity,
   ReturnRequestStatus,
   DamageResponsibility,
+  OrderRiskLevel,
+  OrderChangeLogEntity,
+  OrderChangeSource,
+  OrderFieldChange,
 } from "entities/order.entity";
-import { OrderAssignmentEntity } from "entities/assignment.entity";
+import { FAILED_CALL_OUTCOMES, OrderAssignmentEntity, OrderCallAttemptEntity } from "entities/assignment.entity";
 import { ProductEntity, ProductVariantEntity } from "entities/sku.entity";
 import {
   CreateOrderDto,
   UpdateOrderDto,
   ChangeOrderStatusDto,
+  LogCallAttemptDto,
+  RejectOrderDto,
   UpdatePaymentStatusDto,
   AddOrderMessageDto,
   MarkMessagesReadDto,
@@ -72,6 +81,7 @@ import { NotificationType } from "entities/notifications.entity";
 import { StoreEntity } from "entities/stores.entity";
 import {
   ShipmentEntity,
+  ShipmentItemEntity,
   ShipmentStatus,
   ShippingCompanyEntity,
   ShippingIntegrationEntity,
@@ -98,6 +108,16 @@ import { TriggerEntityType, TriggerType } from "entities/automation.entity";
 import { ClientSettingsEntity, StockDeductionStrategy } from "entities/clientSettings.entity";
 import { ClientSettingsService } from "src/client-settings/client-settings.service";
 import { RequestTranslationService, TranslationService } from "common/translation.service";
+import { OrderRiskService } from "./order-risk.service";
+import { OrderStatusTransitionsService } from "./order-status-transitions.service";
+import { OrderReasonsService } from "./order-reasons.service";
+import { OrderViewsService } from "./order-views.service";
+import { applyOrderFilter } from "../utils/order-filter";
+import { WarehouseStockService } from "src/warehouse/warehouse-stock.service";
+import { StockMovementInput, StockMovementsService } from "src/stock-movements/stock-movements.service";
+import { LotsService } from "src/lots/lots.service";
+import { BarcodesService } from "src/barcodes/barcodes.service";
+import { StockMovementReason, StockMovementReference } from "entities/stock-movement.entity";
 
 export function tenantId(me: any): any | null {
   if (!me) return null;
@@ -107,6 +127,14 @@ export function tenantId(me: any): any | null {
   return me.adminId;
 }
 
+type WarehouseDeduction = {
+  itemId: string;
+  orderId: string;
+  variant: ProductVariantEntity;
+  quantity: number;
+  preferredWarehouseIds: (string | null | undefined)[];
+};
+
 @Injectable()
 export class OrdersService {
   private readonly logger = new Logger(OrdersService.name);
@@ -178,6 +206,14 @@ export class OrdersService {
     private readonly triggerDispatcher: TriggerDispatcherService,
     private readonly translations: TranslationService,
     private requestTranslations: RequestTranslationService,
+    private readonly orderRiskService: OrderRiskService,
+    private readonly warehouseStockService: WarehouseStockService,
+    private readonly stockMovementsService: StockMovementsService,
+    private readonly lotsService: LotsService,
+    private readonly barcodesService: BarcodesService,
+    private readonly statusTransitions: OrderStatusTransitionsService,
+    private readonly orderReasons: OrderReasonsService,
+    private readonly orderViews: OrderViewsService,
   ) { }
 
   //private function to lock order if he delivered and has monthly closign id
@@ -242,7 +278,7 @@ export class OrdersService {
   }
 
   // ✅ Calculate totals
-  private calculateTotals(items: any[], shippingCost = 0, discount = 0) {
+  public calculateTotals(items: any[], shippingCost = 0, discount = 0) {
     const productsTotal = items.reduce((sum, item) => {
       return sum + Number(item.unitPrice) * Number(item.quantity);
     }, 0);
@@ -263,7 +299,7 @@ export class OrdersService {
   }
 
   // ✅ Generate items signature (sku:quantity|sku:quantity|...)
-  private generateItemsSignature(items: OrderItemEntity[]): string {
+  public generateItemsSignature(items: OrderItemEntity[]): string {
     if (!items || items.length === 0) return '';
     return items
       .map((item) => {
@@ -281,7 +317,10 @@ export class OrdersService {
     toStatusId: string; // Changed from Enum to ID
     userId?: string;
     notes?: string;
+    reasonId?: string | null;
     ipAddress?: string;
+    bulkJobId?: string | null;
+    revertOfId?: string | null;
     manager: EntityManager; // Removed optional '?' because getRepository needs it
   }) {
 
@@ -299,7 +338,10 @@ export class OrdersService {
       toStatusId: params.toStatusId,
       changedByUserId: params.userId || null,
       notes,
+      reasonId: params.reasonId ?? null,
       ipAddress,
+      bulkJobId: params.bulkJobId ?? null,
+      revertOfId: params.revertOfId ?? null,
     });
 
     await params.manager.save(log);
@@ -311,6 +353,30 @@ export class OrdersService {
     });
   }
 
+  // ✅ Field-level history: one row per edit holding the diff (skipped when nothing tracked changed)
+  public async logFieldChanges(params: {
+    adminId: string;
+    orderId: string;
+    changes: OrderFieldChange[];
+    source: OrderChangeSource;
+    userId?: string;
+    ipAddress?: string;
+    manager: EntityManager;
+  }) {
+    if (!params.changes.length) return;
+
+    await params.manager.save(
+      params.manager.create(OrderChangeLogEntity, {
+        adminId: params.adminId,
+        orderId: params.orderId,
+        changes: params.changes,
+        source: params.source,
+        changedByUserId: params.userId || null,
+        ipAddress: params.ipAddress?.trim() || null,
+      }),
+    );
+  }
+
   // ✅ Handle order status change (logs, triggers, sync)
   public async handleOrderStatusChange(params: {
     orderId: string;
@@ -423,6 +489,10 @@ export class OrdersService {
 
     if (!superAdmin && !adminId) throw new BadRequestException(this.translations.t('common.missing_admin_id'));
 
+    // counts restricted to a saved view / filter expression when one is given
+    const { filter } = await this.orderViews.resolve(me, adminId, q);
+    const viewCondition = this.orderViews.joinCondition("o", adminId, filter);
+
     const qb = this.statusRepo.createQueryBuilder("status");
     // use relation path only (no join condition)
     if (superAdmin && !q?.adminId) {
@@ -435,8 +505,8 @@ export class OrdersService {
       qb.leftJoin(
         "status.orders",
         "o",
-        "o.adminId = :adminId",
-        { adminId }
+        `o.adminId = :adminId${viewCondition.sql}`,
+        { adminId, ...viewCondition.params }
       );
     }
     qb.select([
@@ -553,12 +623,15 @@ export class OrdersService {
 
     if (!superAdmin && !adminId) throw new BadRequestException(this.translations.t('common.missing_admin_id'));
 
+    // saved view (q.viewId) and / or ad hoc expression (q.filter), on top of the fixed params below
+    const { filter, view } = await this.orderViews.resolve(me, adminId, q);
+
     const page = Number(q?.page ?? 1);
     const limit = Number(q?.limit ?? 10);
     const search = String(q?.search ?? "").trim();
-    const sortBy = String(q?.sortBy ?? "createdAt");
+    const sortBy = String(q?.sortBy ?? view?.sortBy ?? "createdAt");
     const sortDir: "ASC" | "DESC" =
-      String(q?.sortDir ?? "DESC").toUpperCase() === "ASC" ? "ASC" : "DESC";
+      String(q?.sortDir ?? view?.sortDir ?? "DESC").toUpperCase() === "ASC" ? "ASC" : "DESC";
 
     const qb = this.orderRepo
       .createQueryBuilder("order");
@@ -583,6 +656,7 @@ export class OrdersService {
       .leftJoinAndSelect("order.status", "status")
       .leftJoinAndSelect("order.shippingCompany", "shipping")
       .leftJoinAndSelect("order.store", "store")
+      .leftJoinAndSelect("order.tags", "tags")
       .leftJoinAndSelect(
         "order.assignments",
         "assignment",
@@ -619,6 +693,7 @@ export class OrdersService {
     const sortColumns: Record<string, string> = {
       createdAt: "order.created_at",
       orderNumber: "order.orderNumber",
+      riskScore: "order.riskScore",
     };
 
     if (q?.userId) {
@@ -736,6 +811,32 @@ export class OrdersService {
       });
     }
 
+    // Tags Filter (orders carrying any / none of the given tags)
+    if (q?.tagIds) {
+      const tagIds = String(q.tagIds).split(",").map((s) => s.trim()).filter(Boolean);
+      if (tagIds.length) {
+        qb.andWhere(`EXISTS (SELECT 1 FROM order_tag_links otl WHERE otl."orderId" = "order".id AND otl."tagId" IN (:...tagIds))`, { tagIds });
+      }
+    }
+
+    if (q?.excludeTagIds) {
+      const excludeTagIds = String(q.excludeTagIds).split(",").map((s) => s.trim()).filter(Boolean);
+      if (excludeTagIds.length) {
+        qb.andWhere(`NOT EXISTS (SELECT 1 FROM order_tag_links otl WHERE otl."orderId" = "order".id AND otl."tagId" IN (:...excludeTagIds))`, { excludeTagIds });
+      }
+    }
+
+    // SLA state of the current stay in the status (timers are opened by the SLA cron)
+    if (q?.sla === "at_risk" || q?.sla === "breached") {
+      const due = q.sla === "breached"
+        ? `ost."dueAt" <= NOW()`
+        : `ost."atRiskAt" <= NOW() AND ost."dueAt" > NOW()`;
+      qb.andWhere(`EXISTS (
+        SELECT 1 FROM order_sla_timers ost
+        WHERE ost."orderId" = "order".id AND ost."statusId" = "order"."statusId" AND ost."resolvedAt" IS NULL AND ${due}
+      )`);
+    }
+
     // Label Printed Filter
     if (q?.labelPrinted !== undefined && q.labelPrinted !== "all") {
       if (q.labelPrinted === "true" || q.labelPrinted === true) {
@@ -804,6 +905,16 @@ export class OrdersService {
       );
     }
 
+    // Fraud detection
+    if (q?.riskLevel && q.riskLevel !== "all") {
+      const riskLevels = String(q.riskLevel).split(",").map((s) => s.trim());
+      qb.andWhere("order.riskLevel IN (:...riskLevels)", { riskLevels });
+    }
+
+    if (q?.minRiskScore !== undefined && q?.minRiskScore !== "") {
+      qb.andWhere("order.riskScore >= :minRiskScore", { minRiskScore: Number(q.minRiskScore) });
+    }
+
     if (q?.hasReplacement !== undefined) {
 
       if (q.hasReplacement === "false" || q.hasReplacement === false) {
@@ -813,6 +924,8 @@ export class OrdersService {
       }
     }
 
+    applyOrderFilter(qb, filter, "order");
+
     if (sortColumns[sortBy]) {
       qb.orderBy(sortColumns[sortBy], sortDir);
     } else {
@@ -1062,6 +1175,19 @@ export class OrdersService {
     });
   }
 
+  async getOrderFieldChanges(orderId: string, me: any) {
+    const adminId = tenantId(me);
+    const superAdmin = isSuperAdmin(me);
+    if (!adminId && !superAdmin) throw new BadRequestException(this.translations.t('common.missing_admin_id'));
+
+    return await this.dataSource.getRepository(OrderChangeLogEntity).find({
+      where: { orderId, adminId },
+      relations: { changedByUser: true },
+      select: { changedByUser: { id: true, name: true, email: true } },
+      order: { created_at: 'DESC' },
+    });
+  }
+
   async listManifests(me: any, q?: any) {
     const adminId = tenantId(me);
     const page = Number(q?.page ?? 1);
@@ -1343,6 +1469,7 @@ export class OrdersService {
       REJECTED: 'domains.orders.actions.rejected',
       RETURN_RECEIVED: 'domains.orders.actions.return_received',
       RETRY_ATTEMPT: 'domains.orders.actions.retry_attempt',
+      STATUS_REVERTED: 'domains.orders.actions.status_reverted',
     };
 
     const resultKeys: Record<string, any> = {
@@ -1436,20 +1563,31 @@ export class OrdersService {
       // Map to aggregate quantities per variant across all orders
       const variantDeductions = new Map<string, { qty: number; variant: ProductVariantEntity }>();
 
+      // Split orders leave with this courier's shipments only; an order already shipped by
+      // another courier can still hand over its remaining shipments.
+      const splitShipments = (await this.findSplitShipments(manager, orders.filter(o => o.fulfillmentStatus).map(o => o.id), dto.shippingCompanyId))
+        .filter(s => isShipmentOpen(s) && ![ShipmentStatus.OUT_FOR_DELIVERY, ShipmentStatus.DELIVERED].includes(s.status));
 
       for (const order of orders) {
-        if (order.status.code !== OrderStatus.READY) {
+        const isSplit = !!order.fulfillmentStatus;
+        if (order.status.code !== OrderStatus.READY && !(isSplit && order.status.code === OrderStatus.SHIPPED)) {
           throw new BadRequestException(
             this.translations.t('domains.orders.order_cannot_ship_not_packed', { args: { orderNumber: order.orderNumber, statusName: order.status.name } }),
           );
         }
 
-        if (order.shippingCompanyId !== dto.shippingCompanyId) {
+        const courierMatches = isSplit
+          ? splitShipments.some(s => s.orderId === order.id)
+          : order.shippingCompanyId === dto.shippingCompanyId;
+        if (!courierMatches) {
           throw new BadRequestException(
             this.translations.t('domains.orders.order_different_courier', { args: { orderNumber: order.orderNumber } }),
           );
         }
 
+        // split orders are validated per shipment when their stock is deducted
+        if (isSplit) continue;
+
         // Collect items for stock validation
         for (const item of order.items) {
           if (!item.variant) continue;
@@ -1509,7 +1647,7 @@ export class OrdersService {
         );
 
         // Update active shipments status to OUT_FOR_DELIVERY
-        const orderIds = ordersToUpdate.map(order => order.id);
+        const orderIds = ordersToUpdate.filter(order => !order.fulfillmentStatus).map(order => order.id);
 
         if (orderIds.length > 0) {
           // 1. Fetch the latest matching shipment ID for each order
@@ -1548,7 +1686,21 @@ export class OrdersService {
           })),
         });
 
-        await this.deductStockForMultipleOrders(manager, orderIdsToUpdate, adminId);
+        if (orderIds.length > 0) {
+          await this.deductStockForMultipleOrders(manager, orderIds, adminId);
+        }
+      }
+
+      if (splitShipments.length > 0) {
+        splitShipments.forEach(s => s.status = ShipmentStatus.OUT_FOR_DELIVERY);
+        await manager.save(splitShipments);
+
+        const settings = await this.clientSettingsService.getCachedSettings(adminId);
+        if (settings.stockDeductionStrategy === StockDeductionStrategy.ON_SHIPMENT) {
+          for (const shipment of splitShipments) {
+            await this.deductStockForShipment(manager, shipment.id, adminId);
+          }
+        }
       }
 
       // 3. Create Manifest
@@ -1638,11 +1790,14 @@ export class OrdersService {
         );
       }
 
+      // a split order may come back with any of the couriers that carried it
+      const splitShipments = await this.findSplitShipments(manager, orders.filter(o => o.fulfillmentStatus).map(o => o.id), dto.shippingCompanyId);
+
       for (const ret of returns) {
         const order = orders.find(o => o.id === ret.orderId);
 
         // التحقق من شركة الشحن
-        if (order.shippingCompanyId !== dto.shippingCompanyId) {
+        if (order.shippingCompanyId !== dto.shippingCompanyId && !splitShipments.some(s => s.orderId === order.id)) {
           throw new BadRequestException(
             this.translations.t('domains.orders.order_different_courier', { args: { orderNumber: order.orderNumber } })
           );
@@ -1809,6 +1964,82 @@ export class OrdersService {
             .execute();
         }
 
+        // Restock into the chosen warehouse, or the warehouse the item was originally taken from
+        const receivingWarehouse = dto.warehouseId
+          ? await this.warehouseStockService.assertWarehouse(adminId, dto.warehouseId, manager)
+          : null;
+        const returnMovements: StockMovementInput[] = [];
+
+        for (const ret of returns) {
+          const order = orders.find(o => o.id === ret.orderId);
+          for (const item of ret.items || []) {
+            if (!item.returnedVariantId) continue;
+            const restockQty = item.restockQuantity || 0;
+            const damagedQty = item.damagedQuantity || 0;
+
+            const originalItem = order?.items?.find(i => i.id === item.originalOrderItemId);
+            const warehouseId = receivingWarehouse?.id ?? originalItem?.warehouseId ?? order?.warehouseId;
+
+            if (damagedQty > 0 && item.damageResponsibility === DamageResponsibility.INTERNAL) {
+              returnMovements.push({
+                adminId,
+                variantId: item.returnedVariantId,
+                reason: StockMovementReason.RETURN_DAMAGED,
+                customerDamagedDelta: damagedQty,
+                referenceType: StockMovementReference.RETURN_REQUEST,
+                referenceId: ret.id,
+                userId,
+              });
+            } else if (damagedQty > 0 && item.damageResponsibility === DamageResponsibility.COMPANY) {
+              returnMovements.push({
+                adminId,
+                variantId: item.returnedVariantId,
+                reason: StockMovementReason.RETURN_DAMAGED,
+                companyDamagedDelta: damagedQty,
+                referenceType: StockMovementReference.RETURN_REQUEST,
+                referenceId: ret.id,
+                userId,
+              });
+            }
+
+            if (restockQty <= 0) continue;
+            returnMovements.push({
+              adminId,
+              variantId: item.returnedVariantId,
+              reason: StockMovementReason.RETURN_RESTOCK,
+              stockOnHandDelta: restockQty,
+              // returned units go back at the cost they were sold with
+              unitCost: originalItem?.costedQuantity > 0 && originalItem.variantId === item.returnedVariantId
+                ? Number(originalItem.unitCost)
+                : null,
+              warehouseId: warehouseId ?? null,
+              referenceType: StockMovementReference.RETURN_REQUEST,
+              referenceId: ret.id,
+              userId,
+            });
+
+            if (item.originalOrderItemId) {
+              await this.lotsService.restock(manager, {
+                adminId,
+                orderItemId: item.originalOrderItemId,
+                variantId: item.returnedVariantId,
+                quantity: restockQty,
+              });
+            }
+
+            if (!warehouseId) continue;
+
+            await this.warehouseStockService.increase(manager, {
+              adminId,
+              variantId: item.returnedVariantId,
+              warehouseId,
+              quantity: restockQty,
+            });
+          }
+        }
+
+        await this.stockMovementsService.record(manager, returnMovements);
+
         await this.bulkLogStatusChange({
           adminId,
           manager,
@@ -2004,7 +2235,7 @@ export class OrdersService {
       adminId,
     );
     if (!rejectedStatus) {
-      return { totalRejected: 0, rejectedToday: 0, rejectedThisWeek: 0 };
+      return { totalRejected: 0, rejectedToday: 0, rejectedThisWeek: 0, topReasons: [] };
     }
 
     const now = new Date();
@@ -2020,7 +2251,7 @@ export class OrdersService {
     const diffToSaturday = dayOfWeek === 6 ? 0 : dayOfWeek + 1;
     startOfWeek.setDate(startOfToday.getDate() - diffToSaturday);
 
-    const [totalRejected, rejectedToday, rejectedThisWeek] = await Promise.all([
+    const [totalRejected, rejectedToday, rejectedThisWeek, topReasons] = await Promise.all([
       this.orderRepo.count({
         where: {
           adminId,
@@ -2042,12 +2273,29 @@ export class OrdersService {
           rejectedAt: MoreThanOrEqual(startOfWeek),
         },
       }),
+      // currently rejected orders by their reason code
+      this.orderRepo
+        .createQueryBuilder("o")
+        .innerJoin("o.reason", "reason")
+        .select("reason.id", "reasonId")
+        .addSelect("reason.code", "code")
+        .addSelect("reason.labelEn", "labelEn")
+        .addSelect("reason.labelAr", "labelAr")
+        .addSelect("reason.category", "category")
+        .addSelect("COUNT(o.id)", "count")
+        .where("o.adminId = :adminId", { adminId })
+        .andWhere("o.statusId = :statusId", { statusId: rejectedStatus.id })
+        .groupBy("reason.id")
+        .orderBy("count", "DESC")
+        .limit(5)
+        .getRawMany(),
     ]);
 
     return {
       totalRejected,
       rejectedToday,
       rejectedThisWeek,
+      topReasons: topReasons.map((row) => ({ ...row, count: Number(row.count) })),
     };
   }
   async getLogOperationalStats(
@@ -2091,7 +2339,7 @@ export class OrdersService {
     };
   }
 
-  async bulkPrint(me: any, orderNumbers: string[]) {
+  async bulkPrint(me: any, orderNumbers: string[], options?: { bulkJobId?: string }) {
     const adminId = tenantId(me);
     const userId = me?.id;
 
@@ -2127,6 +2375,8 @@ export class OrdersService {
           newPrintOrders.push(order);
         }
       });
+      await this.statusTransitions.assertTransitions(manager, me, adminId, newPrintOrders, printedStatus.id);
+
       // 3. Perform Bulk Update
       await manager.update(
         OrderEntity,
@@ -2202,6 +2452,7 @@ export class OrdersService {
         toStatusId: printedStatus.id,
         userId: userId,
         notes: "Waybill printed",
+        bulkJobId: options?.bulkJobId ?? null,
         createdAt: new Date(),
       }));
 
@@ -2250,11 +2501,11 @@ export class OrdersService {
     );
   }
 
-  async scanItem(orderId: string, sku: string, me: any, itemId: string) {
+  async scanItem(orderId: string, sku: string, me: any, itemId: string, manager?: EntityManager) {
     const userId = me?.id;
     const adminId = tenantId(me);
 
-    return await this.dataSource.transaction(async (manager) => {
+    const runWithManager = async (manager: EntityManager) => {
       const order = await manager.findOne(OrderEntity, {
         where: { id: orderId, adminId },
         relations: ["items", "items.variant", "status"],
@@ -2305,8 +2556,10 @@ export class OrdersService {
         order.statusId = preparingStatus.id;
       }
 
+      // the scanned value may be a barcode or the SKU itself
+      const scanned = await this.barcodesService.resolveVariant(manager, adminId, sku);
       const skuItems = order.items.filter(
-        (i) => i.variant?.sku?.trim() === sku.trim(),
+        (i) => (scanned && i.variantId === scanned.id) || i.variant?.sku?.trim() === sku.trim(),
       );
 
       let item = skuItems[0];
@@ -2426,7 +2679,12 @@ export class OrdersService {
         scanned: newScannedQuantity,
         isOrderComplete,
       };
-    });
+    };
+
+    if (manager) {
+      return runWithManager(manager);
+    }
+    return this.dataSource.transaction(runWithManager);
   }
 
   // async scanForShipping(orderId: string, sku: string, me: any) {
@@ -2673,7 +2931,10 @@ export class OrdersService {
       .leftJoinAndSelect("order.statusHistory", "statusHistory")
       .leftJoinAndSelect("statusHistory.fromStatus", "fromStatus")
       .leftJoinAndSelect("statusHistory.toStatus", "toStatus")
+      .leftJoinAndSelect("statusHistory.reason", "historyReason")
       .leftJoinAndSelect("order.status", "status")
+      .leftJoinAndSelect("order.reason", "reason")
+      .leftJoinAndSelect("order.tags", "tags")
       .leftJoinAndSelect("order.shippingCompany", "shippingCompany")
       .leftJoinAndSelect("order.store", "store")
       .leftJoinAndSelect("order.replacementResult", "replacementResult")
@@ -2795,6 +3056,7 @@ export class OrdersService {
     me: any,
     dto: CreateOrderDto,
     ipAddress?: string,
+    options?: { stockReason?: StockMovementReason },
   ) {
     // Generate order number
     const orderNumber = await this.generateOrderNumber(adminId);
@@ -2815,8 +3077,12 @@ export class OrdersService {
 
     const variantMap = new Map(variants.map((v) => [v.id, v]));
 
+    const warehouse = dto.warehouseId
+      ? await this.warehouseStockService.assertWarehouse(adminId, dto.warehouseId, manager)
+      : null;
+
     // Check stock availability
-    await this.validateStockAvailability(adminId, dto.items, { variantMap });
+    await this.validateStockAvailability(adminId, dto.items, { variantMap, warehouse, manager });
 
     // Create order items
     const items = dto.items.map((it) => {
@@ -2889,6 +3155,27 @@ export class OrdersService {
       }
     }
 
+    // Fraud detection (only scored when the tenant owns the feature)
+    const risk = await this.orderRiskService.scoreOrder(manager, adminId, {
+      normalizedPhoneNumber,
+      city: dto.city,
+      paymentMethod: dto.paymentMethod,
+      finalTotal,
+      duplicateCount,
+    });
+
+    let flaggedForReview = false;
+    if (risk?.riskLevel === OrderRiskLevel.HIGH && initialStatusId === defaultStatus.id) {
+      const { autoMoveHighRiskToReview } = await this.orderRiskService.getFraudSettings(adminId);
+      const reviewStatus = autoMoveHighRiskToReview
+        ? await this.findStatusByCode(OrderStatus.UNDER_REVIEW, adminId, manager)
+        : null;
+      if (reviewStatus) {
+        initialStatusId = reviewStatus.id;
+        flaggedForReview = true;
+      }
+    }
+
     if (dto.shippingCompanyId && dto.shippingCompanyId !== "none") {
       const companyId = dto.shippingCompanyId;
       const company = await this.shippingRepo.findOne({
@@ -2943,6 +3230,7 @@ export class OrdersService {
       paymentStatus: dto.paymentStatus ?? PaymentStatus.PENDING,
       shippingCompanyId: dto.shippingCompanyId && dto.shippingCompanyId !== "none" ? dto.shippingCompanyId : null,
       storeId: dto.storeId ? dto.storeId : null,
+      warehouseId: warehouse?.id ?? null,
       shippingCost: dto.shippingCost ?? 0,
       discount: dto.discount ?? 0,
       productsTotal,
@@ -2957,6 +3245,10 @@ export class OrdersService {
       items,
       createdByUserId: me?.id,
       shippingMetadata: dto.shippingMetadata,
+      riskScore: risk?.riskScore ?? null,
+      riskLevel: risk?.riskLevel ?? null,
+      riskReasons: risk?.riskReasons ?? null,
+      riskScoredAt: risk ? new Date() : null,
     } as any);
 
     const saved = await manager.save(OrderEntity, order);
@@ -2973,6 +3265,16 @@ export class OrdersService {
       variant.reserved = (variant.reserved || 0) + item.quantity;
       await manager.save(ProductVariantEntity, variant);
     }
+
+    await this.stockMovementsService.record(manager, dto.items.map((item) => ({
+      adminId,
+      variantId: item.variantId,
+      reason: options?.stockReason ?? StockMovementReason.ORDER_RESERVATION,
+      reservedDelta: item.quantity,
+      referenceType: StockMovementReference.ORDER,
+      referenceId: saved.id,
+      userId: me?.id,
+    })));
     
     // Log initial status
     await this.logStatusChange({
@@ -2981,7 +3283,11 @@ export class OrdersService {
       fromStatusId: initialStatusId,
       toStatusId: initialStatusId,
       userId: me?.id,
-      notes: duplicateCount > 0 ? `Order created (Duplicate of ${originalOrderNumber})` : "Order created",
+      notes: duplicateCount > 0
+        ? `Order created (Duplicate of ${originalOrderNumber})`
+        : flaggedForReview
+          ? `Order created (High risk, score ${risk.riskScore})`
+          : "Order created",
       ipAddress,
       manager,
     });
@@ -3009,11 +3315,37 @@ export class OrdersService {
   // ========================================
   // ✅ UPDATE ORDER
   // ========================================
-  async update(me: any, id: string, dto: UpdateOrderDto, ipAddress?: string, options?: { skipStockValidation?: boolean }) {
+  async update(
+    me: any,
+    id: string,
+    dto: UpdateOrderDto,
+    ipAddress?: string,
+    options?: { skipStockValidation?: boolean; source?: OrderChangeSource },
+  ) {
     const adminId = tenantId(me);
     if (!adminId) throw new BadRequestException(this.translations.t('common.missing_admin_id'));
 
+    const source = options?.source ?? OrderChangeSource.UI;
+
     return this.dataSource.transaction(async (manager) => {
+      // optional: clients that do not send the version they loaded keep last-write-wins saves
+      if (dto.version !== undefined) {
+        // row lock so two agents saving together are checked one after the other
+        const current = await manager.findOne(OrderEntity, {
+          where: { id, adminId },
+          select: ["id", "version"],
+          lock: { mode: "pessimistic_write" },
+        });
+        if (current && current.version !== dto.version) {
+          throw new ConflictException({
+            statusCode: 409,
+            error: "Conflict",
+            message: this.translations.t('domains.orders.edit_conflict'),
+            latest: await this.get(me, id),
+          });
+        }
+      }
+
       const order = await manager
         .createQueryBuilder(OrderEntity, "order")
         .leftJoinAndSelect("order.items", "items")
@@ -3031,6 +3363,10 @@ export class OrdersService {
         .getOne();
 
       await this.throwIfDelivered(order, this.translations.t('domains.orders.cannot_update_closed'));
+      if (order.mergedIntoOrderId) {
+        throw new BadRequestException(this.translations.t('domains.orders.merge.already_merged', { args: { orderNumber: order.orderNumber } }));
+      }
+      const before = snapshotOrder(order);
       const shippingRepo = manager.getRepository(ShippingCompanyEntity);
       const storeRepo = manager.getRepository(StoreEntity);
       const integrationRepo = manager.getRepository(ShippingIntegrationEntity);
@@ -3081,6 +3417,10 @@ export class OrdersService {
           );
         }
       }
+
+      if (dto.warehouseId && dto.warehouseId !== order.warehouseId) {
+        await this.warehouseStockService.assertWarehouse(adminId, dto.warehouseId, manager);
+      }
       let currentOrderItems = [...order.items];
       // --- 1. PROCESS REMOVED ITEMS ---
       if (dto.removedItems && dto.removedItems.length > 0) {
@@ -3138,6 +3478,7 @@ export class OrdersService {
             RemovedOrderItems.map((v) => [key(v.variantId, v.bundleId), v]),
           );
           const variantsToUpdate = new Map<string, ProductVariantEntity>();
+          const releaseMovements: StockMovementInput[] = [];
           // 3. Release reserved stock based on the OrderItem's quantity
           for (const item of itemsToRemove) {
             const removedItem = RemovedItemsMap.get(
@@ -3146,11 +3487,21 @@ export class OrdersService {
             if (removedItem) {
               // Use item.quantity (from the DB) to decrease the reservation
               const qtyToRelease = removedItem.quantity || 0;
+              const reservedBefore = removedItem.variant.reserved || 0;
               removedItem.variant.reserved = Math.max(
                 0,
-                (removedItem.variant.reserved || 0) - qtyToRelease,
+                reservedBefore - qtyToRelease,
               );
               variantsToUpdate.set(removedItem.variant.id, removedItem.variant);
+              releaseMovements.push({
+                adminId,
+                variantId: removedItem.variant.id,
+                reason: StockMovementReason.ORDER_RESERVATION_RELEASE,
+                reservedDelta: removedItem.variant.reserved - reservedBefore,
+                referenceType: StockMovementReference.ORDER,
+                referenceId: order.id,
+                userId: me?.id,
+              });
             }
           }
 
@@ -3160,6 +3511,7 @@ export class OrdersService {
               ProductVariantEntity,
               Array.from(variantsToUpdate.values()),
             );
+            await this.stockMovementsService.record(manager, releaseMovements);
           }
           const removedEntityIds = new Set(RemovedOrderItems.map((r) => r.id));
           if (RemovedOrderItems.length > 0) {
@@ -3186,6 +3538,7 @@ export class OrdersService {
 
         const itemsToSave = [];
         const modifiedVariants = new Set<ProductVariantEntity>(); // Use a Set to avoid duplicate saves
+        const reservationMovements: StockMovementInput[] = [];
 
         // Reuse the composite-key helper we declared above (re-declare in case this
         // ever moves outside the lexical scope, but currently inside same if-block
@@ -3221,8 +3574,18 @@ export class OrdersService {
 
           // 2. Update variant in memory
           if (qtyDiff !== 0) {
-            variant.reserved = Math.max(0, (variant.reserved || 0) + qtyDiff);
+            const reservedBefore = variant.reserved || 0;
+            variant.reserved = Math.max(0, reservedBefore + qtyDiff);
             modifiedVariants.add(variant);
+            reservationMovements.push({
+              adminId,
+              variantId: variant.id,
+              reason: qtyDiff > 0 ? StockMovementReason.ORDER_RESERVATION : StockMovementReason.ORDER_RESERVATION_RELEASE,
+              reservedDelta: variant.reserved - reservedBefore,
+              referenceType: StockMovementReference.ORDER,
+              referenceId: order.id,
+              userId: me?.id,
+            });
           }
 
           // 3. Prepare OrderItemEntity
@@ -3271,6 +3634,7 @@ export class OrdersService {
             ProductVariantEntity,
             Array.from(modifiedVariants),
           );
+          await this.stockMovementsService.record(manager, reservationMovements);
         }
 
         // Save all new/updated order items at once
@@ -3297,6 +3661,7 @@ export class OrdersService {
         area: dto.area !== undefined ? dto.area : order.area,
         paymentMethod: dto.paymentMethod !== undefined ? dto.paymentMethod : order.paymentMethod,
         storeId: dto.storeId !== undefined ? dto.storeId : order.storeId,
+        warehouseId: dto.warehouseId !== undefined ? dto.warehouseId || null : order.warehouseId,
         shippingCost: dto.shippingCost !== undefined ? dto.shippingCost : order.shippingCost,
         discount: dto.discount !== undefined ? dto.discount : order.discount,
         notes: dto.notes !== undefined ? dto.notes : order.notes,
@@ -3328,6 +3693,16 @@ export class OrdersService {
 
       const updatedOrder = await manager.save(OrderEntity, order);
 
+      await this.logFieldChanges({
+        manager,
+        adminId,
+        orderId: order.id,
+        changes: diffOrderSnapshots(before, snapshotOrder(order)),
+        source,
+        userId: me?.id,
+        ipAddress,
+      });
+
       await this.notificationService.create({
         userId: adminId,
         type: NotificationType.ORDER_UPDATED,
@@ -3404,6 +3779,7 @@ export class OrdersService {
       }> = [];
 
       const toSave: OrderEntity[] = [];
+      const before = new Map<string, OrderSnapshot>();
       for (const item of dto.items) {
         const order = orderMap.get(item.id);
 
@@ -3427,6 +3803,8 @@ export class OrdersService {
           continue;
         }
 
+        before.set(order.id, snapshotOrder(order));
+
         // Apply updates (only allowed fields)
         if (item.customerName !== undefined) {
           order.customerName = item.customerName;
@@ -3509,6 +3887,18 @@ export class OrdersService {
         await manager.save(OrderEntity, toSave);
       }
 
+      for (const order of toSave) {
+        await this.logFieldChanges({
+          manager,
+          adminId,
+          orderId: order.id,
+          changes: diffOrderSnapshots(before.get(order.id), snapshotOrder(order)),
+          source: OrderChangeSource.BULK_UPDATE,
+          userId: me?.id,
+          ipAddress,
+        });
+      }
+
       return {
         success: true,
         updatedCount: toSave.length,
@@ -3524,6 +3914,7 @@ export class OrdersService {
     id: string,
     dto: ChangeOrderStatusDto,
     ipAddress?: string,
+    options?: { skipTransitionCheck?: boolean; skipReasonCheck?: boolean; bulkJobId?: string },
   ) {
     const adminId = tenantId(me);
     if (!adminId) throw new BadRequestException(this.translations.t('common.missing_admin_id'));
@@ -3541,6 +3932,9 @@ export class OrdersService {
 
       if (!order) throw new BadRequestException(this.translations.t('domains.orders.order_not_found'));
       await this.throwIfDelivered(order, this.translations.t('domains.orders.cannot_update_closed'));
+      if (order.mergedIntoOrderId) {
+        throw new BadRequestException(this.translations.t('domains.orders.merge.already_merged', { args: { orderNumber: order.orderNumber } }));
+      }
 
       const newStatus = await this.findStatusById(dto.statusId, order.adminId);
 
@@ -3549,6 +3943,20 @@ export class OrdersService {
 
       if (oldStatusId === dto.statusId) return order;
 
+      if (!options?.skipTransitionCheck) {
+        await this.statusTransitions.assertTransition(manager, me, adminId, oldStatusId, newStatus.id, {
+          notes: dto.notes,
+          rejectReason: dto.rejectReason,
+          postponedDate: dto.postponedDate,
+        });
+      }
+
+      // store / automation moves have nobody to pick a reason code
+      const reasonId = options?.skipTransitionCheck || options?.skipReasonCheck
+        ? null
+        : await this.orderReasons.resolveForStatus(manager, adminId, newStatusCode, dto.reasonId);
+      if (reasonId) order.reasonId = reasonId;
+
       // Handle stock changes
       // if (
       //   newStatusCode === OrderStatus.CANCELLED ||
@@ -3574,6 +3982,11 @@ export class OrdersService {
         order.isConfirmed = true;
       }
 
+      if (newStatusCode === OrderStatus.REJECTED && dto.rejectReason) {
+        order.rejectReason = dto.rejectReason;
+        order.rejectedById = me?.id;
+      }
+
       if (newStatusCode === OrderStatus.POSTPONED && dto.postponedDate) {
         order.postponedDate = new Date(dto.postponedDate);
         order.reminderDaysBefore = dto.reminderDaysBefore;
@@ -3602,7 +4015,9 @@ export class OrdersService {
         toStatusId: newStatus.id,
         userId: me?.id,
         notes: dto.notes,
+        reasonId,
         ipAddress,
+        bulkJobId: options?.bulkJobId,
         manager,
       });
 
@@ -3634,7 +4049,7 @@ export class OrdersService {
   async rejectOrder(
     me: any,
     id: string,
-    dto: { notes?: string },
+    dto: RejectOrderDto,
     ipAddress?: string,
   ) {
     const adminId = tenantId(me);
@@ -3657,10 +4072,16 @@ export class OrdersService {
         throw new BadRequestException(this.translations.t('domains.orders.rejected_status_not_found'));
 
       const oldStatusId = order.statusId;
+      await this.statusTransitions.assertTransition(manager, me, adminId, oldStatusId, rejectedStatus.id, {
+        notes: dto.notes,
+        rejectReason: dto.notes,
+      });
+      const reasonId = await this.orderReasons.resolveForStatus(manager, adminId, OrderStatus.REJECTED, dto.reasonId);
 
       // 2. Update Order with the new "Reason" column
       await manager.update(OrderEntity, id, {
         statusId: rejectedStatus.id,
+        reasonId,
         rejectReason: dto.notes, // ✅ Saving the notes into the new reason column
         rejectedAt: new Date(),
         rejectedById: userId,
@@ -3688,6 +4109,7 @@ export class OrdersService {
         toStatusId: rejectedStatus.id,
         userId,
         notes: dto.notes,
+        reasonId,
         ipAddress,
         manager,
       });
@@ -3726,11 +4148,13 @@ export class OrdersService {
         throw new BadRequestException(this.translations.t('domains.orders.confirmed_status_not_found'));
 
       const oldStatusId = order.statusId;
+      await this.statusTransitions.assertTransition(manager, me, adminId, oldStatusId, confirmedStatus.id);
 
       // 2. Update Order: Revert status and CLEAR rejection data
       await manager.update(OrderEntity, id, {
         statusId: confirmedStatus.id,
         rejectReason: null, // ✅ Clear the previous rejection reason
+        reasonId: null,
         rejectedAt: null, // ✅ Clear the rejection timestamp
         rejectedById: null,
         updatedByUserId: userId,
@@ -3844,17 +4268,28 @@ export class OrdersService {
         );
       }
 
+      await this.statusTransitions.assertTransition(manager, me, adminId, oldStatusId, newStatus.id, {
+        notes: dto.notes,
+        rejectReason: dto.rejectReason,
+        postponedDate: dto.postponedDate,
+      });
+      const reasonId = await this.orderReasons.resolveForStatus(manager, adminId, newStatus.code, dto.reasonId);
+
       // Fetch Retry Settings
 
       const now = new Date();
       activeAssignment.lastActionAt = now;
+      activeAssignment.retryDueAt = null;
 
       // 3. Handle Retry & Assignment Logic
       const isRetryStatus = settings.retryStatuses.includes(newStatus.code);
       let actionResult = OrderActionResult.SUCCESS;
 
       if (isRetryStatus && settings.enabled) {
-        activeAssignment.retriesUsed += 1;
+        // a failed call logged since the last status change already used this retry
+        if (!(await this.retryCountedByCall(manager, activeAssignment))) {
+          activeAssignment.retriesUsed += 1;
+        }
 
         if (
           activeAssignment.retriesUsed >=
@@ -3943,6 +4378,21 @@ export class OrdersService {
         order.isConfirmed = true;
       }
 
+      if (newStatus.code === OrderStatus.REJECTED && dto.rejectReason) {
+        order.rejectReason = dto.rejectReason;
+        order.rejectedById = employeeId;
+      }
+
+      if (reasonId) order.reasonId = reasonId;
+
+      if (newStatus.code === OrderStatus.POSTPONED && dto.postponedDate) {
+        order.postponedDate = new Date(dto.postponedDate);
+        order.reminderDaysBefore = dto.reminderDaysBefore;
+        order.postponedNotificationSent = false;
+        order.reminderNotificationSent = false;
+        order.oneDayBeforeNotificationSent = false;
+      }
+
 
       // Save Entities
       await manager.save(OrderAssignmentEntity, activeAssignment);
@@ -3972,6 +4422,7 @@ export class OrdersService {
         toStatusId: newStatus.id,
         userId: employeeId,
         notes: dto.notes,
+        reasonId,
         ipAddress,
         manager,
       });
@@ -3999,6 +4450,168 @@ export class OrdersService {
     });
   }
 
+  // ========================================
+  // ✅ CONFIRMATION TEAM: CALL ATTEMPTS
+  // ========================================
+  async logCallAttempt(
+    me: any,
+    id: string,
+    dto: LogCallAttemptDto,
+    ipAddress?: string,
+  ) {
+    const adminId = tenantId(me);
+    if (!adminId) throw new BadRequestException(this.translations.t('common.missing_admin_id'));
+    const employeeId = me?.id;
+    const notificationPromises = [];
+    return this.dataSource.transaction(async (manager) => {
+      const order = await manager.findOne(OrderEntity, {
+        where: { id, adminId } as any,
+        relations: ["status", "assignments"],
+      });
+      if (!order) throw new BadRequestException(this.translations.t('domains.orders.order_not_found'));
+
+      const activeAssignment = order.assignments.find(
+        (a) => a.isAssignmentActive && a.employeeId === employeeId,
+      );
+      if (!activeAssignment) {
+        throw new BadRequestException(
+          this.translations.t('domains.orders.no_active_assignment'),
+        );
+      }
+
+      const settings = await this.clientSettingsService.getCachedSettings(adminId);
+      const countsAsRetry = settings.enabled && FAILED_CALL_OUTCOMES.includes(dto.outcome);
+      const now = new Date();
+
+      const attempt = await manager.save(
+        OrderCallAttemptEntity,
+        manager.create(OrderCallAttemptEntity, {
+          adminId,
+          orderId: order.id,
+          assignmentId: activeAssignment.id,
+          agentId: employeeId,
+          outcome: dto.outcome,
+          durationSeconds: dto.durationSeconds ?? 0,
+          note: dto.note?.trim() || null,
+          countedAsRetry: countsAsRetry,
+        }),
+      );
+
+      activeAssignment.lastActionAt = now;
+      activeAssignment.retryDueAt = null;
+
+      let autoMoveStatus: OrderStatusEntity | null = null;
+      if (countsAsRetry) {
+        activeAssignment.retriesUsed += 1;
+
+        if (activeAssignment.retriesUsed >= activeAssignment.maxRetriesAtAssignment) {
+          autoMoveStatus = await this.findStatusByCode(settings.autoMoveStatus, adminId, manager);
+          if (!autoMoveStatus) {
+            throw new BadRequestException(
+              this.translations.t('domains.orders.auto_move_status_not_configured'),
+            );
+          }
+
+          activeAssignment.isAssignmentActive = false;
+          activeAssignment.finishedAt = now;
+          activeAssignment.lockedUntil = null;
+          activeAssignment.lastStatusId = autoMoveStatus.id;
+        } else {
+          // Lock until the next retry is due
+          activeAssignment.lockedUntil = new Date(
+            now.getTime() + settings.retryInterval * 60000,
+          );
+        }
+      }
+
+      await manager.save(OrderAssignmentEntity, activeAssignment);
+
+      if (autoMoveStatus && autoMoveStatus.id !== order.statusId) {
+        const oldStatus = order.status;
+        order.status = autoMoveStatus;
+        order.updatedByUserId = employeeId;
+        const savedOrder = await manager.save(OrderEntity, order);
+
+        await this.logOrderAction({
+          manager,
+          adminId,
+          userId: employeeId,
+          orderId: savedOrder.id,
+          shippingCompanyId: order?.shippingCompanyId,
+          actionType: OrderActionType.CONFIRMED,
+          result: OrderActionResult.FAILED,
+          details: await this.requestTranslations.tAsync('domains.orders.log_confirmation_process', adminId, { args: { oldStatusName: oldStatus?.name, newStatusName: autoMoveStatus.name, retriesUsed: activeAssignment.retriesUsed, maxRetries: activeAssignment.maxRetriesAtAssignment } }),
+        });
+
+        await this.logStatusChange({
+          adminId,
+          orderId: savedOrder.id,
+          fromStatusId: oldStatus?.id,
+          toStatusId: autoMoveStatus.id,
+          userId: employeeId,
+          notes: await this.requestTranslations.tAsync('domains.orders.call_attempts.auto_moved_note', adminId, { args: { attempts: activeAssignment.retriesUsed } }),
+          ipAddress,
+          manager,
+        });
+
+        if (settings.notifyAdmin) {
+          notificationPromises.push(
+            this.notificationService.create({
+              userId: adminId,
+              type: NotificationType.ORDER_STATUS_UPDATE,
+              title: await this.requestTranslations.tAsync('domains.orders.order_follow_up_title', adminId, { args: { orderNumber: order.orderNumber } }),
+              message: await this.requestTranslations.tAsync('domains.orders.order_follow_up_message', adminId, { args: { orderNumber: order.orderNumber } }),
+              relatedEntityType: "order",
+              relatedEntityId: String(order.id),
+            }),
+          );
+        }
+      }
+
+      await Promise.all(notificationPromises);
+
+      return {
+        attempt,
+        retriesUsed: activeAssignment.retriesUsed,
+        maxRetries: activeAssignment.maxRetriesAtAssignment,
+        lockedUntil: activeAssignment.lockedUntil ?? null,
+        autoMovedTo: autoMoveStatus
+          ? { id: autoMoveStatus.id, code: autoMoveStatus.code, name: autoMoveStatus.name }
+          : null,
+      };
+    });
+  }
+
+  async listCallAttempts(me: any, orderId: string) {
+    const adminId = tenantId(me);
+    if (!adminId) throw new BadRequestException(this.translations.t('common.missing_admin_id'));
+
+    await this.get(me, orderId); // validate access
+
+    return this.dataSource.getRepository(OrderCallAttemptEntity).find({
+      where: { adminId, orderId },
+      relations: { agent: true },
+      select: { agent: { id: true, name: true } },
+      order: { created_at: "DESC" },
+    });
+  }
+
+  // failed call attempts count their retry when logged, so the status change that follows must not count it again
+  private async retryCountedByCall(manager: EntityManager, assignment: OrderAssignmentEntity) {
+    const lastChange = await manager.findOne(OrderStatusHistoryEntity, {
+      where: { orderId: assignment.orderId },
+      order: { created_at: "DESC" },
+      select: ["id", "created_at"],
+    });
+    const since = lastChange && lastChange.created_at > assignment.assignedAt
+      ? lastChange.created_at
+      : assignment.assignedAt;
+
+    return manager.getRepository(OrderCallAttemptEntity).exist({
+      where: { assignmentId: assignment.id, countedAsRetry: true, created_at: MoreThan(since) },
+    });
+  }
+
   // ========================================
   // ✅ UPDATE PAYMENT STATUS
   // ========================================
@@ -4094,15 +4707,28 @@ export class OrdersService {
       );
     }
     // Release reserved stock
-    for (const item of order.items) {
-      const variant = await this.variantRepo.findOne({
-        where: { id: item.variantId } as any,
-      });
-      if (variant) {
-        variant.reserved = Math.max(0, (variant.reserved || 0) - item.quantity);
-        await this.variantRepo.save(variant);
+    await this.dataSource.transaction(async (manager) => {
+      for (const item of order.items) {
+        const variant = await manager.findOne(ProductVariantEntity, {
+          where: { id: item.variantId } as any,
+        });
+        if (variant) {
+          const reservedBefore = variant.reserved || 0;
+          variant.reserved = Math.max(0, reservedBefore - item.quantity);
+          await manager.save(ProductVariantEntity, variant);
+
+          await this.stockMovementsService.record(manager, [{
+            adminId,
+            variantId: variant.id,
+            reason: StockMovementReason.ORDER_RESERVATION_RELEASE,
+            reservedDelta: variant.reserved - reservedBefore,
+            referenceType: StockMovementReference.ORDER,
+            referenceId: order.id,
+            userId: me?.id,
+          }]);
+        }
       }
-    }
+    });
 
 
     await this.orderRepo.softDelete({ id, adminId } as any);
@@ -4494,6 +5120,7 @@ export class OrdersService {
           ) || 0) +
           (order.shippingCost || 0) -
           (order.discount || 0),
+        tags: order.tags?.map((tag) => tag.name).join(", ") || na,
         notes: order.notes || na,
         customerNotes: order.customerNotes || na,
         createdAt: order.created_at
@@ -4529,6 +5156,7 @@ export class OrdersService {
       { header: t('domains.orders.export_discount'), key: "discount", width: 15 },
       { header: t('domains.orders.export_deposit'), key: "deposit", width: 15 },
       { header: t('domains.orders.export_final_total'), key: "finalTotal", width: 15 },
+      { header: t('domains.orders.export_tags'), key: "tags", width: 25 },
       { header: t('domains.orders.export_notes'), key: "notes", width: 30 },
       { header: t('domains.orders.export_customer_notes'), key: "customerNotes", width: 30 },
       { header: t('domains.orders.export_created_at'), key: "createdAt", width: 15 },
@@ -5640,7 +6268,7 @@ export class OrdersService {
     // 1. جلب الطلب مع التحقق من الـ adminId للأمان
     const order = await manager.getRepository(OrderEntity).findOne({
       where: { id: orderId, adminId },
-      relations: ['status', 'items', 'items.variant'],
+      relations: ['status', 'items', 'items.variant', 'items.variant.product'],
     });
 
     if (!order) throw new NotFoundException(this.translations.t('domains.orders.order_not_found'));
@@ -5657,6 +6285,7 @@ export class OrdersService {
     // Map لتجميع الكميات (في حال تكرار نفس المنتج في أسطر مختلفة بالطلب)
     const variantDeductions = new Map<string, number>();
     const itemsToUpdateIds: string[] = [];
+    const warehouseDeductions: WarehouseDeduction[] = [];
 
     for (const item of order.items) {
       if (!item.variant) continue;
@@ -5669,6 +6298,13 @@ export class OrdersService {
       variantDeductions.set(variantId, currentTotal + qty);
 
       itemsToUpdateIds.push(item.id);
+      warehouseDeductions.push({
+        itemId: item.id,
+        orderId: order.id,
+        variant: item.variant,
+        quantity: qty,
+        preferredWarehouseIds: [order.warehouseId, item.variant.product?.warehouseId],
+      });
     }
 
     if (itemsToUpdateIds.length > 0) {
@@ -5684,8 +6320,14 @@ export class OrdersService {
           };
         });
 
+        const warehouse = order.warehouseId
+          ? await this.warehouseStockService.assertWarehouse(adminId, order.warehouseId, manager)
+          : undefined;
+
         await this.validateStockAvailability(adminId, stockCheckItems, {
           isDeduction: true,
+          warehouse,
+          manager,
         });
       }
 
@@ -5714,6 +6356,9 @@ export class OrdersService {
 
       // تشغيل جميع الاستعلامات بالتوازي لسرعة الأداء
       await Promise.all([...variantUpdates, itemsUpdate]);
+
+      // 5. خصم المخزون من المستودعات
+      await this.deductWarehouseStock(manager, adminId, warehouseDeductions, options);
     }
   }
 
@@ -5729,10 +6374,11 @@ export class OrdersService {
     // Key: variantId, Value: totalQty
     const variantDeductions = new Map<string, number>();
     const itemsToUpdateIds: string[] = [];
+    const warehouseDeductions: WarehouseDeduction[] = [];
 
     const orders = await manager.getRepository(OrderEntity).find({
       where: { id: In(orderIds), adminId }, // تأكد من إضافة adminId للأمان
-      relations: ['status', 'items', 'items.variant'],
+      relations: ['status', 'items', 'items.variant', 'items.variant.product'],
     });
 
     for (const order of orders) {
@@ -5755,32 +6401,52 @@ export class OrdersService {
         variantDeductions.set(variantId, currentTotal + qty);
 
         itemsToUpdateIds.push(item.id);
+        warehouseDeductions.push({
+          itemId: item.id,
+          orderId: order.id,
+          variant: item.variant,
+          quantity: qty,
+          preferredWarehouseIds: [order.warehouseId, item.variant.product?.warehouseId],
+        });
       }
     }
 
     if (itemsToUpdateIds.length > 0) {
       // 1. التحقق من توفر المخزون قبل الخصم لجميع الطلبات
       if (!options.skipValidation) {
-        const stockCheckItems = Array.from(variantDeductions.entries()).map(([variantId, qty]) => {
-          let variant: ProductVariantEntity | undefined;
-          for (const order of orders) {
-            const item = order.items.find((it) => it.variant?.id === variantId);
-            if (item?.variant) {
-              variant = item.variant;
-              break;
-            }
-          }
-          return {
+        const variantsById = new Map<string, ProductVariantEntity>();
+        const warehouseQuantities = new Map<string, Map<string, number>>();
+        for (const d of warehouseDeductions) {
+          variantsById.set(d.variant.id, d.variant);
+          const warehouseId = orders.find((o) => o.id === d.orderId)?.warehouseId;
+          if (!warehouseId) continue;
+          const quantities = warehouseQuantities.get(warehouseId) ?? new Map<string, number>();
+          quantities.set(d.variant.id, (quantities.get(d.variant.id) || 0) + d.quantity);
+          warehouseQuantities.set(warehouseId, quantities);
+        }
+
+        const toCheckItems = (quantities: Map<string, number>) =>
+          Array.from(quantities.entries()).map(([variantId, qty]) => ({
             variantId,
             quantity: qty,
-            variant,
-            sku: variant?.sku,
-          };
-        });
+            variant: variantsById.get(variantId),
+            sku: variantsById.get(variantId)?.sku,
+          }));
 
-        await this.validateStockAvailability(adminId, stockCheckItems, {
+        // all orders together against the variant totals, then each order warehouse against its own stock
+        await this.validateStockAvailability(adminId, toCheckItems(variantDeductions), {
           isDeduction: true,
+          manager,
         });
+
+        for (const [warehouseId, quantities] of warehouseQuantities) {
+          const warehouse = await this.warehouseStockService.assertWarehouse(adminId, warehouseId, manager);
+          await this.validateStockAvailability(adminId, toCheckItems(quantities), {
+            isDeduction: true,
+            warehouse,
+            manager,
+          });
+        }
       }
 
       const variantUpdates = Array.from(variantDeductions.entries()).map(([id, qty]) => {
@@ -5806,6 +6472,236 @@ export class OrdersService {
         .execute();
 
       await Promise.all([...variantUpdates, itemUpdate]);
+
+      // 3. خصم المخزون من المستودعات
+      await this.deductWarehouseStock(manager, adminId, warehouseDeductions, options);
+    }
+  }
+
+  // Split shipments of the given orders handled by one courier (manual shipments have no courier)
+  public async findSplitShipments(manager: EntityManager, orderIds: string[], shippingCompanyId?: string | null) {
+    if (!orderIds.length) return [];
+    return manager.find(ShipmentEntity, {
+      where: { orderId: In(orderIds), isPartial: true, shippingCompanyId: shippingCompanyId ?? IsNull() },
+    });
+  }
+
+  // Takes a split shipment's lines out of stock. Every shipment line remembers what it already deducted,
+  // so both the dispatch (manifest) and the delivery can call it without deducting twice.
+  public async deductStockForShipment(
+    manager: EntityManager,
+    shipmentId: string,
+    adminId: string,
+    options: { skipValidation?: boolean } = {}
+  ) {
+    const shipment = await manager.findOne(ShipmentEntity, {
+      where: { id: shipmentId, adminId },
+      relations: ['order', 'items', 'items.orderItem', 'items.orderItem.variant', 'items.orderItem.variant.product'],
+    });
+    if (!shipment) return;
+
+    const variantDeductions = new Map<string, { qty: number; variant: ProductVariantEntity }>();
+    const lines: { shipmentItemId: string; orderItemId: string; quantity: number }[] = [];
+    const warehouseDeductions: WarehouseDeduction[] = [];
+
+    for (const line of shipment.items ?? []) {
+      const item = line.orderItem;
+      if (!item?.variant) continue;
+
+      const qty = Math.min(line.quantity - (line.deductedQuantity || 0), getMissingDeductionQuantity(item));
+      if (qty <= 0) continue;
+
+      const existing = variantDeductions.get(item.variant.id) || { qty: 0, variant: item.variant };
+      variantDeductions.set(item.variant.id, { qty: existing.qty + qty, variant: item.variant });
+
+      lines.push({ shipmentItemId: line.id, orderItemId: item.id, quantity: qty });
+      warehouseDeductions.push({
+        itemId: item.id,
+        orderId: shipment.orderId,
+        variant: item.variant,
+        quantity: qty,
+        preferredWarehouseIds: [shipment.warehouseId, shipment.order?.warehouseId, item.variant.product?.warehouseId],
+      });
+    }
+
+    if (!lines.length) return;
+
+    if (!options.skipValidation) {
+      const warehouseId = shipment.warehouseId ?? shipment.order?.warehouseId;
+      const warehouse = warehouseId
+        ? await this.warehouseStockService.assertWarehouse(adminId, warehouseId, manager)
+        : undefined;
+
+      await this.validateStockAvailability(
+        adminId,
+        Array.from(variantDeductions.entries()).map(([variantId, data]) => ({
+          variantId,
+          quantity: data.qty,
+          variant: data.variant,
+          sku: data.variant.sku,
+        })),
+        { isDeduction: true, warehouse, manager },
+      );
+    }
+
+    for (const [id, { qty }] of variantDeductions.entries()) {
+      await manager
+        .createQueryBuilder()
+        .update(ProductVariantEntity)
+        .set({
+          stockOnHand: () => options.skipValidation ? `"stockOnHand" - ${qty}` : `GREATEST(0, "stockOnHand" - ${qty})`,
+          reserved: () => options.skipValidation ? `"reserved" - ${qty}` : `GREATEST(0, "reserved" - ${qty})`,
+        } as any)
+        .where("id = :id", { id })
+        .execute();
+    }
+
+    for (const line of lines) {
+      await manager
+        .createQueryBuilder()
+        .update(OrderItemEntity)
+        .set({ stockDeducted: true, stockDeductedQuantity: () => `"stockDeductedQuantity" + ${line.quantity}` })
+        .where("id = :id", { id: line.orderItemId })
+        .execute();
+      await manager.increment(ShipmentItemEntity, { id: line.shipmentItemId }, 'deductedQuantity', line.quantity);
+    }
+
+    await this.deductWarehouseStock(manager, adminId, warehouseDeductions, options);
+  }
+
+  // Takes each deducted line from the warehouses (fulfilment warehouse first) and remembers
+  // the warehouse on the order item so returns can be restocked into it.
+  // Also writes the ledger rows, clamped the same way as the GREATEST(0, ...) variant updates.
+  private async deductWarehouseStock(
+    manager: EntityManager,
+    adminId: string,
+    deductions: WarehouseDeduction[],
+    options: { skipValidation?: boolean } = {},
+  ) {
+    const remaining = new Map<string, { stockOnHand: number; reserved: number }>();
+    const movements: StockMovementInput[] = [];
+
+    for (const d of deductions) {
+      const variantId = d.variant.id;
+      const warehouseId = await this.warehouseStockService.decrease(manager, {
+        adminId,
+        variantId,
+        quantity: d.quantity,
+        preferredWarehouseIds: d.preferredWarehouseIds,
+      });
+
+      if (warehouseId) {
+        await manager.update(OrderItemEntity, { id: d.itemId }, { warehouseId });
+      }
+
+      const left = remaining.get(variantId) ?? {
+        stockOnHand: Math.max(0, d.variant.stockOnHand || 0),
+        reserved: Math.max(0, d.variant.reserved || 0),
+      };
+      const stockTaken = options.skipValidation ? d.quantity : Math.min(d.quantity, left.stockOnHand);
+      const reservedTaken = options.skipValidation ? d.quantity : Math.min(d.quantity, left.reserved);
+      left.stockOnHand -= stockTaken;
+      left.reserved -= reservedTaken;
+      remaining.set(variantId, left);
+
+      if (stockTaken > 0) {
+        await this.lotsService.allocate(manager, {
+          adminId,
+          variantId,
+          quantity: stockTaken,
+          orderId: d.orderId,
+          orderItemId: d.itemId,
+        });
+      }
+
+      movements.push({
+        adminId,
+        variantId,
+        reason: StockMovementReason.ORDER_DEDUCTION,
+        stockOnHandDelta: -stockTaken,
+        reservedDelta: -reservedTaken,
+        warehouseId,
+        referenceType: StockMovementReference.ORDER,
+        referenceId: d.orderId,
+      });
+    }
+
+    await this.stockMovementsService.record(manager, movements);
+
+    // record() valued each movement with the inventory cost, which becomes the line's actual cost
+    for (const [index, d] of deductions.entries()) {
+      const movement = movements[index];
+      const quantity = -(movement.stockOnHandDelta || 0);
+      if (quantity <= 0 || movement.unitCost == null) continue;
+      await this.stampItemCost(manager, d.itemId, quantity, Number(movement.unitCost));
+    }
+  }
+
+  // Blends the cost of newly deducted units with the already costed ones and keeps line and order profit in step
+  private async stampItemCost(manager: EntityManager, itemId: string, quantity: number, unitCost: number) {
+    const item = await manager.findOne(OrderItemEntity, { where: { id: itemId } });
+    if (!item) return;
+
+    const costed = item.costedQuantity || 0;
+    const blended = costed > 0 ? (costed * Number(item.unitCost || 0) + quantity * unitCost) / (costed + quantity) : unitCost;
+    const nextUnitCost = Number(blended.toFixed(2));
+    const lineProfit = Number(((Number(item.unitPrice || 0) - nextUnitCost) * item.quantity).toFixed(2));
+
+    await manager.update(OrderItemEntity, { id: item.id }, {
+      unitCost: nextUnitCost,
+      lineProfit,
+      costedQuantity: costed + quantity,
+      costedAt: new Date(),
+    });
+
+    const profitDiff = Number((lineProfit - Number(item.lineProfit || 0)).toFixed(2));
+    if (profitDiff !== 0) {
+      await manager
+        .createQueryBuilder()
+        .update(OrderEntity)
+        .set({ profit: () => `"profit" + :profitDiff` })
+        .setParameter("profitDiff", profitDiff)
+        .where("id = :id", { id: item.orderId })
+        .execute();
+    }
+  }
+
+  // Inverse of stampItemCost for units put back into stock: takes them out of the blend at the cost they left with
+  public async unstampItemCost(manager: EntityManager, itemId: string, quantity: number, unitCost: number | null) {
+    const item = await manager.findOne(OrderItemEntity, { where: { id: itemId }, relations: ["variant", "variant.product"] });
+    if (!item) return;
+
+    const costed = item.costedQuantity || 0;
+    const back = Math.min(quantity, costed);
+    if (back <= 0) return;
+
+    const left = costed - back;
+    let blended = Number(item.unitCost || 0);
+    if (left === 0) {
+      // nothing costed any more: the line goes back to the estimate a new line gets
+      blended = Number(item.variant?.unitCost ?? item.variant?.product?.wholesalePrice ?? 0);
+    } else if (unitCost != null) {
+      blended = Math.max(0, (costed * blended - back * unitCost) / left);
+    }
+    const nextUnitCost = Number(blended.toFixed(2));
+    const lineProfit = Number(((Number(item.unitPrice || 0) - nextUnitCost) * item.quantity).toFixed(2));
+
+    await manager.update(OrderItemEntity, { id: item.id }, {
+      unitCost: nextUnitCost,
+      lineProfit,
+      costedQuantity: left,
+      costedAt: left > 0 ? item.costedAt : null,
+    });
+
+    const profitDiff = Number((lineProfit - Number(item.lineProfit || 0)).toFixed(2));
+    if (profitDiff !== 0) {
+      await manager
+        .createQueryBuilder()
+        .update(OrderEntity)
+        .set({ profit: () => `"profit" + :profitDiff` })
+        .setParameter("profitDiff", profitDiff)
+        .where("id = :id", { id: item.orderId })
+        .execute();
     }
   }
 
@@ -5837,9 +6733,16 @@ export class OrdersService {
       isDeduction?: boolean;
       variantMap?: Map<string, ProductVariantEntity>;
       errorMessagePrefix?: string;
+      warehouse?: { id: string; name: string }; // also require the quantity inside this warehouse
+      manager?: EntityManager;
     } = {}
   ) {
-    const { isDeduction = false, variantMap, errorMessagePrefix } = options;
+    const { isDeduction = false, variantMap, errorMessagePrefix, warehouse, manager } = options;
+
+    // units in expired lots are on hand but cannot be shipped
+    const expiredLots = isDeduction
+      ? await this.lotsService.expiredQuantities(manager ?? this.dataSource.manager, adminId, items.map((i) => i.variantId))
+      : new Map<string, number>();
 
     for (const item of items) {
       const variant = item.variant || variantMap?.get(item.variantId);
@@ -5850,8 +6753,8 @@ export class OrdersService {
       let available: number;
       if (isDeduction) {
         // When deducting, we are fulfilling an order that might already be reserved.
-        // We just need to ensure we have enough physical stock on hand.
-        available = variant.stockOnHand || 0;
+        // We just need to ensure we have enough physical stock on hand (expired lots excluded).
+        available = Math.max(0, (variant.stockOnHand || 0) - (expiredLots.get(variant.id) || 0));
       } else {
         // When creating/updating, we check against the configured "available" stock.
         available = await this.calculateAvailableStock(
@@ -5865,12 +6768,27 @@ export class OrdersService {
         const prefix = errorMessagePrefix ? `${errorMessagePrefix}: ` : "";
         const sku = variant.sku || item.sku || item.variantId;
 
-        const message = isDeduction
-          ? this.translations.t('domains.orders.insufficient_stock_deduct', { args: { prefix, sku, available, quantity: item.quantity } })
-          : this.translations.t('domains.orders.insufficient_stock_order', { args: { prefix, sku, available } });
+        const expired = expiredLots.get(variant.id) || 0;
+        const message = isDeduction && expired > 0
+          ? this.translations.t('domains.orders.insufficient_stock_expired', { args: { prefix, sku, available, expired, quantity: item.quantity } })
+          : isDeduction
+            ? this.translations.t('domains.orders.insufficient_stock_deduct', { args: { prefix, sku, available, quantity: item.quantity } })
+            : this.translations.t('domains.orders.insufficient_stock_order', { args: { prefix, sku, available } });
 
         throw new BadRequestException(message);
       }
+
+      if (warehouse) {
+        const inWarehouse = await this.warehouseStockService.getWarehouseQuantity(adminId, variant.id, warehouse.id, manager);
+        if (inWarehouse < item.quantity) {
+          const prefix = errorMessagePrefix ? `${errorMessagePrefix}: ` : "";
+          throw new BadRequestException(
+            this.translations.t('domains.orders.insufficient_stock_warehouse', {
+              args: { prefix, sku: variant.sku || item.sku || item.variantId, warehouse: warehouse.name, available: inWarehouse },
+            }),
+          );
+        }
+      }
     }
   }
 
@@ -5894,15 +6812,20 @@ export class OrdersService {
     });
   }
 
-  async getConfirmationStatusCounts(me: any) {
+  async getConfirmationStatusCounts(me: any, q?: any) {
     const adminId = tenantId(me);
     const employeeId = me?.id;
 
+    // 1. Optional saved view / filter expression the counts are restricted to
+    const { filter } = await this.orderViews.resolve(me, adminId, q);
+    const viewCondition = this.orderViews.joinCondition("order", adminId, filter);
+
     // 2. Query statuses and count active assignments
     const results = await this.statusRepo
       .createQueryBuilder("status")
-      .leftJoin("status.orders", "order", "order.adminId = :adminId", {
+      .leftJoin("status.orders", "order", `order.adminId = :adminId${viewCondition.sql}`, {
         adminId,
+        ...viewCondition.params,
       })
       .leftJoin(
         "order.assignments",
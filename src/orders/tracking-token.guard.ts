@@ -0,0 +1,23 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  Injectable,
+  NotFoundException,
+} from "@nestjs/common";
+import { TranslationService } from "common/translation.service";
+import { verifyTrackingToken } from "./utils/tracking-link";
+
+// Runs before the upload interceptor, so a bad link never gets files written to disk
+@Injectable()
+export class TrackingTokenGuard implements CanActivate {
+  constructor(private readonly translations: TranslationService) {}
+
+  canActivate(ctx: ExecutionContext): boolean {
+    const req = ctx.switchToHttp().getRequest();
+    if (verifyTrackingToken(req.params?.token)) return true;
+
+    throw new NotFoundException(
+      this.translations.t("domains.orders.tracking.link_invalid"),
+    );
+  }
+}
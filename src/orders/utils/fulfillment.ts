@@ -0,0 +1,63 @@
+import { OrderFulfillmentStatus, OrderItemEntity } from "entities/order.entity";
+import { ShipmentEntity, ShipmentItemEntity, ShipmentStatus } from "entities/shipping.entity";
+
+// shipments that gave their items back to the order (they can be shipped again)
+export const CLOSED_SHIPMENT_STATUSES = [
+  ShipmentStatus.CANCELLED,
+  ShipmentStatus.FAILED,
+  ShipmentStatus.CUSTOMER_NOT_RESPOND,
+  ShipmentStatus.CUSTOMER_DATA_WRONG,
+  ShipmentStatus.CUSTOMER_REFUSED,
+  ShipmentStatus.RETURNED_TO_WAREHOUSE,
+];
+
+export function isShipmentOpen(shipment: Pick<ShipmentEntity, "status">) {
+  return !CLOSED_SHIPMENT_STATUSES.includes(shipment.status);
+}
+
+type FulfillmentShipment = Pick<ShipmentEntity, "status"> & Partial<Pick<ShipmentEntity, "returnRequestId">> & {
+  items?: Pick<ShipmentItemEntity, "orderItemId" | "quantity">[];
+};
+
+/**
+ * Aggregates an order's split shipments into shipped / delivered / remaining quantities per order item
+ * and the resulting fulfilment status (null when nothing is out with a courier).
+ */
+export function summarizeFulfillment(
+  orderItems: Pick<OrderItemEntity, "id" | "quantity">[],
+  shipments: FulfillmentShipment[],
+) {
+  const shipped = new Map<string, number>();
+  const delivered = new Map<string, number>();
+
+  for (const shipment of shipments) {
+    // reverse pickups bring items back, they do not fulfil the order
+    if (!isShipmentOpen(shipment) || shipment.returnRequestId) continue;
+    for (const item of shipment.items ?? []) {
+      shipped.set(item.orderItemId, (shipped.get(item.orderItemId) || 0) + item.quantity);
+      if (shipment.status === ShipmentStatus.DELIVERED) {
+        delivered.set(item.orderItemId, (delivered.get(item.orderItemId) || 0) + item.quantity);
+      }
+    }
+  }
+
+  const remaining = new Map<string, number>();
+  let total = 0;
+  let shippedTotal = 0;
+  let deliveredTotal = 0;
+  for (const item of orderItems) {
+    const qty = item.quantity || 0;
+    total += qty;
+    shippedTotal += Math.min(qty, shipped.get(item.id) || 0);
+    deliveredTotal += Math.min(qty, delivered.get(item.id) || 0);
+    remaining.set(item.id, Math.max(0, qty - (shipped.get(item.id) || 0)));
+  }
+
+  let status: OrderFulfillmentStatus | null = null;
+  if (total > 0 && deliveredTotal >= total) status = OrderFulfillmentStatus.DELIVERED;
+  else if (deliveredTotal > 0) status = OrderFulfillmentStatus.PARTIALLY_DELIVERED;
+  else if (total > 0 && shippedTotal >= total) status = OrderFulfillmentStatus.SHIPPED;
+  else if (shippedTotal > 0) status = OrderFulfillmentStatus.PARTIALLY_SHIPPED;
+
+  return { status, shipped, delivered, remaining };
+}
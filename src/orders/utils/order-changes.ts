@@ -0,0 +1,87 @@
+import { OrderEntity, OrderFieldChange, OrderItemEntity } from "entities/order.entity";
+
+// order columns recorded in the change history
+export const TRACKED_ORDER_FIELDS = [
+  "customerName",
+  "phoneNumber",
+  "secondPhoneNumber",
+  "email",
+  "address",
+  "city",
+  "cityId",
+  "area",
+  "landmark",
+  "allowOpenPackage",
+  "paymentMethod",
+  "storeId",
+  "warehouseId",
+  "shippingCompanyId",
+  "shippingMetadata",
+  "trackingNumber",
+  "shippingCost",
+  "discount",
+  "deposit",
+  "finalTotal",
+  "notes",
+  "customerNotes",
+] as const;
+
+// decimal columns come back from postgres as strings
+const NUMERIC_FIELDS = new Set<string>(["shippingCost", "discount", "deposit", "finalTotal"]);
+
+export type OrderSnapshot = Record<string, any> & {
+  items: Record<string, { sku: string | null; quantity: number; unitPrice: number }>;
+};
+
+const itemKey = (item: Pick<OrderItemEntity, "variantId" | "bundleId">) =>
+  item.bundleId ? `${item.variantId}::${item.bundleId}` : item.variantId;
+
+const normalize = (field: string, value: any) => {
+  if (value === undefined || value === "") return null;
+  if (NUMERIC_FIELDS.has(field) && value !== null) return Number(value);
+  return value;
+};
+
+const same = (a: any, b: any) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+/** Copies the tracked fields and lines of an order, to diff it after an edit. */
+export function snapshotOrder(order: Partial<OrderEntity>): OrderSnapshot {
+  const snapshot: OrderSnapshot = { items: {} };
+  for (const field of TRACKED_ORDER_FIELDS) {
+    const value = normalize(field, order[field]);
+    snapshot[field] = value && typeof value === "object" ? JSON.parse(JSON.stringify(value)) : value;
+  }
+  for (const item of order.items ?? []) {
+    snapshot.items[itemKey(item)] = {
+      sku: item.variant?.sku ?? null,
+      quantity: item.quantity,
+      unitPrice: Number(item.unitPrice || 0),
+    };
+  }
+  return snapshot;
+}
+
+/** Field-by-field difference of two snapshots; lines are reported as "items.<sku>". */
+export function diffOrderSnapshots(before: OrderSnapshot, after: OrderSnapshot): OrderFieldChange[] {
+  const changes: OrderFieldChange[] = [];
+
+  for (const field of TRACKED_ORDER_FIELDS) {
+    if (!same(before[field], after[field])) {
+      changes.push({ field, oldValue: before[field] ?? null, newValue: after[field] ?? null });
+    }
+  }
+
+  const keys = new Set([...Object.keys(before.items), ...Object.keys(after.items)]);
+  for (const key of keys) {
+    const oldLine = before.items[key] ?? null;
+    const newLine = after.items[key] ?? null;
+    if (same(oldLine, newLine)) continue;
+    changes.push({
+      field: `items.${newLine?.sku ?? oldLine?.sku ?? key}`,
+      oldValue: oldLine,
+      newValue: newLine,
+    });
+  }
+
+  return changes;
+}
@@ -0,0 +1,328 @@
+import { Brackets, WhereExpressionBuilder } from "typeorm";
+import { OrderFulfillmentStatus, OrderRiskLevel, PaymentMethod, PaymentStatus } from "entities/order.entity";
+import { ShipmentStatus, UnifiedShippingStatus } from "entities/shipping.entity";
+
+export type OrderFilterOperator =
+  | "eq"
+  | "neq"
+  | "in"
+  | "not_in"
+  | "contains"
+  | "starts_with"
+  | "gt"
+  | "gte"
+  | "lt"
+  | "lte"
+  | "between"
+  | "is_null"
+  | "is_not_null"
+  | "last_days";
+
+export interface OrderFilterCondition {
+  field: string;
+  op: OrderFilterOperator;
+  value?: any;
+}
+
+export interface OrderFilterGroup {
+  logic?: "and" | "or";
+  conditions: Array<OrderFilterCondition | OrderFilterGroup>;
+}
+
+type FieldKind = "text" | "id" | "number" | "date" | "boolean";
+
+interface FieldDef {
+  kind: FieldKind;
+  // column on the orders row
+  column?: string;
+  // or rows of a related table (aliased r), matched with EXISTS; `target` is the compared expression
+  related?: { table: string; target: string; join?: string; where?: string };
+  // allowed values of an enum-backed text field (checked for eq / neq / in / not_in)
+  values?: string[];
+}
+
+// every field a filter expression can target, by its public name
+export const ORDER_FILTER_FIELDS: Record<string, FieldDef> = {
+  orderNumber: { kind: "text", column: "orderNumber" },
+  externalId: { kind: "text", column: "externalId" },
+  customerName: { kind: "text", column: "customerName" },
+  phoneNumber: { kind: "text", column: "phoneNumber" },
+  secondPhoneNumber: { kind: "text", column: "secondPhoneNumber" },
+  email: { kind: "text", column: "email" },
+  address: { kind: "text", column: "address" },
+  city: { kind: "text", column: "city" },
+  area: { kind: "text", column: "area" },
+  trackingNumber: { kind: "text", column: "trackingNumber" },
+  notes: { kind: "text", column: "notes" },
+  paymentMethod: { kind: "text", column: "paymentMethod", values: Object.values(PaymentMethod) },
+  paymentStatus: { kind: "text", column: "paymentStatus", values: Object.values(PaymentStatus) },
+  riskLevel: { kind: "text", column: "riskLevel", values: Object.values(OrderRiskLevel) },
+  fulfillmentStatus: { kind: "text", column: "fulfillmentStatus", values: Object.values(OrderFulfillmentStatus) },
+
+  statusId: { kind: "id", column: "statusId" },
+  cityId: { kind: "id", column: "cityId" },
+  storeId: { kind: "id", column: "storeId" },
+  shippingCompanyId: { kind: "id", column: "shippingCompanyId" },
+  warehouseId: { kind: "id", column: "warehouseId" },
+  reasonId: { kind: "id", column: "reasonId" },
+  createdByUserId: { kind: "id", column: "createdByUserId" },
+
+  riskScore: { kind: "number", column: "riskScore" },
+  duplicateCount: { kind: "number", column: "duplicateCount" },
+  productsTotal: { kind: "number", column: "productsTotal" },
+  shippingCost: { kind: "number", column: "shippingCost" },
+  discount: { kind: "number", column: "discount" },
+  deposit: { kind: "number", column: "deposit" },
+  finalTotal: { kind: "number", column: "finalTotal" },
+  collectedAmount: { kind: "number", column: "collectedAmount" },
+
+  createdAt: { kind: "date", column: "created_at" },
+  updatedAt: { kind: "date", column: "updated_at" },
+  confirmedAt: { kind: "date", column: "confirmedAt" },
+  shippedAt: { kind: "date", column: "shippedAt" },
+  deliveredAt: { kind: "date", column: "deliveredAt" },
+  postponedDate: { kind: "date", column: "postponedDate" },
+  labelPrinted: { kind: "date", column: "labelPrinted" },
+
+  isConfirmed: { kind: "boolean", column: "isConfirmed" },
+  isReplacement: { kind: "boolean", column: "isReplacement" },
+  allowOpenPackage: { kind: "boolean", column: "allowOpenPackage" },
+
+  statusCode: { kind: "text", related: { table: "order_statuses", target: "r.code", where: `r.id = {order}."statusId"` } },
+  sku: { kind: "text", related: { table: "order_items", target: "v.sku", join: `JOIN product_variants v ON v.id = r."variantId"` } },
+  variantId: { kind: "id", related: { table: "order_items", target: `r."variantId"` } },
+  productId: { kind: "id", related: { table: "order_items", target: `v."productId"`, join: `JOIN product_variants v ON v.id = r."variantId"` } },
+  itemQuantity: { kind: "number", related: { table: "order_items", target: "r.quantity" } },
+  assignedEmployeeId: { kind: "id", related: { table: "order_assignments", target: `r."employeeId"`, where: `r."isAssignmentActive" = true` } },
+  shipmentStatus: { kind: "text", related: { table: "shipments", target: "r.status" }, values: Object.values(ShipmentStatus) },
+  shipmentUnifiedStatus: { kind: "text", related: { table: "shipments", target: `r."unifiedStatus"` }, values: Object.values(UnifiedShippingStatus) },
+  tagId: { kind: "id", related: { table: "order_tag_links", target: `r."tagId"` } },
+  tag: { kind: "text", related: { table: "order_tag_links", target: "t.name", join: `JOIN order_tags t ON t.id = r."tagId"` } },
+};
+
+const OPERATORS_BY_KIND: Record<FieldKind, OrderFilterOperator[]> = {
+  text: ["eq", "neq", "in", "not_in", "contains", "starts_with", "is_null", "is_not_null"],
+  id: ["eq", "neq", "in", "not_in", "is_null", "is_not_null"],
+  number: ["eq", "neq", "gt", "gte", "lt", "lte", "between", "is_null", "is_not_null"],
+  date: ["gt", "gte", "lt", "lte", "between", "last_days", "is_null", "is_not_null"],
+  boolean: ["eq", "neq"],
+};
+
+// operators whose match on a child table means "no child row matches the positive form"
+const NEGATED: Partial<Record<OrderFilterOperator, OrderFilterOperator>> = {
+  neq: "eq",
+  not_in: "in",
+};
+
+const MAX_DEPTH = 4;
+const MAX_CONDITIONS = 50;
+
+/** Thrown on a malformed expression; `key` is the i18n message under domains.orders.filters. */
+export class OrderFilterError extends Error {
+  constructor(public readonly key: string, public readonly args: Record<string, any> = {}) {
+    super(key);
+  }
+}
+
+const isGroup = (node: any): node is OrderFilterGroup => Array.isArray(node?.conditions);
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// a value postgres accepts for the field, so a bad saved filter fails here instead of in the list query
+const isValidValue = (def: FieldDef, op: OrderFilterOperator, value: any) => {
+  switch (def.kind) {
+    case "id":
+      return typeof value === "string" && UUID.test(value);
+    case "number":
+      return typeof value !== "boolean" && String(value).trim() !== "" && Number.isFinite(Number(value));
+    case "boolean":
+      return [true, false, "true", "false"].includes(value);
+    case "date":
+      return !Number.isNaN(new Date(value).getTime());
+    default:
+      return !def.values || !["eq", "neq", "in", "not_in"].includes(op) || def.values.includes(value);
+  }
+};
+
+/** Checks an expression coming from a client or a saved view; throws OrderFilterError on the first problem. */
+export function validateOrderFilter(filter: any, depth = 0, counter = { count: 0 }): OrderFilterGroup {
+  if (!isGroup(filter)) throw new OrderFilterError("invalid_group");
+  if (filter.logic && !["and", "or"].includes(filter.logic)) throw new OrderFilterError("invalid_logic", { logic: filter.logic });
+  if (depth >= MAX_DEPTH) throw new OrderFilterError("too_deep", { max: MAX_DEPTH });
+
+  for (const node of filter.conditions) {
+    if (isGroup(node)) {
+      validateOrderFilter(node, depth + 1, counter);
+      continue;
+    }
+
+    if (++counter.count > MAX_CONDITIONS) throw new OrderFilterError("too_many_conditions", { max: MAX_CONDITIONS });
+
+    const def = ORDER_FILTER_FIELDS[node?.field];
+    if (!def) throw new OrderFilterError("unknown_field", { field: node?.field });
+    if (!OPERATORS_BY_KIND[def.kind].includes(node.op)) {
+      throw new OrderFilterError("invalid_operator", { field: node.field, op: node.op });
+    }
+
+    const value = node.value;
+    const missing = value === undefined || value === null || value === "";
+    if (["in", "not_in"].includes(node.op) && (!Array.isArray(value) || !value.length)) {
+      throw new OrderFilterError("invalid_value", { field: node.field });
+    }
+    if (node.op === "between" && (!Array.isArray(value) || value.length !== 2 || value.every((v) => v === null || v === ""))) {
+      throw new OrderFilterError("invalid_value", { field: node.field });
+    }
+    if (node.op === "last_days" && !(Number(value) > 0)) throw new OrderFilterError("invalid_value", { field: node.field });
+    if (!["in", "not_in", "between", "is_null", "is_not_null"].includes(node.op) && missing) {
+      throw new OrderFilterError("invalid_value", { field: node.field });
+    }
+
+    // last_days was checked above; the between bounds may each be left empty
+    let values: any[] = [];
+    if (["in", "not_in"].includes(node.op)) values = value;
+    else if (node.op === "between") values = value.filter((v) => v !== null && v !== undefined && v !== "");
+    else if (!["last_days", "is_null", "is_not_null"].includes(node.op)) values = [value];
+    if (values.some((v) => !isValidValue(def, node.op, v))) {
+      throw new OrderFilterError("invalid_value", { field: node.field });
+    }
+  }
+
+  return filter;
+}
+
+/** Both expressions must match; either may be missing. */
+export function mergeOrderFilters(...filters: Array<OrderFilterGroup | null | undefined>): OrderFilterGroup | null {
+  const present = filters.filter((f) => f?.conditions?.length);
+  if (!present.length) return null;
+  if (present.length === 1) return present[0];
+  return { logic: "and", conditions: present };
+}
+
+/**
+ * Compiles a validated expression to a where clause on the orders row aliased `alias`.
+ * Parameter names carry `prefix` so two filters can share one query builder.
+ */
+export function compileOrderFilter(filter: OrderFilterGroup, alias: string, prefix = "of"): Brackets {
+  let index = 0;
+  const nextParam = () => `${prefix}_${index++}`;
+
+  const compileGroup = (group: OrderFilterGroup) =>
+    new Brackets((qb) => {
+      const or = group.logic === "or";
+      group.conditions.forEach((node, i) => {
+        const clause = isGroup(node) ? compileGroup(node) : compileCondition(node);
+        if (!clause) return;
+        if (i === 0) qb.where(clause as any);
+        else if (or) qb.orWhere(clause as any);
+        else qb.andWhere(clause as any);
+      });
+      // an empty group matches everything
+      if (!group.conditions.length) qb.where("1 = 1");
+    });
+
+  const compileCondition = (cond: OrderFilterCondition) => {
+    const def = ORDER_FILTER_FIELDS[cond.field];
+    if (def.related) return compileRelated(def, cond);
+    return compileComparison(`"${alias}"."${def.column}"`, def.kind, cond.op, cond.value);
+  };
+
+  const compileRelated = (def: FieldDef, cond: OrderFilterCondition) => {
+    const { table, target, join, where } = def.related;
+    const link = where?.includes("{order}")
+      ? where.replace("{order}", `"${alias}"`)
+      : [`r."orderId" = "${alias}".id`, where].filter(Boolean).join(" AND ");
+    const from = `FROM ${table} r ${join ?? ""} WHERE ${link}`;
+
+    if (cond.op === "is_null") return new Brackets((qb) => qb.where(`NOT EXISTS (SELECT 1 ${from})`));
+    if (cond.op === "is_not_null") return new Brackets((qb) => qb.where(`EXISTS (SELECT 1 ${from})`));
+
+    const negated = NEGATED[cond.op];
+    const inner = compileComparison(target, def.kind, negated ?? cond.op, cond.value);
+    return new Brackets((qb) => {
+      qb.where(`${negated ? "NOT " : ""}EXISTS (SELECT 1 ${from} AND ${inner.sql})`, inner.params);
+    });
+  };
+
+  const compileComparison = (column: string, kind: FieldKind, op: OrderFilterOperator, value: any) => {
+    const p = nextParam();
+    const cast = (v: any) => (kind === "number" ? Number(v) : kind === "boolean" ? v === true || v === "true" : v);
+    let sql: string;
+    let params: Record<string, any> = {};
+
+    switch (op) {
+      case "eq":
+        sql = `${column} = :${p}`;
+        params = { [p]: cast(value) };
+        break;
+      case "neq":
+        sql = `(${column} IS NULL OR ${column} <> :${p})`;
+        params = { [p]: cast(value) };
+        break;
+      case "in":
+        sql = `${column} IN (:...${p})`;
+        params = { [p]: value.map(cast) };
+        break;
+      case "not_in":
+        sql = `(${column} IS NULL OR ${column} NOT IN (:...${p}))`;
+        params = { [p]: value.map(cast) };
+        break;
+      case "contains":
+        sql = `${column}::text ILIKE :${p}`;
+        params = { [p]: `%${escapeLike(String(value))}%` };
+        break;
+      case "starts_with":
+        sql = `${column}::text ILIKE :${p}`;
+        params = { [p]: `${escapeLike(String(value))}%` };
+        break;
+      case "gt":
+      case "gte":
+      case "lt":
+      case "lte": {
+        const sign = { gt: ">", gte: ">=", lt: "<", lte: "<=" }[op];
+        sql = `${column} ${sign} :${p}`;
+        params = { [p]: cast(value) };
+        break;
+      }
+      case "between": {
+        const [from, to] = value;
+        const parts: string[] = [];
+        if (from !== null && from !== undefined && from !== "") {
+          parts.push(`${column} >= :${p}_from`);
+          params[`${p}_from`] = cast(from);
+        }
+        if (to !== null && to !== undefined && to !== "") {
+          // a date-only upper bound covers that whole day
+          const end = kind === "date" && /^\d{4}-\d{2}-\d{2}$/.test(String(to))
+            ? new Date(new Date(to).getTime() + 24 * 60 * 60 * 1000)
+            : cast(to);
+          parts.push(`${column} ${end instanceof Date ? "<" : "<="} :${p}_to`);
+          params[`${p}_to`] = end;
+        }
+        sql = parts.join(" AND ");
+        break;
+      }
+      case "last_days":
+        sql = `${column} >= NOW() - (:${p} * INTERVAL '1 day')`;
+        params = { [p]: Number(value) };
+        break;
+      case "is_null":
+        sql = `${column} IS NULL`;
+        break;
+      case "is_not_null":
+        sql = `${column} IS NOT NULL`;
+        break;
+    }
+
+    return Object.assign(new Brackets((qb) => qb.where(sql, params)), { sql, params });
+  };
+
+  return compileGroup(filter);
+}
+
+/** Applies the expression to a query builder whose orders alias is `alias`. */
+export function applyOrderFilter<T extends WhereExpressionBuilder>(qb: T, filter: OrderFilterGroup | null, alias: string, prefix?: string): T {
+  if (filter) qb.andWhere(compileOrderFilter(filter, alias, prefix));
+  return qb;
+}
+
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, (c) => `\\${c}`);
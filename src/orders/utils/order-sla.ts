@@ -0,0 +1,60 @@
+export type WorkingHours = { enabled: boolean; start: string; end: string };
+
+const DAY_MINUTES = 24 * 60;
+
+// working hours are stored as bare "HH:mm", read in the same zone the assignment rules default to
+const timezone = () => process.env.SLA_TIMEZONE || "Africa/Cairo";
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = String(time ?? "").split(":").map(Number);
+  return Number.isFinite(hours) ? hours * 60 + (Number.isFinite(minutes) ? minutes : 0) : NaN;
+};
+
+function minuteOfDay(date: Date) {
+  const parts = new Intl.DateTimeFormat("en-GB", {
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+    timeZone: timezone(),
+  }).formatToParts(date);
+  const hour = Number(parts.find((p) => p.type === "hour")?.value ?? 0);
+  const minute = Number(parts.find((p) => p.type === "minute")?.value ?? 0);
+  return hour * 60 + minute + date.getSeconds() / 60;
+}
+
+const addMinutes = (date: Date, minutes: number) => new Date(date.getTime() + minutes * 60 * 1000);
+
+/**
+ * The moment `minutes` of SLA time have run from `from`.
+ * With working hours only the time inside the daily window counts (every day of the week, like the settings);
+ * a disabled or empty window falls back to wall clock time.
+ */
+export function addSlaMinutes(from: Date, minutes: number, hours?: WorkingHours | null) {
+  const start = toMinutes(hours?.start);
+  const end = toMinutes(hours?.end);
+  if (!hours?.enabled || !(end > start)) return addMinutes(from, minutes);
+
+  let cursor = new Date(from);
+  let remaining = minutes;
+
+  // one step per working day, bounded so a bad window cannot spin forever
+  for (let day = 0; day < 3660; day++) {
+    let now = minuteOfDay(cursor);
+    if (now < start) {
+      cursor = addMinutes(cursor, start - now);
+      now = start;
+    }
+    if (now >= end) {
+      cursor = addMinutes(cursor, DAY_MINUTES - now + start);
+      continue;
+    }
+
+    const available = end - now;
+    if (remaining <= available) return addMinutes(cursor, remaining);
+
+    remaining -= available;
+    cursor = addMinutes(cursor, DAY_MINUTES - now + start);
+  }
+
+  return cursor;
+}
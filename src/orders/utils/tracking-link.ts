@@ -0,0 +1,45 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+const DEFAULT_TTL_DAYS = 30;
+
+const secret = () => {
+  const value = process.env.TRACKING_LINK_SECRET || process.env.JWT_SECRET;
+  // links signed with a known default could be forged for any order
+  if (!value) throw new Error("TRACKING_LINK_SECRET (or JWT_SECRET) must be set to sign customer tracking links");
+  return value;
+};
+
+/** Fails at startup instead of on the first link when no signing secret is configured. */
+export function assertTrackingSecret() {
+  secret();
+}
+
+const sign = (payload: string) => createHmac("sha256", secret()).update(payload).digest("base64url");
+
+/** Signed token naming one order on the public tracking page; stateless, valid until `expiresAt`. */
+export function createTrackingToken(orderId: string, ttlDays = Number(process.env.TRACKING_LINK_TTL_DAYS) || DEFAULT_TTL_DAYS) {
+  const expiresAt = new Date(Date.now() + ttlDays * 24 * 60 * 60 * 1000);
+  const payload = Buffer.from(`${orderId}.${Math.floor(expiresAt.getTime() / 1000)}`).toString("base64url");
+  return { token: `${payload}.${sign(payload)}`, expiresAt };
+}
+
+/** Order id carried by the token, or null when it is malformed, tampered with or expired. */
+export function verifyTrackingToken(token: string): string | null {
+  const [payload, signature] = String(token ?? "").split(".");
+  if (!payload || !signature) return null;
+
+  const expected = Buffer.from(sign(payload));
+  const given = Buffer.from(signature);
+  if (expected.length !== given.length || !timingSafeEqual(expected, given)) return null;
+
+  const [orderId, expiresAt] = Buffer.from(payload, "base64url").toString().split(".");
+  if (!orderId || !(Number(expiresAt) * 1000 > Date.now())) return null;
+
+  return orderId;
+}
+
+export function buildTrackingUrl(orderId: string) {
+  const base = (process.env.TRACKING_BASE_URL || `${process.env.FRONTEND_URL || "http://localhost:3000"}/track`).replace(/\/+$/, "");
+  const { token, expiresAt } = createTrackingToken(orderId);
+  return { url: `${base}/${token}`, token, expiresAt };
+}
@@ -50,6 +50,8 @@ export class PermissionsService implements OnModuleInit {
 			"assets.read", "assets.create", "assets.update", "assets.delete",
 			"purchase_returns.read", "purchase_returns.create", "purchase_returns.update", "purchase_returns.delete",
 			"purchases.read", "purchases.create", "purchases.update", "purchases.delete",
+			"stock_transfers.read", "stock_transfers.create", "stock_transfers.update", "stock_transfers.delete",
+			"stock_counts.read", "stock_counts.create", "stock_counts.count", "stock_counts.approve",
 			"sales_invoice.read", "sales_invoice.create", "sales_invoice.update", "sales_invoice.delete",
 			
 			// ✅ NEW: Additional permissions
@@ -0,0 +1,682 @@
+// --- File: src/products/product-import.service.ts ---
+import { BadRequestException, forwardRef, Inject, Injectable, Logger } from "@nestjs/common";
+import { InjectRepository } from "@nestjs/typeorm";
+import { DataSource, EntityManager, In, Repository } from "typeorm";
+import * as ExcelJS from "exceljs";
+import { Readable } from "stream";
+import { extname } from "path";
+import { ProductImportEntity, ProductImportStatus } from "entities/product-import.entity";
+import { ProductEntity, ProductType, ProductVariantEntity } from "entities/sku.entity";
+import { CategoryEntity } from "entities/categories.entity";
+import { StockMovementReason, StockMovementReference } from "entities/stock-movement.entity";
+import { CreateProductDto } from "dto/product.dto";
+import { CellErrorMap } from "dto/order.dto";
+import { tenantId } from "../category/category.service";
+import { generateSlug, getErrorMessage } from "common/healpers";
+import { AppGateway } from "common/app.gateway";
+import { RemoteImageHelper } from "common/emote-image.helper";
+import { I18nKey, RequestTranslationService, TranslationService } from "common/translation.service";
+import { ProductImportQueueService } from "src/queue/queues/product-import.queue";
+import { StockMovementsService } from "src/stock-movements/stock-movements.service";
+import { LotsService } from "src/lots/lots.service";
+import { BarcodesService } from "src/barcodes/barcodes.service";
+import { ProductsService } from "./products.service";
+
+// one row per variant; product columns are read from the first row of each product (grouped by slug)
+const COLUMNS = [
+  { key: "name", width: 30 },
+  { key: "slug", width: 24 },
+  { key: "product_sku", width: 20 },
+  { key: "category", width: 20 },
+  { key: "description", width: 40 },
+  { key: "sku", width: 20 },
+  { key: "attributes", width: 30 },
+  { key: "price", width: 12 },
+  { key: "unit_cost", width: 12 },
+  { key: "stock", width: 12 },
+  { key: "main_image_url", width: 40 },
+  { key: "image_urls", width: 50 },
+] as const;
+
+// 1-based column numbers, as used by ExcelJS
+const COL = {
+  NAME: 1,
+  SLUG: 2,
+  PRODUCT_SKU: 3,
+  CATEGORY: 4,
+  DESCRIPTION: 5,
+  SKU: 6,
+  ATTRIBUTES: 7,
+  PRICE: 8,
+  UNIT_COST: 9,
+  STOCK: 10,
+  MAIN_IMAGE: 11,
+  IMAGES: 12,
+};
+
+const MAX_ROWS = 5000;
+const MAX_IMAGES = 20;
+const PROGRESS_EVERY_ROWS = 50;
+const SKU_PATTERN = /^[a-zA-Z0-9-]+$/;
+const SLUG_PATTERN = /^[a-z0-9-_]+$/;
+
+type ImportRow = {
+  rowNumber: number;
+  values: string[];
+  name: string;
+  slug: string;
+  productSku: string;
+  category: string;
+  description: string;
+  sku: string;
+  attributes: Record<string, string>;
+  price: number | null;
+  unitCost: number | null;
+  stock: number | null;
+  mainImage: string;
+  images: string[];
+};
+
+@Injectable()
+export class ProductImportService {
+  private readonly logger = new Logger(ProductImportService.name);
+
+  constructor(
+    private readonly dataSource: DataSource,
+    @InjectRepository(ProductImportEntity)
+    private readonly importRepo: Repository<ProductImportEntity>,
+    @InjectRepository(ProductVariantEntity)
+    private readonly pvRepo: Repository<ProductVariantEntity>,
+    @Inject(forwardRef(() => ProductsService))
+    private readonly productsService: ProductsService,
+    @Inject(forwardRef(() => ProductImportQueueService))
+    private readonly productImportQueueService: ProductImportQueueService,
+    private readonly stockMovementsService: StockMovementsService,
+    private readonly lotsService: LotsService,
+    private readonly barcodesService: BarcodesService,
+    private readonly remoteImageHelper: RemoteImageHelper,
+    private readonly appGateway: AppGateway,
+    private readonly translations: TranslationService,
+    private readonly requestTranslations: RequestTranslationService,
+  ) { }
+
+  async getTemplate() {
+    const workbook = new ExcelJS.Workbook();
+    workbook.creator = "Madar";
+    workbook.created = new Date();
+
+    const sheet = workbook.addWorksheet("Products", {
+      views: [{ state: "frozen", ySplit: 1 }],
+    });
+    sheet.columns = this.buildColumns();
+
+    const headerRow = sheet.getRow(1);
+    headerRow.font = { bold: true };
+    headerRow.alignment = { vertical: "middle", horizontal: "center" };
+    headerRow.getCell(COL.ATTRIBUTES).note = this.translations.t("domains.products.import.attributes_hint");
+    headerRow.getCell(COL.IMAGES).note = this.translations.t("domains.products.import.images_hint");
+    headerRow.getCell(COL.SLUG).note = this.translations.t("domains.products.import.slug_hint");
+
+    const buffer = await workbook.xlsx.writeBuffer();
+    return Buffer.from(buffer);
+  }
+
+  async startImport(me: any, file: Express.Multer.File) {
+    const adminId = tenantId(me);
+    if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+    if (!file?.buffer) throw new BadRequestException(this.translations.t("common.no_file_uploaded"));
+
+    const ext = extname(file.originalname || "").toLowerCase();
+    if (![".xlsx", ".csv"].includes(ext)) {
+      throw new BadRequestException(this.translations.t("domains.products.import.unsupported_file"));
+    }
+
+    const saved = await this.importRepo.save(this.importRepo.create({
+      adminId,
+      userId: me?.id ?? null,
+      fileName: file.originalname,
+      status: ProductImportStatus.QUEUED,
+      sourceFile: file.buffer,
+    }));
+
+    await this.productImportQueueService.enqueueImport(adminId, saved.id);
+
+    delete saved.sourceFile;
+    return saved;
+  }
+
+  async list(me: any, q?: any) {
+    const adminId = tenantId(me);
+    if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+
+    const page = Number(q?.page ?? 1);
+    const limit = Number(q?.limit ?? 10);
+    const status = q?.status && q.status !== "all" ? String(q.status) : null;
+
+    const qb = this.importRepo
+      .createQueryBuilder("i")
+      .where("i.adminId = :adminId", { adminId });
+
+    if (status) qb.andWhere("i.status = :status", { status });
+
+    const [records, total] = await qb
+      .orderBy("i.created_at", "DESC")
+      .skip((page - 1) * limit)
+      .take(limit)
+      .getManyAndCount();
+
+    return {
+      total_records: total,
+      current_page: page,
+      per_page: limit,
+      records,
+    };
+  }
+
+  async get(me: any, id: string) {
+    const adminId = tenantId(me);
+    if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+
+    const record = await this.importRepo.findOne({ where: { id, adminId } });
+    if (!record) throw new BadRequestException(this.translations.t("domains.products.import.not_found"));
+    return record;
+  }
+
+  async getErrorReport(me: any, id: string) {
+    const adminId = tenantId(me);
+    if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+
+    const record = await this.importRepo
+      .createQueryBuilder("i")
+      .addSelect("i.errorReport")
+      .where("i.id = :id AND i.adminId = :adminId", { id, adminId })
+      .getOne();
+    if (!record) throw new BadRequestException(this.translations.t("domains.products.import.not_found"));
+    if (!record.errorReport) throw new BadRequestException(this.translations.t("domains.products.import.no_error_report"));
+
+    return record.errorReport;
+  }
+
+  // =========================
+  // Worker
+  // =========================
+
+  async processImport(importId: string) {
+    const record = await this.importRepo
+      .createQueryBuilder("i")
+      .addSelect("i.sourceFile")
+      .where("i.id = :importId", { importId })
+      .getOne();
+
+    // already picked up by another attempt
+    if (!record || record.status !== ProductImportStatus.QUEUED) return;
+
+    const adminId = record.adminId;
+    const notifyUserId = record.userId ?? adminId;
+    const me = { id: record.userId ?? adminId, adminId };
+    const t = (key: I18nKey, args?: Record<string, any>) => this.requestTranslations.tAsync(key, adminId, { args });
+
+    record.status = ProductImportStatus.PROCESSING;
+    record.startedAt = new Date();
+    await this.importRepo.update({ id: record.id }, { status: record.status, startedAt: record.startedAt });
+
+    let lastReported = 0;
+    const report = async (force = false) => {
+      if (!force && record.processedRows - lastReported < PROGRESS_EVERY_ROWS) return;
+      lastReported = record.processedRows;
+
+      await this.importRepo.update({ id: record.id }, {
+        totalRows: record.totalRows,
+        processedRows: record.processedRows,
+        createdCount: record.createdCount,
+        updatedCount: record.updatedCount,
+        failedCount: record.failedCount,
+      });
+      this.appGateway.emitProductImportProgress(notifyUserId, {
+        importId: record.id,
+        status: record.status,
+        totalRows: record.totalRows,
+        processedRows: record.processedRows,
+        createdCount: record.createdCount,
+        updatedCount: record.updatedCount,
+        failedCount: record.failedCount,
+      });
+    };
+
+    let errorReport: Buffer | null = null;
+
+    try {
+      const rows = await this.readRows(record.fileName, record.sourceFile, t);
+      record.totalRows = rows.length;
+      await report(true);
+
+      const cellErrors: CellErrorMap = new Map();
+      const addCellError = (rowNumber: number, col: number, message: string) => {
+        const rowErrors = cellErrors.get(rowNumber) ?? new Map<number, string[]>();
+        rowErrors.set(col, [...(rowErrors.get(col) ?? []), message]);
+        cellErrors.set(rowNumber, rowErrors);
+      };
+      const failRow = (row: ImportRow, col: number, message: string) => {
+        addCellError(row.rowNumber, col, message);
+      };
+
+      const validRows: ImportRow[] = [];
+      const seenSkus = new Map<string, number>();
+      for (const row of rows) {
+        const errorsBefore = cellErrors.get(row.rowNumber)?.size ?? 0;
+        await this.validateRow(row, t, failRow);
+
+        if (row.sku) {
+          const key = row.sku.toLowerCase();
+          const firstRow = seenSkus.get(key);
+          if (firstRow) failRow(row, COL.SKU, await t("domains.products.import.duplicate_sku_in_file", { sku: row.sku, row: firstRow }));
+          else seenSkus.set(key, row.rowNumber);
+        }
+
+        if ((cellErrors.get(row.rowNumber)?.size ?? 0) === errorsBefore) validRows.push(row);
+      }
+
+      const countFailed = (list: ImportRow[]) => {
+        record.processedRows += list.length;
+        record.failedCount += list.length;
+      };
+      countFailed(rows.filter((r) => !validRows.includes(r)));
+      await report();
+
+      const existing = validRows.length
+        ? await this.pvRepo.find({
+          where: { adminId, sku: In(validRows.map((r) => r.sku)), isActive: true } as any,
+        })
+        : [];
+      const existingBySku = new Map(existing.map((v) => [String(v.sku).toLowerCase(), v]));
+
+      // 1) SKUs that already exist: update in place
+      const newRows: ImportRow[] = [];
+      for (const row of validRows) {
+        const variant = existingBySku.get(row.sku.toLowerCase());
+        if (!variant) {
+          newRows.push(row);
+          continue;
+        }
+
+        try {
+          await this.dataSource.transaction((manager) => this.updateFromRow(manager, me, record.id, variant, row));
+          record.updatedCount++;
+          record.processedRows++;
+        } catch (e) {
+          failRow(row, COL.SKU, getErrorMessage(e));
+          countFailed([row]);
+        }
+        await report();
+      }
+
+      // 2) new SKUs: one product per slug
+      const groups = new Map<string, ImportRow[]>();
+      for (const row of newRows) {
+        const slug = row.slug || generateSlug(row.name).replace(/^-+|-+$/g, "") || (row.productSku || row.sku).toLowerCase();
+        row.slug = slug;
+        groups.set(slug, [...(groups.get(slug) ?? []), row]);
+      }
+
+      for (const [slug, groupRows] of groups) {
+        try {
+          await this.createFromGroup(me, record.id, slug, groupRows, t);
+          record.createdCount += groupRows.length;
+          record.processedRows += groupRows.length;
+        } catch (e) {
+          const message = getErrorMessage(e);
+          groupRows.forEach((row) => failRow(row, COL.NAME, message));
+          countFailed(groupRows);
+        }
+        await report();
+      }
+
+      const failedRows = rows.filter((r) => cellErrors.has(r.rowNumber));
+      if (failedRows.length) errorReport = await this.buildErrorReport(failedRows, cellErrors);
+
+      record.status = failedRows.length ? ProductImportStatus.COMPLETED_WITH_ERRORS : ProductImportStatus.COMPLETED;
+    } catch (e) {
+      this.logger.error(`Product import ${record.id} failed`, e);
+      record.status = ProductImportStatus.FAILED;
+      record.errorMessage = getErrorMessage(e);
+    }
+
+    await this.importRepo.update({ id: record.id }, {
+      status: record.status,
+      errorMessage: record.errorMessage ?? null,
+      errorReport,
+      hasErrorReport: !!errorReport,
+      sourceFile: null,
+      finishedAt: new Date(),
+    });
+    await report(true);
+
+    return {
+      status: record.status,
+      createdCount: record.createdCount,
+      updatedCount: record.updatedCount,
+      failedCount: record.failedCount,
+    };
+  }
+
+  private async readRows(
+    fileName: string,
+    file: Buffer | null | undefined,
+    t: (key: I18nKey, args?: Record<string, any>) => Promise<string>,
+  ): Promise<ImportRow[]> {
+    if (!file) throw new BadRequestException(await t("common.no_file_uploaded"));
+
+    const workbook = new ExcelJS.Workbook();
+    if (extname(fileName).toLowerCase() === ".csv") {
+      await workbook.csv.read(Readable.from(file));
+    } else {
+      await workbook.xlsx.load(file as any);
+    }
+
+    const sheet = workbook.worksheets[0];
+    if (!sheet) throw new BadRequestException(await t("domains.products.import.sheet_required"));
+
+    const rows: ImportRow[] = [];
+    sheet.eachRow((row, rowNumber) => {
+      if (rowNumber === 1) return; // header
+
+      const values = COLUMNS.map((_, i) => this.cellText(row.getCell(i + 1).value));
+      if (values.every((v) => !v)) return;
+
+      rows.push({
+        rowNumber,
+        values,
+        name: values[COL.NAME - 1],
+        slug: values[COL.SLUG - 1].toLowerCase(),
+        productSku: values[COL.PRODUCT_SKU - 1],
+        category: values[COL.CATEGORY - 1],
+        description: values[COL.DESCRIPTION - 1],
+        sku: values[COL.SKU - 1],
+        attributes: {},
+        price: null,
+        unitCost: null,
+        stock: null,
+        mainImage: values[COL.MAIN_IMAGE - 1],
+        images: values[COL.IMAGES - 1].split(",").map((u) => u.trim()).filter(Boolean),
+      });
+    });
+
+    if (rows.length > MAX_ROWS) {
+      throw new BadRequestException(await t("domains.products.import.too_many_rows", { max: MAX_ROWS }));
+    }
+
+    return rows;
+  }
+
+  // Fills the parsed fields of the row; every problem is reported on its cell
+  private async validateRow(
+    row: ImportRow,
+    t: (key: I18nKey, args?: Record<string, any>) => Promise<string>,
+    failRow: (row: ImportRow, col: number, message: string) => void,
+  ) {
+    const raw = (col: number) => row.values[col - 1];
+
+    if (!row.sku) failRow(row, COL.SKU, await t("domains.products.import.sku_required"));
+    else if (row.sku.length > 120 || !SKU_PATTERN.test(row.sku)) failRow(row, COL.SKU, await t("domains.products.import.invalid_sku", { sku: row.sku }));
+
+    if (row.productSku && (row.productSku.length > 120 || !SKU_PATTERN.test(row.productSku))) {
+      failRow(row, COL.PRODUCT_SKU, await t("domains.products.import.invalid_sku", { sku: row.productSku }));
+    }
+    if (row.slug && (row.slug.length > 300 || !SLUG_PATTERN.test(row.slug))) {
+      failRow(row, COL.SLUG, await t("domains.products.import.invalid_slug", { slug: row.slug }));
+    }
+    if (row.name.length > 200) failRow(row, COL.NAME, await t("domains.products.import.name_too_long"));
+
+    if (raw(COL.ATTRIBUTES)) {
+      for (const pair of raw(COL.ATTRIBUTES).split("|")) {
+        const [key, ...rest] = pair.split(":");
+        const value = rest.join(":").trim();
+        if (!key?.trim() || !value) {
+          failRow(row, COL.ATTRIBUTES, await t("domains.products.import.invalid_attributes", { value: pair }));
+          continue;
+        }
+        row.attributes[key.trim()] = value;
+      }
+    }
+
+    const parseNumber = async (col: number, integer: boolean) => {
+      if (!raw(col)) return null;
+      const n = Number(raw(col));
+      if (!Number.isFinite(n) || n < 0 || (integer && !Number.isInteger(n))) {
+        failRow(row, col, await t(integer ? "domains.products.import.invalid_quantity" : "domains.products.import.invalid_amount", { value: raw(col) }));
+        return null;
+      }
+      return n;
+    };
+    row.price = await parseNumber(COL.PRICE, false);
+    row.unitCost = await parseNumber(COL.UNIT_COST, false);
+    row.stock = await parseNumber(COL.STOCK, true);
+
+    if (row.images.length + 1 > MAX_IMAGES) {
+      failRow(row, COL.IMAGES, await t("domains.products.total_images_cannot_exceed_20"));
+    }
+  }
+
+  private async updateFromRow(manager: EntityManager, me: any, importId: string, variant: ProductVariantEntity, row: ImportRow) {
+    const adminId = variant.adminId;
+    const locked = await manager.getRepository(ProductVariantEntity).findOne({
+      where: { id: variant.id } as any,
+      lock: { mode: "pessimistic_write" },
+    });
+
+    const patch: Partial<ProductVariantEntity> = {};
+    if (row.price !== null) patch.price = row.price;
+    if (row.unitCost !== null) patch.unitCost = row.unitCost;
+    if (Object.keys(patch).length) await manager.update(ProductVariantEntity, { id: locked.id }, patch);
+
+    if (row.stock !== null) await this.setStock(manager, me, importId, locked, row.stock);
+
+    const productPatch: Partial<ProductEntity> = {};
+    if (row.name) productPatch.name = row.name;
+    if (row.description) productPatch.description = row.description;
+    if (row.category) productPatch.categoryId = (await this.resolveCategory(manager, adminId, row.category)).id;
+    if (Object.keys(productPatch).length) {
+      await manager.update(ProductEntity, { id: locked.productId, adminId } as any, { ...productPatch, updatedByUserId: me?.id ?? null });
+    }
+  }
+
+  private async createFromGroup(
+    me: any,
+    importId: string,
+    slug: string,
+    rows: ImportRow[],
+    t: (key: I18nKey, args?: Record<string, any>) => Promise<string>,
+  ) {
+    const adminId = me.adminId;
+    const first = rows[0];
+    const isVariable = rows.length > 1 || rows.some((r) => Object.keys(r.attributes).length > 0);
+
+    if (isVariable) {
+      for (const row of rows) {
+        if (!Object.keys(row.attributes).length) {
+          throw new BadRequestException(await t("domains.products.each_combination_must_have_attributes"));
+        }
+      }
+      const keys = new Set<string>();
+      for (const row of rows) {
+        const key = this.productsService.canonicalKey(row.attributes);
+        if (keys.has(key)) throw new BadRequestException(await t("domains.products.duplicate_attributes_in_request", { key }));
+        keys.add(key);
+      }
+    }
+
+    const existingProduct = await this.dataSource.getRepository(ProductEntity).findOne({
+      where: { adminId, slug, isActive: true } as any,
+    });
+
+    // new variants for a product that already exists
+    if (existingProduct) {
+      if (existingProduct.type !== ProductType.VARIABLE || !isVariable) {
+        throw new BadRequestException(await t("domains.products.slug_already_in_use", { slug }));
+      }
+
+      await this.dataSource.transaction(async (manager) => {
+        const pvRepo = manager.getRepository(ProductVariantEntity);
+        const taken = await pvRepo.find({
+          where: { adminId, productId: existingProduct.id, key: In(rows.map((r) => this.productsService.canonicalKey(r.attributes))) } as any,
+          select: ["id", "key"],
+        });
+        if (taken.length) {
+          throw new BadRequestException(await t("domains.products.variant_attributes_already_exists", { attrDetails: taken.map((v) => v.key).join(", ") }));
+        }
+
+        for (const row of rows) {
+          const saved = await pvRepo.save(pvRepo.create({
+            adminId,
+            productId: existingProduct.id,
+            key: this.productsService.canonicalKey(row.attributes),
+            sku: row.sku,
+            price: row.price ?? 0,
+            unitCost: row.unitCost ?? 0,
+            attributes: row.attributes,
+            stockOnHand: 0,
+            reserved: 0,
+            isActive: true,
+          } as any) as any) as ProductVariantEntity;
+          if (row.stock) await this.setStock(manager, me, importId, saved, row.stock);
+          await this.barcodesService.ensureForVariants(manager, adminId, [saved.id], me?.id);
+        }
+      });
+      return;
+    }
+
+    if (!first.name) throw new BadRequestException(await t("domains.products.import.name_required"));
+    if (!first.mainImage) throw new BadRequestException(await t("domains.products.main_image_or_orphan_required"));
+
+    // download before opening the transaction, this can take a while
+    const mainImage = (await this.remoteImageHelper.downloadAndSaveImage(first.mainImage)).url;
+    const images: { url: string }[] = [];
+    for (const url of first.images) {
+      images.push(await this.remoteImageHelper.downloadAndSaveImage(url));
+    }
+
+    const dto: CreateProductDto = {
+      type: isVariable ? ProductType.VARIABLE : ProductType.SINGLE,
+      name: first.name,
+      slug,
+      sku: first.productSku || first.sku,
+      categoryName: first.category || undefined,
+      description: first.description || null,
+      salePrice: first.price ?? 0,
+      wholesalePrice: first.unitCost ?? undefined,
+      mainImage,
+      images,
+      combinations: isVariable
+        ? rows.map((r) => ({ sku: r.sku, price: r.price ?? 0, attributes: r.attributes, isActive: true }))
+        : undefined,
+    };
+
+    await this.dataSource.transaction(async (manager) => {
+      await this.productsService.create(me, dto, manager, { notify: false });
+
+      const variants = await manager.getRepository(ProductVariantEntity).find({
+        where: { adminId, sku: In(rows.map((r) => r.sku)), isActive: true } as any,
+      });
+      const bySku = new Map(variants.map((v) => [String(v.sku).toLowerCase(), v]));
+
+      for (const row of rows) {
+        const variant = bySku.get(row.sku.toLowerCase());
+        if (!variant) continue;
+
+        if (row.unitCost !== null) await manager.update(ProductVariantEntity, { id: variant.id }, { unitCost: row.unitCost });
+        if (row.stock) await this.setStock(manager, me, importId, variant, row.stock);
+      }
+    });
+  }
+
+  // Sets the on-hand quantity and records the difference on the stock ledger
+  private async setStock(manager: EntityManager, me: any, importId: string, variant: ProductVariantEntity, stock: number) {
+    const delta = stock - (variant.stockOnHand ?? 0);
+    if (delta === 0) return;
+
+    await manager.update(ProductVariantEntity, { id: variant.id }, { stockOnHand: stock });
+    await this.stockMovementsService.record(manager, [{
+      adminId: variant.adminId,
+      variantId: variant.id,
+      reason: StockMovementReason.PRODUCT_IMPORT,
+      stockOnHandDelta: delta,
+      referenceType: StockMovementReference.PRODUCT_IMPORT,
+      referenceId: importId,
+      userId: me?.id,
+    }]);
+    if (delta < 0) await this.lotsService.trimToStock(manager, variant.adminId, [variant.id]);
+  }
+
+  private async resolveCategory(manager: EntityManager, adminId: string, name: string) {
+    const catRepo = manager.getRepository(CategoryEntity);
+    const category = await catRepo.findOne({ where: { adminId, name: name.trim() } as any });
+    if (category) return category;
+
+    const slug = generateSlug(name);
+    return catRepo.save(catRepo.create({
+      adminId,
+      name: name.trim(),
+      slug: slug && slug !== "-" ? slug : `category-${Date.now()}`,
+    }));
+  }
+
+  private async buildErrorReport(rows: ImportRow[], cellErrors: CellErrorMap): Promise<Buffer> {
+    const workbook = new ExcelJS.Workbook();
+    workbook.creator = "Madar";
+    workbook.created = new Date();
+
+    const sheet = workbook.addWorksheet("Products", {
+      views: [{ state: "frozen", ySplit: 1 }],
+    });
+    sheet.columns = [
+      ...this.buildColumns(),
+      { header: this.translations.t("domains.products.import.errors_header"), key: "errors", width: 60 },
+    ];
+
+    const headerRow = sheet.getRow(1);
+    headerRow.font = { bold: true };
+    headerRow.alignment = { vertical: "middle", horizontal: "center" };
+
+    for (const row of rows) {
+      const rowErrorMap = cellErrors.get(row.rowNumber);
+      const messages = [...(rowErrorMap?.values() ?? [])].flat();
+      const excelRow = sheet.addRow([...row.values, messages.join("\n")]);
+
+      for (const [colNumber, cellMessages] of rowErrorMap?.entries() ?? []) {
+        const cell = excelRow.getCell(colNumber);
+        cell.fill = {
+          type: "pattern",
+          pattern: "solid",
+          fgColor: { argb: "FFFFC7CE" },
+        };
+        cell.font = {
+          color: { argb: "FF9C0006" },
+        };
+        cell.note = cellMessages.join("\n");
+      }
+    }
+
+    const buffer = await workbook.xlsx.writeBuffer();
+    return Buffer.from(buffer);
+  }
+
+  private buildColumns() {
+    return COLUMNS.map((c) => ({
+      header: this.translations.t(`domains.products.import.columns.${c.key}` as I18nKey),
+      key: c.key,
+      width: c.width,
+    }));
+  }
+
+  private cellText(value: ExcelJS.CellValue): string {
+    if (value === null || value === undefined) return "";
+    if (value instanceof Date) return value.toISOString().slice(0, 10);
+    if (typeof value === "object") {
+      if ("richText" in value) return value.richText.map((r) => r.text).join("").trim();
+      if ("text" in value) return String(value.text ?? "").trim();
+      if ("result" in value) return String(value.result ?? "").trim();
+      return "";
+    }
+    return String(value).trim();
+  }
+}
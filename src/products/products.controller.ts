@@ -11,6 +11,7 @@ import {
   Query,
   Req,
   Res,
+  UploadedFile,
   UploadedFiles,
   UseGuards,
   UseInterceptors,
@@ -21,19 +22,26 @@ import { Permissions } from "common/permissions.decorator";
 import { RequireSubscription } from "common/require-subscription.decorator";
 import { SubscriptionGuard } from "common/subscription.guard";
 import { ProductsService } from "./products.service";
+import { StockMovementsService } from "src/stock-movements/stock-movements.service";
+import { LotsService } from "src/lots/lots.service";
+import { BarcodesService } from "src/barcodes/barcodes.service";
+import { CostingService } from "src/costing/costing.service";
+import { ProductImportService } from "./product-import.service";
 import { TranslationService } from "common/translation.service";
 
 import {
   AdjustVariantStockDto,
+  UpdateVariantReorderDto,
   CheckSkusDto,
   CreateProductDto,
   UpdateProductDto,
   UpsertProductSkusDto,
 } from "dto/product.dto";
+import { AddVariantBarcodeDto, PrintBarcodeLabelsDto } from "dto/barcode.dto";
 
 import { diskStorage } from "multer";
 import { extname } from "path";
-import { FileFieldsInterceptor, NoFilesInterceptor } from "@nestjs/platform-express";
+import { FileFieldsInterceptor, FileInterceptor, NoFilesInterceptor } from "@nestjs/platform-express";
 import { Response } from "express";
 
 const productsStorage = diskStorage({
@@ -88,7 +96,15 @@ function parseNumber(val: any): number | null | undefined {
 @Controller("products")
 @RequireSubscription()
 export class ProductsController {
-  constructor(private products: ProductsService, private translations: TranslationService) { }
+  constructor(
+    private products: ProductsService,
+    private stockMovements: StockMovementsService,
+    private lots: LotsService,
+    private barcodes: BarcodesService,
+    private costing: CostingService,
+    private productImport: ProductImportService,
+    private translations: TranslationService
+  ) { }
 
   @Permissions("products.read")
   @Get()
@@ -123,6 +139,107 @@ export class ProductsController {
     return this.products.getAdminSummary(req.user);
   }
 
+  @Permissions("products.read")
+  @Get("stock-movements/mismatches")
+  listStockMismatches(@Req() req: any, @Query() q: any) {
+    return this.stockMovements.listMismatches(req.user, q);
+  }
+
+  @Permissions("products.read")
+  @Get("lots")
+  listLots(@Req() req: any, @Query() q: any) {
+    return this.lots.list(req.user, q);
+  }
+
+  @Permissions("products.read")
+  @Get("valuation")
+  getValuation(@Req() req: any, @Query() q: any) {
+    return this.costing.valuation(req.user, q);
+  }
+
+  @Permissions("products.read")
+  @Get("valuation/export")
+  async exportValuation(
+    @Req() req: any,
+    @Query() q: any,
+    @Res() res: Response
+  ) {
+    const buffer = await this.costing.exportValuation(req.user, q);
+
+    res.setHeader(
+      "Content-Type",
+      "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+    );
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename=Inventory_valuation_${Date.now()}.xlsx`
+    );
+
+    return res.send(buffer);
+  }
+
+  @Permissions("products.read")
+  @Post("barcodes/labels")
+  async printBarcodeLabels(@Req() req: any, @Body() body: PrintBarcodeLabelsDto, @Res() res: Response) {
+    const buffer = await this.barcodes.printLabels(req.user, body);
+
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename=Barcode_labels_${Date.now()}.pdf`
+    );
+
+    return res.send(buffer);
+  }
+
+  @Permissions("products.read")
+  @Get("barcodes/:code")
+  lookupBarcode(@Req() req: any, @Param("code") code: string) {
+    return this.barcodes.lookup(req.user, code);
+  }
+
+  @Permissions("products.create")
+  @Get("import/template")
+  async importTemplate(@Req() req: any, @Res() res: Response) {
+    const buffer = await this.productImport.getTemplate();
+    res.setHeader("Content-Type", "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+    res.setHeader("Content-Disposition", "attachment; filename=products_import_template.xlsx");
+    return res.send(buffer);
+  }
+
+  // ✅ Queues the file; progress is pushed on the "product:import-progress" socket event
+  @Permissions("products.create")
+  @Post("import")
+  @UseInterceptors(FileInterceptor("file", { limits: { fileSize: 10 * 1024 * 1024 } }))
+  startImport(@Req() req: any, @UploadedFile() file: Express.Multer.File) {
+    return this.productImport.startImport(req.user, file);
+  }
+
+  @Permissions("products.read")
+  @Get("import")
+  listImports(@Req() req: any, @Query() q: any) {
+    return this.productImport.list(req.user, q);
+  }
+
+  @Permissions("products.read")
+  @Get("import/:importId")
+  getImport(@Req() req: any, @Param("importId") importId: string) {
+    return this.productImport.get(req.user, importId);
+  }
+
+  @Permissions("products.read")
+  @Get("import/:importId/errors")
+  async downloadImportErrors(
+    @Req() req: any,
+    @Param("importId") importId: string,
+    @Res() res: Response
+  ) {
+    const buffer = await this.productImport.getErrorReport(req.user, importId);
+    res.setHeader("Content-Type", "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+    res.setHeader("Content-Disposition", `attachment; filename=product_import_errors_${Date.now()}.xlsx`);
+    return res.send(buffer);
+  }
+
   @Permissions("products.read")
   @Get("check-slug")
   async checkSlug(
@@ -193,6 +310,93 @@ export class ProductsController {
     return this.products.getSkus(req.user, id);
   }
 
+  @Permissions("products.read")
+  @Get(":id/skus/:variantId/lots")
+  listVariantLots(
+    @Req() req: any,
+    @Param("id") id: string,
+    @Param("variantId") variantId: string
+  ) {
+    return this.lots.listForVariant(req.user, id, variantId);
+  }
+
+  @Permissions("products.read")
+  @Get(":id/skus/:variantId/barcodes")
+  listVariantBarcodes(
+    @Req() req: any,
+    @Param("id") id: string,
+    @Param("variantId") variantId: string
+  ) {
+    return this.barcodes.listForVariant(req.user, id, variantId);
+  }
+
+  @Permissions("products.update")
+  @Post(":id/skus/:variantId/barcodes")
+  addVariantBarcode(
+    @Req() req: any,
+    @Param("id") id: string,
+    @Param("variantId") variantId: string,
+    @Body() body: AddVariantBarcodeDto
+  ) {
+    return this.barcodes.add(req.user, id, variantId, body);
+  }
+
+  @Permissions("products.update")
+  @Patch(":id/skus/:variantId/barcodes/:barcodeId/primary")
+  setPrimaryVariantBarcode(
+    @Req() req: any,
+    @Param("id") id: string,
+    @Param("variantId") variantId: string,
+    @Param("barcodeId") barcodeId: string
+  ) {
+    return this.barcodes.setPrimary(req.user, id, variantId, barcodeId);
+  }
+
+  @Permissions("products.update")
+  @Delete(":id/skus/:variantId/barcodes/:barcodeId")
+  removeVariantBarcode(
+    @Req() req: any,
+    @Param("id") id: string,
+    @Param("variantId") variantId: string,
+    @Param("barcodeId") barcodeId: string
+  ) {
+    return this.barcodes.remove(req.user, id, variantId, barcodeId);
+  }
+
+  @Permissions("products.read")
+  @Get(":id/skus/:variantId/movements")
+  listMovements(
+    @Req() req: any,
+    @Param("id") id: string,
+    @Param("variantId") variantId: string,
+    @Query() q: any
+  ) {
+    return this.stockMovements.listForVariant(req.user, id, variantId, q);
+  }
+
+  @Permissions("products.read")
+  @Get(":id/skus/:variantId/movements/export")
+  async exportMovements(
+    @Req() req: any,
+    @Param("id") id: string,
+    @Param("variantId") variantId: string,
+    @Query() q: any,
+    @Res() res: Response
+  ) {
+    const buffer = await this.stockMovements.exportForVariant(req.user, id, variantId, q);
+
+    res.setHeader(
+      "Content-Type",
+      "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+    );
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename=Stock_movements_${Date.now()}.xlsx`
+    );
+
+    return res.send(buffer);
+  }
+
   // @Permissions("products.update")
   // @Put(":id/skus")
   // upsertSkus(
@@ -219,6 +423,17 @@ export class ProductsController {
     );
   }
 
+  @Permissions("products.update")
+  @Patch(":id/skus/:variantId/reorder")
+  updateReorder(
+    @Req() req: any,
+    @Param("id") id: string,
+    @Param("variantId") variantId: string,
+    @Body() body: UpdateVariantReorderDto
+  ) {
+    return this.products.updateVariantReorder(req.user, id, variantId, body);
+  }
+
   @Permissions("products.create")
   @Post()
   @UseInterceptors(
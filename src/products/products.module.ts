@@ -2,12 +2,13 @@
 import { forwardRef, Module } from "@nestjs/common";
 import { TypeOrmModule } from "@nestjs/typeorm";
 
-import { ProductEntity, ProductVariantEntity } from "../../entities/sku.entity";
+import { ProductEntity, ProductVariantEntity, VariantWarehouseStockEntity } from "../../entities/sku.entity";
 import { CategoryEntity } from "entities/categories.entity";
 import { StoreEntity } from "entities/stores.entity";
 import { WarehouseEntity } from "entities/warehouses.entity";
 
 import { ProductsService } from "./products.service";
+import { ProductImportService } from "./product-import.service";
 import { ProductsController } from "./products.controller";
 import { ProductSubscriber, VariantSubscriber } from "./product-subscriber";
 import { StoresModule } from "src/stores/stores.module";
@@ -22,8 +23,15 @@ import { RemoteImageHelper } from "common/emote-image.helper";
 import { ProductSyncStateEntity } from "entities/product_sync_error.entity";
 import { PurchaseInvoiceItemEntity } from "entities/purchase.entity";
 import { PurchaseReturnInvoiceItemEntity } from "entities/purchase_return.entity";
+import { ProductImportEntity } from "entities/product-import.entity";
 import { OrdersModule } from "src/orders/orders.module";
 import { ClientSettingsEntity } from "entities/clientSettings.entity";
+import { WarehousesModule } from "src/warehouse/warehouse.module";
+import { StockMovementsModule } from "src/stock-movements/stock-movements.module";
+import { LotsModule } from "src/lots/lots.module";
+import { BarcodesModule } from "src/barcodes/barcodes.module";
+import { CostingModule } from "src/costing/costing.module";
+import { PurchaseSuggestionsModule } from "src/purchase-suggestions/purchase-suggestions.module";
 
 @Module({
   imports: [
@@ -32,6 +40,12 @@ import { ClientSettingsEntity } from "entities/clientSettings.entity";
     forwardRef(() => OrphanFilesModule),
     forwardRef(() => OrdersModule),
     ProductSyncStateModule,
+    WarehousesModule,
+    StockMovementsModule,
+    LotsModule,
+    BarcodesModule,
+    CostingModule,
+    PurchaseSuggestionsModule,
     TypeOrmModule.forFeature([
       ProductEntity,
       ProductVariantEntity,
@@ -45,13 +59,15 @@ import { ClientSettingsEntity } from "entities/clientSettings.entity";
       ProductSyncStateEntity,
       PurchaseInvoiceItemEntity,
       PurchaseReturnInvoiceItemEntity,
+      VariantWarehouseStockEntity,
+      ProductImportEntity,
     ]),
   ],
-  providers: [ProductsService, ProductSubscriber, VariantSubscriber, LowStockService, RemoteImageHelper, {
+  providers: [ProductsService, ProductImportService, ProductSubscriber, VariantSubscriber, LowStockService, RemoteImageHelper, {
     provide: 'PUBLIC_BASE_URL',
     useValue: '/uploads/products', // القيمة التي تريدها
   },],
   controllers: [ProductsController],
-  exports: [ProductsService],
+  exports: [ProductsService, ProductImportService],
 })
 export class ProductsModule { }
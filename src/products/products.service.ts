@@ -15,6 +15,7 @@ import {
   UpdateProductDto,
   UpsertProductSkusDto,
   AdjustVariantStockDto,
+  UpdateVariantReorderDto,
 } from "dto/product.dto";
 
 import { CRUD } from "../../common/crud.service";
@@ -38,6 +39,12 @@ import { RemoteImageHelper } from "common/emote-image.helper";
 import { StoresService } from "src/stores/stores.service";
 import { OrdersService } from "src/orders/services/orders.service";
 import { RequestTranslationService, TranslationService } from "common/translation.service";
+import { WarehouseStockService } from "src/warehouse/warehouse-stock.service";
+import { StockMovementInput, StockMovementsService } from "src/stock-movements/stock-movements.service";
+import { LotsService } from "src/lots/lots.service";
+import { BarcodesService } from "src/barcodes/barcodes.service";
+import { StockMovementReason, StockMovementReference } from "entities/stock-movement.entity";
+import { SupplierEntity } from "entities/supplier.entity";
 
 
 @Injectable()
@@ -84,6 +91,10 @@ export class ProductsService {
     @InjectRepository(ProductSyncStateEntity) protected readonly productSyncStateRepo: Repository<ProductSyncStateEntity>,
     private readonly translations: TranslationService,
     private requestTranslations: RequestTranslationService,
+    private readonly warehouseStockService: WarehouseStockService,
+    private readonly stockMovementsService: StockMovementsService,
+    private readonly lotsService: LotsService,
+    private readonly barcodesService: BarcodesService,
   ) { }
 
 
@@ -161,10 +172,26 @@ export class ProductsService {
       deactivatedAt: r.deactivatedAt,
       customerDamagedQuantity: r.customerDamagedQuantity,
       companyDamagedQuantity: r.companyDamagedQuantity,
+      inTransitQuantity: r.inTransitQuantity,
+      reorderPoint: r.reorderPoint ?? null,
+      reorderQuantity: r.reorderQuantity ?? null,
+      preferredSupplierId: r.preferredSupplierId ?? null,
       available: await this.ordersService.calculateAvailableStock(r.stockOnHand ?? 0, r.reserved ?? 0, r.adminId),
     };
   }
 
+  // Adds the per-warehouse split to mapped sku rows; "unallocated" is stock not assigned to any warehouse
+  private async attachWarehouseStockToSkus(adminId: string, skus: any[], manager?: EntityManager) {
+    const byVariant = await this.warehouseStockService.getQuantitiesForVariants(adminId, skus.map((s) => s.id), manager);
+    for (const sku of skus) {
+      const warehouses = byVariant.get(sku.id) ?? [];
+      const allocated = warehouses.reduce((sum, w) => sum + w.stockOnHand, 0);
+      sku.warehouses = warehouses;
+      sku.unallocated = Math.max(0, (sku.stockOnHand ?? 0) - allocated);
+    }
+    return skus;
+  }
+
   private async attachSkusToProducts(me: any, products: any[]) {
     const productIds = (products ?? []).map((p) => p.id).filter(Boolean);
     if (!productIds.length) return products;
@@ -174,12 +201,15 @@ export class ProductsService {
       order: { id: "ASC" },
     });
 
+    const mapped = await Promise.all(rows.map(async (r) => await this.mapSkuRow(r)));
+    await this.attachWarehouseStockToSkus(tenantId(me), mapped);
+
     const byProduct = new Map<string, any[]>();
-    for (const r of rows) {
+    rows.forEach((r, i) => {
       const arr = byProduct.get(r.productId) ?? [];
-      arr.push(await this.mapSkuRow(r));
+      arr.push(mapped[i]);
       byProduct.set(r.productId, arr);
-    }
+    });
 
     for (const p of products) {
       p.skus = byProduct.get(p.id) ?? [];
@@ -191,7 +221,7 @@ export class ProductsService {
   private buildEmptyProductStockSummary() {
     return {
       productCount: 1,
-      inventory: { reserved: 0, available: 0, totalOnHand: 0, customerDamagedQuantity: 0, companyDamagedQuantity: 0 },
+      inventory: { reserved: 0, available: 0, totalOnHand: 0, customerDamagedQuantity: 0, companyDamagedQuantity: 0, warehouses: [] },
       orders: { soldQuantity: 0, inTransitQuantity: 0 },
       purchases: { acceptedQuantity: 0 },
       purchaseReturns: { acceptedReturnedQuantity: 0 },
@@ -204,7 +234,7 @@ export class ProductsService {
       map.set(id, this.buildEmptyProductStockSummary());
     }
 
-    const [invRows, ordRows, purRows, retRows] = await Promise.all([
+    const [invRows, ordRows, purRows, retRows, warehouseRows] = await Promise.all([
       this.pvRepo
         .createQueryBuilder('pv')
         .select('pv.productId', 'productId')
@@ -254,6 +284,7 @@ export class ProductsService {
         .andWhere('pv.productId IN (:...ids)', { ids: productIds })
         .groupBy('pv.productId')
         .getRawMany(),
+      this.warehouseStockService.getTotalsForProducts(adminId, productIds),
     ]);
 
     const pidOf = (row: any) => row.productId ?? row.productid;
@@ -286,6 +317,11 @@ export class ProductsService {
       if (!s) continue;
       s.purchaseReturns.acceptedReturnedQuantity = Number(row.qty || 0);
     }
+    for (const row of warehouseRows) {
+      const s = map.get(row.productId);
+      if (!s) continue;
+      s.inventory.warehouses.push({ warehouseId: row.warehouseId, warehouseName: row.warehouseName, stockOnHand: row.stockOnHand });
+    }
 
     return map;
   }
@@ -311,6 +347,7 @@ export class ProductsService {
     });
 
     product.skus = await Promise.all(rows.map(async (r) => await this.mapSkuRow(r)));
+    await this.attachWarehouseStockToSkus(tenantId(me), product.skus, manager);
     return product;
   }
 
@@ -325,6 +362,7 @@ export class ProductsService {
       orderStats,
       acceptedPurchaseStats,
       acceptedReturnStats,
+      warehouseTotals,
     ] = await Promise.all([
       // 1. Total Products Count
       this.prodRepo.count({ where: { adminId, isActive: true } }),
@@ -381,14 +419,21 @@ export class ProductsService {
         .andWhere('pri.status = :accepted', { accepted: ApprovalStatus.ACCEPTED })
         .getRawOne(),
 
+      // 6. Stock per warehouse
+      this.warehouseStockService.getTenantTotals(adminId),
     ]);
 
+    const totalOnHand = Number(inventoryStats?.totalStockOnHand || 0);
+    const allocated = warehouseTotals.reduce((sum, w) => sum + w.stockOnHand, 0);
+
     return {
       productCount: Number(totalProducts),
       inventory: {
         reserved: Number(inventoryStats?.totalReserved || 0),
         available: Number(inventoryStats?.totalAvailable || 0),
-        totalOnHand: Number(inventoryStats?.totalStockOnHand || 0),
+        totalOnHand,
+        unallocated: Math.max(0, totalOnHand - allocated),
+        warehouses: warehouseTotals,
       },
       damaged: {
         customer: Number(inventoryStats?.totalCustomerDamaged || 0),
@@ -909,9 +954,11 @@ export class ProductsService {
       order: { id: "ASC" },
     });
 
+    const items = await Promise.all(rows.map(async (r) => await this.mapSkuRow(r)));
+
     return {
       productId,
-      items: await Promise.all(rows.map(async (r) => await this.mapSkuRow(r))),
+      items: await this.attachWarehouseStockToSkus(tenantId(me), items),
     };
   }
 
@@ -938,6 +985,7 @@ export class ProductsService {
     const existingByKey = new Map(existing.map((e) => [e.key, e]));
 
     const toSave: ProductVariantEntity[] = [];
+    const movements: StockMovementInput[] = [];
     const incomingKeys = new Set<string>();
 
     // Used to generate incremental number safely
@@ -963,12 +1011,25 @@ export class ProductsService {
             ? Number(it.price)
             : null;
 
+        const before = { stockOnHand: row.stockOnHand || 0, reserved: row.reserved || 0 };
+
         if (it.stockOnHand !== undefined)
           row.stockOnHand = Number(it.stockOnHand) || 0;
 
         if (it.reserved !== undefined)
           row.reserved = Number(it.reserved) || 0;
 
+        movements.push({
+          adminId,
+          variantId: row.id,
+          reason: StockMovementReason.SKU_UPDATE,
+          stockOnHandDelta: row.stockOnHand - before.stockOnHand,
+          reservedDelta: row.reserved - before.reserved,
+          referenceType: StockMovementReference.PRODUCT,
+          referenceId: productId,
+          userId: me?.id,
+        });
+
         toSave.push(row);
       } else {
         // ➕ CREATE NEW
@@ -1020,6 +1081,8 @@ export class ProductsService {
     }
 
     await pvRepo.save(toSave);
+    await this.stockMovementsService.record(pvRepo.manager, movements);
+    await this.barcodesService.ensureForVariants(pvRepo.manager, adminId, toSave.map(r => r.id), me?.id);
 
     return {
       updated: toSave.length,
@@ -1034,16 +1097,63 @@ export class ProductsService {
     const delta = Number(body?.delta);
     if (!Number.isFinite(delta)) throw new BadRequestException(this.translations.t("domains.products.delta_must_be_a_number"));
 
-    const row = await this.pvRepo.findOne({
-      where: { id: variantId, adminId, productId } as any,
+    const row = await this.dataSource.transaction(async (manager) => {
+      const row = await manager.getRepository(ProductVariantEntity).findOne({
+        where: { id: variantId, adminId, productId } as any,
+        lock: { mode: "pessimistic_write" },
+      });
+      if (!row) throw new BadRequestException(this.translations.t("domains.products.variant_sku_row_not_found"));
+
+      const next = row.stockOnHand + delta;
+      if (next < 0) throw new BadRequestException(this.translations.t("domains.products.stock_cannot_go_below_zero"));
+
+      row.stockOnHand = next;
+      await manager.save(ProductVariantEntity, row);
+
+      await this.stockMovementsService.record(manager, [{
+        adminId,
+        variantId: row.id,
+        reason: StockMovementReason.MANUAL_ADJUSTMENT,
+        stockOnHandDelta: delta,
+        referenceType: StockMovementReference.PRODUCT,
+        referenceId: productId,
+        userId: me?.id,
+        notes: body?.notes,
+      }]);
+      if (delta < 0) await this.lotsService.trimToStock(manager, adminId, [row.id]);
+
+      return row;
     });
+
+    return {
+      ...await this.mapSkuRow(row),
+      productId,
+    };
+  }
+
+  async updateVariantReorder(me: any, productId: string, variantId: string, body: UpdateVariantReorderDto) {
+    const adminId = tenantId(me);
+    await this.get(me, productId);
+
+    const row = await this.pvRepo.findOne({ where: { id: variantId, adminId, productId } as any });
     if (!row) throw new BadRequestException(this.translations.t("domains.products.variant_sku_row_not_found"));
 
-    const next = row.stockOnHand + delta;
-    if (next < 0) throw new BadRequestException(this.translations.t("domains.products.stock_cannot_go_below_zero"));
+    if (body.preferredSupplierId) {
+      const supplier = await this.dataSource.getRepository(SupplierEntity).findOne({
+        where: { id: body.preferredSupplierId, adminId } as any,
+      });
+      if (!supplier) throw new BadRequestException(this.translations.t("domains.suppliers.supplier_not_found"));
+    }
 
-    row.stockOnHand = next;
-    await this.pvRepo.save(row);
+    if (body.reorderPoint !== undefined) row.reorderPoint = body.reorderPoint;
+    if (body.reorderQuantity !== undefined) row.reorderQuantity = body.reorderQuantity;
+    if (body.preferredSupplierId !== undefined) row.preferredSupplierId = body.preferredSupplierId || null;
+
+    await this.pvRepo.update({ id: row.id }, {
+      reorderPoint: row.reorderPoint ?? null,
+      reorderQuantity: row.reorderQuantity ?? null,
+      preferredSupplierId: row.preferredSupplierId ?? null,
+    });
 
     return {
       ...await this.mapSkuRow(row),
@@ -1053,7 +1163,8 @@ export class ProductsService {
 
 
 
-  async create(me: any, dto: CreateProductDto, manager?: EntityManager) {
+  // options.notify = false skips the "product created" notification (bulk imports)
+  async create(me: any, dto: CreateProductDto, manager?: EntityManager, options: { notify?: boolean } = {}) {
     const adminId = tenantId(me);
     if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
 
@@ -1418,6 +1529,8 @@ export class ProductsService {
         savedVariants = await pvRepo.save(rows);
       }
 
+      await this.barcodesService.ensureForVariants(mgr, adminId, savedVariants.map(v => v.id), me?.id);
+
       // Handle Purchase Data if provided
       if (dto.purchase) {
         // Map combinations to variant IDs for purchase items
@@ -1442,20 +1555,22 @@ export class ProductsService {
         }
       }
 
-      await this.notificationService.create({
-        userId: adminId,
-        type: NotificationType.PRODUCT_CREATED,
-        title: await this.requestTranslations.tAsync("domains.products.product_created_title", adminId),
-        message: await this.requestTranslations.tAsync("domains.products.product_created_message", adminId, { args: { name: savedProduct.name } }),
-        relatedEntityType: "product",
-        relatedEntityId: String(savedProduct.id),
-      }, mgr);
+      if (options.notify !== false) {
+        await this.notificationService.create({
+          userId: adminId,
+          type: NotificationType.PRODUCT_CREATED,
+          title: await this.requestTranslations.tAsync("domains.products.product_created_title", adminId),
+          message: await this.requestTranslations.tAsync("domains.products.product_created_message", adminId, { args: { name: savedProduct.name } }),
+          relatedEntityType: "product",
+          relatedEntityId: String(savedProduct.id),
+        }, mgr);
+      }
 
       return savedProduct.id;
     };
 
     const savedId = manager ? await work(manager) : await this.dataSource.transaction(mgr => work(mgr));
-    return this.get(me, savedId);
+    return this.get(me, savedId, manager);
   }
 
   async update(me: any, id: string, dto: UpdateProductDto, manager?: EntityManager) {
@@ -1746,7 +1861,8 @@ export class ProductsService {
 
 
         if (variantsToSave.length > 0) {
-          await pvRepo.save(variantsToSave);
+          const saved = await pvRepo.save(variantsToSave);
+          await this.barcodesService.ensureForVariants(mgr, adminId, saved.map(v => v.id), me?.id);
         }
       }
 
@@ -0,0 +1,69 @@
+// purchase-suggestions/purchase-suggestions.controller.ts
+import {
+	Body,
+	Controller,
+	Get,
+	Param,
+	Patch,
+	Post,
+	Query,
+	Req,
+	UseGuards,
+} from "@nestjs/common";
+import { JwtAuthGuard } from "../auth/jwt-auth.guard";
+import { PermissionsGuard } from "common/permissions.guard";
+import { Permissions } from "common/permissions.decorator";
+import { RequireSubscription } from "common/require-subscription.decorator";
+import { SubscriptionGuard } from "common/subscription.guard";
+import { PurchaseSuggestionsService } from "./purchase-suggestions.service";
+import { ConvertPurchaseSuggestionDto, UpdatePurchaseSuggestionDto } from "dto/purchase-suggestion.dto";
+
+@UseGuards(JwtAuthGuard, PermissionsGuard, SubscriptionGuard)
+@Controller("purchase-suggestions")
+@RequireSubscription()
+export class PurchaseSuggestionsController {
+	constructor(private svc: PurchaseSuggestionsService) { }
+
+	@Permissions("purchases.read")
+	@Get("stats")
+	stats(@Req() req: any) {
+		return this.svc.stats(req.user);
+	}
+
+	@Permissions("purchases.read")
+	@Get()
+	list(@Req() req: any, @Query() q: any) {
+		return this.svc.list(req.user, q);
+	}
+
+	// run the replenishment check now instead of waiting for the nightly job
+	@Permissions("purchases.create")
+	@Post("generate")
+	generate(@Req() req: any) {
+		return this.svc.generate(req.user);
+	}
+
+	@Permissions("purchases.read")
+	@Get(":id")
+	get(@Req() req: any, @Param("id") id: string) {
+		return this.svc.get(req.user, id);
+	}
+
+	@Permissions("purchases.update")
+	@Patch(":id")
+	update(@Req() req: any, @Param("id") id: string, @Body() body: UpdatePurchaseSuggestionDto) {
+		return this.svc.update(req.user, id, body);
+	}
+
+	@Permissions("purchases.update")
+	@Post(":id/dismiss")
+	dismiss(@Req() req: any, @Param("id") id: string) {
+		return this.svc.dismiss(req.user, id);
+	}
+
+	@Permissions("purchases.create")
+	@Post(":id/convert")
+	convert(@Req() req: any, @Param("id") id: string, @Body() body: ConvertPurchaseSuggestionDto) {
+		return this.svc.convert(req.user, id, body, req.ip);
+	}
+}
@@ -0,0 +1,25 @@
+// purchase-suggestions/purchase-suggestions.module.ts
+import { Module } from "@nestjs/common";
+import { TypeOrmModule } from "@nestjs/typeorm";
+import { PurchaseSuggestionsController } from "./purchase-suggestions.controller";
+import { PurchaseSuggestionsService } from "./purchase-suggestions.service";
+import { PurchaseSuggestionEntity, PurchaseSuggestionItemEntity } from "entities/purchase-suggestion.entity";
+import { ProductVariantEntity } from "entities/sku.entity";
+import { ClientSettingsEntity } from "entities/clientSettings.entity";
+import { PurchasesModule } from "src/purchases/purchases.module";
+
+@Module({
+  imports: [
+    PurchasesModule,
+    TypeOrmModule.forFeature([
+      PurchaseSuggestionEntity,
+      PurchaseSuggestionItemEntity,
+      ProductVariantEntity,
+      ClientSettingsEntity,
+    ]),
+  ],
+  providers: [PurchaseSuggestionsService],
+  controllers: [PurchaseSuggestionsController],
+  exports: [PurchaseSuggestionsService],
+})
+export class PurchaseSuggestionsModule { }
@@ -0,0 +1,414 @@
+// purchase-suggestions/purchase-suggestions.service.ts
+import { BadRequestException, Injectable, Logger } from "@nestjs/common";
+import { InjectRepository } from "@nestjs/typeorm";
+import { DataSource, EntityManager, Repository } from "typeorm";
+import {
+	PurchaseSuggestionEntity,
+	PurchaseSuggestionItemEntity,
+	PurchaseSuggestionStatus,
+} from "entities/purchase-suggestion.entity";
+import { ProductVariantEntity } from "entities/sku.entity";
+import { OrderItemEntity, OrderStatus } from "entities/order.entity";
+import { PurchaseInvoiceItemEntity } from "entities/purchase.entity";
+import { SupplierEntity } from "entities/supplier.entity";
+import { ClientSettingsEntity } from "entities/clientSettings.entity";
+import { ApprovalStatus } from "common/enums";
+import { ConvertPurchaseSuggestionDto, UpdatePurchaseSuggestionDto } from "dto/purchase-suggestion.dto";
+import { tenantId } from "../category/category.service";
+import { DateFilterUtil } from "common/date-filter.util";
+import { TranslationService } from "common/translation.service";
+import { PurchasesService } from "src/purchases/purchases.service";
+
+// average daily sales are taken from orders delivered in this window
+const SALES_WINDOW_DAYS = 30;
+// without a fixed reorder quantity, order enough to cover this many days of sales above the reorder point
+const COVER_DAYS = 30;
+// purchases that are not accepted yet still count as incoming stock
+const OPEN_PURCHASE_STATUSES = [ApprovalStatus.DRAFT, ApprovalStatus.PENDING];
+
+type SuggestedLine = {
+	variant: ProductVariantEntity;
+	availableQuantity: number;
+	incomingQuantity: number;
+	averageDailySales: number;
+	suggestedQuantity: number;
+};
+
+@Injectable()
+export class PurchaseSuggestionsService {
+	private readonly logger = new Logger(PurchaseSuggestionsService.name);
+
+	constructor(
+		private dataSource: DataSource,
+
+		@InjectRepository(PurchaseSuggestionEntity)
+		private suggestionRepo: Repository<PurchaseSuggestionEntity>,
+
+		@InjectRepository(PurchaseSuggestionItemEntity)
+		private itemRepo: Repository<PurchaseSuggestionItemEntity>,
+
+		@InjectRepository(ProductVariantEntity)
+		private pvRepo: Repository<ProductVariantEntity>,
+
+		@InjectRepository(ClientSettingsEntity)
+		private settingsRepo: Repository<ClientSettingsEntity>,
+
+		private translations: TranslationService,
+		private purchasesService: PurchasesService,
+	) { }
+
+	async stats(me: any) {
+		const adminId = tenantId(me);
+		if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+
+		const rows = await this.suggestionRepo
+			.createQueryBuilder("s")
+			.select("s.status", "status")
+			.addSelect("COUNT(*)", "count")
+			.where("s.adminId = :adminId", { adminId })
+			.groupBy("s.status")
+			.getRawMany();
+
+		const counts = Object.fromEntries(rows.map((r) => [r.status, Number(r.count || 0)]));
+
+		return {
+			pending: counts[PurchaseSuggestionStatus.PENDING] ?? 0,
+			converted: counts[PurchaseSuggestionStatus.CONVERTED] ?? 0,
+			dismissed: counts[PurchaseSuggestionStatus.DISMISSED] ?? 0,
+		};
+	}
+
+	async list(me: any, q?: any) {
+		const adminId = tenantId(me);
+		if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+
+		const page = Number(q?.page ?? 1);
+		const limit = Number(q?.limit ?? 10);
+		const search = String(q?.search ?? "").trim();
+		const status = q?.status && q.status !== "all" ? String(q.status) : null;
+		const supplierId = q?.supplierId && q.supplierId !== "all" ? String(q.supplierId) : null;
+		const startDate = q?.startDate ? String(q.startDate) : null; // YYYY-MM-DD
+		const endDate = q?.endDate ? String(q.endDate) : null;
+
+		const qb = this.suggestionRepo
+			.createQueryBuilder("s")
+			.where("s.adminId = :adminId", { adminId })
+			.leftJoinAndSelect("s.supplier", "supplier")
+			.leftJoinAndSelect("s.purchaseInvoice", "purchaseInvoice")
+			.loadRelationCountAndMap("s.itemsCount", "s.items");
+
+		if (status) qb.andWhere("s.status = :status", { status });
+		if (supplierId === "none") qb.andWhere("s.supplierId IS NULL");
+		else if (supplierId) qb.andWhere("s.supplierId = :supplierId", { supplierId });
+
+		DateFilterUtil.applyToQueryBuilder(qb, "s.created_at", startDate, endDate);
+
+		if (search) qb.andWhere("supplier.name ILIKE :s", { s: `%${search}%` });
+
+		qb.orderBy("s.created_at", (q?.sortOrder ?? "DESC").toUpperCase() === "ASC" ? "ASC" : "DESC");
+
+		const [records, total] = await qb
+			.skip((page - 1) * limit)
+			.take(limit)
+			.getManyAndCount();
+
+		return {
+			total_records: total,
+			current_page: page,
+			per_page: limit,
+			records,
+		};
+	}
+
+	async get(me: any, id: string, manager?: EntityManager) {
+		const adminId = tenantId(me);
+		if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+
+		const repo = manager ? manager.getRepository(PurchaseSuggestionEntity) : this.suggestionRepo;
+		const suggestion = await repo.findOne({
+			where: { id, adminId },
+			relations: ["supplier", "purchaseInvoice", "items", "items.variant", "items.variant.product"],
+		});
+		if (!suggestion) throw new BadRequestException(this.translations.t("domains.purchase_suggestions.not_found"));
+
+		const estimatedTotal = (suggestion.items ?? []).reduce((sum, it) => sum + it.quantity * Number(it.purchaseCost || 0), 0);
+		return { ...suggestion, estimatedTotal };
+	}
+
+	async update(me: any, id: string, dto: UpdatePurchaseSuggestionDto) {
+		const adminId = tenantId(me);
+		if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+
+		return this.dataSource.transaction(async (manager) => {
+			const suggestion = await this.lockPending(manager, adminId, id);
+
+			if (dto.supplierId !== undefined) {
+				if (dto.supplierId) {
+					const supplier = await manager.findOne(SupplierEntity, { where: { id: dto.supplierId, adminId } as any });
+					if (!supplier) throw new BadRequestException(this.translations.t("domains.suppliers.supplier_not_found"));
+				}
+				suggestion.supplierId = dto.supplierId || null;
+			}
+			if (dto.notes !== undefined) suggestion.notes = dto.notes || null;
+
+			if (dto.items?.length) {
+				const items = await manager.find(PurchaseSuggestionItemEntity, { where: { suggestionId: id } });
+				const byId = new Map(items.map((it) => [it.id, it]));
+
+				for (const change of dto.items) {
+					const item = byId.get(change.itemId);
+					if (!item) throw new BadRequestException(this.translations.t("domains.purchase_suggestions.item_not_found"));
+
+					if (change.quantity === 0) {
+						await manager.delete(PurchaseSuggestionItemEntity, { id: item.id });
+						continue;
+					}
+
+					await manager.update(PurchaseSuggestionItemEntity, { id: item.id }, {
+						quantity: change.quantity,
+						...(change.purchaseCost !== undefined ? { purchaseCost: change.purchaseCost } : {}),
+					});
+				}
+			}
+
+			await manager.update(PurchaseSuggestionEntity, { id }, {
+				supplierId: suggestion.supplierId ?? null,
+				notes: suggestion.notes ?? null,
+			});
+
+			return this.get(me, id, manager);
+		});
+	}
+
+	async dismiss(me: any, id: string) {
+		const adminId = tenantId(me);
+		if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+
+		return this.dataSource.transaction(async (manager) => {
+			await this.lockPending(manager, adminId, id);
+
+			await manager.update(PurchaseSuggestionEntity, { id }, {
+				status: PurchaseSuggestionStatus.DISMISSED,
+				reviewedByUserId: me?.id ?? null,
+				reviewedAt: new Date(),
+			});
+
+			return this.get(me, id, manager);
+		});
+	}
+
+	// Creates the purchase invoice through PurchasesService.create, so it goes through the normal review/accept flow
+	async convert(me: any, id: string, dto: ConvertPurchaseSuggestionDto, ipAddress?: string) {
+		const adminId = tenantId(me);
+		if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+
+		return this.dataSource.transaction(async (manager) => {
+			const suggestion = await this.lockPending(manager, adminId, id);
+
+			const items = await manager
+				.getRepository(PurchaseSuggestionItemEntity)
+				.createQueryBuilder("item")
+				.where("item.suggestionId = :id", { id })
+				.andWhere("item.quantity > 0")
+				.orderBy("item.created_at", "ASC")
+				.getMany();
+			if (!items.length) throw new BadRequestException(this.translations.t("domains.purchase_suggestions.no_items"));
+
+			const invoice = await this.purchasesService.create(me, {
+				supplierId: dto.supplierId ?? suggestion.supplierId ?? undefined,
+				warehouseId: dto.warehouseId,
+				receiptNumber: dto.receiptNumber,
+				safeId: dto.safeId,
+				paidAmount: dto.paidAmount,
+				notes: dto.notes ?? suggestion.notes ?? undefined,
+				saveAsDraft: dto.saveAsDraft ?? false,
+				items: items.map((it) => ({
+					variantId: it.variantId,
+					quantity: it.quantity,
+					purchaseCost: Number(it.purchaseCost || 0),
+				})),
+			}, ipAddress, manager);
+
+			await manager.update(PurchaseSuggestionEntity, { id }, {
+				status: PurchaseSuggestionStatus.CONVERTED,
+				purchaseInvoiceId: invoice.id,
+				reviewedByUserId: me?.id ?? null,
+				reviewedAt: new Date(),
+			});
+
+			return this.get(me, id, manager);
+		});
+	}
+
+	async generate(me: any) {
+		const adminId = tenantId(me);
+		if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+
+		return this.generateForAdmin(adminId);
+	}
+
+	// Used by the nightly low stock job
+	async generateForAllAdmins() {
+		const rows = await this.pvRepo
+			.createQueryBuilder("v")
+			.select("DISTINCT v.adminId", "adminId")
+			.where("v.reorderPoint IS NOT NULL")
+			.andWhere("v.adminId IS NOT NULL")
+			.getRawMany();
+
+		let suggestions = 0;
+		for (const { adminId } of rows) {
+			try {
+				const result = await this.generateForAdmin(adminId);
+				suggestions += result.suggestions;
+			} catch (error) {
+				this.logger.error(`Failed to generate purchase suggestions for admin ${adminId}`, error);
+			}
+		}
+
+		return { admins: rows.length, suggestions };
+	}
+
+	// Variants at or below their reorder point are added to the pending suggestion of their preferred supplier.
+	// Lines already on a pending suggestion only get their numbers refreshed, so reviewed quantities are kept.
+	async generateForAdmin(adminId: string) {
+		const lines = await this.computeSuggestedLines(adminId);
+		if (!lines.length) return { suggestions: 0, items: 0 };
+
+		return this.dataSource.transaction(async (manager) => {
+			const pending = await manager.find(PurchaseSuggestionEntity, {
+				where: { adminId, status: PurchaseSuggestionStatus.PENDING },
+				relations: ["items"],
+			});
+
+			const existingItems = new Map<string, PurchaseSuggestionItemEntity>();
+			const bySupplier = new Map<string, PurchaseSuggestionEntity>();
+			for (const s of pending) {
+				bySupplier.set(s.supplierId ?? "", s);
+				for (const it of s.items ?? []) existingItems.set(it.variantId, it);
+			}
+
+			const touched = new Set<PurchaseSuggestionEntity>();
+			const now = new Date();
+
+			for (const line of lines) {
+				const snapshot = {
+					availableQuantity: line.availableQuantity,
+					incomingQuantity: line.incomingQuantity,
+					reorderPoint: line.variant.reorderPoint ?? 0,
+					averageDailySales: line.averageDailySales,
+					suggestedQuantity: line.suggestedQuantity,
+				};
+
+				const existing = existingItems.get(line.variant.id);
+				if (existing) {
+					await manager.update(PurchaseSuggestionItemEntity, { id: existing.id }, snapshot);
+					continue;
+				}
+
+				const supplierKey = line.variant.preferredSupplierId ?? "";
+				let suggestion = bySupplier.get(supplierKey);
+				if (!suggestion) {
+					suggestion = await manager.save(PurchaseSuggestionEntity, manager.create(PurchaseSuggestionEntity, {
+						adminId,
+						supplierId: line.variant.preferredSupplierId ?? null,
+						status: PurchaseSuggestionStatus.PENDING,
+					}));
+					bySupplier.set(supplierKey, suggestion);
+				}
+
+				await manager.save(PurchaseSuggestionItemEntity, manager.create(PurchaseSuggestionItemEntity, {
+					adminId,
+					suggestionId: suggestion.id,
+					variantId: line.variant.id,
+					...snapshot,
+					quantity: line.suggestedQuantity,
+					purchaseCost: Number(line.variant.unitCost || 0),
+				}));
+				touched.add(suggestion);
+			}
+
+			for (const s of bySupplier.values()) {
+				await manager.update(PurchaseSuggestionEntity, { id: s.id }, { generatedAt: now });
+			}
+
+			return { suggestions: touched.size, items: lines.length };
+		});
+	}
+
+	private async computeSuggestedLines(adminId: string): Promise<SuggestedLine[]> {
+		const variants = await this.pvRepo
+			.createQueryBuilder("v")
+			.where("v.adminId = :adminId", { adminId })
+			.andWhere("v.reorderPoint IS NOT NULL")
+			.andWhere("v.isActive = true")
+			.getMany();
+		if (!variants.length) return [];
+
+		const variantIds = variants.map((v) => v.id);
+
+		const settings = await this.settingsRepo.findOne({ where: { adminId } });
+		const reservedEnabled = settings?.reservedEnabled ?? false;
+
+		const onOrderRows = await this.dataSource
+			.getRepository(PurchaseInvoiceItemEntity)
+			.createQueryBuilder("item")
+			.innerJoin("item.invoice", "inv")
+			.select("item.variantId", "variantId")
+			.addSelect("COALESCE(SUM(item.quantity), 0)", "quantity")
+			.where("inv.adminId = :adminId", { adminId })
+			.andWhere("inv.status IN (:...statuses)", { statuses: OPEN_PURCHASE_STATUSES })
+			.andWhere("item.variantId IN (:...variantIds)", { variantIds })
+			.groupBy("item.variantId")
+			.getRawMany();
+		const onOrder = new Map(onOrderRows.map((r) => [r.variantId, Number(r.quantity || 0)]));
+
+		const since = new Date(Date.now() - SALES_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+		const salesRows = await this.dataSource
+			.getRepository(OrderItemEntity)
+			.createQueryBuilder("item")
+			.innerJoin("item.order", "o")
+			.innerJoin("o.status", "status")
+			.select("item.variantId", "variantId")
+			.addSelect("COALESCE(SUM(item.quantity), 0)", "quantity")
+			.where("o.adminId = :adminId", { adminId })
+			.andWhere("status.code = :delivered", { delivered: OrderStatus.DELIVERED })
+			.andWhere("o.deliveredAt >= :since", { since })
+			.andWhere("item.variantId IN (:...variantIds)", { variantIds })
+			.groupBy("item.variantId")
+			.getRawMany();
+		const sold = new Map(salesRows.map((r) => [r.variantId, Number(r.quantity || 0)]));
+
+		const lines: SuggestedLine[] = [];
+		for (const variant of variants) {
+			const stockOnHand = variant.stockOnHand ?? 0;
+			const availableQuantity = Math.max(0, reservedEnabled ? stockOnHand - (variant.reserved ?? 0) : stockOnHand);
+			const incomingQuantity = (variant.inTransitQuantity ?? 0) + (onOrder.get(variant.id) ?? 0);
+			const position = availableQuantity + incomingQuantity;
+			const reorderPoint = variant.reorderPoint ?? 0;
+			if (position > reorderPoint) continue;
+
+			const averageDailySales = Math.round(((sold.get(variant.id) ?? 0) / SALES_WINDOW_DAYS) * 100) / 100;
+			const suggestedQuantity = variant.reorderQuantity
+				?? Math.max(1, reorderPoint - position + Math.ceil(averageDailySales * COVER_DAYS));
+
+			lines.push({ variant, availableQuantity, incomingQuantity, averageDailySales, suggestedQuantity });
+		}
+
+		return lines;
+	}
+
+	private async lockPending(manager: EntityManager, adminId: string, id: string) {
+		const suggestion = await manager
+			.getRepository(PurchaseSuggestionEntity)
+			.createQueryBuilder("s")
+			.setLock("pessimistic_write")
+			.where("s.id = :id AND s.adminId = :adminId", { id, adminId })
+			.getOne();
+		if (!suggestion) throw new BadRequestException(this.translations.t("domains.purchase_suggestions.not_found"));
+		if (suggestion.status !== PurchaseSuggestionStatus.PENDING) {
+			throw new BadRequestException(this.translations.t("domains.purchase_suggestions.not_pending"));
+		}
+		return suggestion;
+	}
+}
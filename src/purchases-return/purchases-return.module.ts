@@ -8,9 +8,15 @@ import { PurchaseReturnInvoiceEntity, PurchaseReturnInvoiceItemEntity, PurchaseR
 import { ProductVariantEntity } from "entities/sku.entity";
 import { SupplierEntity } from "entities/supplier.entity";
 import { Account } from "entities/safe.entity";
+import { StockMovementsModule } from "src/stock-movements/stock-movements.module";
+import { LotsModule } from "src/lots/lots.module";
 
 @Module({
-  imports: [TypeOrmModule.forFeature([PurchaseReturnInvoiceEntity, PurchaseReturnInvoiceItemEntity, PurchaseReturnAuditLogEntity, ProductVariantEntity, SupplierEntity, Account])],
+  imports: [
+    StockMovementsModule,
+    LotsModule,
+    TypeOrmModule.forFeature([PurchaseReturnInvoiceEntity, PurchaseReturnInvoiceItemEntity, PurchaseReturnAuditLogEntity, ProductVariantEntity, SupplierEntity, Account]),
+  ],
   providers: [PurchaseReturnsService, PurchaseReturnSubscriber],
   controllers: [PurchaseReturnsController],
   exports: [PurchaseReturnsService],
@@ -15,6 +15,9 @@ import * as fs from "fs";
 import * as path from "path";
 import * as ExcelJS from "exceljs";
 import { RequestTranslationService, TranslationService } from "common/translation.service";
+import { StockMovementsService } from "src/stock-movements/stock-movements.service";
+import { LotsService } from "src/lots/lots.service";
+import { StockMovementReason, StockMovementReference } from "entities/stock-movement.entity";
 
 function calcLine(cost: number, qty: number, taxRate: number, taxInclusive: boolean) {
   const lineSubtotal = cost * qty;
@@ -36,6 +39,8 @@ export class PurchaseReturnsService {
     private translations: TranslationService,
     private requestTranslations: RequestTranslationService,
     private safesService: SafesService,
+    private stockMovementsService: StockMovementsService,
+    private lotsService: LotsService,
   ) { }
 
   private async log(params: {
@@ -703,6 +708,17 @@ export class PurchaseReturnsService {
 
         await manager.save(ProductVariantEntity, changedVariants);
 
+        await this.stockMovementsService.record(manager, stockChanges.map((c) => ({
+          adminId,
+          variantId: c.variantId,
+          reason: StockMovementReason.PURCHASE_RETURN,
+          stockOnHandDelta: -c.removeQty,
+          referenceType: StockMovementReference.PURCHASE_RETURN_INVOICE,
+          referenceId: inv.id,
+          userId: me?.id ?? null,
+        })));
+        await this.lotsService.trimToStock(manager, adminId, stockChanges.map((c) => c.variantId));
+
         await this.log({
           adminId,
           invoiceId: inv.id,
@@ -770,6 +786,16 @@ export class PurchaseReturnsService {
 
           await manager.save(ProductVariantEntity, changedVariants);
 
+          await this.stockMovementsService.record(manager, stockChanges.map((c) => ({
+            adminId,
+            variantId: c.variantId,
+            reason: StockMovementReason.PURCHASE_RETURN_REVERSAL,
+            stockOnHandDelta: c.addQty,
+            referenceType: StockMovementReference.PURCHASE_RETURN_INVOICE,
+            referenceId: inv.id,
+            userId: me?.id ?? null,
+          })));
+
           await this.log({
             adminId,
             invoiceId: inv.id,
@@ -117,6 +117,7 @@ export class PurchasesController {
 		const dto: CreatePurchaseDto = {
 			supplierId: body.supplierId,
 			receiptNumber: body.receiptNumber,
+			warehouseId: body.warehouseId || undefined,
 			safeId: body.safeId,
 			paidAmount:
 				body.paidAmount !== undefined ? Number(parseNumber(body.paidAmount)) : undefined,
@@ -156,6 +157,7 @@ export class PurchasesController {
 			supplierId:
 				body.supplierId !== undefined ? body.supplierId : undefined,
 			receiptNumber: body.receiptNumber !== undefined ? body.receiptNumber : undefined,
+			warehouseId: body.warehouseId !== undefined ? body.warehouseId || null : undefined,
 			safeId: body.safeId !== undefined ? body.safeId : undefined,
 			paidAmount:
 				body.paidAmount !== undefined ? Number(parseNumber(body.paidAmount)) : undefined,
@@ -12,9 +12,15 @@ import {
 import { ProductVariantEntity } from "entities/sku.entity";
 import { SupplierEntity } from "../../entities/supplier.entity";
 import { Account } from "entities/safe.entity";
+import { WarehousesModule } from "src/warehouse/warehouse.module";
+import { StockMovementsModule } from "src/stock-movements/stock-movements.module";
+import { LotsModule } from "src/lots/lots.module";
 
 @Module({
   imports: [
+    WarehousesModule,
+    StockMovementsModule,
+    LotsModule,
     TypeOrmModule.forFeature([
       PurchaseInvoiceEntity,
       PurchaseInvoiceItemEntity,
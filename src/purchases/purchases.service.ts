@@ -15,6 +15,10 @@ import * as fs from "fs";
 import * as path from "path";
 import * as ExcelJS from "exceljs";
 import { RequestTranslationService, TranslationService } from "common/translation.service";
+import { WarehouseStockService } from "src/warehouse/warehouse-stock.service";
+import { StockMovementsService } from "src/stock-movements/stock-movements.service";
+import { LotsService } from "src/lots/lots.service";
+import { StockMovementReason, StockMovementReference } from "entities/stock-movement.entity";
 
 export function tenantId(me: any): any | null {
 	if (!me) return null;
@@ -50,6 +54,9 @@ export class PurchasesService {
 		private safesService: SafesService,
 		private translations: TranslationService,
         private requestTranslations: RequestTranslationService,
+		private warehouseStockService: WarehouseStockService,
+		private stockMovementsService: StockMovementsService,
+		private lotsService: LotsService,
 	) { }
 
 	private async log(params: {
@@ -338,6 +345,10 @@ export class PurchasesService {
                 if (!supplier) throw new BadRequestException(this.translations.t("domains.purchase_invoice.supplier_not_found"));
             }
 
+            if (dto.warehouseId) {
+                await this.warehouseStockService.assertWarehouse(adminId, dto.warehouseId, manager);
+            }
+
             if (dto.safeId) {
                 const safe = await accountRepo.findOne({ where: { id: dto.safeId, adminId } as any });
                 if (!safe) throw new BadRequestException(this.translations.t("domains.purchase_invoice.safe_not_found"));
@@ -355,6 +366,8 @@ export class PurchasesService {
                     purchaseCost: it.purchaseCost,
                     lineSubtotal,
                     lineTotal,
+                    lotNumber: it.lotNumber?.trim() || null,
+                    expiryDate: it.expiryDate || null,
                 } as any);
             });
 
@@ -367,6 +380,7 @@ export class PurchasesService {
             const inv = repo.create({
                 adminId,
                 supplierId: dto.supplierId ?? null,
+                warehouseId: dto.warehouseId ?? null,
                 receiptNumber: dto.receiptNumber,
                 receiptAsset: dto.receiptAsset ?? null,
                 safeId: dto.safeId ?? null,
@@ -438,6 +452,15 @@ export class PurchasesService {
             throw new BadRequestException(this.translations.t("domains.purchase_invoice.cannot_modify_accepted_items"));
         }
 
+        if (dto.warehouseId !== undefined && (dto.warehouseId || null) !== (inv.warehouseId ?? null)) {
+            // stock was already received into the old warehouse
+            if (inv.status === ApprovalStatus.ACCEPTED) {
+                throw new BadRequestException(this.translations.t("domains.purchase_invoice.cannot_modify_accepted_warehouse"));
+            }
+            if (dto.warehouseId) await this.warehouseStockService.assertWarehouse(adminId, dto.warehouseId);
+            dto.warehouseId = dto.warehouseId || null;
+        }
+
         if (dto.supplierId) {
             const supplier = await this.supplierRepo.findOne({ where: { id: dto.supplierId } as any });
             if (!supplier) throw new BadRequestException(this.translations.t("domains.purchase_invoice.supplier_not_found"));
@@ -469,6 +492,8 @@ export class PurchasesService {
                     purchaseCost: it.purchaseCost,
                     lineSubtotal,
                     lineTotal,
+                    lotNumber: it.lotNumber?.trim() || null,
+                    expiryDate: it.expiryDate || null,
                 } as any);
             });
 
@@ -642,6 +667,7 @@ export class PurchasesService {
 
                 const variants = await manager.find(ProductVariantEntity, {
                     where: { adminId, id: In(variantIds) } as any,
+                    relations: ["product"],
                 });
 
                 const byId = new Map<string, ProductVariantEntity>();
@@ -654,6 +680,7 @@ export class PurchasesService {
                 const changedVariants: ProductVariantEntity[] = [];
                 const stockChanges: any[] = [];
                 const priceChanges: any[] = [];
+                const warehouseIncreases: { variantId: string; warehouseId: string; quantity: number }[] = [];
 
                 for (const variantId of variantIds) {
                     const v = byId.get(variantId)!;
@@ -665,38 +692,63 @@ export class PurchasesService {
                     const nextStock = oldStock + addQty;
                     v.stockOnHand = nextStock;
 
-                    stockChanges.push({ variantId, oldStock, addQty, newStock: nextStock });
+                    const warehouseId = inv.warehouseId ?? v.product?.warehouseId ?? null;
+                    if (warehouseId) warehouseIncreases.push({ variantId, warehouseId, quantity: addQty });
 
+                    // the cost engine re-averages unitCost from the incoming cost when the movement is recorded
                     const incomingAvg = addQty > 0 ? agg.incomingCostTotal / addQty : 0;
+                    stockChanges.push({ variantId, oldStock, addQty, newStock: nextStock, warehouseId, incomingAvg, oldPrice: Number(v.unitCost ?? 0) });
 
-                    const oldPrice = v.unitCost ?? null;
-                    let newPrice: number | null = oldPrice;
+                    changedVariants.push(v);
+                }
 
-                    if (oldPrice == null) {
-                        newPrice = Number.isFinite(incomingAvg) ? Math.round(incomingAvg) : null;
-                    } else {
-                        const denom = oldStock + addQty;
-                        if (denom > 0) {
-                            const weighted = (oldPrice * oldStock + incomingAvg * addQty) / denom;
-                            newPrice = Number.isFinite(weighted) ? Math.round(weighted) : oldPrice;
-                        }
-                    }
+                await manager.save(ProductVariantEntity, changedVariants);
 
-                    if (oldPrice !== newPrice) {
-                        v.unitCost = newPrice ?? undefined;
-                        priceChanges.push({
-                            variantId,
-                            sku: v.sku ?? null,
-                            oldPrice,
-                            incomingAvgCost: Math.round(incomingAvg),
-                            newPrice,
-                        });
-                    }
+                for (const inc of warehouseIncreases) {
+                    await this.warehouseStockService.increase(manager, { adminId, ...inc });
+                }
 
-                    changedVariants.push(v);
+                // Lines received with a lot number or an expiry date go into lots (lot number defaults to the receipt number)
+                for (const it of inv.items ?? []) {
+                    if (!it.lotNumber && !it.expiryDate) continue;
+                    await this.lotsService.receive(manager, {
+                        adminId,
+                        variantId: it.variantId,
+                        lotNumber: it.lotNumber || inv.receiptNumber || inv.id,
+                        expiryDate: it.expiryDate ?? null,
+                        quantity: Number(it.quantity) || 0,
+                        warehouseId: inv.warehouseId ?? byId.get(it.variantId)?.product?.warehouseId ?? null,
+                        purchaseInvoiceId: inv.id,
+                    });
                 }
 
-                await manager.save(ProductVariantEntity, changedVariants);
+                await this.stockMovementsService.record(manager, stockChanges.map((c) => ({
+                    adminId,
+                    variantId: c.variantId,
+                    reason: StockMovementReason.PURCHASE_RECEIPT,
+                    stockOnHandDelta: c.addQty,
+                    unitCost: c.incomingAvg,
+                    warehouseId: c.warehouseId,
+                    referenceType: StockMovementReference.PURCHASE_INVOICE,
+                    referenceId: inv.id,
+                    userId: me?.id ?? null,
+                })));
+
+                const costed = await manager.find(ProductVariantEntity, {
+                    where: { adminId, id: In(variantIds) } as any,
+                    select: ["id", "sku", "unitCost"],
+                });
+                for (const v of costed) {
+                    const change = stockChanges.find((c) => c.variantId === v.id);
+                    if (!change || Number(v.unitCost) === change.oldPrice) continue;
+                    priceChanges.push({
+                        variantId: v.id,
+                        sku: v.sku ?? null,
+                        oldPrice: change.oldPrice,
+                        incomingAvgCost: Number(change.incomingAvg.toFixed(2)),
+                        newPrice: Number(v.unitCost),
+                    });
+                }
 
                 await this.log({
                     adminId,
@@ -755,6 +807,7 @@ export class PurchasesService {
                 if (variantIds.length) {
                     const variants = await manager.find(ProductVariantEntity, {
                         where: { adminId, id: In(variantIds) } as any,
+                        relations: ["product"],
                     });
 
                     const byId = new Map<string, ProductVariantEntity>();
@@ -787,6 +840,40 @@ export class PurchasesService {
 
                     await manager.save(ProductVariantEntity, changedVariants);
 
+                    const movements = [];
+                    for (const v of changedVariants) {
+                        const warehouseId = await this.warehouseStockService.decrease(manager, {
+                            adminId,
+                            variantId: v.id,
+                            quantity: byVariant.get(v.id) ?? 0,
+                            preferredWarehouseIds: [inv.warehouseId ?? v.product?.warehouseId],
+                        });
+
+                        movements.push({
+                            adminId,
+                            variantId: v.id,
+                            reason: StockMovementReason.PURCHASE_REVERSAL,
+                            stockOnHandDelta: -(byVariant.get(v.id) ?? 0),
+                            warehouseId,
+                            referenceType: StockMovementReference.PURCHASE_INVOICE,
+                            referenceId: inv.id,
+                            userId: me?.id ?? null,
+                        });
+                    }
+
+                    await this.stockMovementsService.record(manager, movements);
+
+                    for (const it of inv.items ?? []) {
+                        if (!it.lotNumber && !it.expiryDate) continue;
+                        await this.lotsService.remove(manager, {
+                            adminId,
+                            variantId: it.variantId,
+                            lotNumber: it.lotNumber || inv.receiptNumber || inv.id,
+                            quantity: Number(it.quantity) || 0,
+                        });
+                    }
+                    await this.lotsService.trimToStock(manager, adminId, variantIds);
+
                     await this.log({
                         adminId,
                         invoiceId: inv.id,
@@ -798,53 +885,26 @@ export class PurchasesService {
                         manager
                     });
 
-                    // Price rollback when leaving ACCEPTED to (REJECTED or PENDING or DRAFT)
-                    if (status === ApprovalStatus.REJECTED || status === ApprovalStatus.PENDING || status === ApprovalStatus.DRAFT) {
-                        const lastPriceLog = await manager.findOne(PurchaseAuditLogEntity, {
-                            where: { adminId, invoiceId: inv.id, action: "price_updated" as any } as any,
-                            order: { created_at: "DESC" },
+                    // the reversal takes the receipt's own cost layers back out, which restores the average cost
+                    const costed = await manager.find(ProductVariantEntity, {
+                        where: { adminId, id: In(variantIds) } as any,
+                        select: ["id", "sku", "unitCost"],
+                    });
+                    const priceChanges = costed
+                        .map((v) => ({ variantId: v.id, sku: v.sku ?? null, oldPrice: Number(byId.get(v.id)?.unitCost ?? 0), newPrice: Number(v.unitCost) }))
+                        .filter((c) => c.oldPrice !== c.newPrice);
+
+                    if (priceChanges.length) {
+                        await this.log({
+                            adminId,
+                            invoiceId: inv.id,
+                            userId: me?.id ?? null,
+                            action: "price_rolled_back" as any,
+                            changes: priceChanges,
+                            description: `Price rollback applied (status -> ${status})`,
+                            ipAddress,
+                            manager
                         });
-
-                        const priceChanges = (lastPriceLog as any)?.changes ?? [];
-                        if (Array.isArray(priceChanges) && priceChanges.length) {
-                            const priceVariantIds = [
-                                ...new Set(priceChanges.map((x: any) => x.variantId).filter(Boolean)),
-                            ];
-
-                            const priceVariants = await manager.find(ProductVariantEntity, {
-                                where: { adminId, id: In(priceVariantIds) } as any,
-                            });
-
-                            const pvById = new Map<string, ProductVariantEntity>();
-                            for (const v of priceVariants) pvById.set(v.id, v);
-
-                            const touched: ProductVariantEntity[] = [];
-
-                            for (const ch of priceChanges) {
-                                const vid = ch.variantId;
-                                const v = pvById.get(vid);
-                                if (!v) continue;
-
-                                const oldPrice = ch.oldPrice;
-                                v.unitCost = oldPrice === null || oldPrice === undefined ? undefined : Number(oldPrice);
-                                touched.push(v);
-                            }
-
-                            if (touched.length) {
-                                await manager.save(ProductVariantEntity, touched);
-
-                                await this.log({
-                                    adminId,
-                                    invoiceId: inv.id,
-                                    userId: me?.id ?? null,
-                                    action: "price_rolled_back" as any,
-                                    changes: priceChanges,
-                                    description: `Price rollback applied (status -> ${status})`,
-                                    ipAddress,
-                                    manager
-                                });
-                            }
-                        }
                     }
                 }
 
@@ -5,6 +5,7 @@ export enum QueueNames {
   PRODUCT_SYNC = 'product-sync',
   ORDER_SYNC = 'order-sync',
   AUTOMATIONS = 'automations',
+  PRODUCT_IMPORT = 'product-import',
 }
 
 export const QueueConfigs: Record<QueueNames, { displayName: string; description: string }> = {
@@ -18,12 +19,16 @@ export const QueueConfigs: Record<QueueNames, { displayName: string; description
   },
   [QueueNames.ORDER_SYNC]: {
     displayName: 'Order Sync Queue',
-    description: 'Creates bulk orders, syncs order statuses, retries failed orders, and processes bulk shipping tasks',
+    description: 'Creates bulk orders, syncs order statuses, retries failed orders, and processes bulk shipping tasks and bulk order actions',
   },
   [QueueNames.AUTOMATIONS]: {
     displayName: 'Automations Queue',
     description: 'Runs automation flows and resumes them from WhatsApp or upsell replay events',
   },
+  [QueueNames.PRODUCT_IMPORT]: {
+    displayName: 'Product Import Queue',
+    description: 'Imports products and variants from uploaded Excel/CSV catalog files',
+  },
 };
 
 export const AutoAssignmentJobs = {
@@ -43,6 +48,11 @@ export const OrderSyncJobs = {
   SYNC_ORDER_STATUS: 'sync-order-status',
   RETRY_FAILED_ORDER: 'retry-failed-order',
   BULK_SHIPPING: 'bulk-shipping',
+  BULK_ORDER_ACTION: 'bulk-order-action',
+} as const;
+
+export const ProductImportJobs = {
+  IMPORT_PRODUCTS: 'import-products',
 } as const;
 
 export const AutomationJobs = {
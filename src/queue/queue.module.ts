@@ -12,9 +12,11 @@ import { OpsController } from './opsController';
 import { ProductSyncQueueService, ProductSyncWorkerService } from './queues/product-sync.queue';
 import { OrderSyncQueueService, OrderSyncWorkerService } from './queues/order-sync.queue';
 import { AutomationQueueService, AutomationWorkerService } from './queues/automations.queue';
+import { ProductImportQueueService, ProductImportWorkerService } from './queues/product-import.queue';
 import { QueueDelayService } from './common/queue-delay.service';
 import { StoresModule } from 'src/stores/stores.module';
 import { AutomationModule } from 'src/automation/automation.module';
+import { ProductsModule } from 'src/products/products.module';
 import { bullQueueConfig } from './common/base-queue.config';
 import { BullBoardAuthMiddleware } from './common/bull-board-auth-middleware';
 import { AuthModule } from 'src/auth/auth.module';
@@ -48,6 +50,7 @@ const registeredBoardQueues = Object.values(QueueNames).map((queueName) => ({
     forwardRef(() => StoresModule),
     forwardRef(() => AutomationModule),
     forwardRef(() => OrderAssignmentModule),
+    forwardRef(() => ProductsModule),
     BullModule.forRootAsync(bullQueueConfig),
     BullModule.registerQueue(...registeredQueues),
     BullBoardModule.forRootAsync({
@@ -95,6 +98,8 @@ const registeredBoardQueues = Object.values(QueueNames).map((queueName) => ({
     OrderSyncWorkerService,
     AutomationQueueService,
     AutomationWorkerService,
+    ProductImportQueueService,
+    ProductImportWorkerService,
     QueueDelayService,
   ],
   exports: [
@@ -106,6 +111,8 @@ const registeredBoardQueues = Object.values(QueueNames).map((queueName) => ({
     OrderSyncWorkerService,
     AutomationQueueService,
     AutomationWorkerService,
+    ProductImportQueueService,
+    ProductImportWorkerService,
     QueueDelayService,
   ],
   controllers: [OpsController],
@@ -10,6 +10,7 @@ import { ProviderCode } from "src/shipping/providers/shipping-provider.interface
 
 import { createHash } from 'crypto';
 import { BulkAssignOrderDto } from "dto/shipping.dto";
+import { OrderBulkJobsService } from "src/orders/services/order-bulk-jobs.service";
 
 @Injectable()
 export class OrderSyncQueueService {
@@ -93,6 +94,13 @@ export class OrderSyncQueueService {
     }, { jobId });
   }
 
+  async enqueueBulkOrderAction(adminId: string, bulkJobId: string) {
+    // the order ids and the action input live on the job row
+    await this.addJob(adminId, OrderSyncJobs.BULK_ORDER_ACTION, null, { bulkJobId }, {
+      attempts: 1,
+    });
+  }
+
   async enqueueBulkShippingTasks(
     adminId: string,
     provider: ProviderCode,
@@ -140,6 +148,8 @@ export class OrderSyncWorkerService extends WorkerHost {
     private readonly queueDelayService: QueueDelayService,
     @Inject(forwardRef(() => StoresService))
     private readonly storesService: StoresService,
+    @Inject(forwardRef(() => OrderBulkJobsService))
+    private readonly orderBulkJobsService: OrderBulkJobsService,
   ) {
     super();
   }
@@ -158,6 +168,9 @@ export class OrderSyncWorkerService extends WorkerHost {
   private async handleJob(job: Job): Promise<any> {
     const { type } = job.data;
     this.logger.debug(`Processing Job ${job.id} | Type: ${type}`);
+    if (type === OrderSyncJobs.BULK_ORDER_ACTION) {
+      return await this.orderBulkJobsService.processJob(job.data.bulkJobId);
+    }
     return await this.storesService.processOrderSyncJob(job.data);
   }
 }
@@ -0,0 +1,77 @@
+import { InjectQueue, Processor, WorkerHost } from "@nestjs/bullmq";
+import { forwardRef, Inject, Injectable, Logger } from "@nestjs/common";
+import { ProductImportJobs, QueueNames } from "../common/queue.constants";
+import { Job, JobsOptions, Queue } from "bullmq";
+import { QueueDelayConfig, QueueDelayService } from "../common/queue-delay.service";
+import { ProductImportService } from "src/products/product-import.service";
+
+@Injectable()
+export class ProductImportQueueService {
+  constructor(
+    @InjectQueue(QueueNames.PRODUCT_IMPORT)
+    private readonly productImportQueue: Queue,
+  ) { }
+
+  private async addJob(
+    adminId: string,
+    type: string,
+    data: any,
+    options: JobsOptions = {},
+  ) {
+    if (!adminId) return;
+
+    return await this.productImportQueue.add(
+      type,
+      {
+        ...data,
+        type,
+        adminId,
+      },
+      options,
+    );
+  }
+
+  async enqueueImport(adminId: string, importId: string) {
+    // the file lives on the import row, so the job only carries its id
+    await this.addJob(adminId, ProductImportJobs.IMPORT_PRODUCTS, { importId }, {
+      jobId: `product-import:${adminId}:${importId}`,
+      attempts: 1,
+    });
+  }
+}
+
+@Processor(QueueNames.PRODUCT_IMPORT, {
+  concurrency: 2,
+})
+export class ProductImportWorkerService extends WorkerHost {
+  private readonly logger = new Logger(ProductImportWorkerService.name);
+  private readonly queueConfig: Partial<QueueDelayConfig> = {
+    keyPrefix: 'product-import',
+    maxPerUser: 1, // imports of the same tenant run one after the other
+  };
+
+  constructor(
+    private readonly queueDelayService: QueueDelayService,
+    @Inject(forwardRef(() => ProductImportService))
+    private readonly productImportService: ProductImportService,
+  ) {
+    super();
+  }
+
+  async process(job: Job, token?: string): Promise<any> {
+    const { adminId } = job.data;
+    return this.queueDelayService.acquireUserSlotAndProcess(
+      job,
+      token,
+      adminId,
+      () => this.handleJob(job),
+      this.queueConfig,
+    );
+  }
+
+  private async handleJob(job: Job): Promise<any> {
+    const { type, importId } = job.data;
+    this.logger.debug(`Processing Job ${job.id} | Type: ${type}`);
+    return await this.productImportService.processImport(importId);
+  }
+}
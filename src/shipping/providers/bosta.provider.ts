@@ -201,6 +201,8 @@ export class BostaProvider extends ShippingProvider implements IMassAWBProvider
     const itemsCount = order.items.reduce((sum, item) => sum + item.quantity, 0);
     // ✅ Check if this order is a replacement for another order
     const isExchange = order.isReplacement;
+    // courier collects the items from the customer, nothing is delivered or collected in cash
+    const isReturnPickup = !!dto?.returnPickup;
 
     const headerName = integartion.credentials?.webhookHeaderName || 'Authorization';
     const secretValue = integartion.credentials?.webhookSecret || '';
@@ -227,11 +229,13 @@ export class BostaProvider extends ShippingProvider implements IMassAWBProvider
 
 
     const payload = {
-      type: isExchange ? BostaDeliveryType.Exchange : BostaDeliveryType.Deliver,
+      type: isReturnPickup
+        ? BostaDeliveryType.CustomerReturnPickup
+        : isExchange ? BostaDeliveryType.Exchange : BostaDeliveryType.Deliver,
       businessReference: order.orderNumber,
       uniqueBusinessReference: order.orderNumber,
       notes: order.customerNotes || "",
-      cod: order.paymentMethod === PaymentMethod.CASH_ON_DELIVERY ? (
+      cod: !isReturnPickup && order.paymentMethod === PaymentMethod.CASH_ON_DELIVERY ? (
         isExchange
           ? (order.finalTotal - order.deposit)
           : Math.max(0, order.finalTotal - order.deposit)
@@ -271,6 +275,17 @@ export class BostaProvider extends ShippingProvider implements IMassAWBProvider
     };
 
 
+    if (isReturnPickup) {
+      (payload as any).returnSpecs = {
+        packageType: "Parcel",
+        size: dto.size || "MEDIUM",
+        packageDetails: {
+          itemsCount,
+          description: payload.specs.packageDetails.description,
+        },
+      };
+    }
+
     if (isExchange) {
       let returnItemsCount = 0;
       let returnInstructions = "The Package details:\n";
@@ -155,6 +155,7 @@ export class TurboProvider extends ShippingProvider {
       };
     }
     const isExchange = order.isReplacement;
+    const isReturnPickup = !!dto?.returnPickup;
 
     const payload: any = {
       main_client_code: accountId,
@@ -185,6 +186,12 @@ export class TurboProvider extends ShippingProvider {
 
     const itemsCount = order.items.reduce((sum, item) => sum + item.quantity, 0);
 
+    if (isReturnPickup) {
+      payload.is_order = TurboOrderType.RETURN_PICKUP;
+      payload.amount_to_be_collected = 0;
+      payload.return_summary = payload.order_summary;
+    }
+
     if (isExchange) {
       let returnItemsCount = 0;
       let returnInstructions = "The Package details:\n";
@@ -2,7 +2,7 @@
 import { Body, Controller, Get, Param, Patch, Post, Query, Req,Res, UseGuards } from '@nestjs/common';
 import { JwtAuthGuard } from '../auth/jwt-auth.guard';
 import { ShippingService } from './shipping.service';
-import { AssignOrderDto, BulkAssignOrderDto, CreateShipmentDto, ManualUpdateShipmentStatusDto, PrintMassAWBDto, SetActiveDto, SetProviderCredentialsDto } from 'dto/shipping.dto';
+import { AssignOrderDto, BulkAssignOrderDto, CreateShipmentDto, ManualUpdateShipmentStatusDto, PrintMassAWBDto, SetActiveDto, SetProviderCredentialsDto, SplitShipmentDto } from 'dto/shipping.dto';
 import { tenantId } from 'src/category/category.service';
 import { ProviderCode } from './providers/shipping-provider.interface';
 import { Response } from 'express';
@@ -84,6 +84,18 @@ export class ShippingController {
 		return this.shipping.assignOrder(req.user, orderId, dto, provider);
 	}
 
+	@Permissions("shipping-companies.update")
+	@Post('providers/:provider/orders/:orderId/split')
+	split(@Req() req: any, @Param('orderId') orderId: string, @Body() dto: SplitShipmentDto, @Param('provider') provider: ProviderCode | 'none') {
+		return this.shipping.splitShipment(req.user, provider, orderId, dto);
+	}
+
+	@Permissions("shipping-companies.read")
+	@Get('orders/:orderId/shipments')
+	orderShipments(@Req() req: any, @Param('orderId') orderId: string) {
+		return this.shipping.listOrderShipments(req.user, orderId);
+	}
+
 	@Permissions("shipping-companies.update")
 	@Post('providers/:provider/orders/bulk-assign')
 	bulkAssign(
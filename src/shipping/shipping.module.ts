@@ -21,6 +21,9 @@ import { AutomationModule } from 'src/automation/automation.module';
 import { ShipmentSubscriber } from './shipping.subscriptor';
 import { ReturnShipmentCheckerService } from './return-shipment-checker.service';
 import { ClientSettingsEntity } from 'entities/clientSettings.entity';
+import { WarehousesModule } from 'src/warehouse/warehouse.module';
+import { StockMovementsModule } from 'src/stock-movements/stock-movements.module';
+import { LotsModule } from 'src/lots/lots.module';
 
 @Module({
   imports: [
@@ -29,6 +32,9 @@ import { ClientSettingsEntity } from 'entities/clientSettings.entity';
     forwardRef(() => AuthModule),
     forwardRef(() => OrdersModule),
     WebSocketModule,
+    WarehousesModule,
+    StockMovementsModule,
+    LotsModule,
     TypeOrmModule.forFeature([ShippingCompanyEntity, ShippingIntegrationEntity, ShipmentEntity, ShipmentEventEntity, OrderEntity, ExternalShipmentLogEntity, ClientSettingsEntity]),
   ],
   controllers: [ShippingController, ShippingWebhookController],
@@ -8,6 +8,7 @@ import * as crypto from 'crypto';
 import {
 	ShipmentEntity,
 	ShipmentEventEntity,
+	ShipmentItemEntity,
 	ShipmentStatus,
 	ShippingCompanyEntity,
 	ShippingIntegrationEntity,
@@ -17,15 +18,20 @@ import {
 import { DateFilterUtil } from 'common/date-filter.util';
 import * as ExcelJS from 'exceljs';
 
-import { AssignOrderDto, BulkAssignOrderDto, CreateShipmentDto, ManualUpdateShipmentStatusDto, PrintMassAWBDto } from 'dto/shipping.dto';
+import { AssignOrderDto, BulkAssignOrderDto, CreateShipmentDto, ManualUpdateShipmentStatusDto, PrintMassAWBDto, SplitShipmentDto } from 'dto/shipping.dto';
 import { IMassAWBProvider, ProviderCode, ProviderWebhookResult, ShippingProvider } from './providers/shipping-provider.interface';
 import { BostaProvider } from './providers/bosta.provider';
 import { JtProvider } from './providers/jt.provider';
 import { TurboProvider } from './providers/turbo.provider';
 import { tenantId } from 'src/category/category.service';
-import { OrderActionResult, OrderActionType, OrderEntity, OrderItemEntity, OrderReplacementEntity, OrderStatus, OrderStatusEntity } from 'entities/order.entity';
+import { OrderActionResult, OrderActionType, OrderEntity, OrderFulfillmentStatus, OrderItemEntity, OrderReplacementEntity, OrderStatus, OrderStatusEntity, PaymentMethod, ReturnRequestEntity } from 'entities/order.entity';
 import { ProductVariantEntity } from 'entities/sku.entity';
 import { OrdersService } from 'src/orders/services/orders.service';
+import { OrderReasonsService } from 'src/orders/services/order-reasons.service';
+import { WarehouseStockService } from 'src/warehouse/warehouse-stock.service';
+import { StockMovementsService } from 'src/stock-movements/stock-movements.service';
+import { LotsService } from 'src/lots/lots.service';
+import { StockMovementReason, StockMovementReference } from 'entities/stock-movement.entity';
 import { OrderSyncQueueService } from 'src/queue/queues/order-sync.queue';
 import { AppGateway } from '../../common/app.gateway';
 import { NotificationService } from 'src/notifications/notification.service';
@@ -37,6 +43,17 @@ import { OrderFlowPath } from 'entities/clientSettings.entity';
 import { ClientSettingsService } from 'src/client-settings/client-settings.service';
 import { RequestTranslationService, TranslationService } from 'common/translation.service';
 import { getEffectiveDeductedQuantity } from 'src/orders/utils/stock-deduction';
+import { isShipmentOpen, summarizeFulfillment } from 'src/orders/utils/fulfillment';
+
+// provider outcomes that end a delivery attempt without handing the parcel over
+const DELIVERY_FAILURE_STATUSES = [
+	UnifiedShippingStatus.EXCEPTION,
+	UnifiedShippingStatus.TERMINATED,
+	UnifiedShippingStatus.CUSTOMER_NOT_RESPOND,
+	UnifiedShippingStatus.CUSTOMER_DATA_WRONG,
+	UnifiedShippingStatus.CUSTOMER_REFUSED,
+	UnifiedShippingStatus.CANCELLED,
+];
 
 @Injectable()
 export class ShippingService {
@@ -68,12 +85,17 @@ export class ShippingService {
 		private externalShipmentLogsRepo: Repository<ExternalShipmentLogEntity>,
 		@Inject(forwardRef(() => OrdersService))
 		private readonly ordersService: OrdersService,
+		@Inject(forwardRef(() => OrderReasonsService))
+		private readonly orderReasons: OrderReasonsService,
 		private readonly notificationService: NotificationService,
 		@Inject(forwardRef(() => TriggerDispatcherService))
 		private readonly triggerDispatcher: TriggerDispatcherService,
 		private readonly clientSettingsService: ClientSettingsService,
 		private readonly translations: TranslationService,
 		private requestTranslations: RequestTranslationService,
+		private readonly warehouseStockService: WarehouseStockService,
+		private readonly stockMovementsService: StockMovementsService,
+		private readonly lotsService: LotsService,
 	) {
 		this.providers = {
 			bosta: this.bostaProvider,
@@ -191,16 +213,27 @@ export class ShippingService {
 			);
 		}
 
-		const orders = await this.ordersRepo.find({
+		// split orders print one label per open shipment of this courier
+		const splitShipments = (await this.shipmentsRepo.find({
 			where: {
-				id: In(dto.orderIds),
+				orderId: In(dto.orderIds),
 				adminId,
+				isPartial: true,
 				shippingCompany: {
 					code: providerCode,
 				},
 			},
+			order: { created_at: 'ASC' },
+		})).filter(isShipmentOpen);
+		const splitOrderIds = new Set(splitShipments.map((s) => s.orderId));
+
+		const orders = (await this.ordersRepo.find({
+			where: {
+				id: In(dto.orderIds),
+				adminId,
+			},
 			relations: ["status", "shippingCompany"],
-		});
+		})).filter((order) => order.shippingCompany?.code === providerCode || splitOrderIds.has(order.id));
 
 		if (orders.length !== dto.orderIds.length) {
 			throw new BadRequestException(
@@ -213,7 +246,11 @@ export class ShippingService {
 		const trackingNumbers: string[] = [];
 
 		for (const order of orders) {
-			if (!order.trackingNumber) {
+			const splitTrackingNumbers = splitShipments
+				.filter((s) => s.orderId === order.id && s.trackingNumber)
+				.map((s) => s.trackingNumber);
+
+			if (!order.trackingNumber && !splitTrackingNumbers.length) {
 				throw new BadRequestException(
 					this.translations.t(
 						"domains.shipping.order_missing_tracking_number",
@@ -246,7 +283,8 @@ export class ShippingService {
 				);
 			}
 
-			trackingNumbers.push(order.trackingNumber);
+			if (splitTrackingNumbers.length) trackingNumbers.push(...splitTrackingNumbers);
+			else trackingNumbers.push(order.trackingNumber);
 		}
 
 		const { apiKey } = await this.requireApiKey(
@@ -643,6 +681,7 @@ export class ShippingService {
 							shipmentId: manualShipment.id,
 							source: 'system' as any,
 							eventType: 'status_changed',
+							unifiedStatus: UnifiedShippingStatus.IN_PROGRESS,
 							payload: { manualCreated: true, trackingNumber },
 						}),
 					);
@@ -812,6 +851,394 @@ export class ShippingService {
 		}
 	}
 
+	/**
+	 * Ships part of an order: the shipment carries only the given lines and collects its own COD amount.
+	 * The first shipment moves the order on like createShipment does; afterwards the order's
+	 * fulfilment status follows the aggregate of all its shipments.
+	 */
+	async splitShipment(me: any, provider: ProviderCode | 'none', orderId: string, dto: SplitShipmentDto) {
+		const adminId = tenantId(me);
+		if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+		const userId = me?.id;
+
+		const isNoneProvider = provider === 'none';
+		const p = !isNoneProvider ? this.getProvider(provider) : null;
+		const { apiKey, companyId, integ } = !isNoneProvider
+			? await this.requireApiKey(adminId, provider)
+			: { apiKey: null, companyId: null, integ: null };
+
+		try {
+			// 1. The parcel is booked under the order lock: a concurrent split waits, then sees its quantities and COD amount
+			const booked = await this.dataSource.transaction(async (manager) => {
+				const locked = await manager
+					.getRepository(OrderEntity)
+					.createQueryBuilder('order')
+					.setLock('pessimistic_write')
+					.where('order.id = :orderId AND order.adminId = :adminId', { orderId, adminId })
+					.getOne();
+				if (!locked) throw new BadRequestException(this.translations.t("domains.shipping.order_not_found"));
+
+				const order = await manager.findOne(OrderEntity, {
+					where: { id: orderId, adminId },
+					relations: ['status', 'items', 'items.variant', 'items.variant.product'],
+				});
+
+				// exchange parcels carry the returned items as well, they always ship whole
+				if (order.isReplacement) {
+					throw new BadRequestException(this.translations.t("domains.shipping.split.replacement_not_supported"));
+				}
+
+				const shipments = await manager.find(ShipmentEntity, { where: { orderId, adminId }, relations: ['items'] });
+				if (shipments.some((s) => !s.isPartial && isShipmentOpen(s))) {
+					throw new BadRequestException(this.translations.t("domains.shipping.split.whole_shipment_open"));
+				}
+
+				// a split still booking at the courier counts as shipped
+				const isFirstShipment = [OrderStatus.CONFIRMED, OrderStatus.FAILED_DELIVERY].includes(order.status?.code as OrderStatus);
+				const isPartiallyShipped = shipments.some((s) => s.isPartial && isShipmentOpen(s))
+					|| [OrderFulfillmentStatus.PARTIALLY_SHIPPED, OrderFulfillmentStatus.PARTIALLY_DELIVERED].includes(order.fulfillmentStatus);
+				if (!isFirstShipment && !isPartiallyShipped) {
+					throw new BadRequestException(this.translations.t("domains.shipping.invalid_order_status", { args: { status: order.status?.code } }));
+				}
+
+				const { remaining } = summarizeFulfillment(order.items, shipments);
+
+				const requested = new Map<string, number>();
+				for (const line of dto.items) {
+					requested.set(line.orderItemId, (requested.get(line.orderItemId) || 0) + line.quantity);
+				}
+
+				const selected: { item: OrderItemEntity; quantity: number }[] = [];
+				for (const [orderItemId, quantity] of requested.entries()) {
+					const item = order.items.find((i) => i.id === orderItemId);
+					if (!item) {
+						throw new NotFoundException(this.translations.t("domains.shipping.split.item_not_found", { args: { id: orderItemId } }));
+					}
+					const left = remaining.get(orderItemId) || 0;
+					if (quantity > left) {
+						throw new BadRequestException(this.translations.t("domains.shipping.split.quantity_exceeds", {
+							args: { sku: item.variant?.sku ?? orderItemId, remaining: left },
+						}));
+					}
+					selected.push({ item, quantity });
+				}
+
+				if (dto.warehouseId) {
+					await this.warehouseStockService.assertWarehouse(adminId, dto.warehouseId, manager);
+				}
+
+				// the shipment completing the order collects whatever the earlier ones did not
+				const completesOrder = order.items.every((i) => (remaining.get(i.id) || 0) === (requested.get(i.id) || 0));
+				const linesValue = Number(selected.reduce((sum, { item, quantity }) => sum + Number(item.unitPrice || 0) * quantity, 0).toFixed(2));
+				const collectible = order.paymentMethod === PaymentMethod.CASH_ON_DELIVERY
+					? Math.max(0, Number(order.finalTotal || 0) - Number(order.deposit || 0))
+					: 0;
+				const alreadyCollectible = shipments
+					.filter((s) => s.isPartial && isShipmentOpen(s))
+					.reduce((sum, s) => sum + Number(s.codAmount || 0), 0);
+				const balance = Math.max(0, collectible - alreadyCollectible);
+				const codAmount = Number((dto.codAmount ?? (completesOrder ? balance : Math.min(linesValue, balance))).toFixed(2));
+
+				// each parcel needs its own reference at the courier
+				const reference = `${order.orderNumber}-${shipments.filter((s) => s.isPartial).length + 1}`;
+
+				const shipment = await manager.save(
+					manager.create(ShipmentEntity, {
+						adminId,
+						orderId,
+						cityId: order.cityId,
+						address: order.address,
+						landmark: order.landmark,
+						area: order.area,
+						shippingCompanyId: companyId,
+						status: ShipmentStatus.PENDING_ACTION,
+						unifiedStatus: UnifiedShippingStatus.IN_PROGRESS,
+						trackingNumber: isNoneProvider ? await this.generateUniqueManualTrackingNumber(adminId, manager) : null,
+						providerRaw: isNoneProvider ? { manual: true, reference } : { reference },
+						isPartial: true,
+						codAmount,
+						warehouseId: dto.warehouseId ?? null,
+					}),
+				);
+
+				await manager.save(
+					selected.map(({ item, quantity }) =>
+						manager.create(ShipmentItemEntity, {
+							adminId,
+							shipmentId: shipment.id,
+							orderItemId: item.id,
+							variantId: item.variantId ?? null,
+							quantity,
+						}),
+					),
+				);
+
+				return { order, shipment, selected, linesValue, codAmount, reference };
+			});
+
+			const { order, shipment, selected, linesValue, codAmount, reference } = booked;
+			let trackingNumber = shipment.trackingNumber ?? null;
+			let providerShipmentId: string | null = null;
+
+			// 2. The courier is called outside the transaction; a parcel it refuses gives its quantities back
+			if (!isNoneProvider) {
+				const parcel = {
+					...order,
+					orderNumber: reference,
+					items: selected.map(({ item, quantity }) => ({ ...item, quantity })),
+					productsTotal: linesValue,
+					finalTotal: codAmount,
+					deposit: 0,
+				} as OrderEntity;
+
+				let payloadResult: Awaited<ReturnType<typeof p.buildDeliveryPayload>>;
+				let res: Awaited<ReturnType<typeof p.createShipment>>;
+				try {
+					payloadResult = await p.buildDeliveryPayload(parcel, dto, integ);
+					if (!payloadResult.success) {
+						throw new BadRequestException(payloadResult.error);
+					}
+					res = await p.createShipment(apiKey, payloadResult.data);
+				} catch (error) {
+					await this.shipmentsRepo.delete({ id: shipment.id });
+					throw error;
+				}
+
+				// recorded right away: from here on the parcel exists at the courier
+				trackingNumber = res.trackingNumber || null;
+				providerShipmentId = res.providerShipmentId || null;
+				shipment.trackingNumber = trackingNumber;
+				shipment.providerShipmentId = providerShipmentId;
+				shipment.providerRaw = {
+					reference,
+					request: payloadResult.data,
+					response: res.providerRaw || { trackingNumber, providerShipmentId },
+				};
+				await this.shipmentsRepo.save(shipment);
+			}
+
+			// 3. The order follows its shipments
+			const result = await this.dataSource.transaction(async (manager) => {
+				const locked = await manager
+					.getRepository(OrderEntity)
+					.createQueryBuilder('order')
+					.setLock('pessimistic_write')
+					.where('order.id = :orderId AND order.adminId = :adminId', { orderId, adminId })
+					.getOne();
+				const current = await manager.findOne(OrderEntity, { where: { id: orderId, adminId }, relations: ['status'] });
+
+				const fulfillmentStatus = await this.syncSplitFulfillment(manager, locked);
+				// the first parcel to get through moves the order, whichever split booked first
+				if ([OrderStatus.CONFIRMED, OrderStatus.FAILED_DELIVERY].includes(current.status?.code as OrderStatus)) {
+					const settings = await this.clientSettingsService.getCachedSettings(adminId);
+					const newStatusCode = settings.orderFlowPath === OrderFlowPath.SHIPPING ? OrderStatus.SHIPPED : OrderStatus.DISTRIBUTED;
+					const status = await this.ordersService.findStatusByCode(newStatusCode, adminId, manager);
+					await manager.update(OrderEntity, { id: orderId, adminId }, {
+						statusId: status.id,
+						trackingNumber,
+						shippingCompanyId: companyId,
+						distributed_at: new Date(),
+					});
+				}
+
+				await this.ordersService.logOrderAction({
+					manager, adminId, userId, orderId,
+					actionType: OrderActionType.COURIER_ASSIGNED,
+					result: OrderActionResult.SUCCESS,
+					shippingCompanyId: companyId,
+					details: await this.requestTranslations.tAsync("domains.shipping.split.log_created", adminId, {
+						args: { reference, trackingNumber: trackingNumber ?? '—', count: selected.length },
+					}),
+				});
+
+				return {
+					ok: true,
+					shipmentId: shipment.id,
+					orderId,
+					provider,
+					reference,
+					trackingNumber,
+					providerShipmentId,
+					codAmount,
+					fulfillmentStatus,
+					status: shipment.unifiedStatus,
+				};
+			});
+
+			try {
+				const fullOrder = await this.ordersRepo.findOne({
+					where: { id: orderId },
+					relations: ['status', 'items', 'items.variant', "items.variant.product"],
+				});
+				if (fullOrder) {
+					await this.triggerDispatcher.dispatch({
+						type: TriggerType.SHIPMENT_CREATED,
+						entityType: TriggerEntityType.ORDER,
+						entityId: fullOrder.id,
+						adminId: fullOrder.adminId,
+						payload: fullOrder,
+					});
+				}
+			} catch (error) {
+				console.error("Error dispatching SHIPMENT_CREATED trigger:", error);
+			}
+
+			await this.notificationService.create({
+				userId: adminId,
+				type: NotificationType.SHIPMENT_CREATED,
+				title: await this.requestTranslations.tAsync("domains.shipping.shipment_created_title", adminId),
+				message: await this.requestTranslations.tAsync("domains.shipping.shipment_created_successfully", adminId, {
+					args: { orderNumber: reference, trackingNumber: result.trackingNumber ?? '—' },
+				}),
+				relatedEntityType: "order",
+				relatedEntityId: String(order.id),
+			});
+
+			return result;
+		} catch (error: any) {
+			const errorMessage = error.response?.data?.error_msg || error?.response?.message || error?.response?.data?.message || error.message || 'Shipment creation failed';
+
+			await this.ordersService.logOrderAction({
+				adminId, userId, orderId,
+				actionType: OrderActionType.COURIER_ASSIGNED,
+				result: OrderActionResult.FAILED,
+				details: errorMessage,
+			});
+
+			throw new BadRequestException(errorMessage);
+		}
+	}
+
+	/** Courier pickup of the items of an approved return request from the customer (no COD, order untouched). */
+	async createReturnPickup(me: any, provider: ProviderCode | 'none', returnRequestId: string) {
+		const adminId = tenantId(me);
+		if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+		const userId = me?.id;
+
+		const returnRequest = await this.dataSource.getRepository(ReturnRequestEntity).findOne({
+			where: { id: returnRequestId, adminId },
+			relations: ['items', 'order', 'order.items', 'order.items.variant', 'order.items.variant.product'],
+		});
+		if (!returnRequest) throw new NotFoundException(this.translations.t("domains.shipping.return_pickup.request_not_found"));
+
+		const existing = await this.shipmentsRepo.find({ where: { returnRequestId, adminId } });
+		if (existing.some((s) => isShipmentOpen(s))) {
+			throw new BadRequestException(this.translations.t("domains.shipping.return_pickup.already_exists"));
+		}
+
+		const order = returnRequest.order;
+		const orderItems = new Map(order.items.map((i) => [i.id, i]));
+		const selected = returnRequest.items
+			.filter((ri) => orderItems.has(ri.originalOrderItemId))
+			.map((ri) => ({ item: orderItems.get(ri.originalOrderItemId), quantity: ri.quantity }));
+
+		const reference = `${order.orderNumber}-R${existing.length ? existing.length + 1 : ''}`;
+
+		const isNoneProvider = provider === 'none';
+		const p = !isNoneProvider ? this.getProvider(provider) : null;
+		const { apiKey, companyId, integ } = !isNoneProvider
+			? await this.requireApiKey(adminId, provider)
+			: { apiKey: null, companyId: null, integ: null };
+
+		try {
+			return await this.dataSource.transaction(async (manager) => {
+				let trackingNumber: string | null;
+				let providerShipmentId: string | null = null;
+				let providerRaw: any;
+
+				if (isNoneProvider) {
+					trackingNumber = await this.generateUniqueManualTrackingNumber(adminId, manager);
+					providerRaw = { manual: true, reference };
+				} else {
+					const parcel = {
+						...order,
+						orderNumber: reference,
+						isReplacement: false,
+						items: selected.map(({ item, quantity }) => ({ ...item, quantity })),
+						productsTotal: Number(selected.reduce((sum, { item, quantity }) => sum + Number(item.unitPrice || 0) * quantity, 0).toFixed(2)),
+						finalTotal: 0,
+						deposit: 0,
+					} as OrderEntity;
+
+					const payloadResult = await p.buildDeliveryPayload(parcel, { returnPickup: true }, integ);
+					if (!payloadResult.success) {
+						throw new BadRequestException(payloadResult.error);
+					}
+
+					const res = await p.createShipment(apiKey, payloadResult.data);
+					trackingNumber = res.trackingNumber || null;
+					providerShipmentId = res.providerShipmentId || null;
+					providerRaw = {
+						request: payloadResult.data,
+						response: res.providerRaw || { trackingNumber, providerShipmentId },
+					};
+				}
+
+				const shipment = await manager.save(
+					manager.create(ShipmentEntity, {
+						adminId,
+						orderId: order.id,
+						cityId: order.cityId,
+						address: order.address,
+						landmark: order.landmark,
+						area: order.area,
+						shippingCompanyId: companyId,
+						status: ShipmentStatus.PENDING_ACTION,
+						unifiedStatus: UnifiedShippingStatus.IN_PROGRESS,
+						trackingNumber,
+						providerShipmentId,
+						providerRaw,
+						codAmount: 0,
+						returnRequestId,
+					}),
+				);
+
+				await manager.save(
+					selected.map(({ item, quantity }) =>
+						manager.create(ShipmentItemEntity, {
+							adminId,
+							shipmentId: shipment.id,
+							orderItemId: item.id,
+							variantId: item.variantId ?? null,
+							quantity,
+						}),
+					),
+				);
+
+				await this.ordersService.logOrderAction({
+					manager, adminId, userId,
+					orderId: order.id,
+					actionType: OrderActionType.COURIER_ASSIGNED,
+					result: OrderActionResult.SUCCESS,
+					shippingCompanyId: companyId,
+					details: await this.requestTranslations.tAsync("domains.shipping.return_pickup.log_created", adminId, {
+						args: { reference, trackingNumber: trackingNumber ?? '—' },
+					}),
+				});
+
+				return {
+					shipmentId: shipment.id,
+					provider,
+					reference,
+					trackingNumber,
+					providerShipmentId,
+				};
+			});
+		} catch (error: any) {
+			const errorMessage = error.response?.data?.error_msg || error?.response?.message || error?.response?.data?.message || error.message || 'Shipment creation failed';
+
+			await this.ordersService.logOrderAction({
+				adminId, userId,
+				orderId: order.id,
+				actionType: OrderActionType.COURIER_ASSIGNED,
+				result: OrderActionResult.FAILED,
+				details: errorMessage,
+			});
+
+			throw new BadRequestException(errorMessage);
+		}
+	}
+
 	async cancelShipment(me, provider: string, shipmentId: string) {
 		const adminId = tenantId(me);
 		const p = this.getProvider(provider);
@@ -839,6 +1266,11 @@ export class ShippingService {
 				shipment.unifiedStatus = UnifiedShippingStatus.CANCELLED;
 				await manager.save(shipment);
 
+				if (shipment.isPartial) {
+					await this.restockSplitShipment(manager, shipment, shipment.order);
+					await this.syncSplitFulfillment(manager, shipment.order);
+				}
+
 				const result = {
 					ok: true,
 					message: this.translations.t("domains.shipping.shipment_cancel_success"),
@@ -882,6 +1314,39 @@ export class ShippingService {
 		};
 	}
 
+	// Shipments of one order with their lines and what is still waiting to be shipped
+	async listOrderShipments(me: any, orderId: string) {
+		const adminId = tenantId(me);
+		if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+
+		const order = await this.ordersRepo.findOne({
+			where: { id: orderId, adminId },
+			relations: ['items', 'items.variant'],
+		});
+		if (!order) throw new NotFoundException(this.translations.t("domains.shipping.order_not_found"));
+
+		const shipments = await this.shipmentsRepo.find({
+			where: { orderId, adminId },
+			relations: ['items'],
+			order: { created_at: 'ASC' },
+		});
+		const { remaining, shipped, delivered } = summarizeFulfillment(order.items, shipments.filter((s) => s.isPartial));
+
+		return {
+			orderId: order.id,
+			fulfillmentStatus: order.fulfillmentStatus ?? null,
+			shipments,
+			items: order.items.map((item) => ({
+				orderItemId: item.id,
+				sku: item.variant?.sku ?? null,
+				quantity: item.quantity,
+				shippedQuantity: shipped.get(item.id) || 0,
+				deliveredQuantity: delivered.get(item.id) || 0,
+				remainingQuantity: remaining.get(item.id) || 0,
+			})),
+		};
+	}
+
 	async listShipments(adminId: string) {
 		const shipments = await this.shipmentsRepo.find({
 			where: { adminId },
@@ -956,6 +1421,7 @@ export class ShippingService {
 				id: e.id,
 				source: e.source,
 				eventType: e.eventType,
+				unifiedStatus: e.unifiedStatus,
 				payload: e.payload,
 				created_at: e.created_at,
 			})),
@@ -1366,6 +1832,12 @@ export class ShippingService {
 
 			shipment.unifiedStatus = UnifiedShippingStatus.CANCELLED;
 			shipment.status = ShipmentStatus.CANCELLED;
+			if (shipment.isPartial) {
+				await manager.save(shipment);
+				await this.restockSplitShipment(manager, shipment, shipment.order);
+				await this.syncSplitFulfillment(manager, shipment.order);
+				return { ok: true, shipmentId: shipment.id, message: this.translations.t("domains.shipping.manual_shipment_cancelled") };
+			}
 			for (const item of shipment.order.items ?? []) {
 				if (!item.variantId) continue;
 				await manager.increment(ProductVariantEntity, { id: item.variantId, adminId }, 'stockOnHand', item.quantity);
@@ -1379,7 +1851,7 @@ export class ShippingService {
 		manager: EntityManager,
 		shipment: ShipmentEntity & { order: OrderEntity & { items: OrderItemEntity[] } },
 		mapped: ProviderWebhookResult,
-		eventMeta: { eventSource: string; payload: any },
+		eventMeta: { eventSource: string; payload: any; reasonId?: string | null },
 	): Promise<void> {
 
 		//get order to also update its status with shipment;
@@ -1411,10 +1883,39 @@ export class ShippingService {
 				const itemsUpdate = manager
 					.createQueryBuilder()
 					.update(OrderItemEntity)
-					.set({ stockDeducted: false, stockDeductedQuantity: 0 })
+					.set({ stockDeducted: false, stockDeductedQuantity: 0, costedQuantity: 0 })
 					.where('id IN (:...ids)', { ids: itemsToRestock.map((i) => i.id) })
 					.execute();
 				await Promise.all([...restockUpdates, itemsUpdate]);
+
+				for (const item of itemsToRestock) {
+					await this.lotsService.restock(manager, {
+						adminId: shipment.adminId,
+						orderItemId: item.id,
+						variantId: item.variantId,
+						quantity: getEffectiveDeductedQuantity(item),
+					});
+
+					const warehouseId = item.warehouseId ?? order.warehouseId;
+					if (!warehouseId) continue;
+					await this.warehouseStockService.increase(manager, {
+						adminId: shipment.adminId,
+						variantId: item.variantId,
+						warehouseId,
+						quantity: getEffectiveDeductedQuantity(item),
+					});
+				}
+
+				await this.stockMovementsService.record(manager, itemsToRestock.map((item) => ({
+					adminId: shipment.adminId,
+					variantId: item.variantId,
+					reason: StockMovementReason.SHIPMENT_RETURN,
+					stockOnHandDelta: getEffectiveDeductedQuantity(item),
+					unitCost: item.costedQuantity > 0 ? Number(item.unitCost) : null,
+					warehouseId: item.warehouseId ?? order.warehouseId ?? null,
+					referenceType: StockMovementReference.SHIPMENT,
+					referenceId: shipment.id,
+				})));
 			}
 		}
 		shipment.rawStatus = mapped.rawState;
@@ -1450,7 +1951,11 @@ export class ShippingService {
 		}
 		// }
 
-		if (mapped.unifiedStatus === UnifiedShippingStatus.DELIVERED) {
+		if (shipment.returnRequestId) {
+			// reverse pickup: the order and stock follow the return request, not the courier
+		} else if (shipment.isPartial) {
+			statusChanged = await this.applySplitShipmentStatus(manager, shipment, order, mapped.unifiedStatus);
+		} else if (mapped.unifiedStatus === UnifiedShippingStatus.DELIVERED) {
 			const deliveredStatus = await manager.findOne(OrderStatusEntity, { where: { code: OrderStatus.DELIVERED } });
 			if (deliveredStatus) {
 				order.statusId = deliveredStatus.id;
@@ -1473,20 +1978,14 @@ export class ShippingService {
 				relatedEntityType: "order",
 				relatedEntityId: String(order.id),
 			});
-		} else if (
-			mapped.unifiedStatus === UnifiedShippingStatus.EXCEPTION ||
-			mapped.unifiedStatus === UnifiedShippingStatus.TERMINATED ||
-			mapped.unifiedStatus === UnifiedShippingStatus.CUSTOMER_NOT_RESPOND ||
-			mapped.unifiedStatus === UnifiedShippingStatus.CUSTOMER_DATA_WRONG ||
-			mapped.unifiedStatus === UnifiedShippingStatus.CUSTOMER_REFUSED ||
-			mapped.unifiedStatus === UnifiedShippingStatus.CANCELLED
-		) {
+		} else if (DELIVERY_FAILURE_STATUSES.includes(mapped.unifiedStatus)) {
 			const failedStatus = await manager.findOne(OrderStatusEntity, { where: { code: OrderStatus.FAILED_DELIVERY } });
 			if (failedStatus) {
 				order.statusId = failedStatus.id;
 				order.status = failedStatus;
 				statusChanged = true;
 			}
+			if (eventMeta.reasonId) order.reasonId = eventMeta.reasonId;
 			await manager.save(order);
 			await returnStock();
 
@@ -1515,6 +2014,7 @@ export class ShippingService {
 						eventSource: eventMeta.eventSource,
 					},
 				}),
+				reasonId: eventMeta.reasonId ?? null,
 				manager,
 			});
 		}
@@ -1525,6 +2025,7 @@ export class ShippingService {
 				shipmentId: shipment.id,
 				source: eventMeta.eventSource as any,
 				eventType: 'status_changed',
+				unifiedStatus: mapped.unifiedStatus,
 				payload: eventMeta.payload,
 			}),
 		);
@@ -1543,6 +2044,134 @@ export class ShippingService {
 		);
 	}
 
+	// Split shipment: only its own lines are deducted or restocked, and the order follows the
+	// aggregate of all its shipments. Returns whether the order status changed.
+	private async applySplitShipmentStatus(
+		manager: EntityManager,
+		shipment: ShipmentEntity,
+		order: OrderEntity,
+		unifiedStatus: UnifiedShippingStatus,
+	): Promise<boolean> {
+		const isDelivered = unifiedStatus === UnifiedShippingStatus.DELIVERED;
+		if (!isDelivered && !DELIVERY_FAILURE_STATUSES.includes(unifiedStatus)) return false;
+
+		// the new shipment status has to count in the aggregate below
+		await manager.save(shipment);
+		if (isDelivered) {
+			await this.ordersService.deductStockForShipment(manager, shipment.id, shipment.adminId, { skipValidation: true });
+		} else {
+			await this.restockSplitShipment(manager, shipment, order);
+		}
+
+		const fulfillmentStatus = await this.syncSplitFulfillment(manager, order);
+
+		// the order is delivered with its last parcel, and failed once nothing is left with a courier
+		let targetCode: OrderStatus | null = null;
+		if (fulfillmentStatus === OrderFulfillmentStatus.DELIVERED) targetCode = OrderStatus.DELIVERED;
+		else if (!fulfillmentStatus) targetCode = OrderStatus.FAILED_DELIVERY;
+
+		let statusChanged = false;
+		const target = targetCode ? await manager.findOne(OrderStatusEntity, { where: { code: targetCode } }) : null;
+		if (target) {
+			order.statusId = target.id;
+			order.status = target;
+			statusChanged = true;
+			await manager.update(OrderEntity, { id: order.id }, {
+				statusId: target.id,
+				...(targetCode === OrderStatus.DELIVERED ? { deliveredAt: new Date() } : {}),
+			});
+		}
+
+		await this.notificationService.create({
+			userId: shipment.adminId,
+			type: isDelivered ? NotificationType.SHIPMENT_DELIVERED : NotificationType.SHIPMENT_FAILED,
+			title: await this.requestTranslations.tAsync(
+				isDelivered ? "domains.shipping.shipment_delivered_title" : "domains.shipping.shipment_delivary_failed_title",
+				shipment.adminId,
+			),
+			message: await this.requestTranslations.tAsync(
+				isDelivered ? "domains.shipping.split.parcel_delivered_message" : "domains.shipping.split.parcel_failed_message",
+				shipment.adminId,
+				{ args: { orderNumber: order.orderNumber, trackingNumber: shipment.trackingNumber ?? '—' } },
+			),
+			relatedEntityType: "order",
+			relatedEntityId: String(order.id),
+		});
+
+		return statusChanged;
+	}
+
+	// Recomputes the order's fulfilment status from its split shipments
+	private async syncSplitFulfillment(manager: EntityManager, order: OrderEntity) {
+		const [items, shipments] = await Promise.all([
+			manager.find(OrderItemEntity, { where: { orderId: order.id }, select: ['id', 'quantity'] }),
+			manager.find(ShipmentEntity, { where: { orderId: order.id, isPartial: true }, relations: ['items'] }),
+		]);
+		const { status } = summarizeFulfillment(items, shipments);
+		order.fulfillmentStatus = status;
+		await manager.update(OrderEntity, { id: order.id }, { fulfillmentStatus: status });
+		return status;
+	}
+
+	// Puts back what a split shipment took out of stock (failed or cancelled parcel)
+	private async restockSplitShipment(manager: EntityManager, shipment: ShipmentEntity, order: Pick<OrderEntity, 'warehouseId'>) {
+		const lines = await manager.find(ShipmentItemEntity, {
+			where: { shipmentId: shipment.id },
+			relations: ['orderItem'],
+		});
+		const restocked = lines.filter((line) => line.variantId && line.deductedQuantity > 0);
+		if (!restocked.length) return;
+
+		for (const line of restocked) {
+			const quantity = line.deductedQuantity;
+			await manager
+				.createQueryBuilder()
+				.update(ProductVariantEntity)
+				.set({ stockOnHand: () => `"stockOnHand" + ${quantity}` })
+				.where('id = :id', { id: line.variantId })
+				.execute();
+			await manager
+				.createQueryBuilder()
+				.update(OrderItemEntity)
+				.set({
+					stockDeducted: () => `("stockDeductedQuantity" - ${quantity}) > 0`,
+					stockDeductedQuantity: () => `GREATEST(0, "stockDeductedQuantity" - ${quantity})`,
+					costedQuantity: () => `GREATEST(0, "costedQuantity" - ${quantity})`,
+				})
+				.where('id = :id', { id: line.orderItemId })
+				.execute();
+
+			await this.lotsService.restock(manager, {
+				adminId: shipment.adminId,
+				orderItemId: line.orderItemId,
+				variantId: line.variantId,
+				quantity,
+			});
+
+			const warehouseId = line.orderItem?.warehouseId ?? shipment.warehouseId ?? order.warehouseId;
+			if (!warehouseId) continue;
+			await this.warehouseStockService.increase(manager, {
+				adminId: shipment.adminId,
+				variantId: line.variantId,
+				warehouseId,
+				quantity,
+			});
+		}
+
+		await manager.update(ShipmentItemEntity, { id: In(restocked.map((line) => line.id)) }, { deductedQuantity: 0 });
+
+		await this.stockMovementsService.record(manager, restocked.map((line) => ({
+			adminId: shipment.adminId,
+			variantId: line.variantId,
+			reason: StockMovementReason.SHIPMENT_RETURN,
+			stockOnHandDelta: line.deductedQuantity,
+			unitCost: line.orderItem?.costedQuantity > 0 ? Number(line.orderItem.unitCost) : null,
+			warehouseId: line.orderItem?.warehouseId ?? shipment.warehouseId ?? order.warehouseId ?? null,
+			referenceType: StockMovementReference.SHIPMENT,
+			referenceId: shipment.id,
+		})));
+	}
+
 	async updateShipmentStatusManually(me: any, shipmentId: string, dto: ManualUpdateShipmentStatusDto) {
 		const adminId = tenantId(me);
 		const shipment = await this.shipmentsRepo.findOne({
@@ -1568,9 +2197,15 @@ export class ShippingService {
 			if (s.unifiedStatus === UnifiedShippingStatus.DELIVERED) {
 				throw new BadRequestException('Cannot change shipment status after it has been delivered.');
 			}
+			// a whole-order shipment failing moves the order to failed delivery, which takes a reason code
+			const failsOrder = !s.isPartial && !s.returnRequestId && DELIVERY_FAILURE_STATUSES.includes(dto.status);
+			const reasonId = failsOrder
+				? await this.orderReasons.resolveForStatus(manager, adminId, OrderStatus.FAILED_DELIVERY, dto.reasonId)
+				: null;
 			await this.applyMappedUnifiedStatusInTransaction(manager, s as any, { unifiedStatus: dto.status }, {
 				eventSource: 'system',
 				payload: { manual: true, requestedStatus: dto.status },
+				reasonId,
 			});
 		});
 		const refreshed = await this.shipmentsRepo.findOne({
@@ -0,0 +1,119 @@
+// stock-counts/stock-counts.controller.ts
+import {
+	Body,
+	Controller,
+	Get,
+	Param,
+	Post,
+	Query,
+	Req,
+	Res,
+	UseGuards,
+} from "@nestjs/common";
+import { Response } from "express";
+import { JwtAuthGuard } from "../auth/jwt-auth.guard";
+import { PermissionsGuard } from "common/permissions.guard";
+import { Permissions } from "common/permissions.decorator";
+import { RequireSubscription } from "common/require-subscription.decorator";
+import { SubscriptionGuard } from "common/subscription.guard";
+import { StockCountsService } from "./stock-counts.service";
+import {
+	ApproveStockCountDto,
+	CreateStockCountDto,
+	ScanStockCountDto,
+	SubmitStockCountEntriesDto,
+} from "dto/stock-count.dto";
+
+@UseGuards(JwtAuthGuard, PermissionsGuard, SubscriptionGuard)
+@Controller("stock-counts")
+@RequireSubscription()
+export class StockCountsController {
+	constructor(private svc: StockCountsService) { }
+
+	@Permissions("stock_counts.read")
+	@Get("stats")
+	stats(@Req() req: any) {
+		return this.svc.stats(req.user);
+	}
+
+	@Permissions("stock_counts.read")
+	@Get()
+	list(@Req() req: any, @Query() q: any) {
+		return this.svc.list(req.user, q);
+	}
+
+	@Permissions("stock_counts.read")
+	@Get(":id")
+	get(@Req() req: any, @Param("id") id: string) {
+		return this.svc.get(req.user, id);
+	}
+
+	@Permissions("stock_counts.read")
+	@Get(":id/lines")
+	lines(@Req() req: any, @Param("id") id: string, @Query() q: any) {
+		return this.svc.listLines(req.user, id, q);
+	}
+
+	@Permissions("stock_counts.read")
+	@Get(":id/export")
+	async exportVariance(
+		@Req() req: any,
+		@Param("id") id: string,
+		@Res() res: Response
+	) {
+		const buffer = await this.svc.exportVariance(req.user, id);
+
+		res.setHeader(
+			"Content-Type",
+			"application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+		);
+		res.setHeader(
+			"Content-Disposition",
+			`attachment; filename=StockCount_variance_${Date.now()}.xlsx`
+		);
+
+		return res.send(buffer);
+	}
+
+	@Permissions("stock_counts.create")
+	@Post()
+	create(@Req() req: any, @Body() dto: CreateStockCountDto) {
+		return this.svc.create(req.user, dto);
+	}
+
+	@Permissions("stock_counts.count")
+	@Post(":id/counts")
+	submitCounts(@Req() req: any, @Param("id") id: string, @Body() dto: SubmitStockCountEntriesDto) {
+		return this.svc.submitCounts(req.user, id, dto);
+	}
+
+	@Permissions("stock_counts.count")
+	@Post(":id/scan/:sku")
+	scan(@Req() req: any, @Param("id") id: string, @Param("sku") sku: string, @Body() dto: ScanStockCountDto) {
+		return this.svc.scan(req.user, id, sku, dto);
+	}
+
+	@Permissions("stock_counts.count")
+	@Post(":id/submit")
+	submit(@Req() req: any, @Param("id") id: string) {
+		return this.svc.submit(req.user, id);
+	}
+
+	@Permissions("stock_counts.approve")
+	@Post(":id/reopen")
+	reopen(@Req() req: any, @Param("id") id: string) {
+		return this.svc.reopen(req.user, id);
+	}
+
+	@Permissions("stock_counts.approve")
+	@Post(":id/approve")
+	approve(@Req() req: any, @Param("id") id: string, @Body() dto: ApproveStockCountDto) {
+		return this.svc.approve(req.user, id, dto);
+	}
+
+	@Permissions("stock_counts.create")
+	@Post(":id/cancel")
+	cancel(@Req() req: any, @Param("id") id: string) {
+		return this.svc.cancel(req.user, id);
+	}
+}
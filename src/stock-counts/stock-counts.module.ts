@@ -0,0 +1,23 @@
+// stock-counts/stock-counts.module.ts
+import { Module } from "@nestjs/common";
+import { TypeOrmModule } from "@nestjs/typeorm";
+import { StockCountsController } from "./stock-counts.controller";
+import { StockCountsService } from "./stock-counts.service";
+import { StockCountLineEntity, StockCountSessionEntity } from "entities/stock-count.entity";
+import { WarehousesModule } from "src/warehouse/warehouse.module";
+import { StockMovementsModule } from "src/stock-movements/stock-movements.module";
+import { LotsModule } from "src/lots/lots.module";
+import { BarcodesModule } from "src/barcodes/barcodes.module";
+
+@Module({
+  imports: [
+    WarehousesModule,
+    StockMovementsModule,
+    LotsModule,
+    BarcodesModule,
+    TypeOrmModule.forFeature([StockCountSessionEntity, StockCountLineEntity]),
+  ],
+  providers: [StockCountsService],
+  controllers: [StockCountsController],
+})
+export class StockCountsModule { }
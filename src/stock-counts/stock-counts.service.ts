@@ -0,0 +1,630 @@
+// stock-counts/stock-counts.service.ts
+import { BadRequestException, Injectable } from "@nestjs/common";
+import { InjectRepository } from "@nestjs/typeorm";
+import { DataSource, EntityManager, In, IsNull, Repository } from "typeorm";
+import * as ExcelJS from "exceljs";
+import { StockCountLineEntity, StockCountSessionEntity, StockCountStatus } from "entities/stock-count.entity";
+import { ProductVariantEntity, VariantWarehouseStockEntity } from "entities/sku.entity";
+import { StockMovementReason, StockMovementReference } from "entities/stock-movement.entity";
+import {
+	ApproveStockCountDto,
+	CreateStockCountDto,
+	ScanStockCountDto,
+	SubmitStockCountEntriesDto,
+} from "dto/stock-count.dto";
+import { tenantId } from "../category/category.service";
+import { DateFilterUtil } from "common/date-filter.util";
+import { I18nKey, TranslationService } from "common/translation.service";
+import { WarehousesService } from "src/warehouse/warehouse.service";
+import { WarehouseStockService } from "src/warehouse/warehouse-stock.service";
+import { StockMovementInput, StockMovementsService } from "src/stock-movements/stock-movements.service";
+import { LotsService } from "src/lots/lots.service";
+import { BarcodesService } from "src/barcodes/barcodes.service";
+
+const OPEN_STATUSES = [StockCountStatus.IN_PROGRESS, StockCountStatus.SUBMITTED];
+
+@Injectable()
+export class StockCountsService {
+	constructor(
+		private dataSource: DataSource,
+
+		@InjectRepository(StockCountSessionEntity)
+		private sessionRepo: Repository<StockCountSessionEntity>,
+
+		@InjectRepository(StockCountLineEntity)
+		private lineRepo: Repository<StockCountLineEntity>,
+
+		private translations: TranslationService,
+		private warehousesService: WarehousesService,
+		private warehouseStockService: WarehouseStockService,
+		private stockMovementsService: StockMovementsService,
+		private lotsService: LotsService,
+		private barcodesService: BarcodesService,
+	) { }
+
+	async stats(me: any) {
+		const adminId = tenantId(me);
+		if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+
+		const rows = await this.sessionRepo
+			.createQueryBuilder("s")
+			.select("s.status", "status")
+			.addSelect("COUNT(*)", "count")
+			.where("s.adminId = :adminId", { adminId })
+			.groupBy("s.status")
+			.getRawMany();
+
+		const counts = Object.fromEntries(rows.map((r) => [r.status, Number(r.count || 0)]));
+
+		return {
+			inProgress: counts[StockCountStatus.IN_PROGRESS] ?? 0,
+			submitted: counts[StockCountStatus.SUBMITTED] ?? 0,
+			approved: counts[StockCountStatus.APPROVED] ?? 0,
+			cancelled: counts[StockCountStatus.CANCELLED] ?? 0,
+		};
+	}
+
+	async list(me: any, q?: any) {
+		const adminId = tenantId(me);
+		if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+
+		const page = Number(q?.page ?? 1);
+		const limit = Number(q?.limit ?? 10);
+		const search = String(q?.search ?? "").trim();
+		const status = q?.status && q.status !== "all" ? String(q.status) : null;
+		const warehouseId = q?.warehouseId && q.warehouseId !== "all" ? String(q.warehouseId) : null;
+		const startDate = q?.startDate ? String(q.startDate) : null; // YYYY-MM-DD
+		const endDate = q?.endDate ? String(q.endDate) : null;
+
+		const qb = this.sessionRepo
+			.createQueryBuilder("s")
+			.where("s.adminId = :adminId", { adminId })
+			.leftJoinAndSelect("s.warehouse", "warehouse")
+			.leftJoinAndSelect("s.storageLocation", "storageLocation")
+			.loadRelationCountAndMap("s.linesCount", "s.lines")
+			.loadRelationCountAndMap("s.countedCount", "s.lines", "countedLine", (sub) =>
+				sub.andWhere("countedLine.countedQuantity IS NOT NULL"),
+			);
+
+		if (status) qb.andWhere("s.status = :status", { status });
+		if (warehouseId) qb.andWhere("s.warehouseId = :warehouseId", { warehouseId });
+
+		DateFilterUtil.applyToQueryBuilder(qb, "s.created_at", startDate, endDate);
+
+		if (search) qb.andWhere("s.sessionNumber ILIKE :s", { s: `%${search}%` });
+
+		qb.orderBy("s.created_at", (q?.sortOrder ?? "DESC").toUpperCase() === "ASC" ? "ASC" : "DESC");
+
+		const [records, total] = await qb
+			.skip((page - 1) * limit)
+			.take(limit)
+			.getManyAndCount();
+
+		return {
+			total_records: total,
+			current_page: page,
+			per_page: limit,
+			records,
+		};
+	}
+
+	async get(me: any, id: string) {
+		const adminId = tenantId(me);
+		if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+
+		const session = await this.sessionRepo.findOne({
+			where: { id, adminId },
+			relations: ["warehouse", "storageLocation", "approvedBy"],
+		});
+		if (!session) throw new BadRequestException(this.translations.t("domains.stock_counts.not_found"));
+
+		return { ...session, summary: await this.summarize(id) };
+	}
+
+	async listLines(me: any, id: string, q?: any) {
+		const adminId = tenantId(me);
+		await this.get(me, id);
+
+		const page = Number(q?.page ?? 1);
+		const limit = Number(q?.limit ?? 20);
+		const search = String(q?.search ?? "").trim();
+		const counted = q?.counted && q.counted !== "all" ? String(q.counted) : null; // yes/no
+
+		const qb = this.buildLinesQuery(adminId, id);
+
+		if (search) qb.andWhere("(variant.sku ILIKE :s OR product.name ILIKE :s)", { s: `%${search}%` });
+		if (counted === "yes") qb.andWhere("line.countedQuantity IS NOT NULL");
+		if (counted === "no") qb.andWhere("line.countedQuantity IS NULL");
+		if (q?.varianceOnly === "true" || q?.varianceOnly === true) {
+			qb.andWhere("line.countedQuantity IS NOT NULL AND line.countedQuantity <> line.expectedQuantity");
+		}
+
+		const [records, total] = await qb
+			.skip((page - 1) * limit)
+			.take(limit)
+			.getManyAndCount();
+
+		return {
+			total_records: total,
+			current_page: page,
+			per_page: limit,
+			records: records.map((line) => this.mapLine(line)),
+		};
+	}
+
+	/**
+	 * Opens a count session and snapshots the expected quantity of every variant stocked in the scope.
+	 * Later stock movements do not change the snapshot; on approval only the counted variance is posted.
+	 */
+	async create(me: any, dto: CreateStockCountDto) {
+		const adminId = tenantId(me);
+		if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+
+		const session = await this.dataSource.transaction(async (manager) => {
+			await this.warehouseStockService.assertWarehouse(adminId, dto.warehouseId, manager);
+
+			const scopeIds = dto.storageLocationId
+				? await this.warehousesService.getLocationSubtreeIds(adminId, dto.warehouseId, dto.storageLocationId, manager)
+				: null;
+
+			const open = await manager.getRepository(StockCountSessionEntity).find({
+				where: { adminId, warehouseId: dto.warehouseId, status: In(OPEN_STATUSES) },
+			});
+			let overlapping: StockCountSessionEntity | undefined;
+			for (const other of open) {
+				// whole-warehouse sessions overlap everything; location sessions overlap when one subtree contains the other
+				if (!scopeIds || !other.storageLocationId || scopeIds.includes(other.storageLocationId)) overlapping = other;
+				else {
+					const otherScope = await this.warehousesService.getLocationSubtreeIds(adminId, dto.warehouseId, other.storageLocationId, manager);
+					if (otherScope.includes(dto.storageLocationId)) overlapping = other;
+				}
+				if (overlapping) break;
+			}
+			if (overlapping) {
+				throw new BadRequestException(
+					this.translations.t("domains.stock_counts.open_session_exists", { args: { number: overlapping.sessionNumber } }),
+				);
+			}
+
+			const repo = manager.getRepository(StockCountSessionEntity);
+			const saved = await repo.save(repo.create({
+				adminId,
+				sessionNumber: await this.generateSessionNumber(manager, adminId),
+				warehouseId: dto.warehouseId,
+				storageLocationId: dto.storageLocationId || null,
+				status: StockCountStatus.IN_PROGRESS,
+				notes: dto.notes ?? null,
+				createdByUserId: me?.id ?? null,
+			}));
+
+			const params: any[] = [adminId, saved.id, dto.warehouseId];
+			let scopeSql = "";
+			if (scopeIds) {
+				params.push(scopeIds);
+				scopeSql = `AND ws."storageLocationId" = ANY($4::uuid[])`;
+			}
+
+			await manager.query(
+				`INSERT INTO "stock_count_lines" ("adminId", "sessionId", "variantId", "storageLocationId", "expectedQuantity")
+				SELECT ws."adminId", $2, ws."variantId", ws."storageLocationId", ws."stockOnHand"
+				FROM "variant_warehouse_stocks" ws
+				WHERE ws."adminId" = $1 AND ws."warehouseId" = $3 ${scopeSql}`,
+				params,
+			);
+
+			return saved;
+		});
+
+		return this.get(me, session.id);
+	}
+
+	/** Sets counted quantities (absolute values) for a batch of variants. */
+	async submitCounts(me: any, id: string, dto: SubmitStockCountEntriesDto) {
+		const adminId = tenantId(me);
+		if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+
+		await this.dataSource.transaction(async (manager) => {
+			const session = await this.lockSession(manager, adminId, id);
+			this.assertStatus(session, [StockCountStatus.IN_PROGRESS]);
+
+			const variants = await this.resolveVariants(manager, adminId, dto.items);
+			const now = new Date();
+
+			for (const entry of dto.items) {
+				const variant = variants.get(entry.variantId ?? entry.sku);
+				const line = await this.ensureLine(manager, session, variant);
+
+				await manager.update(StockCountLineEntity, { id: line.id }, {
+					countedQuantity: entry.countedQuantity,
+					countedByUserId: me?.id ?? null,
+					countedAt: now,
+					...(entry.notes !== undefined ? { notes: entry.notes || null } : {}),
+				});
+			}
+		});
+
+		return this.get(me, id);
+	}
+
+	/** Adds scanned units to a line (one scan = one unit unless a quantity is given). */
+	async scan(me: any, id: string, sku: string, dto: ScanStockCountDto) {
+		const adminId = tenantId(me);
+		if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+
+		return this.dataSource.transaction(async (manager) => {
+			const session = await this.lockSession(manager, adminId, id);
+			this.assertStatus(session, [StockCountStatus.IN_PROGRESS]);
+
+			// the scanned value may be a barcode or the SKU itself
+			const variant = await this.barcodesService.resolveVariant(manager, adminId, sku);
+			if (!variant) {
+				return { success: false, message: this.translations.t("domains.stock_counts.sku_not_found", { args: { sku } }) };
+			}
+
+			let line: StockCountLineEntity;
+			try {
+				line = await this.ensureLine(manager, session, variant);
+			} catch (e) {
+				if (e instanceof BadRequestException) return { success: false, message: e.message };
+				throw e;
+			}
+
+			const quantity = dto?.quantity ?? 1;
+			await manager
+				.createQueryBuilder()
+				.update(StockCountLineEntity)
+				.set({
+					countedQuantity: () => `COALESCE("countedQuantity", 0) + ${quantity}`,
+					countedByUserId: me?.id ?? null,
+					countedAt: new Date(),
+				})
+				.where("id = :id", { id: line.id })
+				.execute();
+
+			const updated = await manager.getRepository(StockCountLineEntity).findOne({
+				where: { id: line.id },
+				relations: ["variant", "variant.product", "storageLocation"],
+			});
+
+			return {
+				success: true,
+				message: this.translations.t("domains.stock_counts.scan_success", { args: { sku: variant.sku, counted: updated.countedQuantity } }),
+				line: this.mapLine(updated),
+			};
+		});
+	}
+
+	async submit(me: any, id: string) {
+		return this.changeStatus(me, id, [StockCountStatus.IN_PROGRESS], StockCountStatus.SUBMITTED, (user) => ({
+			submittedByUserId: user?.id ?? null,
+			submittedAt: new Date(),
+		}));
+	}
+
+	/** Sends a submitted session back to counting (e.g. when the manager wants a recount). */
+	async reopen(me: any, id: string) {
+		return this.changeStatus(me, id, [StockCountStatus.SUBMITTED], StockCountStatus.IN_PROGRESS, () => ({
+			submittedByUserId: null,
+			submittedAt: null,
+		}));
+	}
+
+	async cancel(me: any, id: string) {
+		return this.changeStatus(me, id, OPEN_STATUSES, StockCountStatus.CANCELLED, () => ({}));
+	}
+
+	/**
+	 * Posts the variance of every counted line (counted - expected) as a stock adjustment on the
+	 * session warehouse. The variance is applied on top of the current quantity, so stock that moved
+	 * while the count was running is kept.
+	 */
+	async approve(me: any, id: string, dto: ApproveStockCountDto) {
+		const adminId = tenantId(me);
+		if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+
+		await this.dataSource.transaction(async (manager) => {
+			const session = await this.lockSession(manager, adminId, id);
+			this.assertStatus(session, [StockCountStatus.SUBMITTED]);
+
+			if (dto?.treatUncountedAsZero) {
+				await manager.update(StockCountLineEntity, { sessionId: id, countedQuantity: IsNull() }, {
+					countedQuantity: 0,
+					countedByUserId: me?.id ?? null,
+					countedAt: new Date(),
+				});
+			}
+
+			const lines = await manager.getRepository(StockCountLineEntity)
+				.createQueryBuilder("line")
+				.where("line.sessionId = :id", { id })
+				.andWhere("line.countedQuantity IS NOT NULL")
+				.andWhere("line.countedQuantity <> line.expectedQuantity")
+				.orderBy("line.variantId", "ASC")
+				.getMany();
+
+			if (lines.length) {
+				// lock in a stable order so concurrent postings cannot deadlock
+				await manager.getRepository(ProductVariantEntity)
+					.createQueryBuilder("v")
+					.setLock("pessimistic_write")
+					.where("v.id IN (:...ids)", { ids: lines.map((l) => l.variantId) })
+					.orderBy("v.id", "ASC")
+					.getMany();
+			}
+
+			const movements: StockMovementInput[] = [];
+
+			for (const line of lines) {
+				const applied = await this.warehouseStockService.adjust(manager, {
+					adminId,
+					variantId: line.variantId,
+					warehouseId: session.warehouseId,
+					delta: line.countedQuantity - line.expectedQuantity,
+				});
+
+				if (applied) {
+					await manager
+						.createQueryBuilder()
+						.update(ProductVariantEntity)
+						.set({ stockOnHand: () => `"stockOnHand" + (${applied})` })
+						.where("id = :id", { id: line.variantId })
+						.execute();
+
+					movements.push({
+						adminId,
+						variantId: line.variantId,
+						reason: StockMovementReason.STOCK_COUNT,
+						stockOnHandDelta: applied,
+						warehouseId: session.warehouseId,
+						referenceType: StockMovementReference.STOCK_COUNT,
+						referenceId: session.id,
+						userId: me?.id ?? null,
+						notes: dto?.notes ?? line.notes ?? session.sessionNumber,
+					});
+				}
+
+				await manager.update(StockCountLineEntity, { id: line.id }, { adjustmentQuantity: applied });
+			}
+
+			await this.stockMovementsService.record(manager, movements);
+			await this.lotsService.trimToStock(manager, adminId, movements.filter((m) => m.stockOnHandDelta < 0).map((m) => m.variantId));
+
+			await manager
+				.createQueryBuilder()
+				.update(StockCountLineEntity)
+				.set({ adjustmentQuantity: 0 })
+				.where("sessionId = :id", { id })
+				.andWhere("countedQuantity IS NOT NULL")
+				.andWhere("adjustmentQuantity IS NULL")
+				.execute();
+
+			await manager.update(StockCountSessionEntity, { id, adminId }, {
+				status: StockCountStatus.APPROVED,
+				approvedByUserId: me?.id ?? null,
+				approvedAt: new Date(),
+				...(dto?.notes ? { notes: [session.notes, dto.notes].filter(Boolean).join("\n") } : {}),
+			});
+		});
+
+		return this.get(me, id);
+	}
+
+	async exportVariance(me: any, id: string) {
+		const adminId = tenantId(me);
+		const session = await this.get(me, id);
+
+		const lines = await this.buildLinesQuery(adminId, id).getMany();
+
+		const workbook = new ExcelJS.Workbook();
+		const worksheet = workbook.addWorksheet(
+			this.translations.t("domains.stock_counts.sheet_name")
+		);
+
+		worksheet.columns = [
+			{ header: this.translations.t("domains.stock_counts.sku"), key: "sku", width: 22 },
+			{ header: this.translations.t("domains.stock_counts.product"), key: "product", width: 30 },
+			{ header: this.translations.t("domains.stock_counts.location"), key: "location", width: 20 },
+			{ header: this.translations.t("domains.stock_counts.expected"), key: "expected", width: 12 },
+			{ header: this.translations.t("domains.stock_counts.counted"), key: "counted", width: 12 },
+			{ header: this.translations.t("domains.stock_counts.variance"), key: "variance", width: 12 },
+			{ header: this.translations.t("domains.stock_counts.variance_value"), key: "varianceValue", width: 15 },
+			{ header: this.translations.t("domains.stock_counts.adjustment"), key: "adjustment", width: 12 },
+			{ header: this.translations.t("domains.stock_counts.notes"), key: "notes", width: 30 },
+		];
+
+		worksheet.getRow(1).font = { bold: true };
+		worksheet.getRow(1).fill = { type: "pattern", pattern: "solid", fgColor: { argb: "FFE0E0E0" } };
+
+		for (const line of lines) {
+			const row = this.mapLine(line);
+			worksheet.addRow({
+				sku: row.sku ?? "",
+				product: row.productName ?? "",
+				location: row.storageLocationName ?? "",
+				expected: row.expectedQuantity,
+				counted: row.countedQuantity ?? "",
+				variance: row.variance ?? "",
+				varianceValue: row.varianceValue ?? "",
+				adjustment: row.adjustmentQuantity ?? "",
+				notes: row.notes ?? "",
+			});
+		}
+
+		const { summary } = session;
+		worksheet.addRow({});
+		const totalRow = worksheet.addRow({
+			sku: this.translations.t("domains.stock_counts.totals", { args: { number: session.sessionNumber } }),
+			expected: summary.expectedQuantity,
+			counted: summary.countedQuantity,
+			variance: summary.netVariance,
+			varianceValue: summary.varianceValue,
+		});
+		totalRow.font = { bold: true };
+
+		return await workbook.xlsx.writeBuffer();
+	}
+
+	private async changeStatus(
+		me: any,
+		id: string,
+		from: StockCountStatus[],
+		to: StockCountStatus,
+		extra: (user: any) => Partial<StockCountSessionEntity>,
+	) {
+		const adminId = tenantId(me);
+		if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+
+		await this.dataSource.transaction(async (manager) => {
+			const session = await this.lockSession(manager, adminId, id);
+			this.assertStatus(session, from);
+			await manager.update(StockCountSessionEntity, { id, adminId }, { status: to, ...extra(me) });
+		});
+
+		return this.get(me, id);
+	}
+
+	private buildLinesQuery(adminId: string, sessionId: string) {
+		return this.lineRepo
+			.createQueryBuilder("line")
+			.leftJoin("line.variant", "variant")
+			.addSelect(["variant.id", "variant.sku", "variant.attributes", "variant.unitCost", "variant.productId"])
+			.leftJoin("variant.product", "product")
+			.addSelect(["product.id", "product.name", "product.mainImage"])
+			.leftJoinAndSelect("line.storageLocation", "storageLocation")
+			.where("line.adminId = :adminId", { adminId })
+			.andWhere("line.sessionId = :sessionId", { sessionId })
+			.orderBy("storageLocation.name", "ASC", "NULLS LAST")
+			.addOrderBy("variant.sku", "ASC");
+	}
+
+	private mapLine(line: StockCountLineEntity) {
+		const variance = line.countedQuantity == null ? null : line.countedQuantity - line.expectedQuantity;
+		return {
+			id: line.id,
+			variantId: line.variantId,
+			sku: line.variant?.sku ?? null,
+			attributes: line.variant?.attributes ?? {},
+			productId: line.variant?.product?.id ?? null,
+			productName: line.variant?.product?.name ?? null,
+			mainImage: line.variant?.product?.mainImage ?? null,
+			storageLocationId: line.storageLocationId ?? null,
+			storageLocationName: line.storageLocation?.name ?? null,
+			expectedQuantity: line.expectedQuantity,
+			countedQuantity: line.countedQuantity ?? null,
+			variance,
+			varianceValue: variance == null ? null : Number((variance * Number(line.variant?.unitCost || 0)).toFixed(2)),
+			adjustmentQuantity: line.adjustmentQuantity ?? null,
+			countedByUserId: line.countedByUserId ?? null,
+			countedAt: line.countedAt ?? null,
+			notes: line.notes ?? null,
+		};
+	}
+
+	private async summarize(sessionId: string) {
+		const [row] = await this.lineRepo.query(
+			`SELECT
+				COUNT(*) AS "lines",
+				COUNT(l."countedQuantity") AS "countedLines",
+				COUNT(*) FILTER (WHERE l."countedQuantity" IS NOT NULL AND l."countedQuantity" <> l."expectedQuantity") AS "varianceLines",
+				COALESCE(SUM(l."expectedQuantity"), 0) AS "expectedQuantity",
+				COALESCE(SUM(l."countedQuantity"), 0) AS "countedQuantity",
+				COALESCE(SUM(l."countedQuantity" - l."expectedQuantity"), 0) AS "netVariance",
+				COALESCE(SUM(ABS(l."countedQuantity" - l."expectedQuantity")), 0) AS "absoluteVariance",
+				COALESCE(SUM((l."countedQuantity" - l."expectedQuantity") * pv."unitCost"), 0) AS "varianceValue"
+			FROM "stock_count_lines" l
+			INNER JOIN "product_variants" pv ON pv.id = l."variantId"
+			WHERE l."sessionId" = $1`,
+			[sessionId],
+		);
+
+		return {
+			lines: Number(row?.lines || 0),
+			countedLines: Number(row?.countedLines || 0),
+			varianceLines: Number(row?.varianceLines || 0),
+			expectedQuantity: Number(row?.expectedQuantity || 0),
+			countedQuantity: Number(row?.countedQuantity || 0),
+			netVariance: Number(row?.netVariance || 0),
+			absoluteVariance: Number(row?.absoluteVariance || 0),
+			varianceValue: Number(Number(row?.varianceValue || 0).toFixed(2)),
+		};
+	}
+
+	/**
+	 * Returns the session line of a variant, adding it when the variant was not in the snapshot
+	 * (found stock: expected = what the warehouse row holds right now).
+	 */
+	private async ensureLine(manager: EntityManager, session: StockCountSessionEntity, variant: ProductVariantEntity) {
+		const repo = manager.getRepository(StockCountLineEntity);
+		const existing = await repo.findOne({ where: { sessionId: session.id, variantId: variant.id } });
+		if (existing) return existing;
+
+		const stock = await manager.getRepository(VariantWarehouseStockEntity).findOne({
+			where: { adminId: session.adminId, variantId: variant.id, warehouseId: session.warehouseId },
+		});
+
+		if (session.storageLocationId && stock?.storageLocationId) {
+			const scopeIds = await this.warehousesService.getLocationSubtreeIds(session.adminId, session.warehouseId, session.storageLocationId, manager);
+			if (!scopeIds.includes(stock.storageLocationId)) {
+				throw new BadRequestException(this.translations.t("domains.stock_counts.outside_scope", { args: { sku: variant.sku ?? variant.id } }));
+			}
+		}
+
+		return repo.save(repo.create({
+			adminId: session.adminId,
+			sessionId: session.id,
+			variantId: variant.id,
+			storageLocationId: stock?.storageLocationId ?? session.storageLocationId ?? null,
+			expectedQuantity: stock?.stockOnHand ?? 0,
+		}));
+	}
+
+	/** Resolves entries by variant id, barcode or SKU; the map is keyed by whichever identifier the entry used. */
+	private async resolveVariants(manager: EntityManager, adminId: string, entries: SubmitStockCountEntriesDto["items"]) {
+		const ids = entries.filter((e) => e.variantId).map((e) => e.variantId);
+		const skus = entries.filter((e) => !e.variantId && e.sku).map((e) => e.sku.trim());
+		if (entries.some((e) => !e.variantId && !e.sku?.trim())) {
+			throw new BadRequestException(this.translations.t("domains.stock_counts.variant_or_sku_required"));
+		}
+
+		const repo = manager.getRepository(ProductVariantEntity);
+		const byId = ids.length ? await repo.find({ where: { adminId, id: In(ids) } }) : [];
+		const map = await this.barcodesService.resolveMany(manager, adminId, skus);
+		byId.forEach((v) => map.set(v.id, v));
+
+		for (const e of entries) {
+			const key = e.variantId ?? e.sku.trim();
+			if (!map.has(key)) throw new BadRequestException(this.translations.t("domains.stock_counts.sku_not_found", { args: { sku: key } }));
+			if (!e.variantId) map.set(e.sku, map.get(key));
+		}
+
+		return map;
+	}
+
+	private async generateSessionNumber(manager: EntityManager, adminId: string) {
+		const now = new Date();
+		const dateStr = `${now.getFullYear()}${String(now.getMonth() + 1).padStart(2, "0")}${String(now.getDate()).padStart(2, "0")}`;
+		const count = await manager.count(StockCountSessionEntity, { where: { adminId } });
+		return `CNT-${dateStr}-${(count + 1).toString().padStart(4, "0")}`;
+	}
+
+	private async lockSession(manager: EntityManager, adminId: string, id: string) {
+		const session = await manager.getRepository(StockCountSessionEntity)
+			.createQueryBuilder("s")
+			.setLock("pessimistic_write")
+			.where("s.id = :id", { id })
+			.andWhere("s.adminId = :adminId", { adminId })
+			.getOne();
+		if (!session) throw new BadRequestException(this.translations.t("domains.stock_counts.not_found"));
+		return session;
+	}
+
+	private assertStatus(session: StockCountSessionEntity, allowed: StockCountStatus[]) {
+		if (!allowed.includes(session.status)) {
+			throw new BadRequestException(
+				this.translations.t("domains.stock_counts.invalid_status", {
+					args: { status: this.translations.t(`domains.stock_counts.statuses.${session.status}` as I18nKey) },
+				}),
+			);
+		}
+	}
+}
@@ -0,0 +1,14 @@
+import { Module } from "@nestjs/common";
+import { TypeOrmModule } from "@nestjs/typeorm";
+import { ProductVariantEntity } from "entities/sku.entity";
+import { StockLedgerMismatchEntity, StockMovementEntity } from "entities/stock-movement.entity";
+import { StockMovementsService } from "./stock-movements.service";
+import { StockReconciliationService } from "common/background-services/stock-reconciliation.service";
+import { CostingModule } from "src/costing/costing.module";
+
+@Module({
+  imports: [CostingModule, TypeOrmModule.forFeature([StockMovementEntity, StockLedgerMismatchEntity, ProductVariantEntity])],
+  providers: [StockMovementsService, StockReconciliationService],
+  exports: [StockMovementsService],
+})
+export class StockMovementsModule { }
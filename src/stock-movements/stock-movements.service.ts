@@ -0,0 +1,359 @@
+import { BadRequestException, Injectable } from "@nestjs/common";
+import { InjectRepository } from "@nestjs/typeorm";
+import { EntityManager, Repository } from "typeorm";
+import * as ExcelJS from "exceljs";
+import {
+  StockBalance,
+  StockLedgerMismatchEntity,
+  StockMovementEntity,
+  StockMovementReason,
+  StockMovementReference,
+} from "entities/stock-movement.entity";
+import { ProductVariantEntity } from "entities/sku.entity";
+import { tenantId } from "../category/category.service";
+import { DateFilterUtil } from "common/date-filter.util";
+import { I18nKey, TranslationService } from "common/translation.service";
+import { CostingService } from "src/costing/costing.service";
+
+export type StockMovementInput = {
+  adminId: string;
+  variantId: string;
+  reason: StockMovementReason;
+  stockOnHandDelta?: number;
+  reservedDelta?: number;
+  customerDamagedDelta?: number;
+  companyDamagedDelta?: number;
+  inTransitDelta?: number;
+  warehouseId?: string | null;
+  referenceType?: StockMovementReference | null;
+  referenceId?: string | number | null;
+  userId?: string | null;
+  notes?: string | null;
+  // cost per unit of incoming stock when known (purchase receipts, restocked order items);
+  // record() fills it, together with the value fields, for every stockOnHand change
+  unitCost?: number | null;
+  valueDelta?: number;
+  balanceUnitCost?: number | null;
+};
+
+export type StockLedgerMismatch = {
+  adminId: string;
+  variantId: string;
+  balance: StockBalance;
+  ledger: StockBalance;
+};
+
+const DELTAS = ["stockOnHandDelta", "reservedDelta", "customerDamagedDelta", "companyDamagedDelta", "inTransitDelta"] as const;
+
+@Injectable()
+export class StockMovementsService {
+  constructor(
+    @InjectRepository(StockMovementEntity) private movementsRepo: Repository<StockMovementEntity>,
+    @InjectRepository(StockLedgerMismatchEntity) private mismatchRepo: Repository<StockLedgerMismatchEntity>,
+    @InjectRepository(ProductVariantEntity) private pvRepo: Repository<ProductVariantEntity>,
+    private readonly translations: TranslationService,
+    private readonly costingService: CostingService,
+  ) { }
+
+  /**
+   * Appends movements to the ledger. Must be called with the same manager as the stock change,
+   * after the variant row has been written.
+   * A variant's first movement is preceded by an opening balance (its balance before this change),
+   * so stock that existed before the ledger still reconciles.
+   * stockOnHand changes are valued by the costing engine, which also updates the variant's unit cost.
+   */
+  async record(manager: EntityManager, movements: StockMovementInput[]) {
+    const rows = (movements ?? []).filter(
+      (m) => m?.variantId && DELTAS.some((d) => Number(m[d] || 0) !== 0),
+    );
+    if (!rows.length) return;
+
+    await this.writeOpeningBalances(manager, rows);
+    await this.costingService.apply(manager, rows);
+
+    await manager
+      .createQueryBuilder()
+      .insert()
+      .into(StockMovementEntity)
+      .values(rows.map((m) => ({
+        adminId: m.adminId,
+        variantId: m.variantId,
+        reason: m.reason,
+        stockOnHandDelta: Math.trunc(m.stockOnHandDelta || 0),
+        reservedDelta: Math.trunc(m.reservedDelta || 0),
+        customerDamagedDelta: Math.trunc(m.customerDamagedDelta || 0),
+        companyDamagedDelta: Math.trunc(m.companyDamagedDelta || 0),
+        inTransitDelta: Math.trunc(m.inTransitDelta || 0),
+        unitCost: m.unitCost ?? null,
+        valueDelta: m.valueDelta ?? 0,
+        balanceUnitCost: m.balanceUnitCost ?? null,
+        warehouseId: m.warehouseId ?? null,
+        referenceType: m.referenceType ?? null,
+        referenceId: m.referenceId != null ? String(m.referenceId) : null,
+        userId: m.userId ?? null,
+        notes: m.notes ?? null,
+      })))
+      .execute();
+  }
+
+  private async writeOpeningBalances(manager: EntityManager, rows: StockMovementInput[]) {
+    const variantIds = Array.from(new Set(rows.map((r) => r.variantId)));
+
+    const fresh: any[] = await manager.query(
+      `SELECT pv."id", pv."adminId", pv."unitCost", pv."stockOnHand", pv."reserved", pv."customerDamagedQuantity", pv."companyDamagedQuantity", pv."inTransitQuantity"
+      FROM "product_variants" pv
+      WHERE pv."id" = ANY($1)
+      AND NOT EXISTS (SELECT 1 FROM "stock_movements" sm WHERE sm."variantId" = pv."id")`,
+      [variantIds],
+    );
+    if (!fresh.length) return;
+
+    const openings = fresh.map((v) => {
+      const pending = rows.filter((r) => r.variantId === v.id);
+      const before = (balance: keyof StockBalance, delta: (typeof DELTAS)[number]) =>
+        Number(v[balance] || 0) - pending.reduce((sum, r) => sum + Number(r[delta] || 0), 0);
+
+      return {
+        adminId: v.adminId,
+        variantId: v.id,
+        reason: StockMovementReason.OPENING_BALANCE,
+        stockOnHandDelta: before("stockOnHand", "stockOnHandDelta"),
+        reservedDelta: before("reserved", "reservedDelta"),
+        customerDamagedDelta: before("customerDamagedQuantity", "customerDamagedDelta"),
+        companyDamagedDelta: before("companyDamagedQuantity", "companyDamagedDelta"),
+        inTransitDelta: before("inTransitQuantity", "inTransitDelta"),
+        // the opening stock is valued at the cost the variant had before costing started
+        unitCost: Number(v.unitCost || 0),
+        valueDelta: Number((before("stockOnHand", "stockOnHandDelta") * Number(v.unitCost || 0)).toFixed(2)),
+        balanceUnitCost: Number(v.unitCost || 0),
+      };
+    });
+
+    // unique partial index on (variantId) for opening balances: a concurrent writer may have added it already
+    await manager
+      .createQueryBuilder()
+      .insert()
+      .into(StockMovementEntity)
+      .values(openings)
+      .orIgnore()
+      .execute();
+  }
+
+  async listForVariant(me: any, productId: string, variantId: string, q?: any) {
+    const adminId = tenantId(me);
+    const variant = await this.getVariant(adminId, productId, variantId);
+
+    const page = Number(q?.page ?? 1);
+    const limit = Number(q?.limit ?? 10);
+
+    const qb = this.movementsRepo
+      .createQueryBuilder("m")
+      .leftJoin("m.user", "user")
+      .addSelect(["user.id", "user.name"])
+      .leftJoin("m.warehouse", "warehouse")
+      .addSelect(["warehouse.id", "warehouse.name"])
+      .where("m.adminId = :adminId", { adminId })
+      .andWhere("m.variantId = :variantId", { variantId })
+      .orderBy("m.created_at", "DESC")
+      .addOrderBy("m.id", "DESC");
+
+    DateFilterUtil.applyToQueryBuilder(qb, "m.created_at", q?.startDate, q?.endDate);
+
+    if (q?.reason) {
+      const reasons = String(q.reason).split(",").map((r) => r.trim()).filter(Boolean);
+      if (reasons.length) qb.andWhere("m.reason IN (:...reasons)", { reasons });
+    }
+
+    if (q?.warehouseId) {
+      qb.andWhere("m.warehouseId = :warehouseId", { warehouseId: q.warehouseId });
+    }
+
+    const [records, total] = await qb
+      .skip((page - 1) * limit)
+      .take(limit)
+      .getManyAndCount();
+
+    return {
+      variant: {
+        id: variant.id,
+        sku: variant.sku,
+        balance: this.toBalance(variant),
+      },
+      total_records: total,
+      current_page: page,
+      per_page: limit,
+      records,
+    };
+  }
+
+  async exportForVariant(me: any, productId: string, variantId: string, q?: any) {
+    const { variant, records } = await this.listForVariant(me, productId, variantId, {
+      ...q,
+      limit: 10000,
+      page: 1,
+    });
+
+    const workbook = new ExcelJS.Workbook();
+    const worksheet = workbook.addWorksheet(this.translations.t("domains.products.stock_movements.title"));
+
+    worksheet.columns = [
+      { header: this.translations.t("common.date"), key: "date", width: 22 },
+      { header: this.translations.t("domains.products.stock_movements.reason"), key: "reason", width: 28 },
+      { header: this.translations.t("domains.products.stock_movements.stock_on_hand"), key: "stockOnHand", width: 16 },
+      { header: this.translations.t("domains.products.stock_movements.reserved"), key: "reserved", width: 14 },
+      { header: this.translations.t("domains.products.stock_movements.customer_damaged"), key: "customerDamaged", width: 18 },
+      { header: this.translations.t("domains.products.stock_movements.company_damaged"), key: "companyDamaged", width: 18 },
+      { header: this.translations.t("domains.products.stock_movements.in_transit"), key: "inTransit", width: 14 },
+      { header: this.translations.t("domains.products.stock_movements.warehouse"), key: "warehouse", width: 22 },
+      { header: this.translations.t("domains.products.stock_movements.reference"), key: "reference", width: 40 },
+      { header: this.translations.t("common.user_name"), key: "user", width: 22 },
+      { header: this.translations.t("domains.products.stock_movements.notes"), key: "notes", width: 35 },
+    ];
+
+    worksheet.getRow(1).font = { bold: true };
+    worksheet.getRow(1).fill = {
+      type: "pattern",
+      pattern: "solid",
+      fgColor: { argb: "FFE0E0E0" },
+    };
+
+    const na = this.translations.t("common.not_available_symbol");
+    records.forEach((m) => {
+      worksheet.addRow({
+        date: m.created_at ? new Date(m.created_at).toLocaleString() : na,
+        reason: this.translations.t(`domains.products.stock_movements.reasons.${m.reason}` as I18nKey),
+        stockOnHand: m.stockOnHandDelta,
+        reserved: m.reservedDelta,
+        customerDamaged: m.customerDamagedDelta,
+        companyDamaged: m.companyDamagedDelta,
+        inTransit: m.inTransitDelta,
+        warehouse: m.warehouse?.name || na,
+        reference: m.referenceType ? `${m.referenceType} ${m.referenceId ?? ""}`.trim() : na,
+        user: m.user?.name || na,
+        notes: m.notes || na,
+      });
+    });
+
+    worksheet.addRow({});
+    const balanceRow = worksheet.addRow({
+      reason: this.translations.t("domains.products.stock_movements.current_balance", { args: { sku: variant.sku ?? variant.id } }),
+      stockOnHand: variant.balance.stockOnHand,
+      reserved: variant.balance.reserved,
+      customerDamaged: variant.balance.customerDamagedQuantity,
+      companyDamaged: variant.balance.companyDamagedQuantity,
+      inTransit: variant.balance.inTransitQuantity,
+    });
+    balanceRow.font = { bold: true };
+
+    return await workbook.xlsx.writeBuffer();
+  }
+
+  async listMismatches(me: any, q?: any) {
+    const adminId = tenantId(me);
+
+    const page = Number(q?.page ?? 1);
+    const limit = Number(q?.limit ?? 10);
+
+    const [records, total] = await this.mismatchRepo
+      .createQueryBuilder("mm")
+      .leftJoin("mm.variant", "variant")
+      .addSelect(["variant.id", "variant.sku", "variant.productId"])
+      .where("mm.adminId = :adminId", { adminId })
+      .orderBy("mm.detectedAt", "DESC")
+      .skip((page - 1) * limit)
+      .take(limit)
+      .getManyAndCount();
+
+    return {
+      total_records: total,
+      current_page: page,
+      per_page: limit,
+      records,
+    };
+  }
+
+  /**
+   * Compares every variant's balance with the sum of its ledger rows and refreshes the mismatch table.
+   * Variants with no movement at all get their opening balance first.
+   * Returns the mismatches that were not flagged before.
+   */
+  async reconcile(): Promise<StockLedgerMismatch[]> {
+    return this.movementsRepo.manager.transaction(async (manager) => {
+      await manager.query(
+        `INSERT INTO "stock_movements" ("adminId", "variantId", "reason", "stockOnHandDelta", "reservedDelta", "customerDamagedDelta", "companyDamagedDelta", "inTransitDelta")
+        SELECT pv."adminId", pv."id", '${StockMovementReason.OPENING_BALANCE}', pv."stockOnHand", pv."reserved", pv."customerDamagedQuantity", pv."companyDamagedQuantity", pv."inTransitQuantity"
+        FROM "product_variants" pv
+        WHERE NOT EXISTS (SELECT 1 FROM "stock_movements" sm WHERE sm."variantId" = pv."id")
+        ON CONFLICT DO NOTHING`,
+      );
+
+      const rows: any[] = await manager.query(
+        `SELECT pv."id" AS "variantId", pv."adminId",
+          pv."stockOnHand", pv."reserved", pv."customerDamagedQuantity", pv."companyDamagedQuantity", pv."inTransitQuantity",
+          l."stockOnHand" AS "ledgerStockOnHand", l."reserved" AS "ledgerReserved",
+          l."customerDamagedQuantity" AS "ledgerCustomerDamagedQuantity", l."companyDamagedQuantity" AS "ledgerCompanyDamagedQuantity",
+          l."inTransitQuantity" AS "ledgerInTransitQuantity"
+        FROM "product_variants" pv
+        INNER JOIN (
+          SELECT "variantId",
+            SUM("stockOnHandDelta") AS "stockOnHand",
+            SUM("reservedDelta") AS "reserved",
+            SUM("customerDamagedDelta") AS "customerDamagedQuantity",
+            SUM("companyDamagedDelta") AS "companyDamagedQuantity",
+            SUM("inTransitDelta") AS "inTransitQuantity"
+          FROM "stock_movements"
+          GROUP BY "variantId"
+        ) l ON l."variantId" = pv."id"
+        WHERE pv."stockOnHand" <> l."stockOnHand"
+          OR pv."reserved" <> l."reserved"
+          OR pv."customerDamagedQuantity" <> l."customerDamagedQuantity"
+          OR pv."companyDamagedQuantity" <> l."companyDamagedQuantity"
+          OR pv."inTransitQuantity" <> l."inTransitQuantity"`,
+      );
+
+      const mismatches: StockLedgerMismatch[] = rows.map((r) => ({
+        adminId: r.adminId,
+        variantId: r.variantId,
+        balance: this.toBalance(r),
+        ledger: {
+          stockOnHand: Number(r.ledgerStockOnHand || 0),
+          reserved: Number(r.ledgerReserved || 0),
+          customerDamagedQuantity: Number(r.ledgerCustomerDamagedQuantity || 0),
+          companyDamagedQuantity: Number(r.ledgerCompanyDamagedQuantity || 0),
+          inTransitQuantity: Number(r.ledgerInTransitQuantity || 0),
+        },
+      }));
+
+      const repo = manager.getRepository(StockLedgerMismatchEntity);
+      const alreadyFlagged = new Set((await repo.find({ select: ["variantId"] })).map((m) => m.variantId));
+
+      // variants that reconcile again are no longer flagged
+      const ids = mismatches.map((m) => m.variantId);
+      const cleanup = repo.createQueryBuilder().delete();
+      if (ids.length) cleanup.where(`"variantId" NOT IN (:...ids)`, { ids });
+      await cleanup.execute();
+
+      if (mismatches.length) {
+        await repo.upsert(mismatches, { conflictPaths: ["variantId"] });
+      }
+
+      return mismatches.filter((m) => !alreadyFlagged.has(m.variantId));
+    });
+  }
+
+  private async getVariant(adminId: string, productId: string, variantId: string) {
+    const variant = await this.pvRepo.findOne({ where: { id: variantId, adminId, productId } as any });
+    if (!variant) throw new BadRequestException(this.translations.t("domains.products.variant_sku_row_not_found"));
+    return variant;
+  }
+
+  private toBalance(row: any): StockBalance {
+    return {
+      stockOnHand: Number(row.stockOnHand || 0),
+      reserved: Number(row.reserved || 0),
+      customerDamagedQuantity: Number(row.customerDamagedQuantity || 0),
+      companyDamagedQuantity: Number(row.companyDamagedQuantity || 0),
+      inTransitQuantity: Number(row.inTransitQuantity || 0),
+    };
+  }
+}
@@ -0,0 +1,114 @@
+// stock-transfers/stock-transfers.controller.ts
+import {
+	Body,
+	Controller,
+	Delete,
+	Get,
+	Param,
+	Patch,
+	Post,
+	Query,
+	Req,
+	Res,
+	UseGuards,
+} from "@nestjs/common";
+import { Response } from "express";
+import { JwtAuthGuard } from "../auth/jwt-auth.guard";
+import { PermissionsGuard } from "common/permissions.guard";
+import { Permissions } from "common/permissions.decorator";
+import { RequireSubscription } from "common/require-subscription.decorator";
+import { SubscriptionGuard } from "common/subscription.guard";
+import { StockTransfersService } from "./stock-transfers.service";
+import {
+	CreateStockTransferDto,
+	ReceiveStockTransferDto,
+	UpdateStockTransferDto,
+} from "dto/stock-transfer.dto";
+
+@UseGuards(JwtAuthGuard, PermissionsGuard, SubscriptionGuard)
+@Controller("stock-transfers")
+@RequireSubscription()
+export class StockTransfersController {
+	constructor(private svc: StockTransfersService) { }
+
+	@Permissions("stock_transfers.read")
+	@Get("stats")
+	stats(@Req() req: any) {
+		return this.svc.stats(req.user);
+	}
+
+	@Permissions("stock_transfers.read")
+	@Get()
+	list(@Req() req: any, @Query() q: any) {
+		return this.svc.list(req.user, q);
+	}
+
+	@Permissions("stock_transfers.read")
+	@Get("export")
+	async exportTransfers(
+		@Req() req: any,
+		@Query() q: any,
+		@Res() res: Response
+	) {
+		const buffer = await this.svc.exportTransfers(req.user, q);
+
+		res.setHeader(
+			"Content-Type",
+			"application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+		);
+		res.setHeader(
+			"Content-Disposition",
+			`attachment; filename=StockTransfers_export_${Date.now()}.xlsx`
+		);
+
+		return res.send(buffer);
+	}
+
+	@Permissions("stock_transfers.read")
+	@Get(":id")
+	get(@Req() req: any, @Param("id") id: string) {
+		return this.svc.get(req.user, id);
+	}
+
+	@Permissions("stock_transfers.read")
+	@Get(":id/audit-logs")
+	auditLogs(@Req() req: any, @Param("id") id: string) {
+		return this.svc.getAuditLogs(req.user, id);
+	}
+
+	@Permissions("stock_transfers.create")
+	@Post()
+	create(@Req() req: any, @Body() dto: CreateStockTransferDto) {
+		return this.svc.create(req.user, dto, req.ip);
+	}
+
+	@Permissions("stock_transfers.update")
+	@Patch(":id")
+	update(@Req() req: any, @Param("id") id: string, @Body() dto: UpdateStockTransferDto) {
+		return this.svc.update(req.user, id, dto, req.ip);
+	}
+
+	@Permissions("stock_transfers.update")
+	@Post(":id/dispatch")
+	dispatch(@Req() req: any, @Param("id") id: string) {
+		return this.svc.dispatch(req.user, id, req.ip);
+	}
+
+	@Permissions("stock_transfers.update")
+	@Post(":id/receive")
+	receive(@Req() req: any, @Param("id") id: string, @Body() dto: ReceiveStockTransferDto) {
+		return this.svc.receive(req.user, id, dto, req.ip);
+	}
+
+	@Permissions("stock_transfers.update")
+	@Post(":id/cancel")
+	cancel(@Req() req: any, @Param("id") id: string) {
+		return this.svc.cancel(req.user, id, req.ip);
+	}
+
+	@Permissions("stock_transfers.delete")
+	@Delete(":id")
+	remove(@Req() req: any, @Param("id") id: string) {
+		return this.svc.remove(req.user, id);
+	}
+}
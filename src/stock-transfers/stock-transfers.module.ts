@@ -0,0 +1,30 @@
+// stock-transfers/stock-transfers.module.ts
+import { Module } from "@nestjs/common";
+import { TypeOrmModule } from "@nestjs/typeorm";
+import { StockTransfersController } from "./stock-transfers.controller";
+import { StockTransfersService } from "./stock-transfers.service";
+import {
+  StockTransferEntity,
+  StockTransferItemEntity,
+  StockTransferAuditLogEntity,
+} from "entities/stock-transfer.entity";
+import { ProductVariantEntity } from "entities/sku.entity";
+import { WarehousesModule } from "src/warehouse/warehouse.module";
+import { StockMovementsModule } from "src/stock-movements/stock-movements.module";
+
+@Module({
+  imports: [
+    WarehousesModule,
+    StockMovementsModule,
+    TypeOrmModule.forFeature([
+      StockTransferEntity,
+      StockTransferItemEntity,
+      StockTransferAuditLogEntity,
+      ProductVariantEntity,
+    ]),
+  ],
+  providers: [StockTransfersService],
+  controllers: [StockTransfersController],
+  exports: [StockTransfersService],
+})
+export class StockTransfersModule { }
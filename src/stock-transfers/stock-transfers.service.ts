@@ -0,0 +1,680 @@
+// stock-transfers/stock-transfers.service.ts
+import { BadRequestException, Injectable } from "@nestjs/common";
+import { InjectRepository } from "@nestjs/typeorm";
+import { DataSource, EntityManager, In, Repository } from "typeorm";
+import * as ExcelJS from "exceljs";
+import {
+	StockTransferAuditAction,
+	StockTransferAuditLogEntity,
+	StockTransferEntity,
+	StockTransferItemEntity,
+	StockTransferStatus,
+} from "entities/stock-transfer.entity";
+import { ProductVariantEntity } from "entities/sku.entity";
+import { StockMovementReason, StockMovementReference } from "entities/stock-movement.entity";
+import {
+	CreateStockTransferDto,
+	ReceiveStockTransferDto,
+	StockTransferItemDto,
+	UpdateStockTransferDto,
+} from "dto/stock-transfer.dto";
+import { tenantId } from "../category/category.service";
+import { DateFilterUtil } from "common/date-filter.util";
+import { I18nKey, TranslationService } from "common/translation.service";
+import { WarehouseStockService } from "src/warehouse/warehouse-stock.service";
+import { StockMovementsService, StockMovementInput } from "src/stock-movements/stock-movements.service";
+
+@Injectable()
+export class StockTransfersService {
+	constructor(
+		private dataSource: DataSource,
+
+		@InjectRepository(StockTransferEntity)
+		private transferRepo: Repository<StockTransferEntity>,
+
+		@InjectRepository(StockTransferAuditLogEntity)
+		private auditRepo: Repository<StockTransferAuditLogEntity>,
+
+		private translations: TranslationService,
+		private warehouseStockService: WarehouseStockService,
+		private stockMovementsService: StockMovementsService,
+	) { }
+
+	private async log(params: {
+		adminId: string;
+		transferId: string;
+		userId?: string | null;
+		action: StockTransferAuditAction;
+		oldData?: any;
+		newData?: any;
+		changes?: any;
+		description?: string;
+		ipAddress?: string;
+		manager?: EntityManager;
+	}) {
+		const repo = params.manager ? params.manager.getRepository(StockTransferAuditLogEntity) : this.auditRepo;
+		await repo.save(repo.create({
+			adminId: params.adminId,
+			transferId: params.transferId,
+			userId: params.userId ?? null,
+			action: params.action,
+			oldData: params.oldData ?? null,
+			newData: params.newData ?? null,
+			changes: params.changes ?? null,
+			description: params.description ?? null,
+			ipAddress: params.ipAddress ?? null,
+		}));
+	}
+
+	async stats(me: any) {
+		const adminId = tenantId(me);
+		if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+
+		const rows = await this.transferRepo
+			.createQueryBuilder("t")
+			.select("t.status", "status")
+			.addSelect("COUNT(*)", "count")
+			.where("t.adminId = :adminId", { adminId })
+			.groupBy("t.status")
+			.getRawMany();
+
+		const counts = Object.fromEntries(rows.map((r) => [r.status, Number(r.count || 0)]));
+
+		return {
+			draft: counts[StockTransferStatus.DRAFT] ?? 0,
+			inTransit: counts[StockTransferStatus.IN_TRANSIT] ?? 0,
+			partiallyReceived: counts[StockTransferStatus.PARTIALLY_RECEIVED] ?? 0,
+			received: counts[StockTransferStatus.RECEIVED] ?? 0,
+			cancelled: counts[StockTransferStatus.CANCELLED] ?? 0,
+		};
+	}
+
+	private buildListQuery(adminId: string, q?: any) {
+		const search = String(q?.search ?? "").trim();
+		const status = q?.status && q.status !== "all" ? String(q.status) : null;
+		const sourceWarehouseId = q?.sourceWarehouseId && q.sourceWarehouseId !== "all" ? String(q.sourceWarehouseId) : null;
+		const destinationWarehouseId = q?.destinationWarehouseId && q.destinationWarehouseId !== "all" ? String(q.destinationWarehouseId) : null;
+		const warehouseId = q?.warehouseId && q.warehouseId !== "all" ? String(q.warehouseId) : null; // either side
+		const startDate = q?.startDate ? String(q.startDate) : null; // YYYY-MM-DD
+		const endDate = q?.endDate ? String(q.endDate) : null;
+
+		const qb = this.transferRepo
+			.createQueryBuilder("t")
+			.where("t.adminId = :adminId", { adminId })
+			.leftJoinAndSelect("t.sourceWarehouse", "sourceWarehouse")
+			.leftJoinAndSelect("t.destinationWarehouse", "destinationWarehouse")
+			.leftJoinAndSelect("t.items", "items")
+			.leftJoin("items.variant", "variant")
+			.addSelect(["variant.id", "variant.productId", "variant.sku", "variant.attributes"])
+			.leftJoin("variant.product", "product")
+			.addSelect(["product.id", "product.name", "product.mainImage"]);
+
+		if (status) qb.andWhere("t.status = :status", { status });
+		if (sourceWarehouseId) qb.andWhere("t.sourceWarehouseId = :sourceWarehouseId", { sourceWarehouseId });
+		if (destinationWarehouseId) qb.andWhere("t.destinationWarehouseId = :destinationWarehouseId", { destinationWarehouseId });
+		if (warehouseId) qb.andWhere("(t.sourceWarehouseId = :warehouseId OR t.destinationWarehouseId = :warehouseId)", { warehouseId });
+
+		DateFilterUtil.applyToQueryBuilder(qb, "t.created_at", startDate, endDate);
+
+		if (search) {
+			qb.andWhere(
+				`(t.transferNumber ILIKE :s OR t.id IN (
+					SELECT ti."transferId" FROM "stock_transfer_items" ti
+					INNER JOIN "product_variants" pv ON pv.id = ti."variantId"
+					LEFT JOIN "products" p ON p.id = pv."productId"
+					WHERE ti."adminId" = :adminId AND (pv.sku ILIKE :s OR p.name ILIKE :s)
+				))`,
+				{ s: `%${search}%` },
+			);
+		}
+
+		qb.orderBy("t.created_at", (q?.sortOrder ?? "DESC").toUpperCase() === "ASC" ? "ASC" : "DESC");
+		return qb;
+	}
+
+	async list(me: any, q?: any) {
+		const adminId = tenantId(me);
+		if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+
+		const page = Number(q?.page ?? 1);
+		const limit = Number(q?.limit ?? 10);
+
+		const qb = this.buildListQuery(adminId, q);
+		const total = await qb.getCount();
+
+		const records = await qb
+			.skip((page - 1) * limit)
+			.take(limit)
+			.getMany();
+
+		return {
+			total_records: total,
+			current_page: page,
+			per_page: limit,
+			records,
+		};
+	}
+
+	async get(me: any, id: string) {
+		const adminId = tenantId(me);
+		if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+
+		const transfer = await this.transferRepo.findOne({
+			where: { id, adminId },
+			relations: ["items", "items.variant", "items.variant.product", "sourceWarehouse", "destinationWarehouse"],
+		});
+		if (!transfer) throw new BadRequestException(this.translations.t("domains.stock_transfers.not_found"));
+		return transfer;
+	}
+
+	async getAuditLogs(me: any, id: string) {
+		const adminId = tenantId(me);
+		if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+
+		// ensure transfer exists and belongs to tenant
+		await this.get(me, id);
+
+		return this.auditRepo.find({
+			where: { adminId, transferId: id },
+			order: { created_at: "DESC" },
+		});
+	}
+
+	async create(me: any, dto: CreateStockTransferDto, ipAddress?: string) {
+		const adminId = tenantId(me);
+		if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+
+		const transfer = await this.dataSource.transaction(async (manager) => {
+			await this.assertWarehouses(manager, adminId, dto.sourceWarehouseId, dto.destinationWarehouseId);
+			const lines = await this.normalizeItems(manager, adminId, dto.items);
+
+			const transferNumber = await this.generateTransferNumber(manager, adminId);
+
+			const repo = manager.getRepository(StockTransferEntity);
+			const saved = await repo.save(repo.create({
+				adminId,
+				transferNumber,
+				sourceWarehouseId: dto.sourceWarehouseId,
+				destinationWarehouseId: dto.destinationWarehouseId,
+				status: StockTransferStatus.DRAFT,
+				notes: dto.notes ?? null,
+				createdByUserId: me?.id ?? null,
+				items: lines.map((l) => ({ adminId, variantId: l.variantId, quantity: l.quantity })) as StockTransferItemEntity[],
+			}));
+
+			await this.log({
+				adminId,
+				transferId: saved.id,
+				userId: me?.id ?? null,
+				action: StockTransferAuditAction.CREATED,
+				newData: { transferNumber, sourceWarehouseId: saved.sourceWarehouseId, destinationWarehouseId: saved.destinationWarehouseId, items: lines },
+				description: `Stock transfer ${transferNumber} created`,
+				ipAddress,
+				manager,
+			});
+
+			if (dto.dispatch) await this.dispatchWithManager(manager, me, adminId, saved.id, ipAddress);
+			return saved;
+		});
+
+		return this.get(me, transfer.id);
+	}
+
+	async update(me: any, id: string, dto: UpdateStockTransferDto, ipAddress?: string) {
+		const adminId = tenantId(me);
+		if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+
+		await this.dataSource.transaction(async (manager) => {
+			const transfer = await this.lockTransfer(manager, adminId, id);
+			this.assertStatus(transfer, [StockTransferStatus.DRAFT]);
+
+			const oldData = {
+				sourceWarehouseId: transfer.sourceWarehouseId,
+				destinationWarehouseId: transfer.destinationWarehouseId,
+				notes: transfer.notes,
+				items: transfer.items.map((i) => ({ variantId: i.variantId, quantity: i.quantity })),
+			};
+
+			const sourceWarehouseId = dto.sourceWarehouseId ?? transfer.sourceWarehouseId;
+			const destinationWarehouseId = dto.destinationWarehouseId ?? transfer.destinationWarehouseId;
+			if (dto.sourceWarehouseId !== undefined || dto.destinationWarehouseId !== undefined) {
+				await this.assertWarehouses(manager, adminId, sourceWarehouseId, destinationWarehouseId);
+			}
+
+			await manager.update(StockTransferEntity, { id, adminId }, {
+				sourceWarehouseId,
+				destinationWarehouseId,
+				notes: dto.notes !== undefined ? dto.notes || null : transfer.notes,
+			});
+
+			let items = oldData.items;
+			if (dto.items !== undefined) {
+				items = await this.normalizeItems(manager, adminId, dto.items);
+				await manager.delete(StockTransferItemEntity, { transferId: id, adminId });
+				const itemRepo = manager.getRepository(StockTransferItemEntity);
+				await itemRepo.save(items.map((l) => itemRepo.create({ adminId, transferId: id, variantId: l.variantId, quantity: l.quantity })));
+			}
+
+			await this.log({
+				adminId,
+				transferId: id,
+				userId: me?.id ?? null,
+				action: StockTransferAuditAction.UPDATED,
+				oldData,
+				newData: { sourceWarehouseId, destinationWarehouseId, notes: dto.notes ?? transfer.notes, items },
+				description: `Stock transfer ${transfer.transferNumber} updated`,
+				ipAddress,
+				manager,
+			});
+		});
+
+		return this.get(me, id);
+	}
+
+	async remove(me: any, id: string) {
+		const adminId = tenantId(me);
+		if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+
+		await this.dataSource.transaction(async (manager) => {
+			const transfer = await this.lockTransfer(manager, adminId, id);
+			this.assertStatus(transfer, [StockTransferStatus.DRAFT]);
+			await manager.delete(StockTransferEntity, { id, adminId });
+		});
+
+		return { ok: true };
+	}
+
+	async dispatch(me: any, id: string, ipAddress?: string) {
+		const adminId = tenantId(me);
+		if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+
+		await this.dataSource.transaction((manager) => this.dispatchWithManager(manager, me, adminId, id, ipAddress));
+		return this.get(me, id);
+	}
+
+	/**
+	 * Moves the transfer quantities out of the source warehouse into the variants' in-transit bucket.
+	 * Reserved stock stays untouched: only stock that is not reserved for orders can be dispatched.
+	 */
+	private async dispatchWithManager(manager: EntityManager, me: any, adminId: string, id: string, ipAddress?: string) {
+		const transfer = await this.lockTransfer(manager, adminId, id);
+		this.assertStatus(transfer, [StockTransferStatus.DRAFT]);
+
+		const source = await this.warehouseStockService.assertWarehouse(adminId, transfer.sourceWarehouseId, manager);
+		await this.warehouseStockService.assertWarehouse(adminId, transfer.destinationWarehouseId, manager);
+
+		const variants = await this.lockVariants(manager, adminId, transfer.items.map((i) => i.variantId));
+		const movements: StockMovementInput[] = [];
+
+		for (const item of transfer.items) {
+			const variant = variants.get(item.variantId);
+			const available = (variant.stockOnHand || 0) - (variant.reserved || 0);
+			if (available < item.quantity) {
+				throw new BadRequestException(
+					this.translations.t("domains.stock_transfers.insufficient_available", {
+						args: { sku: variant.sku ?? variant.id, available: Math.max(0, available) },
+					}),
+				);
+			}
+
+			await this.warehouseStockService.take(manager, {
+				adminId,
+				variantId: item.variantId,
+				warehouseId: transfer.sourceWarehouseId,
+				quantity: item.quantity,
+				sku: variant.sku ?? variant.id,
+				warehouseName: source.name,
+			});
+
+			await this.moveVariantStock(manager, item.variantId, -item.quantity, item.quantity);
+			variant.stockOnHand -= item.quantity;
+
+			movements.push({
+				adminId,
+				variantId: item.variantId,
+				reason: StockMovementReason.TRANSFER_DISPATCH,
+				stockOnHandDelta: -item.quantity,
+				inTransitDelta: item.quantity,
+				warehouseId: transfer.sourceWarehouseId,
+				referenceType: StockMovementReference.STOCK_TRANSFER,
+				referenceId: transfer.id,
+				userId: me?.id ?? null,
+			});
+		}
+
+		await this.stockMovementsService.record(manager, movements);
+
+		await manager.update(StockTransferEntity, { id, adminId }, {
+			status: StockTransferStatus.IN_TRANSIT,
+			dispatchedAt: new Date(),
+			dispatchedByUserId: me?.id ?? null,
+		});
+
+		await this.log({
+			adminId,
+			transferId: id,
+			userId: me?.id ?? null,
+			action: StockTransferAuditAction.DISPATCHED,
+			changes: transfer.items.map((i) => ({ variantId: i.variantId, quantity: i.quantity })),
+			description: `Stock transfer ${transfer.transferNumber} dispatched`,
+			ipAddress,
+			manager,
+		});
+	}
+
+	/**
+	 * Receives (part of) the dispatched quantities at the destination warehouse.
+	 * With `close`, whatever is still in transit is written off as a shortage and the transfer is completed.
+	 */
+	async receive(me: any, id: string, dto: ReceiveStockTransferDto, ipAddress?: string) {
+		const adminId = tenantId(me);
+		if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+
+		await this.dataSource.transaction(async (manager) => {
+			const transfer = await this.lockTransfer(manager, adminId, id);
+			this.assertStatus(transfer, [StockTransferStatus.IN_TRANSIT, StockTransferStatus.PARTIALLY_RECEIVED]);
+
+			await this.warehouseStockService.assertWarehouse(adminId, transfer.destinationWarehouseId, manager);
+
+			const itemsById = new Map(transfer.items.map((i) => [i.id, i]));
+			const received = new Map<string, { quantity: number; discrepancyNote?: string }>();
+			for (const line of dto.items ?? []) {
+				const item = itemsById.get(line.itemId);
+				if (!item) throw new BadRequestException(this.translations.t("domains.stock_transfers.item_not_found"));
+
+				const prev = received.get(item.id);
+				received.set(item.id, {
+					quantity: (prev?.quantity ?? 0) + (line.quantity || 0),
+					discrepancyNote: line.discrepancyNote ?? prev?.discrepancyNote,
+				});
+			}
+
+			await this.lockVariants(manager, adminId, transfer.items.map((i) => i.variantId));
+			const itemRepo = manager.getRepository(StockTransferItemEntity);
+			const movements: StockMovementInput[] = [];
+			const changes: any[] = [];
+
+			for (const item of transfer.items) {
+				const line = received.get(item.id);
+				const outstanding = item.quantity - item.receivedQuantity - item.shortageQuantity;
+				const quantity = line?.quantity ?? 0;
+
+				if (quantity > outstanding) {
+					throw new BadRequestException(
+						this.translations.t("domains.stock_transfers.receive_exceeds_outstanding", {
+							args: { sku: item.variant?.sku ?? item.variantId, outstanding },
+						}),
+					);
+				}
+
+				if (quantity > 0) {
+					await this.moveVariantStock(manager, item.variantId, quantity, -quantity);
+					await this.warehouseStockService.increase(manager, {
+						adminId,
+						variantId: item.variantId,
+						warehouseId: transfer.destinationWarehouseId,
+						quantity,
+					});
+					item.receivedQuantity += quantity;
+
+					movements.push({
+						adminId,
+						variantId: item.variantId,
+						reason: StockMovementReason.TRANSFER_RECEIPT,
+						stockOnHandDelta: quantity,
+						inTransitDelta: -quantity,
+						warehouseId: transfer.destinationWarehouseId,
+						referenceType: StockMovementReference.STOCK_TRANSFER,
+						referenceId: transfer.id,
+						userId: me?.id ?? null,
+						notes: line?.discrepancyNote ?? null,
+					});
+				}
+
+				const shortage = dto.close ? outstanding - quantity : 0;
+				if (shortage > 0) {
+					await this.moveVariantStock(manager, item.variantId, 0, -shortage);
+					item.shortageQuantity += shortage;
+
+					movements.push({
+						adminId,
+						variantId: item.variantId,
+						reason: StockMovementReason.TRANSFER_SHORTAGE,
+						inTransitDelta: -shortage,
+						referenceType: StockMovementReference.STOCK_TRANSFER,
+						referenceId: transfer.id,
+						userId: me?.id ?? null,
+						notes: line?.discrepancyNote ?? dto.notes ?? null,
+					});
+				}
+
+				if (line?.discrepancyNote !== undefined) item.discrepancyNote = line.discrepancyNote || null;
+
+				if (quantity > 0 || shortage > 0 || line?.discrepancyNote !== undefined) {
+					await itemRepo.update({ id: item.id }, {
+						receivedQuantity: item.receivedQuantity,
+						shortageQuantity: item.shortageQuantity,
+						discrepancyNote: item.discrepancyNote ?? null,
+					});
+					changes.push({ itemId: item.id, variantId: item.variantId, received: quantity, shortage, discrepancyNote: item.discrepancyNote ?? null });
+				}
+			}
+
+			if (!changes.length) throw new BadRequestException(this.translations.t("domains.stock_transfers.nothing_to_receive"));
+
+			await this.stockMovementsService.record(manager, movements);
+
+			const completed = transfer.items.every((i) => i.receivedQuantity + i.shortageQuantity >= i.quantity);
+			await manager.update(StockTransferEntity, { id, adminId }, {
+				status: completed ? StockTransferStatus.RECEIVED : StockTransferStatus.PARTIALLY_RECEIVED,
+				receivedAt: completed ? new Date() : null,
+				receivedByUserId: me?.id ?? null,
+			});
+
+			await this.log({
+				adminId,
+				transferId: id,
+				userId: me?.id ?? null,
+				action: dto.close ? StockTransferAuditAction.CLOSED : StockTransferAuditAction.RECEIVED,
+				changes,
+				description: dto.notes ?? `Stock transfer ${transfer.transferNumber} ${completed ? "received" : "partially received"}`,
+				ipAddress,
+				manager,
+			});
+		});
+
+		return this.get(me, id);
+	}
+
+	/**
+	 * Cancels a draft, or an in-transit transfer that nothing was received from yet
+	 * (the dispatched stock goes back to the source warehouse).
+	 */
+	async cancel(me: any, id: string, ipAddress?: string) {
+		const adminId = tenantId(me);
+		if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+
+		await this.dataSource.transaction(async (manager) => {
+			const transfer = await this.lockTransfer(manager, adminId, id);
+			this.assertStatus(transfer, [StockTransferStatus.DRAFT, StockTransferStatus.IN_TRANSIT]);
+
+			if (transfer.status === StockTransferStatus.IN_TRANSIT) {
+				await this.lockVariants(manager, adminId, transfer.items.map((i) => i.variantId));
+				const movements: StockMovementInput[] = [];
+
+				for (const item of transfer.items) {
+					await this.moveVariantStock(manager, item.variantId, item.quantity, -item.quantity);
+					await this.warehouseStockService.increase(manager, {
+						adminId,
+						variantId: item.variantId,
+						warehouseId: transfer.sourceWarehouseId,
+						quantity: item.quantity,
+					});
+
+					movements.push({
+						adminId,
+						variantId: item.variantId,
+						reason: StockMovementReason.TRANSFER_CANCELLATION,
+						stockOnHandDelta: item.quantity,
+						inTransitDelta: -item.quantity,
+						warehouseId: transfer.sourceWarehouseId,
+						referenceType: StockMovementReference.STOCK_TRANSFER,
+						referenceId: transfer.id,
+						userId: me?.id ?? null,
+					});
+				}
+
+				await this.stockMovementsService.record(manager, movements);
+			}
+
+			await manager.update(StockTransferEntity, { id, adminId }, { status: StockTransferStatus.CANCELLED });
+
+			await this.log({
+				adminId,
+				transferId: id,
+				userId: me?.id ?? null,
+				action: StockTransferAuditAction.CANCELLED,
+				oldData: { status: transfer.status },
+				newData: { status: StockTransferStatus.CANCELLED },
+				description: `Stock transfer ${transfer.transferNumber} cancelled`,
+				ipAddress,
+				manager,
+			});
+		});
+
+		return this.get(me, id);
+	}
+
+	async exportTransfers(me: any, q?: any) {
+		const adminId = tenantId(me);
+		if (!adminId) throw new BadRequestException(this.translations.t("common.missing_admin_id"));
+
+		const records = await this.buildListQuery(adminId, q).getMany();
+
+		const workbook = new ExcelJS.Workbook();
+		const worksheet = workbook.addWorksheet(
+			this.translations.t("domains.stock_transfers.sheet_name")
+		);
+
+		worksheet.columns = [
+			{ header: this.translations.t("domains.stock_transfers.transfer_number"), key: "transferNumber", width: 22 },
+			{ header: this.translations.t("domains.stock_transfers.source_warehouse"), key: "source", width: 22 },
+			{ header: this.translations.t("domains.stock_transfers.destination_warehouse"), key: "destination", width: 22 },
+			{ header: this.translations.t("common.status"), key: "status", width: 18 },
+			{ header: this.translations.t("domains.stock_transfers.quantity"), key: "quantity", width: 12 },
+			{ header: this.translations.t("domains.stock_transfers.received_quantity"), key: "receivedQuantity", width: 12 },
+			{ header: this.translations.t("domains.stock_transfers.shortage_quantity"), key: "shortageQuantity", width: 12 },
+			{ header: this.translations.t("domains.stock_transfers.dispatched_at"), key: "dispatchedAt", width: 18 },
+			{ header: this.translations.t("domains.stock_transfers.received_at"), key: "receivedAt", width: 18 },
+			{ header: this.translations.t("common.created_at"), key: "created_at", width: 18 },
+		];
+
+		worksheet.getRow(1).font = { bold: true, color: { argb: "FFFFFFFF" } };
+		worksheet.getRow(1).fill = { type: "pattern", pattern: "solid", fgColor: { argb: "FF6C5CE7" } };
+
+		const sum = (items: StockTransferItemEntity[], key: "quantity" | "receivedQuantity" | "shortageQuantity") =>
+			(items ?? []).reduce((acc, i) => acc + (i[key] || 0), 0);
+		const date = (d?: Date | null) => (d ? new Date(d).toLocaleDateString("en-US") : "");
+
+		records.forEach((t) => {
+			worksheet.addRow({
+				transferNumber: t.transferNumber,
+				source: t.sourceWarehouse?.name ?? "N/A",
+				destination: t.destinationWarehouse?.name ?? "N/A",
+				status: this.translations.t(`domains.stock_transfers.statuses.${t.status}` as I18nKey),
+				quantity: sum(t.items, "quantity"),
+				receivedQuantity: sum(t.items, "receivedQuantity"),
+				shortageQuantity: sum(t.items, "shortageQuantity"),
+				dispatchedAt: date(t.dispatchedAt),
+				receivedAt: date(t.receivedAt),
+				created_at: date(t.created_at),
+			});
+		});
+
+		return await workbook.xlsx.writeBuffer();
+	}
+
+	private async generateTransferNumber(manager: EntityManager, adminId: string) {
+		const now = new Date();
+		const dateStr = `${now.getFullYear()}${String(now.getMonth() + 1).padStart(2, "0")}${String(now.getDate()).padStart(2, "0")}`;
+		const count = await manager.count(StockTransferEntity, { where: { adminId } });
+		return `TRF-${dateStr}-${(count + 1).toString().padStart(4, "0")}`;
+	}
+
+	/** Locks the transfer header for the rest of the transaction and loads its items. */
+	private async lockTransfer(manager: EntityManager, adminId: string, id: string) {
+		const transfer = await manager.getRepository(StockTransferEntity)
+			.createQueryBuilder("t")
+			.setLock("pessimistic_write")
+			.where("t.id = :id", { id })
+			.andWhere("t.adminId = :adminId", { adminId })
+			.getOne();
+		if (!transfer) throw new BadRequestException(this.translations.t("domains.stock_transfers.not_found"));
+
+		transfer.items = await manager.getRepository(StockTransferItemEntity).find({
+			where: { transferId: id, adminId },
+			order: { created_at: "ASC" },
+		});
+		return transfer;
+	}
+
+	/** Locks the variants in a stable order so concurrent transfers cannot deadlock. */
+	private async lockVariants(manager: EntityManager, adminId: string, variantIds: string[]) {
+		const ids = [...new Set(variantIds)].sort();
+		const variants = await manager.getRepository(ProductVariantEntity)
+			.createQueryBuilder("v")
+			.setLock("pessimistic_write")
+			.where("v.adminId = :adminId", { adminId })
+			.andWhere("v.id IN (:...ids)", { ids })
+			.orderBy("v.id", "ASC")
+			.getMany();
+
+		return new Map(variants.map((v) => [v.id, v]));
+	}
+
+	private async moveVariantStock(manager: EntityManager, variantId: string, stockOnHandDelta: number, inTransitDelta: number) {
+		await manager
+			.createQueryBuilder()
+			.update(ProductVariantEntity)
+			.set({
+				stockOnHand: () => `"stockOnHand" + (${Math.trunc(stockOnHandDelta)})`,
+				inTransitQuantity: () => `GREATEST(0, "inTransitQuantity" + (${Math.trunc(inTransitDelta)}))`,
+			})
+			.where("id = :id", { id: variantId })
+			.execute();
+	}
+
+	private assertStatus(transfer: StockTransferEntity, allowed: StockTransferStatus[]) {
+		if (!allowed.includes(transfer.status)) {
+			throw new BadRequestException(
+				this.translations.t("domains.stock_transfers.invalid_status", {
+					args: { status: this.translations.t(`domains.stock_transfers.statuses.${transfer.status}` as I18nKey) },
+				}),
+			);
+		}
+	}
+
+	private async assertWarehouses(manager: EntityManager, adminId: string, sourceWarehouseId: string, destinationWarehouseId: string) {
+		if (!sourceWarehouseId || !destinationWarehouseId || sourceWarehouseId === destinationWarehouseId) {
+			throw new BadRequestException(this.translations.t("domains.stock_transfers.same_warehouse"));
+		}
+		await this.warehouseStockService.assertWarehouse(adminId, sourceWarehouseId, manager);
+		await this.warehouseStockService.assertWarehouse(adminId, destinationWarehouseId, manager);
+	}
+
+	/** Merges duplicate variant lines and checks every variant belongs to the tenant. */
+	private async normalizeItems(manager: EntityManager, adminId: string, items: StockTransferItemDto[]) {
+		const merged = new Map<string, number>();
+		for (const it of items ?? []) {
+			if (!it?.variantId || !(it.quantity > 0)) continue;
+			merged.set(it.variantId, (merged.get(it.variantId) ?? 0) + Math.trunc(it.quantity));
+		}
+		if (!merged.size) throw new BadRequestException(this.translations.t("domains.stock_transfers.items_required"));
+
+		const ids = [...merged.keys()];
+		const found = await manager.getRepository(ProductVariantEntity).count({ where: { adminId, id: In(ids) } });
+		if (found !== ids.length) throw new BadRequestException(this.translations.t("domains.stock_transfers.variant_not_found"));
+
+		return ids.map((variantId) => ({ variantId, quantity: merged.get(variantId) }));
+	}
+}
@@ -17,6 +17,7 @@ import { ShopifyService } from "./storesIntegrations/ShopifyService";
 import { EasyOrderService } from "./storesIntegrations/EasyOrderService";
 import WooCommerceService from "./storesIntegrations/WooCommerce";
 import { OrdersService } from "src/orders/services/orders.service";
+import { OrderTagsService } from "src/orders/services/order-tags.service";
 import { ProductsService } from "src/products/products.service";
 import { ProductSyncStateService } from "src/product-sync-state/product-sync-state.service";
 import { PurchasesService } from "src/purchases/purchases.service";
@@ -68,6 +69,8 @@ export class StoresService {
 
     @Inject(forwardRef(() => OrdersService))
     protected readonly ordersService: OrdersService,
+    @Inject(forwardRef(() => OrderTagsService))
+    private readonly orderTagsService: OrderTagsService,
     @Inject(forwardRef(() => ProductsService))
     private readonly productsService: ProductsService,
 
@@ -1140,6 +1143,7 @@ export class StoresService {
         const newOrder = await this.ordersService.createWithManager(manager, adminId, User, createOrderDto);
         await this.ordersService.updateExternalId(newOrder.id, payload.externalOrderId);
         await manager.update(OrderEntity, newOrder.id, { externalId: payload.externalOrderId });
+        await this.orderTagsService.applyStoreTags(manager, adminId, newOrder.id, payload.tags);
 
         this.logger.log(`[Webhook Order Create] Created new order from webhook with External ID ${payload.externalOrderId} mapped to Internal Order #${newOrder.orderNumber} (ID: ${newOrder.id}).`);
         await this.notificationService.create({
@@ -1311,11 +1315,12 @@ export class StoresService {
 
         const User = { id: order.adminId.toString(), role: { name: "admin" } };
 
+        // the store is the source of truth for its own status, the tenant's transition graph does not apply
         await this.ordersService.changeStatus(User, order.id, {
           statusId: statusEntity.id,
           notes: payload.note || `Updated via webhook`,
           postponedDate: payload.postponedDate ? new Date(payload.postponedDate)?.toISOString() || null : null,
-        });
+        }, undefined, { skipTransitionCheck: true });
 
       }
 
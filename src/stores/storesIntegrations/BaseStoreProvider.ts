@@ -86,6 +86,8 @@ export interface WebhookOrderPayload {
     shippingCost?: number;
     totalCost?: number;
     status?: string;
+    // store-side order tags, mapped to the tenant's order tags by name / alias
+    tags?: string[];
     cartItems: {
         name: string,
         productSlug: string;
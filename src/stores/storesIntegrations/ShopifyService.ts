@@ -4676,6 +4676,7 @@ export class ShopifyService extends BaseStoreProvider {
 
             shippingCost: Number(body.total_shipping_price_set?.shop_money?.amount || 0),
             totalCost: Number(body.total_price_set?.shop_money?.amount || 0),
+            tags: String(body.tags || "").split(",").map((tag) => tag.trim()).filter(Boolean),
             cartItems: lineItems.map((item: any) => {
                 const prodId = String(item.product_id);
                 const varId = item.variant_id ? String(item.variant_id) : null;
@@ -1605,6 +1605,7 @@ export default class WooCommerceService extends BaseStoreProvider implements ISk
             paymentStatus: paymentStatus,
             status: orderStatus,
             shippingCost: Number(body.shipping_total || 0),
+            tags: this.extractOrderTags(body),
 
             cartItems: await Promise.all(
                 lineItems.map(async (item: any) => {
@@ -1670,6 +1671,15 @@ export default class WooCommerceService extends BaseStoreProvider implements ISk
         };
     }
 
+    // core WooCommerce orders carry no tags; tagging plugins expose them as a "tags" field or meta entry
+    private extractOrderTags(body: any): string[] {
+        const raw = body.tags ?? body.meta_data?.find((m: any) => ["tags", "_order_tags", "order_tags"].includes(m?.key))?.value;
+        const list = Array.isArray(raw) ? raw : String(raw ?? "").split(",");
+        return list
+            .map((tag: any) => String(typeof tag === "object" ? tag?.name ?? "" : tag).trim())
+            .filter(Boolean);
+    }
+
     private mapPaymentMethod(method: string): PaymentMethod {
         switch (method?.toLowerCase()) {
             case 'cod': return PaymentMethod.CASH_ON_DELIVERY;
@@ -11,7 +11,7 @@ import { tenantId } from 'src/category/category.service';
 import { calculateRange } from 'common/healpers';
 import { DateFilterUtil } from 'common/date-filter.util';
 import { OrdersService } from '../orders/services/orders.service';
-import { OrderEntity, OrderStatus } from 'entities/order.entity';
+import { OrderChangeSource, OrderEntity, OrderStatus } from 'entities/order.entity';
 import { AutomationRunEntity } from 'entities/automation.entity';
 import { WhatsappAccountEntity } from 'entities/whatsapp.entity';
 import { WhatsappService } from '../whatsapp/whatsapp.service';
@@ -643,6 +643,7 @@ export class UpsellsService {
                 null,
                 {
                     skipStockValidation: true,
+                    source: OrderChangeSource.UPSELL,
                 }
             );
 
@@ -0,0 +1,338 @@
+import { BadRequestException, Injectable } from "@nestjs/common";
+import { InjectRepository } from "@nestjs/typeorm";
+import { EntityManager, In, Repository } from "typeorm";
+import { ProductVariantEntity, VariantWarehouseStockEntity } from "entities/sku.entity";
+import { StorageLocationEntity, WarehouseEntity } from "entities/warehouses.entity";
+import { SetWarehouseStockDto } from "dto/warehouse.dto";
+import { tenantId } from "../category/category.service";
+import { TranslationService } from "common/translation.service";
+
+export type WarehouseStockRow = {
+	warehouseId: string;
+	warehouseName: string;
+	storageLocationId: string | null;
+	stockOnHand: number;
+};
+
+@Injectable()
+export class WarehouseStockService {
+	constructor(
+		@InjectRepository(VariantWarehouseStockEntity) private stockRepo: Repository<VariantWarehouseStockEntity>,
+		@InjectRepository(WarehouseEntity) private warehousesRepo: Repository<WarehouseEntity>,
+		private readonly translations: TranslationService,
+	) { }
+
+	async assertWarehouse(adminId: string, warehouseId: string, manager?: EntityManager) {
+		const repo = manager ? manager.getRepository(WarehouseEntity) : this.warehousesRepo;
+		const warehouse = await repo.findOne({ where: { id: warehouseId, adminId } });
+		if (!warehouse) throw new BadRequestException(this.translations.t("domains.warehouses.not_found"));
+		if (!warehouse.isActive) throw new BadRequestException(this.translations.t("domains.warehouses.inactive", { args: { name: warehouse.name } }));
+		return warehouse;
+	}
+
+	/**
+	 * Adds stock to a warehouse row (created on first use).
+	 * The variant total (ProductVariantEntity.stockOnHand) is updated by the caller.
+	 */
+	async increase(manager: EntityManager, params: { adminId: string; variantId: string; warehouseId: string; quantity: number }) {
+		const { adminId, variantId, warehouseId, quantity } = params;
+		if (!warehouseId || !(quantity > 0)) return;
+
+		await manager.query(
+			`INSERT INTO "variant_warehouse_stocks" ("adminId", "variantId", "warehouseId", "stockOnHand")
+			VALUES ($1, $2, $3, $4)
+			ON CONFLICT ("variantId", "warehouseId")
+			DO UPDATE SET "stockOnHand" = "variant_warehouse_stocks"."stockOnHand" + EXCLUDED."stockOnHand", "updated_at" = now()`,
+			[adminId, variantId, warehouseId, quantity],
+		);
+	}
+
+	/**
+	 * Removes stock from the preferred warehouses first, then from the warehouses holding the most stock.
+	 * Whatever cannot be taken from warehouse rows comes out of the unallocated part of the variant total.
+	 * Returns the warehouse that supplied most of the quantity (null when nothing was allocated).
+	 */
+	async decrease(
+		manager: EntityManager,
+		params: { adminId: string; variantId: string; quantity: number; preferredWarehouseIds?: (string | null | undefined)[] },
+	): Promise<string | null> {
+		const { adminId, variantId, quantity } = params;
+		if (!(quantity > 0)) return null;
+
+		const rows = await manager.getRepository(VariantWarehouseStockEntity)
+			.createQueryBuilder("ws")
+			.setLock("pessimistic_write")
+			.where("ws.adminId = :adminId", { adminId })
+			.andWhere("ws.variantId = :variantId", { variantId })
+			.andWhere("ws.stockOnHand > 0")
+			.getMany();
+
+		if (!rows.length) return null;
+
+		const preferred = (params.preferredWarehouseIds ?? []).filter(Boolean);
+		const rank = (row: VariantWarehouseStockEntity) => {
+			const idx = preferred.indexOf(row.warehouseId);
+			return idx === -1 ? preferred.length : idx;
+		};
+		rows.sort((a, b) => rank(a) - rank(b) || b.stockOnHand - a.stockOnHand);
+
+		let remaining = quantity;
+		let mainWarehouseId: string | null = null;
+		let mainTaken = 0;
+
+		for (const row of rows) {
+			if (remaining <= 0) break;
+			const take = Math.min(row.stockOnHand, remaining);
+
+			await manager
+				.createQueryBuilder()
+				.update(VariantWarehouseStockEntity)
+				.set({ stockOnHand: () => `GREATEST(0, "stockOnHand" - ${take})` })
+				.where("id = :id", { id: row.id })
+				.execute();
+
+			remaining -= take;
+			if (take > mainTaken) {
+				mainTaken = take;
+				mainWarehouseId = row.warehouseId;
+			}
+		}
+
+		return mainWarehouseId;
+	}
+
+	/**
+	 * Removes stock from one specific warehouse (no fallback to other warehouses or to the unallocated stock).
+	 * Fails when the warehouse does not hold the full quantity.
+	 */
+	async take(
+		manager: EntityManager,
+		params: { adminId: string; variantId: string; warehouseId: string; quantity: number; sku?: string; warehouseName?: string },
+	) {
+		const { adminId, variantId, warehouseId, quantity } = params;
+		if (!(quantity > 0)) return;
+
+		const repo = manager.getRepository(VariantWarehouseStockEntity);
+		const row = await repo.findOne({
+			where: { adminId, variantId, warehouseId },
+			lock: { mode: "pessimistic_write" },
+		});
+
+		const available = row?.stockOnHand ?? 0;
+		if (!row || available < quantity) {
+			throw new BadRequestException(
+				this.translations.t("domains.warehouses.insufficient_stock", {
+					args: { sku: params.sku ?? variantId, warehouse: params.warehouseName ?? warehouseId, available },
+				}),
+			);
+		}
+
+		await manager
+			.createQueryBuilder()
+			.update(VariantWarehouseStockEntity)
+			.set({ stockOnHand: () => `"stockOnHand" - ${quantity}` })
+			.where("id = :id", { id: row.id })
+			.execute();
+	}
+
+	/**
+	 * Applies a signed correction to one warehouse row. Negative corrections never take the row below zero.
+	 * Returns the delta that was actually applied.
+	 */
+	async adjust(manager: EntityManager, params: { adminId: string; variantId: string; warehouseId: string; delta: number }) {
+		const { adminId, variantId, warehouseId, delta } = params;
+		if (!warehouseId || !delta) return 0;
+
+		if (delta > 0) {
+			await this.increase(manager, { adminId, variantId, warehouseId, quantity: delta });
+			return delta;
+		}
+
+		const row = await manager.getRepository(VariantWarehouseStockEntity).findOne({
+			where: { adminId, variantId, warehouseId },
+			lock: { mode: "pessimistic_write" },
+		});
+		const take = Math.min(row?.stockOnHand ?? 0, -delta);
+		if (take <= 0) return 0;
+
+		await manager
+			.createQueryBuilder()
+			.update(VariantWarehouseStockEntity)
+			.set({ stockOnHand: () => `"stockOnHand" - ${take}` })
+			.where("id = :id", { id: row.id })
+			.execute();
+
+		return -take;
+	}
+
+	async getWarehouseQuantity(adminId: string, variantId: string, warehouseId: string, manager?: EntityManager) {
+		const repo = manager ? manager.getRepository(VariantWarehouseStockEntity) : this.stockRepo;
+		const row = await repo.findOne({ where: { adminId, variantId, warehouseId } });
+		return row?.stockOnHand ?? 0;
+	}
+
+	/** Per-warehouse quantities grouped by variant id. */
+	async getQuantitiesForVariants(adminId: string, variantIds: string[], manager?: EntityManager): Promise<Map<string, WarehouseStockRow[]>> {
+		const map = new Map<string, WarehouseStockRow[]>();
+		if (!adminId || !variantIds?.length) return map;
+
+		const repo = manager ? manager.getRepository(VariantWarehouseStockEntity) : this.stockRepo;
+		const rows = await repo.find({
+			where: { adminId, variantId: In(variantIds) },
+			relations: ["warehouse"],
+			order: { created_at: "ASC" },
+		});
+
+		for (const r of rows) {
+			const arr = map.get(r.variantId) ?? [];
+			arr.push({
+				warehouseId: r.warehouseId,
+				warehouseName: r.warehouse?.name ?? null,
+				storageLocationId: r.storageLocationId ?? null,
+				stockOnHand: r.stockOnHand,
+			});
+			map.set(r.variantId, arr);
+		}
+
+		return map;
+	}
+
+	/** Totals per warehouse for a set of products (used by the product stock summaries). */
+	async getTotalsForProducts(adminId: string, productIds: string[]) {
+		if (!adminId || !productIds?.length) return [];
+
+		const rows = await this.stockRepo
+			.createQueryBuilder("ws")
+			.innerJoin("ws.variant", "pv")
+			.innerJoin("ws.warehouse", "w")
+			.select("pv.productId", "productId")
+			.addSelect("ws.warehouseId", "warehouseId")
+			.addSelect("w.name", "warehouseName")
+			.addSelect("COALESCE(SUM(ws.stockOnHand), 0)", "stockOnHand")
+			.where("ws.adminId = :adminId", { adminId })
+			.andWhere("pv.productId IN (:...ids)", { ids: productIds })
+			.groupBy("pv.productId")
+			.addGroupBy("ws.warehouseId")
+			.addGroupBy("w.name")
+			.getRawMany();
+
+		return rows.map((r) => ({
+			productId: r.productId,
+			warehouseId: r.warehouseId,
+			warehouseName: r.warehouseName,
+			stockOnHand: Number(r.stockOnHand || 0),
+		}));
+	}
+
+	/** Totals per warehouse for the whole tenant. */
+	async getTenantTotals(adminId: string) {
+		const rows = await this.warehousesRepo
+			.createQueryBuilder("w")
+			.leftJoin(VariantWarehouseStockEntity, "ws", "ws.warehouseId = w.id")
+			.select("w.id", "warehouseId")
+			.addSelect("w.name", "warehouseName")
+			.addSelect("COALESCE(SUM(ws.stockOnHand), 0)", "stockOnHand")
+			.addSelect("COUNT(ws.id) FILTER (WHERE ws.stockOnHand > 0)", "skuCount")
+			.where("w.adminId = :adminId", { adminId })
+			.groupBy("w.id")
+			.addGroupBy("w.name")
+			.orderBy("w.name", "ASC")
+			.getRawMany();
+
+		return rows.map((r) => ({
+			warehouseId: r.warehouseId,
+			warehouseName: r.warehouseName,
+			stockOnHand: Number(r.stockOnHand || 0),
+			skuCount: Number(r.skuCount || 0),
+		}));
+	}
+
+	async listWarehouseStock(me: any, warehouseId: string, q?: any) {
+		const adminId = tenantId(me);
+		await this.assertOwned(adminId, warehouseId);
+
+		const page = Number(q?.page ?? 1);
+		const limit = Number(q?.limit ?? 10);
+
+		const qb = this.stockRepo
+			.createQueryBuilder("ws")
+			.leftJoinAndSelect("ws.variant", "variant")
+			.leftJoinAndSelect("variant.product", "product")
+			.leftJoinAndSelect("ws.storageLocation", "storageLocation")
+			.where("ws.adminId = :adminId", { adminId })
+			.andWhere("ws.warehouseId = :warehouseId", { warehouseId })
+			.orderBy("ws.updated_at", "DESC");
+
+		if (q?.search?.trim()) {
+			const search = `%${String(q.search).trim().toLowerCase()}%`;
+			qb.andWhere("(LOWER(variant.sku) LIKE :search OR LOWER(product.name) LIKE :search)", { search });
+		}
+
+		if (q?.inStock === "true" || q?.inStock === true) {
+			qb.andWhere("ws.stockOnHand > 0");
+		}
+
+		const [records, total] = await qb
+			.skip((page - 1) * limit)
+			.take(limit)
+			.getManyAndCount();
+
+		return {
+			total_records: total,
+			current_page: page,
+			per_page: limit,
+			records,
+		};
+	}
+
+	/**
+	 * Sets how much of a variant's stock sits in a warehouse (and optionally in which bin).
+	 * This only moves stock between "unallocated" and the warehouse, the variant total is unchanged.
+	 */
+	async setWarehouseStock(me: any, warehouseId: string, variantId: string, dto: SetWarehouseStockDto) {
+		const adminId = tenantId(me);
+		await this.assertOwned(adminId, warehouseId);
+
+		return this.stockRepo.manager.transaction(async (manager) => {
+			const variant = await manager.getRepository(ProductVariantEntity).findOne({
+				where: { id: variantId, adminId },
+				lock: { mode: "pessimistic_write" },
+			});
+			if (!variant) throw new BadRequestException(this.translations.t("domains.warehouses.variant_not_found"));
+
+			if (dto.storageLocationId) {
+				const location = await manager.getRepository(StorageLocationEntity).findOne({
+					where: { id: dto.storageLocationId, adminId, warehouseId },
+				});
+				if (!location) throw new BadRequestException(this.translations.t("domains.warehouses.location_not_found"));
+			}
+
+			const repo = manager.getRepository(VariantWarehouseStockEntity);
+			const rows = await repo.find({ where: { adminId, variantId } });
+			const allocatedElsewhere = rows
+				.filter((r) => r.warehouseId !== warehouseId)
+				.reduce((sum, r) => sum + (r.stockOnHand || 0), 0);
+
+			const maxAllowed = Math.max(0, (variant.stockOnHand || 0) - allocatedElsewhere);
+			if (dto.stockOnHand > maxAllowed) {
+				throw new BadRequestException(
+					this.translations.t("domains.warehouses.stock_exceeds_unallocated", { args: { sku: variant.sku ?? variant.id, available: maxAllowed } }),
+				);
+			}
+
+			let row = rows.find((r) => r.warehouseId === warehouseId);
+			if (!row) row = repo.create({ adminId, variantId, warehouseId });
+
+			row.stockOnHand = dto.stockOnHand;
+			if (dto.storageLocationId !== undefined) row.storageLocationId = dto.storageLocationId || null;
+
+			return repo.save(row);
+		});
+	}
+
+	private async assertOwned(adminId: string, warehouseId: string) {
+		const warehouse = await this.warehousesRepo.findOne({ where: { id: warehouseId, adminId } });
+		if (!warehouse) throw new BadRequestException(this.translations.t("domains.warehouses.not_found"));
+		return warehouse;
+	}
+}
@@ -5,16 +5,21 @@ import { Permissions } from "common/permissions.decorator";
 import { RequireSubscription } from "common/require-subscription.decorator";
 import { SubscriptionGuard } from "common/subscription.guard";
 import { WarehousesService } from "./warehouse.service";
-import { CreateWarehouseDto, UpdateWarehouseDto } from "dto/warehouse.dto";
+import { CreateWarehouseDto, SetWarehouseStockDto, UpdateWarehouseDto } from "dto/warehouse.dto";
+import { WarehouseStockService } from "./warehouse-stock.service";
 import { CreateStorageLocationDto, UpdateStorageLocationDto } from "dto/storage-location.dto";
 import { PrivateGuard } from "common/private.guard";
 import { Response } from "express";
+import { tenantId } from "../category/category.service";
 
 @UseGuards(JwtAuthGuard, PermissionsGuard, SubscriptionGuard)
 @Controller("warehouses")
 @RequireSubscription()
 export class WarehousesController {
-	constructor(private wh: WarehousesService) { }
+	constructor(
+		private wh: WarehousesService,
+		private whStock: WarehouseStockService,
+	) { }
 
 	@Permissions("warehouses.read")
 	@Get()
@@ -58,6 +63,29 @@ export class WarehousesController {
 		res.send(buffer);
 	}
 
+	@Permissions("warehouses.read")
+	@Get("stock/totals")
+	stockTotals(@Req() req: any) {
+		return this.whStock.getTenantTotals(tenantId(req.user));
+	}
+
+	@Permissions("warehouses.read")
+	@Get(":id/stock")
+	listStock(@Req() req: any, @Param("id") id: string, @Query() q: any) {
+		return this.whStock.listWarehouseStock(req.user, id, q);
+	}
+
+	@Permissions("warehouses.update")
+	@Patch(":id/stock/:variantId")
+	setStock(
+		@Req() req: any,
+		@Param("id") id: string,
+		@Param("variantId") variantId: string,
+		@Body() dto: SetWarehouseStockDto
+	) {
+		return this.whStock.setWarehouseStock(req.user, id, variantId, dto);
+	}
+
 	@Permissions("warehouses.read")
 	@Get(":id")
 	get(@Req() req: any, @Param("id") id: string) {
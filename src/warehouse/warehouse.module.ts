@@ -3,11 +3,13 @@ import { TypeOrmModule } from "@nestjs/typeorm";
 import { StorageLocationEntity, WarehouseEntity } from "entities/warehouses.entity";
 import { WarehousesService } from "./warehouse.service";
 import { WarehousesController } from "./warehouse.controller";
+import { WarehouseStockService } from "./warehouse-stock.service";
+import { VariantWarehouseStockEntity } from "entities/sku.entity";
 
 @Module({
-  imports: [TypeOrmModule.forFeature([WarehouseEntity, StorageLocationEntity])],
-  providers: [WarehousesService],
+  imports: [TypeOrmModule.forFeature([WarehouseEntity, StorageLocationEntity, VariantWarehouseStockEntity])],
+  providers: [WarehousesService, WarehouseStockService],
   controllers: [WarehousesController],
-  exports: [WarehousesService],
+  exports: [WarehousesService, WarehouseStockService],
 })
 export class WarehousesModule {}
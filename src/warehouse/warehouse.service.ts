@@ -1,6 +1,6 @@
 import { BadRequestException, ForbiddenException, Injectable } from "@nestjs/common";
 import { InjectRepository } from "@nestjs/typeorm";
-import { Repository } from "typeorm";
+import { EntityManager, Repository } from "typeorm";
 import { STORAGE_LOCATION_CHILDREN, StorageLocationEntity, StorageLocationType, WarehouseEntity } from "entities/warehouses.entity";
 import { CreateWarehouseDto, UpdateWarehouseDto } from "dto/warehouse.dto";
 import { CreateStorageLocationDto, UpdateStorageLocationDto } from "dto/storage-location.dto";
@@ -216,6 +216,24 @@ export class WarehousesService {
 		return parent;
 	}
 
+	/** Ids of a location and all of its descendants (zone → racks → shelves → bins). */
+	async getLocationSubtreeIds(adminId: string, warehouseId: string, locationId: string, manager?: EntityManager): Promise<string[]> {
+		const runner = manager ?? this.locationsRepo.manager;
+		const rows = await runner.query(
+			`WITH RECURSIVE tree AS (
+				SELECT l.id FROM "storage_locations" l
+				WHERE l.id = $1 AND l."adminId" = $2 AND l."warehouseId" = $3
+				UNION ALL
+				SELECT c.id FROM "storage_locations" c
+				INNER JOIN tree t ON c."parentId" = t.id
+			)
+			SELECT id FROM tree`,
+			[locationId, adminId, warehouseId],
+		);
+		if (!rows.length) throw new BadRequestException(this.translations.t("domains.warehouses.location_not_found"));
+		return rows.map((r: any) => r.id);
+	}
+
 	async listLocations(me: any, q?: any) {
 		const adminId = tenantId(me);
 		const page = q?.page ?? 1;